@@ -0,0 +1,111 @@
+import { format } from 'date-fns';
+import type { BreakerAccount, CircuitBreakerStatus } from '../types';
+import './CircuitBreakerPanel.css';
+
+interface CircuitBreakerPanelProps {
+  status?: CircuitBreakerStatus;
+  maxDrawdown?: number;
+  onRearm: (account: BreakerAccount) => void;
+  rearmingAccount?: BreakerAccount | null;
+}
+
+const formatUsd = (value: number | null) =>
+  value === null
+    ? '-'
+    : `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`;
+
+// Trip times are stored as SQLite UTC timestamps
+const formatTime = (value: string) => {
+  try {
+    return format(new Date(value.replace(' ', 'T') + 'Z'), 'MM-dd HH:mm:ss');
+  } catch {
+    return value;
+  }
+};
+
+export const CircuitBreakerPanel = ({
+  status,
+  maxDrawdown,
+  onRearm,
+  rearmingAccount,
+}: CircuitBreakerPanelProps) => {
+  if (!status) {
+    return <div className="breaker-empty">Loading...</div>;
+  }
+
+  return (
+    <div className="breaker">
+      <div className="breaker-accounts">
+        {status.states.map((state) => (
+          <div
+            key={state.account}
+            className={`breaker-account ${state.status === 'TRIPPED' ? 'tripped' : 'armed'}`}
+          >
+            <div className="breaker-account-header">
+              <span className="breaker-account-name">{state.account}</span>
+              <span className="breaker-status">{state.status}</span>
+            </div>
+            <div className="breaker-figures">
+              <span>Equity {formatUsd(state.equity)}</span>
+              <span>Peak {formatUsd(state.peak_equity)}</span>
+              <span>
+                Drawdown {formatUsd(state.drawdown)}
+                {maxDrawdown ? ` / ${formatUsd(maxDrawdown)}` : ' (no limit)'}
+              </span>
+            </div>
+            {state.status === 'TRIPPED' && (
+              <div className="breaker-actions">
+                <span className="breaker-cooldown">
+                  {state.cooldown_until
+                    ? `Re-arms at ${format(new Date(state.cooldown_until), 'MM-dd HH:mm')}`
+                    : 'Waiting for a manual re-arm'}
+                </span>
+                <button
+                  className="breaker-rearm"
+                  onClick={() => onRearm(state.account)}
+                  disabled={rearmingAccount === state.account}
+                >
+                  {rearmingAccount === state.account ? '...' : 'RE-ARM'}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {status.trips.length === 0 ? (
+        <div className="breaker-empty">No trips recorded</div>
+      ) : (
+        <table className="breaker-trips">
+          <thead>
+            <tr>
+              <th>Tripped</th>
+              <th>Account</th>
+              <th>Cause</th>
+              <th>Flattened</th>
+              <th>Re-armed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {status.trips.map((trip) => (
+              <tr key={trip.id}>
+                <td>{formatTime(trip.tripped_at)}</td>
+                <td>{trip.account}</td>
+                <td>{trip.cause}</td>
+                <td>{trip.flattened_positions}</td>
+                <td>
+                  {trip.rearmed_at
+                    ? `${formatTime(trip.rearmed_at)} (${trip.rearmed_by})`
+                    : 'Halted'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -8,6 +8,7 @@ import { PnLChart } from './PnLChart';
 import { PositionsTable } from './PositionsTable';
 import { OrdersTable } from './OrdersTable';
 import { TradingControls } from './TradingControls';
+import { CircuitBreakerPanel } from './CircuitBreakerPanel';
 import {
   WalletIcon,
   TrendingUpIcon,
@@ -20,6 +21,7 @@ import {
 } from './icons';
 import { apiClient } from '../lib/api';
 import { useTradingType } from '../contexts/TradingTypeContext';
+import type { BreakerAccount, TrailingStopInput } from '../types';
 import './Dashboard.css';
 
 export const Dashboard = () => {
@@ -69,6 +71,18 @@ export const Dashboard = () => {
     refetchInterval: 5000,
   });
 
+  const { data: circuitBreaker } = useQuery({
+    queryKey: ['circuitBreaker'],
+    queryFn: apiClient.getCircuitBreaker,
+    refetchInterval: 10000,
+  });
+
+  const { data: riskConfig } = useQuery({
+    queryKey: ['riskConfig'],
+    queryFn: apiClient.getRiskConfig,
+    refetchInterval: 10000,
+  });
+
   // Close position mutation
   const closePositionMutation = useMutation({
     mutationFn: (positionId: string) => apiClient.closePosition(positionId),
@@ -111,6 +125,82 @@ Are you sure you want to close this position?`;
     }
   };
 
+  const trailingStopMutation = useMutation({
+    mutationFn: ({ positionId, input }: { positionId: string; input: TrailingStopInput | null }) =>
+      input
+        ? apiClient.setTrailingStop(positionId, input)
+        : apiClient.clearTrailingStop(positionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+    onError: (error) => {
+      console.error('Failed to update trailing stop:', error);
+      alert('Failed to update trailing stop: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    },
+  });
+
+  const rearmMutation = useMutation({
+    mutationFn: (account: BreakerAccount) => apiClient.rearmCircuitBreaker(account),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['circuitBreaker'] });
+    },
+    onError: (error) => {
+      console.error('Failed to re-arm circuit breaker:', error);
+      alert(
+        'Failed to re-arm circuit breaker: ' +
+          (error instanceof Error ? error.message : 'Unknown error')
+      );
+    },
+  });
+
+  const handleRearm = (account: BreakerAccount) => {
+    if (
+      confirm(
+        `Re-arm the ${account} circuit breaker?\n\nNew entries resume and drawdown is measured from the current equity.`
+      )
+    ) {
+      rearmMutation.mutate(account);
+    }
+  };
+
+  const handleTrailingStop = (positionId: string) => {
+    const position = positions.find(p => p.id === positionId);
+    if (!position) return;
+
+    const current = position.trailing_stop_percent
+      ? `${position.trailing_stop_percent}%`
+      : position.trailing_stop_amount
+        ? String(position.trailing_stop_amount)
+        : '';
+
+    const answer = prompt(
+      `Trailing stop for ${position.symbol}
+
+Callback as a percent (e.g. 1.5%) or as a price distance (e.g. 200).
+Leave empty to stop trailing - the stop stays where it is.`,
+      current
+    );
+    if (answer === null) return;
+
+    const value = answer.trim();
+    if (!value) {
+      trailingStopMutation.mutate({ positionId, input: null });
+      return;
+    }
+
+    const amount = parseFloat(value);
+    if (!(amount > 0)) {
+      alert('Enter a positive number, optionally followed by %');
+      return;
+    }
+
+    trailingStopMutation.mutate({
+      positionId,
+      input: value.endsWith('%') ? { percent: amount } : { amount },
+    });
+  };
+
   const handleToggleTrading = async () => {
     try {
       await apiClient.updateConfig({
@@ -223,6 +313,25 @@ Are you sure you want to close this position?`;
           </Panel>
         </div>
 
+        {/* Drawdown Circuit Breaker */}
+        <Panel
+          title="Circuit Breaker"
+          icon={<ControlIcon />}
+          action={
+            <span className="panel-meta">
+              {circuitBreaker?.states.some((s) => s.status === 'TRIPPED') ? 'HALTED' : 'ARMED'}
+            </span>
+          }
+          delay={0.5}
+        >
+          <CircuitBreakerPanel
+            status={circuitBreaker}
+            maxDrawdown={riskConfig?.maxDrawdown}
+            onRearm={handleRearm}
+            rearmingAccount={rearmMutation.isPending ? rearmMutation.variables : null}
+          />
+        </Panel>
+
         {/* Order List */}
         <Panel
           title={`Order List (${tradingType})`}
@@ -240,7 +349,12 @@ Are you sure you want to close this position?`;
           action={<span className="panel-meta">{openPositionsCount} active</span>}
           delay={0.6}
         >
-          <PositionsTable positions={filteredPositions} onClose={handleClosePosition} closingPositionId={closingPositionId} />
+          <PositionsTable
+            positions={filteredPositions}
+            onClose={handleClosePosition}
+            onTrailingStop={handleTrailingStop}
+            closingPositionId={closingPositionId}
+          />
         </Panel>
 
         {/* Footer */}
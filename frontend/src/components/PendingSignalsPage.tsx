@@ -1,14 +1,20 @@
 import { useState, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { apiClient } from '../lib/api';
+import { apiClient, getApiErrorMessage } from '../lib/api';
+import type { PendingSignal, RiskPreview } from '../types';
 import { Background } from './Background';
 import { Panel } from './Panel';
 import { ClockIcon } from './icons';
+import { SignalRiskPreview } from './SignalRiskPreview';
 import { formatShortDateTimeGMT7 } from '../utils/timeFormat';
 import { useTradingType } from '../contexts/TradingTypeContext';
 import './PendingSignalsPage.css';
 
+// Reasons of the soft risk limits an approval overrode
+const overriddenLimits = (signal: PendingSignal): string[] =>
+  signal.overridden_limits ? JSON.parse(signal.overridden_limits) : [];
+
 export default function PendingSignalsPage() {
   const queryClient = useQueryClient();
   const { tradingType } = useTradingType();
@@ -57,6 +63,10 @@ export default function PendingSignalsPage() {
       queryClient.invalidateQueries({ queryKey: ['pendingSignals'] });
       queryClient.invalidateQueries({ queryKey: ['pendingSignalsCount'] });
     },
+    onError: (error) => {
+      console.error('Failed to approve signal:', error);
+      alert('Failed to approve signal: ' + getApiErrorMessage(error));
+    },
   });
 
   // Reject mutation
@@ -69,8 +79,26 @@ export default function PendingSignalsPage() {
   });
 
   const handleApprove = (id: string) => {
+    // Overriding soft risk limits needs a justification, which is recorded with the approval
+    const preview = queryClient.getQueryData<RiskPreview>(['riskPreview', id]);
+    const softLimits = preview?.riskManagementEnabled
+      ? preview.violations.filter((violation) => violation.tier === 'soft')
+      : [];
+
+    if (softLimits.length > 0) {
+      const justification = prompt(
+        `This signal breaks soft risk limits:\n\n${softLimits
+          .map((violation) => `- ${violation.reason}`)
+          .join('\n')}\n\nJustify overriding them to approve and execute the order:`
+      );
+      if (justification !== null) {
+        approveMutation.mutate({ id, justification });
+      }
+      return;
+    }
+
     if (confirm('Approve this signal and execute the order?')) {
-      approveMutation.mutate(id);
+      approveMutation.mutate({ id });
     }
   };
 
@@ -188,6 +216,25 @@ export default function PendingSignalsPage() {
                           )}
                         </td>
                       </motion.tr>
+                      {signal.status === 'pending' && (
+                        <SignalRiskPreview
+                          key={`${signal.id}-risk`}
+                          signalId={signal.id}
+                          colSpan={9}
+                        />
+                      )}
+                      {signal.override_justification && (
+                        <tr className="override-row" key={`${signal.id}-override`}>
+                          <td colSpan={9} className="override-cell">
+                            <span className="override-label">OVERRIDE</span>
+                            <span className="override-text">
+                              {signal.override_justification}
+                              {overriddenLimits(signal).length > 0 &&
+                                ` (${overriddenLimits(signal).join('; ')})`}
+                            </span>
+                          </td>
+                        </tr>
+                      )}
                       {signal.status === 'failed' && signal.error_message && (
                         <tr className="error-row" key={`${signal.id}-error`}>
                           <td colSpan={9} className="error-cell">
@@ -6,10 +6,16 @@ import './PositionsTable.css';
 interface PositionsTableProps {
   positions: Position[];
   onClose?: (positionId: string) => void;
+  onTrailingStop?: (positionId: string) => void;
   closingPositionId?: string | null;
 }
 
-export const PositionsTable = ({ positions, onClose, closingPositionId }: PositionsTableProps) => {
+export const PositionsTable = ({
+  positions,
+  onClose,
+  onTrailingStop,
+  closingPositionId,
+}: PositionsTableProps) => {
   const formatPrice = (price: number) => `$${price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
   const formatPnL = (pnl: number, percent?: number) => {
     const sign = pnl >= 0 ? '+' : '';
@@ -17,6 +23,16 @@ export const PositionsTable = ({ positions, onClose, closingPositionId }: Positi
     return `${sign}${formatPrice(pnl)}${percentStr}`;
   };
 
+  const formatTrailing = (position: Position) => {
+    const callback = position.trailing_stop_percent
+      ? `${position.trailing_stop_percent}%`
+      : formatPrice(position.trailing_stop_amount!);
+    if (position.trailing_extreme_price == null) {
+      return `trail ${callback} from ${formatPrice(position.trailing_activation_price!)}`;
+    }
+    return `trail ${callback}${position.trailing_native ? ' (exchange)' : ''}`;
+  };
+
   const formatTime = (dateString: string) => {
     try {
       // Convert to GMT+7 (Vietnam timezone)
@@ -42,6 +58,8 @@ export const PositionsTable = ({ positions, onClose, closingPositionId }: Positi
             <th>Current Price</th>
             <th>Quantity</th>
             <th>P&L</th>
+            <th>Stop Loss</th>
+            <th>Take Profit</th>
             <th>Time</th>
             <th>Action</th>
           </tr>
@@ -88,8 +106,42 @@ export const PositionsTable = ({ positions, onClose, closingPositionId }: Positi
                     ? formatPnL(position.unrealizedPnL, pnlPercent)
                     : '-'}
                 </td>
-                <td className="time-cell">{formatTime(position.opened_at)}</td>
                 <td>
+                  {position.stop_loss_price ? formatPrice(position.stop_loss_price) : '-'}
+                  {(position.trailing_stop_percent || position.trailing_stop_amount) && (
+                    <div className="trailing-stop">{formatTrailing(position)}</div>
+                  )}
+                </td>
+                <td>
+                  {position.take_profits && position.take_profits.length > 0 ? (
+                    <div className="take-profit-targets">
+                      {position.take_profits.map((target) => (
+                        <span
+                          key={target.id}
+                          className={`take-profit-target ${target.status.toLowerCase()}`}
+                          title={
+                            target.error_message ||
+                            `${target.status} - ${target.filled_quantity}/${target.quantity}`
+                          }
+                        >
+                          {formatPrice(target.price)} ({target.allocation}%)
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    '-'
+                  )}
+                </td>
+                <td className="time-cell">{formatTime(position.opened_at)}</td>
+                <td className="actions-cell">
+                  {onTrailingStop && (
+                    <button
+                      className="action-button trail"
+                      onClick={() => onTrailingStop(position.id)}
+                    >
+                      TRAIL
+                    </button>
+                  )}
                   {onClose && (
                     <button
                       className="action-button"
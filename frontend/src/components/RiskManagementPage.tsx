@@ -2,10 +2,11 @@ import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
 import { apiClient } from '../lib/api';
-import type { RiskConfig } from '../types';
+import type { RiskConfig, Strategy, StrategyRiskLimits } from '../types';
 import { Background } from './Background';
 import { Panel } from './Panel';
 import { GridIcon } from './icons';
+import { StrategyRiskLimitsFields } from './StrategyRiskLimitsFields';
 import { useTradingType } from '../contexts/TradingTypeContext';
 import './RiskManagementPage.css';
 
@@ -60,6 +61,41 @@ const riskParameters: RiskParameter[] = [
     format: (value: number) => `${value}%`,
     valueClass: () => 'value-normal',
   },
+  {
+    key: 'maxLeverage',
+    name: 'Max Leverage',
+    description: 'Futures entries are rejected when their strategy leverage is higher',
+    format: (value: number) => `${value}x`,
+    valueClass: (value: number) => (value > 20 ? 'value-danger' : 'value-normal'),
+  },
+  {
+    key: 'maxNotional',
+    name: 'Max Notional',
+    description: 'Largest notional of a futures entry (margin times leverage)',
+    format: (value: number) => (value > 0 ? `$${value.toLocaleString()}` : 'OFF'),
+    valueClass: () => 'value-normal',
+  },
+  {
+    key: 'maxDrawdown',
+    name: 'Max Drawdown',
+    description: 'Circuit breaker halts new entries when equity falls this far below its peak',
+    format: (value: number) => (value > 0 ? `$${value.toLocaleString()}` : 'OFF'),
+    valueClass: (value: number) => (value > 0 ? 'value-warning' : 'value-normal'),
+  },
+  {
+    key: 'drawdownFlattenPositions',
+    name: 'Flatten On Trip',
+    description: 'Close all open positions when the circuit breaker trips',
+    format: (value: boolean) => (value ? 'ENABLED' : 'DISABLED'),
+    valueClass: () => '',
+  },
+  {
+    key: 'drawdownCooldownMinutes',
+    name: 'Breaker Cooldown',
+    description: 'Re-arm the circuit breaker after this long, otherwise only by hand',
+    format: (value: number) => (value > 0 ? `${value} min` : 'MANUAL'),
+    valueClass: () => 'value-normal',
+  },
 ];
 
 export default function RiskManagementPage() {
@@ -67,6 +103,8 @@ export default function RiskManagementPage() {
   const { tradingType } = useTradingType();
   const [showEditModal, setShowEditModal] = useState(false);
   const [formData, setFormData] = useState<RiskConfig | null>(null);
+  const [editingStrategy, setEditingStrategy] = useState<Strategy | null>(null);
+  const [strategyLimits, setStrategyLimits] = useState<Partial<StrategyRiskLimits>>({});
 
   // Fetch risk config
   const { data: riskConfig, isLoading, error } = useQuery({
@@ -75,6 +113,12 @@ export default function RiskManagementPage() {
     refetchInterval: 10000,
   });
 
+  const { data: strategies = [] } = useQuery({
+    queryKey: ['strategies'],
+    queryFn: apiClient.getStrategies,
+    refetchInterval: 10000,
+  });
+
   console.log('RiskManagementPage render:', { riskConfig, isLoading, error });
 
   // Update risk config mutation
@@ -105,6 +149,36 @@ export default function RiskManagementPage() {
     },
   });
 
+  // Update a strategy's risk budget
+  const strategyLimitsMutation = useMutation({
+    mutationFn: ({ id, limits }: { id: string; limits: Partial<StrategyRiskLimits> }) =>
+      apiClient.updateStrategy(id, limits),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['strategies'] });
+      setEditingStrategy(null);
+    },
+    onError: (error) => {
+      alert(
+        'Failed to update strategy limits: ' +
+          (error instanceof Error ? error.message : 'Unknown error')
+      );
+    },
+  });
+
+  const handleEditStrategyLimits = (strategy: Strategy) => {
+    setEditingStrategy(strategy);
+    setStrategyLimits({
+      max_position_size_percent: strategy.max_position_size_percent,
+      max_open_positions: strategy.max_open_positions,
+      max_daily_loss: strategy.max_daily_loss,
+      default_position_size_percent: strategy.default_position_size_percent,
+      default_stop_loss_percent: strategy.default_stop_loss_percent,
+    });
+  };
+
+  const formatLimit = (value: number | null, format: (value: number) => string, unset: string) =>
+    value === null ? <span className="risk-limit-unset">{unset}</span> : format(value);
+
   const handleToggleEnabled = () => {
     console.log('handleToggleEnabled called, current riskConfig:', riskConfig);
     if (!riskConfig) {
@@ -148,6 +222,11 @@ export default function RiskManagementPage() {
       maxDailyLoss: formData.maxDailyLoss,
       enableStopLoss: formData.enableStopLoss,
       defaultStopLossPercent: formData.defaultStopLossPercent,
+      maxLeverage: formData.maxLeverage,
+      maxNotional: formData.maxNotional,
+      maxDrawdown: formData.maxDrawdown,
+      drawdownFlattenPositions: formData.drawdownFlattenPositions,
+      drawdownCooldownMinutes: formData.drawdownCooldownMinutes,
       enabled: formData.enabled,
     });
   };
@@ -237,10 +316,10 @@ export default function RiskManagementPage() {
                         marginBottom: '0.25rem',
                       }}
                     >
-                      RISK MANAGEMENT DISABLED
+                      TRADING STOPPED
                     </h3>
                     <p style={{ color: 'var(--text-secondary)', fontSize: '0.9rem', margin: 0 }}>
-                      All risk checks are currently bypassed. Orders will execute without validation against risk limits.
+                      New entries and signal approvals are rejected. Closes still execute, checked against the hard limits only.
                     </p>
                   </div>
                 </motion.div>
@@ -294,7 +373,8 @@ export default function RiskManagementPage() {
                       >
                         <td className="risk-param-name">{param.name}</td>
                         <td>
-                          {param.key === 'enableStopLoss' ? (
+                          {param.key === 'enableStopLoss' ||
+                          param.key === 'drawdownFlattenPositions' ? (
                             <span
                               className={`risk-status-badge ${
                                 riskConfig?.[param.key] ? 'enabled' : 'disabled'
@@ -341,6 +421,69 @@ export default function RiskManagementPage() {
             </>
           )}
         </Panel>
+
+        {/* Per-strategy risk budgets */}
+        <Panel title="Strategy Risk Limits" icon={<GridIcon />} delay={0.2}>
+          {strategies.length === 0 ? (
+            <div className="risk-loading">
+              <div className="loading-text" style={{ color: 'var(--text-muted)' }}>
+                No strategies
+              </div>
+            </div>
+          ) : (
+            <div className="risk-table-container">
+              <table className="risk-table">
+                <thead>
+                  <tr>
+                    <th>Strategy</th>
+                    <th>Max Position</th>
+                    <th>Max Open</th>
+                    <th>Max Daily Loss</th>
+                    <th>Default Size</th>
+                    <th>Default Stop</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {strategies.map((strategy) => (
+                    <tr key={strategy.id}>
+                      <td className="risk-param-name">{strategy.name}</td>
+                      <td>
+                        {formatLimit(strategy.max_position_size_percent, (v) => `${v}%`, 'Global')}
+                      </td>
+                      <td>{formatLimit(strategy.max_open_positions, String, 'No limit')}</td>
+                      <td>
+                        {formatLimit(
+                          strategy.max_daily_loss,
+                          (v) => `$${v.toLocaleString()}`,
+                          'Global'
+                        )}
+                      </td>
+                      <td>
+                        {formatLimit(
+                          strategy.default_position_size_percent,
+                          (v) => `${v}%`,
+                          'Global'
+                        )}
+                      </td>
+                      <td>
+                        {formatLimit(strategy.default_stop_loss_percent, (v) => `${v}%`, 'Global')}
+                      </td>
+                      <td>
+                        <button
+                          onClick={() => handleEditStrategyLimits(strategy)}
+                          className="panel-action-button"
+                        >
+                          EDIT
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Panel>
       </div>
 
       {/* Edit Modal */}
@@ -528,6 +671,102 @@ export default function RiskManagementPage() {
                   />
                 </div>
 
+                {/* Max Leverage */}
+                <div className="form-group">
+                  <label>Max Leverage (x)</label>
+                  <input
+                    type="number"
+                    step="1"
+                    min="1"
+                    max="125"
+                    value={formData.maxLeverage}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        maxLeverage: parseFloat(e.target.value),
+                      })
+                    }
+                    className="form-input"
+                    required
+                  />
+                </div>
+
+                {/* Max Notional */}
+                <div className="form-group">
+                  <label>Max Futures Notional (USD, 0 = no limit)</label>
+                  <input
+                    type="number"
+                    step="100"
+                    min="0"
+                    value={formData.maxNotional}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        maxNotional: parseFloat(e.target.value),
+                      })
+                    }
+                    className="form-input"
+                    required
+                  />
+                </div>
+
+                {/* Max Drawdown */}
+                <div className="form-group">
+                  <label>Max Drawdown (USD, 0 = off)</label>
+                  <input
+                    type="number"
+                    step="10"
+                    min="0"
+                    value={formData.maxDrawdown}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        maxDrawdown: parseFloat(e.target.value),
+                      })
+                    }
+                    className="form-input"
+                    required
+                  />
+                </div>
+
+                {/* Flatten On Trip */}
+                <div className="form-group-checkbox">
+                  <input
+                    type="checkbox"
+                    id="drawdownFlattenPositions"
+                    checked={formData.drawdownFlattenPositions}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        drawdownFlattenPositions: e.target.checked,
+                      })
+                    }
+                    className="form-checkbox"
+                  />
+                  <label htmlFor="drawdownFlattenPositions">
+                    Close all positions when the circuit breaker trips
+                  </label>
+                </div>
+
+                {/* Breaker Cooldown */}
+                <div className="form-group">
+                  <label>Breaker Cooldown (minutes, 0 = manual re-arm)</label>
+                  <input
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={formData.drawdownCooldownMinutes}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        drawdownCooldownMinutes: parseFloat(e.target.value),
+                      })
+                    }
+                    className="form-input"
+                    required
+                  />
+                </div>
+
                 {/* Buttons */}
                 <div className="modal-buttons">
                   <button
@@ -553,6 +792,61 @@ export default function RiskManagementPage() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Strategy Limits Modal */}
+      <AnimatePresence>
+        {editingStrategy && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="modal-overlay"
+            onClick={() => setEditingStrategy(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+              className="modal-content"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="modal-header">
+                <h2 className="modal-title">{editingStrategy.name} Risk Limits</h2>
+              </div>
+
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  strategyLimitsMutation.mutate({ id: editingStrategy.id, limits: strategyLimits });
+                }}
+                className="modal-form"
+              >
+                <StrategyRiskLimitsFields limits={strategyLimits} onChange={setStrategyLimits} />
+                <p className="risk-limit-unset">
+                  Checked alongside the global limits. Empty fields use the global setting.
+                </p>
+
+                <div className="modal-buttons">
+                  <button
+                    type="submit"
+                    disabled={strategyLimitsMutation.isPending}
+                    className="modal-button primary"
+                  >
+                    {strategyLimitsMutation.isPending ? 'SAVING...' : 'SAVE'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingStrategy(null)}
+                    className="modal-button secondary"
+                  >
+                    CANCEL
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </>
   );
 }
@@ -0,0 +1,81 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient, getApiErrorMessage } from '../lib/api';
+import './SignalRiskPreview.css';
+
+interface SignalRiskPreviewProps {
+  signalId: string;
+  colSpan: number;
+}
+
+const formatUsd = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+/**
+ * Table row under a pending signal showing what approving it would do and the risk limits it
+ * breaks - soft ones an approver can override with a justification, hard ones nobody can.
+ * Nothing can be approved while trading is stopped.
+ */
+export const SignalRiskPreview = ({ signalId, colSpan }: SignalRiskPreviewProps) => {
+  const {
+    data: preview,
+    error,
+    isLoading,
+  } = useQuery({
+    queryKey: ['riskPreview', signalId],
+    queryFn: () => apiClient.getPendingSignalRiskPreview(signalId),
+    refetchInterval: 10000,
+  });
+
+  return (
+    <tr className="risk-preview-row">
+      <td colSpan={colSpan} className="risk-preview-cell">
+        {isLoading && <span className="risk-preview-note">Checking risk limits...</span>}
+        {error && (
+          <span className="risk-preview-error">
+            Risk preview unavailable: {getApiErrorMessage(error)}
+          </span>
+        )}
+        {preview && (
+          <div className="risk-preview">
+            <div className="risk-preview-metrics">
+              <span>
+                QTY <strong>{preview.quantity}</strong>
+              </span>
+              <span>
+                VALUE <strong>{formatUsd(preview.orderValue)}</strong>
+              </span>
+              <span>
+                SIZE <strong>{preview.positionSizePercent.toFixed(2)}%</strong>
+              </span>
+              <span>
+                EXPOSURE <strong>{preview.exposurePercent.toFixed(2)}%</strong>
+              </span>
+              <span>
+                TODAY <strong>{formatUsd(preview.dailyLoss)}</strong>
+              </span>
+            </div>
+            {!preview.riskManagementEnabled ? (
+              <span className="risk-preview-note">Trading is stopped, approvals are halted</span>
+            ) : preview.violations.length === 0 ? (
+              <span className="risk-preview-ok">Within all risk limits</span>
+            ) : (
+              <ul className="risk-preview-violations">
+                {preview.violations.map((violation) => (
+                  <li key={violation.reason} className={`risk-violation ${violation.tier}`}>
+                    <span className="risk-violation-tier">
+                      {violation.tier === 'hard' ? 'HARD' : 'SOFT'}
+                    </span>
+                    {violation.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+};
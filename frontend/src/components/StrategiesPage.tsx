@@ -1,8 +1,16 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
-import { apiClient } from '../lib/api';
-import type { Strategy, CreateStrategyInput } from '../types';
+import { apiClient, getWebhookUrl } from '../lib/api';
+import { DEDUPE_FIELDS } from '../types';
+import type {
+  Strategy,
+  CreateStrategyInput,
+  ExchangeName,
+  SizingMode,
+  WebhookAuthMode,
+} from '../types';
+import { StrategyRiskLimitsFields } from './StrategyRiskLimitsFields';
 import { Background } from './Background';
 import { Panel } from './Panel';
 import { GridIcon } from './icons';
@@ -19,6 +27,22 @@ export default function StrategiesPage() {
     type: 'automatic',
     trading_type: tradingType,
     leverage: 5,
+    position_mode: 'ONE_WAY',
+    paper_trading: false,
+    exchange: 'binance',
+    webhook_auth: 'header',
+    dedupe_fields: ['action', 'symbol', 'orderType'],
+    dedupe_window_ms: null,
+    max_signal_age_ms: null,
+    trailing_stop_percent: null,
+    trailing_stop_amount: null,
+    sizing_mode: null,
+    sizing_value: null,
+    max_position_size_percent: null,
+    max_open_positions: null,
+    max_daily_loss: null,
+    default_position_size_percent: null,
+    default_stop_loss_percent: null,
     description: '',
     enabled: true,
   }));
@@ -57,6 +81,16 @@ export default function StrategiesPage() {
     },
   });
 
+  // Rotate webhook token/secret mutation - the modal shows the new values
+  const rotateMutation = useMutation({
+    mutationFn: ({ id, part }: { id: string; part: 'token' | 'secret' }) =>
+      part === 'token' ? apiClient.rotateWebhookToken(id) : apiClient.rotateWebhookSecret(id),
+    onSuccess: (strategy) => {
+      queryClient.invalidateQueries({ queryKey: ['strategies'] });
+      setEditingStrategy(strategy);
+    },
+  });
+
   // Delete strategy mutation
   const deleteMutation = useMutation({
     mutationFn: apiClient.deleteStrategy,
@@ -79,6 +113,22 @@ export default function StrategiesPage() {
       type: 'automatic',
       trading_type: tradingType,
       leverage: 5,
+      position_mode: 'ONE_WAY',
+      paper_trading: false,
+      exchange: 'binance',
+      webhook_auth: 'header',
+      dedupe_fields: ['action', 'symbol', 'orderType'],
+      dedupe_window_ms: null,
+      max_signal_age_ms: null,
+      trailing_stop_percent: null,
+      trailing_stop_amount: null,
+      sizing_mode: null,
+      sizing_value: null,
+      max_position_size_percent: null,
+      max_open_positions: null,
+      max_daily_loss: null,
+      default_position_size_percent: null,
+      default_stop_loss_percent: null,
       description: '',
       enabled: true,
     });
@@ -100,6 +150,22 @@ export default function StrategiesPage() {
       type: strategy.type,
       trading_type: strategy.trading_type || 'SPOT',
       leverage: strategy.leverage || 5,
+      position_mode: strategy.position_mode || 'ONE_WAY',
+      paper_trading: Boolean(strategy.paper_trading),
+      exchange: strategy.exchange || 'binance',
+      webhook_auth: strategy.webhook_auth || 'header',
+      dedupe_fields: strategy.dedupe_fields || ['action', 'symbol', 'orderType'],
+      dedupe_window_ms: strategy.dedupe_window_ms ?? null,
+      max_signal_age_ms: strategy.max_signal_age_ms ?? null,
+      trailing_stop_percent: strategy.trailing_stop_percent ?? null,
+      trailing_stop_amount: strategy.trailing_stop_amount ?? null,
+      sizing_mode: strategy.sizing_mode ?? null,
+      sizing_value: strategy.sizing_value ?? null,
+      max_position_size_percent: strategy.max_position_size_percent ?? null,
+      max_open_positions: strategy.max_open_positions ?? null,
+      max_daily_loss: strategy.max_daily_loss ?? null,
+      default_position_size_percent: strategy.default_position_size_percent ?? null,
+      default_stop_loss_percent: strategy.default_stop_loss_percent ?? null,
       description: strategy.description || '',
       enabled: Boolean(strategy.enabled), // Ensure boolean conversion
     });
@@ -180,9 +246,21 @@ export default function StrategiesPage() {
                         >
                           {strategy.trading_type || 'SPOT'}
                         </span>
+                        {strategy.exchange === 'bybit' && (
+                          <span className="type-badge exchange" title="Trades on Bybit">
+                            BYBIT
+                          </span>
+                        )}
+                        {strategy.paper_trading && (
+                          <span className="type-badge paper" title="Orders are simulated">
+                            PAPER
+                          </span>
+                        )}
                       </td>
                       <td>
-                        {strategy.trading_type === 'FUTURE' ? `${strategy.leverage}x` : '-'}
+                        {strategy.trading_type === 'FUTURE'
+                          ? `${strategy.leverage}x${strategy.position_mode === 'HEDGE' ? ' · HEDGE' : ''}`
+                          : '-'}
                       </td>
                       <td>
                         <span
@@ -295,6 +373,27 @@ export default function StrategiesPage() {
                   </select>
                 </div>
 
+                {/* Exchange */}
+                <div className="form-group">
+                  <label>Exchange</label>
+                  <select
+                    value={formData.exchange}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        exchange: e.target.value as ExchangeName,
+                      })
+                    }
+                    className="form-select"
+                  >
+                    <option value="binance">Binance</option>
+                    <option value="bybit">Bybit</option>
+                  </select>
+                  <div className="form-helper-text">
+                    Bybit is only available when its API keys are configured on the server.
+                  </div>
+                </div>
+
                 {/* Trading Type */}
                 <div className="form-group">
                   <label>Trading Type</label>
@@ -338,6 +437,269 @@ export default function StrategiesPage() {
                   </div>
                 )}
 
+                {/* Position Mode (only for futures) */}
+                {formData.trading_type === 'FUTURE' && (
+                  <div className="form-group">
+                    <label>Position Mode</label>
+                    <select
+                      value={formData.position_mode}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          position_mode: e.target.value as 'ONE_WAY' | 'HEDGE',
+                        })
+                      }
+                      className="form-select"
+                    >
+                      <option value="ONE_WAY">One-way (buy/sell net into one position)</option>
+                      <option value="HEDGE">Hedge (separate LONG and SHORT positions)</option>
+                    </select>
+                    <div className="form-helper-text">
+                      The exchange applies the mode to the whole futures account and only switches
+                      it when there are no open positions or orders.
+                    </div>
+                  </div>
+                )}
+
+                {/* Webhook authentication */}
+                <div className="form-group">
+                  <label>Webhook Authentication</label>
+                  <select
+                    value={formData.webhook_auth}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        webhook_auth: e.target.value as WebhookAuthMode,
+                      })
+                    }
+                    className="form-select"
+                  >
+                    <option value="header">Secret header (x-webhook-secret)</option>
+                    <option value="signed">Signed (HMAC with timestamp and nonce)</option>
+                  </select>
+                  <div className="form-helper-text">
+                    Signed alerts never send the secret and can't be replayed, but need a sender
+                    that can compute the signature.
+                  </div>
+                </div>
+
+                {/* Webhook endpoint (existing strategies) */}
+                {editingStrategy && (
+                  <div className="form-group">
+                    <label>Webhook URL</label>
+                    <input
+                      type="text"
+                      readOnly
+                      value={getWebhookUrl(editingStrategy.webhook_token)}
+                      className="form-input"
+                      onFocus={(e) => e.target.select()}
+                    />
+                    <label>Webhook Secret</label>
+                    <input
+                      type="text"
+                      readOnly
+                      value={editingStrategy.webhook_secret}
+                      className="form-input"
+                      onFocus={(e) => e.target.select()}
+                    />
+                    <div className="webhook-rotate-buttons">
+                      {(['token', 'secret'] as const).map((part) => (
+                        <button
+                          key={part}
+                          type="button"
+                          disabled={rotateMutation.isPending}
+                          onClick={() => {
+                            if (
+                              confirm(
+                                `Rotate the webhook ${part}? Alerts using the old one will be rejected.`
+                              )
+                            ) {
+                              rotateMutation.mutate({ id: editingStrategy.id, part });
+                            }
+                          }}
+                          className="modal-button secondary"
+                        >
+                          ROTATE {part.toUpperCase()}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="form-helper-text">
+                      Alerts posted here always go to this strategy; unknown URLs are rejected.
+                    </div>
+                  </div>
+                )}
+
+                {/* Duplicate detection */}
+                <div className="form-group">
+                  <label>Duplicate Detection</label>
+                  <div className="dedupe-fields">
+                    {DEDUPE_FIELDS.map((field) => (
+                      <label key={field} className="dedupe-field">
+                        <input
+                          type="checkbox"
+                          checked={formData.dedupe_fields?.includes(field)}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              dedupe_fields: e.target.checked
+                                ? [...(formData.dedupe_fields || []), field]
+                                : (formData.dedupe_fields || []).filter((f) => f !== field),
+                            })
+                          }
+                          className="form-checkbox"
+                        />
+                        {field}
+                      </label>
+                    ))}
+                  </div>
+                  <input
+                    type="number"
+                    value={formData.dedupe_window_ms ?? ''}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        dedupe_window_ms: e.target.value === '' ? null : parseInt(e.target.value),
+                      })
+                    }
+                    className="form-input"
+                    placeholder="Window in ms (empty: server default)"
+                    min="0"
+                  />
+                  <div className="form-helper-text">
+                    Signals matching a recent one on the checked fields are dropped; 0 turns this
+                    off. Signals with an idempotencyKey are matched on the key instead.
+                  </div>
+                </div>
+
+                {/* Signal freshness */}
+                <div className="form-group">
+                  <label>Max Signal Age (seconds)</label>
+                  <input
+                    type="number"
+                    value={
+                      formData.max_signal_age_ms == null ? '' : formData.max_signal_age_ms / 1000
+                    }
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        max_signal_age_ms:
+                          e.target.value === '' ? null : Math.round(parseFloat(e.target.value) * 1000),
+                      })
+                    }
+                    className="form-input"
+                    placeholder="Empty: accept signals of any age"
+                    min="1"
+                  />
+                  <div className="form-helper-text">
+                    Needs time/timenow in the alert, e.g. "time": "{'{{time}}'}", "interval":
+                    "{'{{interval}}'}". Older signals are rejected.
+                  </div>
+                </div>
+
+                {/* Trailing stop */}
+                <div className="form-group">
+                  <label>Trailing Stop</label>
+                  <div className="form-row">
+                    <input
+                      type="number"
+                      value={formData.trailing_stop_percent ?? ''}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          trailing_stop_percent:
+                            e.target.value === '' ? null : parseFloat(e.target.value),
+                          trailing_stop_amount: null,
+                        })
+                      }
+                      className="form-input"
+                      placeholder="Callback %"
+                      min="0.1"
+                      max="50"
+                      step="0.1"
+                    />
+                    <input
+                      type="number"
+                      value={formData.trailing_stop_amount ?? ''}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          trailing_stop_amount:
+                            e.target.value === '' ? null : parseFloat(e.target.value),
+                          trailing_stop_percent: null,
+                        })
+                      }
+                      className="form-input"
+                      placeholder="Or price distance"
+                      min="0"
+                      step="any"
+                    />
+                  </div>
+                  <div className="form-helper-text">
+                    Used when a signal sets no trailingStop. On futures a percent callback from 0.1%
+                    to 5% is placed as a Binance trailing order; otherwise the bot moves the stop.
+                  </div>
+                </div>
+
+                {/* Position sizing */}
+                <div className="form-group">
+                  <label>Position Sizing</label>
+                  <div className="form-row">
+                    <select
+                      value={formData.sizing_mode ?? 'percent_balance'}
+                      onChange={(e) =>
+                        setFormData({ ...formData, sizing_mode: e.target.value as SizingMode })
+                      }
+                      className="form-select"
+                    >
+                      <option value="percent_balance">Percent of free balance</option>
+                      <option value="fixed_quote">Fixed quote amount</option>
+                      <option value="percent_equity">Percent of total equity</option>
+                      <option value="risk_per_trade">Risk per trade (% of equity)</option>
+                    </select>
+                    <input
+                      type="number"
+                      value={formData.sizing_value ?? ''}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          sizing_value: e.target.value === '' ? null : parseFloat(e.target.value),
+                        })
+                      }
+                      className="form-input"
+                      placeholder={
+                        formData.sizing_mode === 'fixed_quote'
+                          ? 'Amount'
+                          : formData.sizing_mode && formData.sizing_mode !== 'percent_balance'
+                            ? 'Percent'
+                            : 'Default position size'
+                      }
+                      min="0"
+                      max={formData.sizing_mode === 'fixed_quote' ? undefined : '100'}
+                      step="any"
+                      required={
+                        !!formData.sizing_mode && formData.sizing_mode !== 'percent_balance'
+                      }
+                    />
+                  </div>
+                  <div className="form-helper-text">
+                    For signals without a quantity. Risk per trade sizes the position so hitting the
+                    signal's stopLoss, or the default stop, loses that percent of equity. On futures
+                    the other modes size the margin. Capped at the max position size.
+                  </div>
+                </div>
+
+                {/* Risk budget */}
+                <div className="form-group">
+                  <label>Risk Budget</label>
+                  <StrategyRiskLimitsFields
+                    limits={formData}
+                    onChange={(limits) => setFormData({ ...formData, ...limits })}
+                  />
+                  <div className="form-helper-text">
+                    Checked alongside the global risk limits. Empty fields use the global setting.
+                  </div>
+                </div>
+
                 {/* Description */}
                 <div className="form-group">
                   <label>Description (Optional)</label>
@@ -352,6 +714,22 @@ export default function StrategiesPage() {
                   />
                 </div>
 
+                {/* Paper trading */}
+                <div className="form-group-checkbox">
+                  <input
+                    type="checkbox"
+                    id="paper_trading"
+                    checked={formData.paper_trading}
+                    onChange={(e) =>
+                      setFormData({ ...formData, paper_trading: e.target.checked })
+                    }
+                    className="form-checkbox"
+                  />
+                  <label htmlFor="paper_trading">
+                    Paper trading (simulated fills, virtual balances)
+                  </label>
+                </div>
+
                 {/* Enabled */}
                 <div className="form-group-checkbox">
                   <input
@@ -0,0 +1,68 @@
+import type { StrategyRiskLimits } from '../types';
+import './StrategyRiskLimitsFields.css';
+
+interface StrategyRiskLimitsFieldsProps {
+  limits: Partial<StrategyRiskLimits>;
+  onChange: (limits: Partial<StrategyRiskLimits>) => void;
+}
+
+const fields: Array<{
+  key: keyof StrategyRiskLimits;
+  label: string;
+  min: string;
+  max?: string;
+  step: string;
+}> = [
+  {
+    key: 'max_position_size_percent',
+    label: 'Max Position Size (%)',
+    min: '0.1',
+    max: '100',
+    step: '0.1',
+  },
+  { key: 'max_open_positions', label: 'Max Open Positions', min: '1', step: '1' },
+  { key: 'max_daily_loss', label: 'Max Daily Loss (USD)', min: '1', step: '10' },
+  {
+    key: 'default_position_size_percent',
+    label: 'Default Position Size (%)',
+    min: '0.1',
+    max: '100',
+    step: '0.1',
+  },
+  {
+    key: 'default_stop_loss_percent',
+    label: 'Default Stop Loss (%)',
+    min: '0.1',
+    max: '100',
+    step: '0.1',
+  },
+];
+
+/**
+ * Inputs for a strategy's own risk budget - an empty field falls back to the global setting
+ */
+export const StrategyRiskLimitsFields = ({ limits, onChange }: StrategyRiskLimitsFieldsProps) => (
+  <div className="risk-limits-grid">
+    {fields.map((field) => (
+      <div key={field.key} className="risk-limits-field">
+        <label htmlFor={`risk-limit-${field.key}`}>{field.label}</label>
+        <input
+          id={`risk-limit-${field.key}`}
+          type="number"
+          value={limits[field.key] ?? ''}
+          onChange={(e) =>
+            onChange({
+              ...limits,
+              [field.key]: e.target.value === '' ? null : parseFloat(e.target.value),
+            })
+          }
+          className="form-input"
+          placeholder={field.key === 'max_open_positions' ? 'No limit' : 'Global'}
+          min={field.min}
+          max={field.max}
+          step={field.step}
+        />
+      </div>
+    ))}
+  </div>
+);
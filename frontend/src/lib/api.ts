@@ -6,10 +6,15 @@ import type {
   HealthStatus,
   Balance,
   FuturesBalance,
+  BreakerAccount,
+  CircuitBreakerState,
+  CircuitBreakerStatus,
   Strategy,
+  TrailingStopInput,
   PendingSignal,
   CreateStrategyInput,
   RiskConfig,
+  RiskPreview,
   UpdateRiskConfigInput,
   UpdateStrategyInput,
 } from '../types';
@@ -56,6 +61,16 @@ export const apiClient = {
     return data;
   },
 
+  setTrailingStop: async (positionId: string, trailingStop: TrailingStopInput): Promise<Position> => {
+    const { data } = await api.put(`/positions/${positionId}/trailing-stop`, trailingStop);
+    return data;
+  },
+
+  clearTrailingStop: async (positionId: string): Promise<Position> => {
+    const { data } = await api.delete(`/positions/${positionId}/trailing-stop`);
+    return data;
+  },
+
   // Orders
   getOrders: async (params?: {
     symbol?: string;
@@ -122,6 +137,16 @@ export const apiClient = {
     return data;
   },
 
+  rotateWebhookToken: async (id: string): Promise<Strategy> => {
+    const { data } = await api.post(`/strategies/${id}/webhook-token/rotate`);
+    return data;
+  },
+
+  rotateWebhookSecret: async (id: string): Promise<Strategy> => {
+    const { data } = await api.post(`/strategies/${id}/webhook-secret/rotate`);
+    return data;
+  },
+
   // Pending Signals
   getPendingSignals: async (params?: {
     status?: 'pending' | 'approved' | 'rejected';
@@ -136,8 +161,20 @@ export const apiClient = {
     return data;
   },
 
-  approvePendingSignal: async (id: string): Promise<PendingSignal> => {
-    const { data } = await api.post(`/pending-signals/${id}/approve`);
+  getPendingSignalRiskPreview: async (id: string): Promise<RiskPreview> => {
+    const { data } = await api.get(`/pending-signals/${id}/risk-preview`);
+    return data;
+  },
+
+  // A justification is needed to override soft risk limits
+  approvePendingSignal: async ({
+    id,
+    justification,
+  }: {
+    id: string;
+    justification?: string;
+  }): Promise<PendingSignal> => {
+    const { data } = await api.post(`/pending-signals/${id}/approve`, { justification });
     return data;
   },
 
@@ -156,6 +193,35 @@ export const apiClient = {
     const { data } = await api.put('/risk-config', config);
     return data;
   },
+
+  // Circuit Breaker
+  getCircuitBreaker: async (): Promise<CircuitBreakerStatus> => {
+    const { data } = await api.get('/circuit-breaker');
+    return data;
+  },
+
+  rearmCircuitBreaker: async (account: BreakerAccount): Promise<CircuitBreakerState[]> => {
+    const { data } = await api.post(`/circuit-breaker/${account}/rearm`);
+    return data;
+  },
+};
+
+// The server's reason for a failed request, else the request error's own message
+export const getApiErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const body = error.response?.data?.error;
+    const message = typeof body === 'string' ? body : body?.message;
+    if (message) {
+      return message;
+    }
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+};
+
+// A strategy's own webhook URL - served next to the API
+export const getWebhookUrl = (token: string): string => {
+  const base = API_BASE_URL.replace(/\/api\/?$/, '');
+  return `${base.startsWith('http') ? base : window.location.origin + base}/webhook/s/${token}`;
 };
 
 export default api;
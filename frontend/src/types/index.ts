@@ -10,6 +10,21 @@ export interface FuturesBalance {
   availableBalance: string;
 }
 
+export interface TakeProfitTarget {
+  id: string;
+  position_id: string;
+  target_index: number;
+  price: number;
+  allocation: number;
+  quantity: number;
+  filled_quantity: number;
+  realized_pnl: number;
+  status: 'PENDING' | 'OPEN' | 'FILLED' | 'CANCELED' | 'REJECTED';
+  order_id?: string;
+  error_message?: string;
+  filled_at?: string;
+}
+
 export interface Position {
   id: string;
   symbol: string;
@@ -20,6 +35,11 @@ export interface Position {
   quantity: number;
   stop_loss_price?: number;
   stop_loss_order_id?: string;
+  trailing_stop_percent?: number | null;
+  trailing_stop_amount?: number | null;
+  trailing_activation_price?: number | null;
+  trailing_extreme_price?: number | null; // Best price since the trail activated
+  trailing_native?: number; // 1 when the exchange trails the stop itself
   entry_order_id: string;
   exit_order_id?: string;
   realized_pnl: number;
@@ -27,10 +47,18 @@ export interface Position {
   status: 'OPEN' | 'CLOSED';
   opened_at: string;
   closed_at?: string;
+  take_profits?: TakeProfitTarget[];
   currentPrice?: number;
   unrealizedPnL?: number;
 }
 
+// Callback in percent or in quote currency, one of the two
+export interface TrailingStopInput {
+  percent?: number;
+  amount?: number;
+  activationPrice?: number;
+}
+
 export interface Order {
   id: string;
   binance_order_id?: string;
@@ -71,6 +99,7 @@ export interface HealthStatus {
   checks: {
     database: boolean;
     binance: boolean;
+    bybit?: boolean; // Only when Bybit is configured
     disk: boolean;
     memory: boolean;
   };
@@ -92,12 +121,44 @@ export interface StatCard {
   icon: string;
 }
 
-export interface Strategy {
+export type ExchangeName = 'binance' | 'bybit';
+
+export type WebhookAuthMode = 'header' | 'signed';
+
+export const DEDUPE_FIELDS = ['action', 'symbol', 'orderType', 'price', 'quantity', 'stopLoss'] as const;
+export type DedupeField = (typeof DEDUPE_FIELDS)[number];
+
+// How entries without a quantity are sized; a signal's `sizing` overrides the strategy's
+export type SizingMode = 'percent_balance' | 'fixed_quote' | 'percent_equity' | 'risk_per_trade';
+
+// A strategy's own risk budget, checked alongside the global limits; null uses the global setting
+export interface StrategyRiskLimits {
+  max_position_size_percent: number | null;
+  max_open_positions: number | null; // null: no limit
+  max_daily_loss: number | null;
+  default_position_size_percent: number | null;
+  default_stop_loss_percent: number | null;
+}
+
+export interface Strategy extends StrategyRiskLimits {
   id: string;
   name: string;
   type: 'automatic' | 'manual';
   trading_type: 'SPOT' | 'FUTURE';
   leverage: number;
+  position_mode: 'ONE_WAY' | 'HEDGE';
+  paper_trading: boolean;
+  exchange: ExchangeName;
+  webhook_auth: WebhookAuthMode;
+  webhook_token: string;
+  webhook_secret: string;
+  dedupe_fields: DedupeField[];
+  dedupe_window_ms: number | null;
+  max_signal_age_ms: number | null;
+  trailing_stop_percent: number | null;
+  trailing_stop_amount: number | null;
+  sizing_mode: SizingMode | null; // null: percent_balance
+  sizing_value: number | null; // Quote amount for fixed_quote, a percent for the others
   description?: string;
   enabled: boolean;
   created_at: string;
@@ -110,7 +171,7 @@ export interface PendingSignal {
   strategy_name?: string;
   signal_id: string;
   symbol: string;
-  action: 'buy' | 'sell' | 'close';
+  action: 'buy' | 'sell' | 'close' | 'close_long' | 'close_short' | 'reverse';
   order_type: string;
   price: number | null;
   quantity: number | null;
@@ -121,22 +182,68 @@ export interface PendingSignal {
   created_at: string;
   reviewed_at: string | null;
   reviewed_by: string | null;
+  override_justification: string | null; // Why the approver let soft risk limits through
+  overridden_limits: string | null; // JSON array of the soft limits' reasons
 }
 
-export interface CreateStrategyInput {
+// Hard limits hold even for a manually approved signal; an approver may override soft ones
+export type RiskLimitTier = 'hard' | 'soft';
+
+export interface RiskViolation {
+  tier: RiskLimitTier;
+  reason: string;
+}
+
+// What approving a pending signal would do, and every risk limit it breaks
+export interface RiskPreview {
+  riskManagementEnabled: boolean;
+  quantity: number;
+  price: number;
+  orderValue: number;
+  orderCost: number; // The order value on spot, its margin on futures
+  availableBalance: number;
+  positionSizePercent: number;
+  exposurePercent: number;
+  dailyLoss: number;
+  violations: RiskViolation[];
+}
+
+export interface CreateStrategyInput extends Partial<StrategyRiskLimits> {
   name: string;
   type: 'automatic' | 'manual';
   trading_type?: 'SPOT' | 'FUTURE';
   leverage?: number;
+  position_mode?: 'ONE_WAY' | 'HEDGE';
+  paper_trading?: boolean;
+  exchange?: ExchangeName;
+  webhook_auth?: WebhookAuthMode;
+  dedupe_fields?: DedupeField[];
+  dedupe_window_ms?: number | null;
+  max_signal_age_ms?: number | null;
+  trailing_stop_percent?: number | null;
+  trailing_stop_amount?: number | null;
+  sizing_mode?: SizingMode | null;
+  sizing_value?: number | null;
   description?: string;
   enabled?: boolean;
 }
 
-export interface UpdateStrategyInput {
+export interface UpdateStrategyInput extends Partial<StrategyRiskLimits> {
   name?: string;
   type?: 'automatic' | 'manual';
   trading_type?: 'SPOT' | 'FUTURE';
   leverage?: number;
+  position_mode?: 'ONE_WAY' | 'HEDGE';
+  paper_trading?: boolean;
+  exchange?: ExchangeName;
+  webhook_auth?: WebhookAuthMode;
+  dedupe_fields?: DedupeField[];
+  dedupe_window_ms?: number | null;
+  max_signal_age_ms?: number | null;
+  trailing_stop_percent?: number | null;
+  trailing_stop_amount?: number | null;
+  sizing_mode?: SizingMode | null;
+  sizing_value?: number | null;
   description?: string;
   enabled?: boolean;
 }
@@ -148,6 +255,11 @@ export interface RiskConfig {
   maxDailyLoss: number;
   enableStopLoss: boolean;
   defaultStopLossPercent: number;
+  maxLeverage: number;
+  maxNotional: number;
+  maxDrawdown: number;
+  drawdownFlattenPositions: boolean;
+  drawdownCooldownMinutes: number;
   enabled: boolean;
 }
 
@@ -158,5 +270,42 @@ export interface UpdateRiskConfigInput {
   maxDailyLoss?: number;
   enableStopLoss?: boolean;
   defaultStopLossPercent?: number;
+  maxLeverage?: number;
+  maxNotional?: number;
+  maxDrawdown?: number;
+  drawdownFlattenPositions?: boolean;
+  drawdownCooldownMinutes?: number;
   enabled?: boolean;
 }
+
+export type BreakerAccount = 'live' | 'paper';
+
+export interface CircuitBreakerState {
+  account: BreakerAccount;
+  status: 'ARMED' | 'TRIPPED';
+  equity: number | null; // Realized plus unrealized PnL at the last check
+  peak_equity: number | null;
+  drawdown: number;
+  trip_id: string | null;
+  cooldown_until: number | null; // Epoch ms it re-arms itself at
+  updated_at: string;
+}
+
+export interface CircuitBreakerTrip {
+  id: string;
+  account: BreakerAccount;
+  cause: string;
+  equity: number;
+  peak_equity: number;
+  drawdown: number;
+  max_drawdown: number;
+  flattened_positions: number;
+  tripped_at: string;
+  rearmed_at: string | null;
+  rearmed_by: 'manual' | 'cooldown' | null;
+}
+
+export interface CircuitBreakerStatus {
+  states: CircuitBreakerState[];
+  trips: CircuitBreakerTrip[];
+}
@@ -0,0 +1,8 @@
+// Config the tests run with - a private in-memory database and no real credentials
+process.env.BINANCE_API_KEY = process.env.BINANCE_API_KEY || 'test';
+process.env.BINANCE_API_SECRET = process.env.BINANCE_API_SECRET || 'test';
+process.env.TRADINGVIEW_WEBHOOK_SECRET = process.env.TRADINGVIEW_WEBHOOK_SECRET || 'test';
+process.env.ADMIN_API_KEY = process.env.ADMIN_API_KEY || 'test';
+process.env.DATABASE_PATH = ':memory:';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+process.env.LOG_FILE = require('path').join(require('os').tmpdir(), 'trading-bot-test', 'app.log');
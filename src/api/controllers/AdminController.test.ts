@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import { AdminController } from './AdminController';
+import { ExchangeRegistry } from '../../services/exchange/ExchangeRegistry';
+import { OrderManager } from '../../services/OrderManager';
+import { RiskManager, RiskViolation } from '../../services/RiskManager';
+import { SignalProcessor } from '../../services/SignalProcessor';
+import { SignalQueue } from '../../services/SignalQueue';
+import { ReconciliationService } from '../../services/ReconciliationService';
+import { PaperExchange } from '../../services/paper/PaperExchange';
+import { SymbolRegistry } from '../../services/SymbolRegistry';
+import { CircuitBreaker } from '../../services/CircuitBreaker';
+import { StrategyService } from '../../services/StrategyService';
+import { PendingSignalService } from '../../services/PendingSignalService';
+import { TradingViewSignal } from '../schemas/webhook.schema';
+import databaseService from '../../database';
+
+describe('AdminController', () => {
+  describe('approvePendingSignal', () => {
+    let orderManager: { previewSignalRisk: jest.Mock; executeFromSignal: jest.Mock };
+    let controller: AdminController;
+    let pendingSignalId: string;
+
+    const soft: RiskViolation = {
+      tier: 'soft',
+      reason: 'Global limit: position size 20.00% exceeds max 10%',
+    };
+    const hard: RiskViolation = {
+      tier: 'hard',
+      reason: 'Insufficient balance. Required: 5000.00, Available: 10.00',
+    };
+
+    const approve = async (body: { justification?: string } = {}) => {
+      const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+      await controller.approvePendingSignal(
+        { params: { id: pendingSignalId }, body } as unknown as Request,
+        res as unknown as Response
+      );
+      return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+    };
+
+    const status = () => new PendingSignalService().getPendingSignalById(pendingSignalId)!.status;
+
+    beforeEach(() => {
+      const db = databaseService.getDatabase();
+      db.exec(
+        `DELETE FROM pending_signal_overrides; DELETE FROM pending_signals; DELETE FROM signals;
+         DELETE FROM strategies;`
+      );
+
+      const strategy = new StrategyService().createStrategy({ name: 'Manual', type: 'manual' });
+      const signal = { action: 'buy', symbol: 'BTCUSDT', orderType: 'market' } as TradingViewSignal;
+      db.prepare('INSERT INTO signals (id, action, symbol, payload) VALUES (?, ?, ?, ?)').run(
+        'signal-1',
+        'buy',
+        'BTCUSDT',
+        JSON.stringify(signal)
+      );
+      pendingSignalId = new PendingSignalService().createPendingSignal({
+        strategy_id: strategy.id,
+        signal_id: 'signal-1',
+        signal,
+      }).id;
+
+      orderManager = {
+        previewSignalRisk: jest.fn().mockResolvedValue({ violations: [] }),
+        executeFromSignal: jest.fn().mockResolvedValue('order-1'),
+      };
+      controller = new AdminController(
+        {} as ExchangeRegistry,
+        orderManager as unknown as OrderManager,
+        { getRiskConfig: () => ({ enabled: true }) } as unknown as RiskManager,
+        {} as SignalProcessor,
+        {} as SignalQueue,
+        {} as ReconciliationService,
+        {} as PaperExchange,
+        {} as SymbolRegistry,
+        {} as CircuitBreaker
+      );
+    });
+
+    it('executes a signal within the risk limits', async () => {
+      const result = await approve();
+
+      expect(result.status).toBe(200);
+      expect(orderManager.executeFromSignal).toHaveBeenCalledWith(
+        'signal-1',
+        expect.objectContaining({ symbol: 'BTCUSDT' }),
+        expect.any(String),
+        false,
+        true
+      );
+    });
+
+    it('needs a justification to override a soft limit', async () => {
+      orderManager.previewSignalRisk.mockResolvedValue({ violations: [soft] });
+
+      const result = await approve();
+
+      expect(result).toEqual({
+        status: 400,
+        body: { error: 'Overriding soft risk limits needs a justification', violations: [soft] },
+      });
+      expect(status()).toBe('pending');
+      expect(orderManager.executeFromSignal).not.toHaveBeenCalled();
+    });
+
+    it('overrides a soft limit with a justification and records it', async () => {
+      orderManager.previewSignalRisk.mockResolvedValue({ violations: [soft] });
+
+      const result = await approve({ justification: ' Planned scale-in ' });
+
+      expect(result.status).toBe(200);
+      expect(orderManager.executeFromSignal).toHaveBeenCalledWith(
+        'signal-1',
+        expect.anything(),
+        expect.any(String),
+        true,
+        true
+      );
+      expect(
+        databaseService
+          .getDatabase()
+          .prepare('SELECT justification, overridden_limits FROM pending_signal_overrides')
+          .all()
+      ).toEqual([
+        { justification: 'Planned scale-in', overridden_limits: JSON.stringify([soft.reason]) },
+      ]);
+    });
+
+    it('refuses a hard limit even with a justification', async () => {
+      orderManager.previewSignalRisk.mockResolvedValue({ violations: [soft, hard] });
+
+      const result = await approve({ justification: 'Approved by the desk' });
+
+      expect(result).toEqual({
+        status: 409,
+        body: { error: `Hard risk limits can't be overridden: ${hard.reason}`, violations: [hard] },
+      });
+      expect(status()).toBe('pending');
+      expect(orderManager.executeFromSignal).not.toHaveBeenCalled();
+    });
+  });
+});
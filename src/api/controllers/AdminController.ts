@@ -1,11 +1,25 @@
 import { Request, Response } from 'express';
 import { createModuleLogger } from '../../utils/logger';
-import { BinanceClient } from '../../services/binance/BinanceClient';
-import { OrderManager } from '../../services/OrderManager';
+import { ExchangeRegistry } from '../../services/exchange/ExchangeRegistry';
+import { DEFAULT_EXCHANGE, isExchangeName } from '../../services/exchange/ExchangeAdapter';
+import { OrderManager, Position, TakeProfitTarget } from '../../services/OrderManager';
 import { RiskManager } from '../../services/RiskManager';
 import { SignalProcessor } from '../../services/SignalProcessor';
-import { StrategyService } from '../../services/StrategyService';
+import { DEDUPE_FIELDS, RiskLimitField, StrategyService } from '../../services/StrategyService';
 import { PendingSignalService } from '../../services/PendingSignalService';
+import { SignalSourceService } from '../../services/SignalSourceService';
+import { signalMappingSchema } from '../schemas/signalMapping.schema';
+import {
+  SIZING_MODES,
+  SizingMode,
+  tradingViewSignalSchema,
+  trailingStopSchema,
+} from '../schemas/webhook.schema';
+import { SignalQueue, SignalJobStatus } from '../../services/SignalQueue';
+import { ReconciliationService } from '../../services/ReconciliationService';
+import { PaperExchange } from '../../services/paper/PaperExchange';
+import { SymbolRegistry } from '../../services/SymbolRegistry';
+import { BreakerAccount, CircuitBreaker } from '../../services/CircuitBreaker';
 import databaseService from '../../database';
 import config from '../../config';
 import os from 'os';
@@ -15,23 +29,34 @@ const logger = createModuleLogger('AdminController');
 export class AdminController {
   private strategyService: StrategyService;
   private pendingSignalService: PendingSignalService;
+  private signalSourceService: SignalSourceService;
 
   constructor(
-    private binanceClient: BinanceClient,
+    private exchanges: ExchangeRegistry,
     private orderManager: OrderManager,
     private riskManager: RiskManager,
-    private signalProcessor: SignalProcessor
+    private signalProcessor: SignalProcessor,
+    private signalQueue: SignalQueue,
+    private reconciliationService: ReconciliationService,
+    private paperExchange: PaperExchange,
+    private symbolRegistry: SymbolRegistry,
+    private circuitBreaker: CircuitBreaker
   ) {
     this.strategyService = new StrategyService();
     this.pendingSignalService = new PendingSignalService();
+    this.signalSourceService = new SignalSourceService();
   }
 
   async getHealth(_req: Request, res: Response) {
     try {
       const dbHealthy = databaseService.healthCheck();
-      const binanceHealthy = await this.binanceClient.ping();
+      const exchangeChecks: Record<string, boolean> = {};
+      for (const exchange of this.exchanges.all()) {
+        exchangeChecks[exchange.name] = await exchange.ping();
+      }
 
-      const status = dbHealthy && binanceHealthy ? 'healthy' : 'unhealthy';
+      const status =
+        dbHealthy && Object.values(exchangeChecks).every(Boolean) ? 'healthy' : 'unhealthy';
 
       const freeMem = os.freemem();
       const totalMem = os.totalmem();
@@ -43,7 +68,7 @@ export class AdminController {
         uptime: process.uptime(),
         checks: {
           database: dbHealthy,
-          binance: binanceHealthy,
+          ...exchangeChecks,
           disk: true, // Can add disk space check
           memory: memoryUsagePercent < 90,
         },
@@ -117,11 +142,21 @@ export class AdminController {
         )
         .all(status);
 
+      // Take-profit targets of each position, in the order its signal listed them
+      const takeProfits = db.prepare(
+        'SELECT * FROM take_profit_targets WHERE position_id = ? ORDER BY target_index'
+      );
+      for (const position of positions as (Position & { take_profits?: TakeProfitTarget[] })[]) {
+        position.take_profits = takeProfits.all(position.id) as TakeProfitTarget[];
+      }
+
       // Get current prices and calculate unrealized PnL for open positions
       if (status === 'OPEN') {
         for (const position of positions as any[]) {
           try {
-            const currentPrice = await this.binanceClient.getPrice(position.symbol);
+            const currentPrice = await this.exchanges
+              .get(position.exchange)
+              .getPrice(position.symbol);
             position.currentPrice = currentPrice;
             position.unrealizedPnL =
               (currentPrice - position.entry_price) *
@@ -194,6 +229,39 @@ export class AdminController {
     }
   }
 
+  /**
+   * Set an open position's trailing stop - { percent } or { amount }, optionally activationPrice
+   */
+  async setTrailingStop(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    const parsed = trailingStopSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid trailing stop', details: parsed.error.errors });
+      return;
+    }
+
+    await this.orderManager.setTrailingStop(id, parsed.data);
+
+    res.status(200).json(this.getPositionRow(id));
+  }
+
+  /**
+   * Stop trailing a position's stop; the stop stays where the trail left it
+   */
+  async clearTrailingStop(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    await this.orderManager.setTrailingStop(id, null);
+
+    res.status(200).json(this.getPositionRow(id));
+  }
+
+  private getPositionRow(id: string): unknown {
+    const db = databaseService.getDatabase();
+    return db.prepare('SELECT * FROM positions WHERE id = ?').get(id);
+  }
+
   async getOrders(req: Request, res: Response) {
     try {
       const { symbol, status, limit = 100 } = req.query;
@@ -230,9 +298,14 @@ export class AdminController {
 
   async getBalance(req: Request, res: Response) {
     try {
-      const { asset = 'USDT' } = req.query;
+      const { asset = 'USDT', exchange } = req.query;
+
+      if (exchange !== undefined && !this.exchanges.has(exchange as string)) {
+        res.status(400).json({ error: `Exchange ${exchange} is not configured` });
+        return;
+      }
 
-      const balance = await this.binanceClient.getBalance(asset as string);
+      const balance = await this.exchanges.get(exchange as string).getBalance(asset as string);
 
       res.status(200).json(balance);
     } catch (error) {
@@ -243,9 +316,16 @@ export class AdminController {
 
   async getFuturesBalance(req: Request, res: Response) {
     try {
-      const { asset = 'USDT' } = req.query;
+      const { asset = 'USDT', exchange } = req.query;
+
+      if (exchange !== undefined && !this.exchanges.has(exchange as string)) {
+        res.status(400).json({ error: `Exchange ${exchange} is not configured` });
+        return;
+      }
 
-      const balance = await this.binanceClient.getFuturesBalance(asset as string);
+      const balance = await this.exchanges
+        .get(exchange as string)
+        .getFuturesBalance(asset as string);
 
       res.status(200).json(balance);
     } catch (error) {
@@ -301,6 +381,11 @@ export class AdminController {
         maxDailyLoss: config.trading.maxDailyLoss,
         enableStopLoss: config.trading.enableStopLoss,
         defaultStopLossPercent: config.trading.defaultStopLossPercent,
+        maxLeverage: config.trading.maxLeverage,
+        maxNotional: config.trading.maxNotional,
+        maxDrawdown: config.trading.maxDrawdown,
+        drawdownFlattenPositions: config.trading.drawdownFlattenPositions,
+        drawdownCooldownMinutes: config.trading.drawdownCooldownMinutes,
         enabled: config.trading.enabled,
       };
 
@@ -338,6 +423,21 @@ export class AdminController {
           case 'trading.defaultStopLossPercent':
             riskConfig.defaultStopLossPercent = value;
             break;
+          case 'trading.maxLeverage':
+            riskConfig.maxLeverage = value;
+            break;
+          case 'trading.maxNotional':
+            riskConfig.maxNotional = value;
+            break;
+          case 'trading.maxDrawdown':
+            riskConfig.maxDrawdown = value;
+            break;
+          case 'trading.drawdownFlattenPositions':
+            riskConfig.drawdownFlattenPositions = value;
+            break;
+          case 'trading.drawdownCooldownMinutes':
+            riskConfig.drawdownCooldownMinutes = value;
+            break;
           case 'trading.enabled':
             logger.info('getRiskConfig - Setting enabled from DB:', { value, parsedValue: value });
             riskConfig.enabled = value;
@@ -366,6 +466,11 @@ export class AdminController {
         maxDailyLoss,
         enableStopLoss,
         defaultStopLossPercent,
+        maxLeverage,
+        maxNotional,
+        maxDrawdown,
+        drawdownFlattenPositions,
+        drawdownCooldownMinutes,
         enabled,
       } = req.body;
 
@@ -407,6 +512,31 @@ export class AdminController {
         updates.defaultStopLossPercent = defaultStopLossPercent;
       }
 
+      if (maxLeverage !== undefined) {
+        stmt.run('trading.maxLeverage', JSON.stringify(maxLeverage));
+        updates.maxLeverage = maxLeverage;
+      }
+
+      if (maxNotional !== undefined) {
+        stmt.run('trading.maxNotional', JSON.stringify(maxNotional));
+        updates.maxNotional = maxNotional;
+      }
+
+      if (maxDrawdown !== undefined) {
+        stmt.run('trading.maxDrawdown', JSON.stringify(maxDrawdown));
+        updates.maxDrawdown = maxDrawdown;
+      }
+
+      if (drawdownFlattenPositions !== undefined) {
+        stmt.run('trading.drawdownFlattenPositions', JSON.stringify(drawdownFlattenPositions));
+        updates.drawdownFlattenPositions = drawdownFlattenPositions;
+      }
+
+      if (drawdownCooldownMinutes !== undefined) {
+        stmt.run('trading.drawdownCooldownMinutes', JSON.stringify(drawdownCooldownMinutes));
+        updates.drawdownCooldownMinutes = drawdownCooldownMinutes;
+      }
+
       if (enabled !== undefined) {
         stmt.run('trading.enabled', JSON.stringify(enabled));
         updates.enabled = enabled;
@@ -443,6 +573,153 @@ export class AdminController {
     }
   }
 
+  // ========== Signal Jobs ==========
+
+  async getSignalJobs(req: Request, res: Response): Promise<void> {
+    try {
+      const { status, limit = 100 } = req.query;
+
+      if (status && !['PENDING', 'RUNNING', 'COMPLETED', 'DEAD'].includes(status as string)) {
+        res.status(400).json({ error: 'Status must be PENDING, RUNNING, COMPLETED or DEAD' });
+        return;
+      }
+
+      const jobs = this.signalQueue.getJobs({
+        status: status as SignalJobStatus | undefined,
+        limit: parseInt(limit as string, 10),
+      });
+
+      res.status(200).json(jobs);
+    } catch (error) {
+      logger.error('Failed to get signal jobs', { error });
+      throw error;
+    }
+  }
+
+  async retrySignalJob(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const existing = this.signalQueue.getJob(id);
+      if (!existing) {
+        res.status(404).json({ error: 'Signal job not found' });
+        return;
+      }
+
+      const job = this.signalQueue.retryJob(id);
+      if (!job) {
+        res
+          .status(409)
+          .json({ error: `Only DEAD jobs can be retried (job is ${existing.status})` });
+        return;
+      }
+
+      res.status(200).json(job);
+    } catch (error) {
+      logger.error('Failed to retry signal job', { error });
+      throw error;
+    }
+  }
+
+  // ========== Reconciliation ==========
+
+  async getReconciliation(_req: Request, res: Response): Promise<void> {
+    try {
+      const report = this.reconciliationService.getLatestReport();
+
+      if (!report) {
+        res.status(404).json({ error: 'No reconciliation has run yet' });
+        return;
+      }
+
+      res.status(200).json(report);
+    } catch (error) {
+      logger.error('Failed to get reconciliation report', { error });
+      throw error;
+    }
+  }
+
+  async runReconciliation(_req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.reconciliationService.reconcile();
+      res.status(200).json(report);
+    } catch (error) {
+      logger.error('Failed to run reconciliation', { error });
+      throw error;
+    }
+  }
+
+  // ========== Circuit Breaker ==========
+
+  /**
+   * Each account's breaker state and the most recent trips
+   */
+  async getCircuitBreaker(_req: Request, res: Response): Promise<void> {
+    try {
+      res.status(200).json({
+        states: this.circuitBreaker.getStates(),
+        trips: this.circuitBreaker.getTrips(),
+      });
+    } catch (error) {
+      logger.error('Failed to get circuit breaker state', { error });
+      throw error;
+    }
+  }
+
+  async rearmCircuitBreaker(req: Request, res: Response): Promise<void> {
+    const account = req.params.account as BreakerAccount;
+
+    if (account !== 'live' && account !== 'paper') {
+      res.status(400).json({ error: 'Account must be live or paper' });
+      return;
+    }
+
+    if (!this.circuitBreaker.rearm(account)) {
+      res.status(409).json({ error: `The ${account} circuit breaker is not tripped` });
+      return;
+    }
+
+    res.status(200).json(this.circuitBreaker.getStates());
+  }
+
+  // ========== Paper Trading ==========
+
+  async getPaperBalances(_req: Request, res: Response): Promise<void> {
+    try {
+      res.status(200).json(this.paperExchange.getBalances());
+    } catch (error) {
+      logger.error('Failed to get paper balances', { error });
+      throw error;
+    }
+  }
+
+  async setPaperBalance(req: Request, res: Response): Promise<void> {
+    try {
+      const { account, asset, amount } = req.body;
+
+      if (account !== 'SPOT' && account !== 'FUTURE') {
+        res.status(400).json({ error: 'Account must be SPOT or FUTURE' });
+        return;
+      }
+
+      if (!asset || typeof asset !== 'string') {
+        res.status(400).json({ error: 'Asset is required' });
+        return;
+      }
+
+      if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+        res.status(400).json({ error: 'Amount must be a non-negative number' });
+        return;
+      }
+
+      const balance = this.paperExchange.setBalance(account, asset.toUpperCase(), amount);
+      res.status(200).json(balance);
+    } catch (error) {
+      logger.error('Failed to set paper balance', { error });
+      throw error;
+    }
+  }
+
   // ========== Strategy Management ==========
 
   async getAllStrategies(_req: Request, res: Response) {
@@ -474,7 +751,30 @@ export class AdminController {
 
   async createStrategy(req: Request, res: Response): Promise<void> {
     try {
-      const { name, type, description, enabled } = req.body;
+      const {
+        name,
+        type,
+        trading_type,
+        leverage,
+        position_mode,
+        paper_trading,
+        exchange,
+        webhook_auth,
+        dedupe_fields,
+        dedupe_window_ms,
+        max_signal_age_ms,
+        trailing_stop_percent,
+        trailing_stop_amount,
+        max_position_size_percent,
+        max_open_positions,
+        max_daily_loss,
+        default_position_size_percent,
+        default_stop_loss_percent,
+        sizing_mode,
+        sizing_value,
+        description,
+        enabled,
+      } = req.body;
 
       if (!name || !type) {
         res.status(400).json({ error: 'Name and type are required' });
@@ -486,9 +786,91 @@ export class AdminController {
         return;
       }
 
+      const futuresError = this.validateFuturesSettings(trading_type, leverage, position_mode);
+      if (futuresError) {
+        res.status(400).json({ error: futuresError });
+        return;
+      }
+
+      if (paper_trading !== undefined && typeof paper_trading !== 'boolean') {
+        res.status(400).json({ error: 'paper_trading must be a boolean' });
+        return;
+      }
+
+      const exchangeError = this.validateExchange(exchange);
+      if (exchangeError) {
+        res.status(400).json({ error: exchangeError });
+        return;
+      }
+
+      if (webhook_auth !== undefined && webhook_auth !== 'header' && webhook_auth !== 'signed') {
+        res.status(400).json({ error: 'webhook_auth must be header or signed' });
+        return;
+      }
+
+      const dedupeError = this.validateDedupeSettings(dedupe_fields, dedupe_window_ms);
+      if (dedupeError) {
+        res.status(400).json({ error: dedupeError });
+        return;
+      }
+
+      if (
+        max_signal_age_ms !== undefined &&
+        max_signal_age_ms !== null &&
+        (!Number.isInteger(max_signal_age_ms) || max_signal_age_ms <= 0)
+      ) {
+        res.status(400).json({ error: 'max_signal_age_ms must be a positive integer or null' });
+        return;
+      }
+
+      const trailingError = this.validateTrailingSettings(
+        trailing_stop_percent,
+        trailing_stop_amount
+      );
+      if (trailingError) {
+        res.status(400).json({ error: trailingError });
+        return;
+      }
+
+      const riskLimitsError = this.validateRiskLimits({
+        max_position_size_percent,
+        max_open_positions,
+        max_daily_loss,
+        default_position_size_percent,
+        default_stop_loss_percent,
+      });
+      if (riskLimitsError) {
+        res.status(400).json({ error: riskLimitsError });
+        return;
+      }
+
+      const sizingError = this.validateSizingSettings(sizing_mode, sizing_value);
+      if (sizingError) {
+        res.status(400).json({ error: sizingError });
+        return;
+      }
+
       const strategy = this.strategyService.createStrategy({
         name,
         type,
+        trading_type,
+        leverage,
+        position_mode,
+        paper_trading,
+        exchange,
+        webhook_auth,
+        dedupe_fields,
+        dedupe_window_ms,
+        max_signal_age_ms,
+        trailing_stop_percent,
+        trailing_stop_amount,
+        max_position_size_percent,
+        max_open_positions,
+        max_daily_loss,
+        default_position_size_percent,
+        default_stop_loss_percent,
+        sizing_mode,
+        sizing_value,
         description,
         enabled,
       });
@@ -507,16 +889,128 @@ export class AdminController {
   async updateStrategy(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { name, type, description, enabled } = req.body;
+      const {
+        name,
+        type,
+        trading_type,
+        leverage,
+        position_mode,
+        paper_trading,
+        exchange,
+        webhook_auth,
+        dedupe_fields,
+        dedupe_window_ms,
+        max_signal_age_ms,
+        trailing_stop_percent,
+        trailing_stop_amount,
+        max_position_size_percent,
+        max_open_positions,
+        max_daily_loss,
+        default_position_size_percent,
+        default_stop_loss_percent,
+        sizing_mode,
+        sizing_value,
+        description,
+        enabled,
+      } = req.body;
 
       if (type && type !== 'automatic' && type !== 'manual') {
         res.status(400).json({ error: 'Type must be automatic or manual' });
         return;
       }
 
+      const futuresError = this.validateFuturesSettings(trading_type, leverage, position_mode);
+      if (futuresError) {
+        res.status(400).json({ error: futuresError });
+        return;
+      }
+
+      if (paper_trading !== undefined && typeof paper_trading !== 'boolean') {
+        res.status(400).json({ error: 'paper_trading must be a boolean' });
+        return;
+      }
+
+      const exchangeError = this.validateExchange(exchange);
+      if (exchangeError) {
+        res.status(400).json({ error: exchangeError });
+        return;
+      }
+
+      if (webhook_auth !== undefined && webhook_auth !== 'header' && webhook_auth !== 'signed') {
+        res.status(400).json({ error: 'webhook_auth must be header or signed' });
+        return;
+      }
+
+      const dedupeError = this.validateDedupeSettings(dedupe_fields, dedupe_window_ms);
+      if (dedupeError) {
+        res.status(400).json({ error: dedupeError });
+        return;
+      }
+
+      if (
+        max_signal_age_ms !== undefined &&
+        max_signal_age_ms !== null &&
+        (!Number.isInteger(max_signal_age_ms) || max_signal_age_ms <= 0)
+      ) {
+        res.status(400).json({ error: 'max_signal_age_ms must be a positive integer or null' });
+        return;
+      }
+
+      // Checked against the strategy's current trailing stop for the side not being changed
+      const current = this.strategyService.getStrategyById(id);
+      const trailingError = this.validateTrailingSettings(
+        trailing_stop_percent === undefined
+          ? current?.trailing_stop_percent
+          : trailing_stop_percent,
+        trailing_stop_amount === undefined ? current?.trailing_stop_amount : trailing_stop_amount
+      );
+      if (trailingError) {
+        res.status(400).json({ error: trailingError });
+        return;
+      }
+
+      const riskLimitsError = this.validateRiskLimits({
+        max_position_size_percent,
+        max_open_positions,
+        max_daily_loss,
+        default_position_size_percent,
+        default_stop_loss_percent,
+      });
+      if (riskLimitsError) {
+        res.status(400).json({ error: riskLimitsError });
+        return;
+      }
+
+      const sizingError = this.validateSizingSettings(
+        sizing_mode === undefined ? current?.sizing_mode : sizing_mode,
+        sizing_value === undefined ? current?.sizing_value : sizing_value
+      );
+      if (sizingError) {
+        res.status(400).json({ error: sizingError });
+        return;
+      }
+
       const strategy = this.strategyService.updateStrategy(id, {
         name,
         type,
+        trading_type,
+        leverage,
+        position_mode,
+        paper_trading,
+        exchange,
+        webhook_auth,
+        dedupe_fields,
+        dedupe_window_ms,
+        max_signal_age_ms,
+        trailing_stop_percent,
+        trailing_stop_amount,
+        max_position_size_percent,
+        max_open_positions,
+        max_daily_loss,
+        default_position_size_percent,
+        default_stop_loss_percent,
+        sizing_mode,
+        sizing_value,
         description,
         enabled,
       });
@@ -575,6 +1069,440 @@ export class AdminController {
     }
   }
 
+  async rotateWebhookToken(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const strategy = this.strategyService.rotateWebhookToken(id);
+
+      if (!strategy) {
+        res.status(404).json({ error: 'Strategy not found' });
+        return;
+      }
+
+      res.status(200).json(strategy);
+    } catch (error) {
+      logger.error('Failed to rotate webhook token', { error });
+      throw error;
+    }
+  }
+
+  async rotateWebhookSecret(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const strategy = this.strategyService.rotateWebhookSecret(id);
+
+      if (!strategy) {
+        res.status(404).json({ error: 'Strategy not found' });
+        return;
+      }
+
+      res.status(200).json(strategy);
+    } catch (error) {
+      logger.error('Failed to rotate webhook secret', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Validate futures-specific strategy fields, returning an error message if invalid
+   */
+  private validateFuturesSettings(
+    tradingType?: unknown,
+    leverage?: unknown,
+    positionMode?: unknown
+  ): string | null {
+    if (tradingType !== undefined && tradingType !== 'SPOT' && tradingType !== 'FUTURE') {
+      return 'Trading type must be SPOT or FUTURE';
+    }
+
+    if (
+      leverage !== undefined &&
+      (typeof leverage !== 'number' ||
+        !Number.isInteger(leverage) ||
+        leverage < 1 ||
+        leverage > 125)
+    ) {
+      return 'Leverage must be an integer between 1 and 125';
+    }
+
+    if (positionMode !== undefined && positionMode !== 'ONE_WAY' && positionMode !== 'HEDGE') {
+      return 'Position mode must be ONE_WAY or HEDGE';
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a strategy's duplicate detection settings, returning an error message if invalid
+   */
+  private validateDedupeSettings(fields?: unknown, windowMs?: unknown): string | null {
+    if (
+      fields !== undefined &&
+      (!Array.isArray(fields) ||
+        fields.length === 0 ||
+        !fields.every((field) => (DEDUPE_FIELDS as readonly unknown[]).includes(field)))
+    ) {
+      return `dedupe_fields must be a non-empty list of ${DEDUPE_FIELDS.join(', ')}`;
+    }
+
+    if (
+      windowMs !== undefined &&
+      windowMs !== null &&
+      (typeof windowMs !== 'number' || !Number.isInteger(windowMs) || windowMs < 0)
+    ) {
+      return 'dedupe_window_ms must be a non-negative integer or null';
+    }
+
+    return null;
+  }
+
+  private validateTrailingSettings(percent?: unknown, amount?: unknown): string | null {
+    if (
+      percent !== undefined &&
+      percent !== null &&
+      (typeof percent !== 'number' || percent <= 0 || percent > 50)
+    ) {
+      return 'trailing_stop_percent must be a number above 0 and at most 50, or null';
+    }
+
+    if (amount !== undefined && amount !== null && (typeof amount !== 'number' || amount <= 0)) {
+      return 'trailing_stop_amount must be a positive number or null';
+    }
+
+    if (percent && amount) {
+      return 'Set either trailing_stop_percent or trailing_stop_amount, not both';
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a strategy's risk budget, returning an error message if invalid
+   */
+  private validateRiskLimits(limits: Record<RiskLimitField, unknown>): string | null {
+    for (const [field, value] of Object.entries(limits)) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+
+      if (field === 'max_open_positions') {
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+          return 'max_open_positions must be a positive integer or null';
+        }
+      } else if (field === 'max_daily_loss') {
+        if (typeof value !== 'number' || value <= 0) {
+          return 'max_daily_loss must be a positive number or null';
+        }
+      } else if (typeof value !== 'number' || value <= 0 || value > 100) {
+        return `${field} must be a number above 0 and at most 100, or null`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a strategy's sizing mode and value, returning an error message if invalid. Every
+   * mode but percent_balance, which falls back to default_position_size_percent, needs a value.
+   */
+  private validateSizingSettings(mode?: unknown, value?: unknown): string | null {
+    if (mode !== undefined && mode !== null && !SIZING_MODES.includes(mode as SizingMode)) {
+      return `sizing_mode must be one of ${SIZING_MODES.join(', ')}, or null`;
+    }
+
+    if (value === undefined || value === null) {
+      return mode && mode !== 'percent_balance' ? `sizing_mode ${mode} needs a sizing_value` : null;
+    }
+
+    if (typeof value !== 'number' || value <= 0) {
+      return 'sizing_value must be a positive number or null';
+    }
+
+    if (mode !== 'fixed_quote' && value > 100) {
+      return `sizing_value must be at most 100 for ${mode || 'percent_balance'} sizing`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a strategy's exchange - it must be one the bot has an adapter for
+   */
+  private validateExchange(exchange?: unknown): string | null {
+    if (exchange === undefined) {
+      return null;
+    }
+
+    if (!isExchangeName(exchange)) {
+      return 'Exchange must be binance or bybit';
+    }
+
+    if (!this.exchanges.has(exchange)) {
+      return `Exchange ${exchange} is not configured`;
+    }
+
+    return null;
+  }
+
+  // ========== Symbols ==========
+
+  /**
+   * Show what a ticker resolves to on an exchange and market - 400 if it can't be traded
+   */
+  async resolveSymbol(req: Request, res: Response): Promise<void> {
+    try {
+      const { ticker, exchange, trading_type } = req.query;
+
+      if (typeof ticker !== 'string' || !ticker) {
+        res.status(400).json({ error: 'ticker is required' });
+        return;
+      }
+
+      const exchangeError = this.validateExchange(exchange);
+      if (exchangeError) {
+        res.status(400).json({ error: exchangeError });
+        return;
+      }
+
+      if (trading_type !== undefined && trading_type !== 'SPOT' && trading_type !== 'FUTURE') {
+        res.status(400).json({ error: 'Trading type must be SPOT or FUTURE' });
+        return;
+      }
+
+      const resolved = await this.symbolRegistry.resolve(
+        ticker,
+        isExchangeName(exchange) ? exchange : DEFAULT_EXCHANGE,
+        trading_type || 'SPOT'
+      );
+
+      res.status(200).json(resolved);
+    } catch (error) {
+      logger.error('Failed to resolve symbol', { error });
+      throw error;
+    }
+  }
+
+  async getSymbolAliases(_req: Request, res: Response): Promise<void> {
+    try {
+      res.status(200).json(this.symbolRegistry.getAliases());
+    } catch (error) {
+      logger.error('Failed to get symbol aliases', { error });
+      throw error;
+    }
+  }
+
+  async setSymbolAlias(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = req.body;
+
+      if (typeof symbol !== 'string' || !/^[A-Za-z0-9]+$/.test(symbol)) {
+        res.status(400).json({ error: 'symbol must be a venue symbol such as BTCUSDT' });
+        return;
+      }
+
+      res.status(200).json(this.symbolRegistry.setAlias(req.params.alias, symbol));
+    } catch (error) {
+      logger.error('Failed to set symbol alias', { error });
+      throw error;
+    }
+  }
+
+  async deleteSymbolAlias(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.symbolRegistry.deleteAlias(req.params.alias)) {
+        res.status(404).json({ error: 'Symbol alias not found' });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Failed to delete symbol alias', { error });
+      throw error;
+    }
+  }
+
+  // ========== Signal Sources ==========
+
+  async getSignalSources(_req: Request, res: Response): Promise<void> {
+    try {
+      res.status(200).json(this.signalSourceService.getAllSources());
+    } catch (error) {
+      logger.error('Failed to get signal sources', { error });
+      throw error;
+    }
+  }
+
+  async getSignalSource(req: Request, res: Response): Promise<void> {
+    try {
+      const source = this.signalSourceService.getSourceById(req.params.id);
+
+      if (!source) {
+        res.status(404).json({ error: 'Signal source not found' });
+        return;
+      }
+
+      res.status(200).json(source);
+    } catch (error) {
+      logger.error('Failed to get signal source', { error });
+      throw error;
+    }
+  }
+
+  async createSignalSource(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, description, mapping, strategy_id, webhook_auth, enabled } = req.body;
+
+      if (!name || mapping === undefined) {
+        res.status(400).json({ error: 'Name and mapping are required' });
+        return;
+      }
+
+      const parsedMapping = signalMappingSchema.safeParse(mapping);
+      if (!parsedMapping.success) {
+        res.status(400).json({ error: 'Invalid mapping', details: parsedMapping.error.errors });
+        return;
+      }
+
+      const sourceError = this.validateSignalSource(strategy_id, webhook_auth, enabled);
+      if (sourceError) {
+        res.status(400).json({ error: sourceError });
+        return;
+      }
+
+      const source = this.signalSourceService.createSource({
+        name,
+        description,
+        mapping: parsedMapping.data,
+        strategy_id,
+        webhook_auth,
+        enabled,
+      });
+
+      res.status(201).json(source);
+    } catch (error) {
+      const { code } = error as { code?: string };
+      if (code === 'SQLITE_CONSTRAINT' || code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        res.status(409).json({ error: 'Signal source name already exists' });
+        return;
+      }
+      logger.error('Failed to create signal source', { error });
+      throw error;
+    }
+  }
+
+  async updateSignalSource(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name, description, mapping, strategy_id, webhook_auth, enabled } = req.body;
+
+      const parsedMapping =
+        mapping === undefined ? undefined : signalMappingSchema.safeParse(mapping);
+      if (parsedMapping && !parsedMapping.success) {
+        res.status(400).json({ error: 'Invalid mapping', details: parsedMapping.error.errors });
+        return;
+      }
+
+      const sourceError = this.validateSignalSource(strategy_id, webhook_auth, enabled);
+      if (sourceError) {
+        res.status(400).json({ error: sourceError });
+        return;
+      }
+
+      const source = this.signalSourceService.updateSource(id, {
+        name,
+        description,
+        mapping: parsedMapping?.data,
+        strategy_id,
+        webhook_auth,
+        enabled,
+      });
+
+      if (!source) {
+        res.status(404).json({ error: 'Signal source not found' });
+        return;
+      }
+
+      res.status(200).json(source);
+    } catch (error) {
+      const { code } = error as { code?: string };
+      if (code === 'SQLITE_CONSTRAINT' || code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        res.status(409).json({ error: 'Signal source name already exists' });
+        return;
+      }
+      logger.error('Failed to update signal source', { error });
+      throw error;
+    }
+  }
+
+  async deleteSignalSource(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = this.signalSourceService.deleteSource(req.params.id);
+
+      if (!deleted) {
+        res.status(404).json({ error: 'Signal source not found' });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Failed to delete signal source', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Run a sample payload through a source's mapping without trading on it, returning the
+   * mapped signal and whether it would pass validation
+   */
+  async previewSignalSource(req: Request, res: Response): Promise<void> {
+    try {
+      const source = this.signalSourceService.getSourceById(req.params.id);
+
+      if (!source) {
+        res.status(404).json({ error: 'Signal source not found' });
+        return;
+      }
+
+      const mapped = this.signalSourceService.mapPayload(source.mapping, req.body.payload);
+      const validation = tradingViewSignalSchema.safeParse(mapped);
+
+      res.status(200).json({
+        mapped,
+        valid: validation.success,
+        signal: validation.success ? validation.data : undefined,
+        errors: validation.success ? undefined : validation.error.errors,
+      });
+    } catch (error) {
+      logger.error('Failed to preview signal source', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Validate a signal source's settings, returning an error message if invalid
+   */
+  private validateSignalSource(
+    strategyId?: unknown,
+    webhookAuth?: unknown,
+    enabled?: unknown
+  ): string | null {
+    if (strategyId !== undefined && strategyId !== null) {
+      if (typeof strategyId !== 'string' || !this.strategyService.getStrategyById(strategyId)) {
+        return 'strategy_id must be an existing strategy';
+      }
+    }
+
+    if (webhookAuth !== undefined && webhookAuth !== 'header' && webhookAuth !== 'signed') {
+      return 'webhook_auth must be header or signed';
+    }
+
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      return 'enabled must be a boolean';
+    }
+
+    return null;
+  }
+
   // ========== Pending Signals Management ==========
 
   async getPendingSignals(req: Request, res: Response) {
@@ -586,7 +1514,7 @@ export class AdminController {
       );
       logger.info('Returning pending signals with strategy names', {
         count: signals.length,
-        sample: signals[0] ? { id: signals[0].id, strategy_name: signals[0].strategy_name } : null
+        sample: signals[0] ? { id: signals[0].id, strategy_name: signals[0].strategy_name } : null,
       });
       res.status(200).json(signals);
     } catch (error) {
@@ -605,25 +1533,107 @@ export class AdminController {
     }
   }
 
+  /**
+   * What approving a pending signal would do: its size, and every risk limit it breaks with
+   * whether an approver may override it
+   */
+  async getPendingSignalRiskPreview(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const pendingSignal = this.pendingSignalService.getPendingSignalById(id);
+
+      if (!pendingSignal) {
+        return res.status(404).json({ error: 'Pending signal not found' });
+      }
+
+      const preview = await this.orderManager.previewSignalRisk(
+        JSON.parse(pendingSignal.signal_data),
+        pendingSignal.strategy_id
+      );
+
+      return res.status(200).json({
+        riskManagementEnabled: this.riskManager.getRiskConfig().enabled,
+        ...preview,
+      });
+    } catch (error) {
+      logger.error('Failed to preview pending signal risk', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a pending signal and execute it. Nothing is approved while trading is stopped, and
+   * a hard risk limit the signal breaks blocks the approval; soft ones are overridden only with
+   * a justification, recorded with the limits it overrides.
+   */
   async approvePendingSignal(req: Request, res: Response) {
     try {
       const { id } = req.params;
-      const pendingSignal = this.pendingSignalService.approvePendingSignal(id, 'admin');
+      const { justification } = req.body ?? {};
+
+      if (
+        justification !== undefined &&
+        (typeof justification !== 'string' || justification.trim() === '')
+      ) {
+        return res.status(400).json({ error: 'justification must be a non-empty string' });
+      }
+
+      const pendingSignal = this.pendingSignalService.getPendingSignalById(id);
 
       if (!pendingSignal) {
         return res.status(404).json({ error: 'Pending signal not found' });
       }
 
-      // Execute the approved signal
+      if (pendingSignal.status !== 'pending') {
+        return res
+          .status(409)
+          .json({ error: `Pending signal was already ${pendingSignal.status}` });
+      }
+
+      if (!this.riskManager.getRiskConfig().enabled) {
+        return res.status(409).json({ error: 'Trading is stopped, approvals are halted' });
+      }
+
       const signalData = JSON.parse(pendingSignal.signal_data);
+      const { violations } = await this.orderManager.previewSignalRisk(
+        signalData,
+        pendingSignal.strategy_id
+      );
+      const hard = violations.filter((violation) => violation.tier === 'hard');
+      const soft = violations.filter((violation) => violation.tier === 'soft');
+
+      if (hard.length > 0) {
+        return res.status(409).json({
+          error: `Hard risk limits can't be overridden: ${hard.map((v) => v.reason).join('; ')}`,
+          violations: hard,
+        });
+      }
+
+      if (soft.length > 0 && !justification) {
+        return res.status(400).json({
+          error: 'Overriding soft risk limits needs a justification',
+          violations: soft,
+        });
+      }
+
+      const overriddenLimits = soft.map((violation) => violation.reason);
+
+      const approved = this.pendingSignalService.approvePendingSignal(
+        id,
+        'admin',
+        justification ? { justification: justification.trim(), overriddenLimits } : undefined
+      );
+
+      // Execute the approved signal - a justified approval lets soft limits through
       this.executeApprovedSignalAsync(
         id,
         pendingSignal.signal_id,
         signalData,
-        pendingSignal.strategy_id
+        pendingSignal.strategy_id,
+        Boolean(justification)
       );
 
-      return res.status(200).json(pendingSignal);
+      return res.status(200).json(approved);
     } catch (error) {
       logger.error('Failed to approve pending signal', { error });
       throw error;
@@ -650,17 +1660,18 @@ export class AdminController {
     pendingSignalId: string,
     signalId: string,
     signal: any,
-    strategyId?: string
+    strategyId: string,
+    overrideSoftLimits: boolean
   ) {
     try {
-      // Bypass risk checks for manually approved signals (when Risk Management is enabled)
-      // isManualApproval=true prevents creating REJECTED orders if Binance fails
+      // Hard risk limits still apply to manually approved signals; soft ones only with a
+      // justification. isManualApproval=true prevents creating REJECTED orders if Binance fails
       const orderId = await this.orderManager.executeFromSignal(
         signalId,
         signal,
         strategyId,
-        true, // bypassEnabledCheck = true
-        true  // isManualApproval = true
+        overrideSoftLimits,
+        true // isManualApproval = true
       );
 
       // Update pending signal with order ID
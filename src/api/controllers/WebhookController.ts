@@ -2,7 +2,7 @@ import { Request, Response } from 'express';
 import { createModuleLogger } from '../../utils/logger';
 import { tradingViewSignalSchema } from '../schemas/webhook.schema';
 import { SignalProcessor } from '../../services/SignalProcessor';
-import { OrderManager } from '../../services/OrderManager';
+import { SignalQueue } from '../../services/SignalQueue';
 import { PendingSignalService } from '../../services/PendingSignalService';
 
 const logger = createModuleLogger('WebhookController');
@@ -12,7 +12,7 @@ export class WebhookController {
 
   constructor(
     private signalProcessor: SignalProcessor,
-    private orderManager: OrderManager
+    private signalQueue: SignalQueue
   ) {
     this.pendingSignalService = new PendingSignalService();
   }
@@ -27,8 +27,14 @@ export class WebhookController {
       // Validate payload
       const signal = tradingViewSignalSchema.parse(req.body);
 
-      // Process signal and determine strategy
-      const result = await this.signalProcessor.processSignal(signal);
+      // Process signal and determine strategy - fixed already on a strategy's own endpoint
+      const result = await this.signalProcessor.processSignal(signal, res.locals.strategy);
+
+      // Automatic strategy: queue the order before replying, so an accepted signal
+      // is executed even if the process restarts or Binance is briefly down
+      if (!(result.requiresApproval && result.strategyId)) {
+        this.signalQueue.enqueue(result.signalId, result.strategyId, result.signal);
+      }
 
       // Return 200 OK immediately
       res.status(200).json({
@@ -41,13 +47,9 @@ export class WebhookController {
         requiresApproval: result.requiresApproval,
       });
 
-      // Handle based on strategy type
+      // Manual strategy: create pending signal for review
       if (result.requiresApproval && result.strategyId) {
-        // Manual strategy: create pending signal for review
-        this.createPendingSignalAsync(result.signalId, result.strategyId, signal);
-      } else {
-        // Automatic strategy: execute order immediately
-        this.executeOrderAsync(result.signalId, result.strategyId, signal);
+        this.createPendingSignalAsync(result.signalId, result.strategyId, result.signal);
       }
     } catch (error) {
       logger.error('Webhook processing failed', { error });
@@ -80,17 +82,4 @@ export class WebhookController {
       });
     }
   }
-
-  private async executeOrderAsync(signalId: string, strategyId: string | null, signal: any) {
-    try {
-      const orderId = await this.orderManager.executeFromSignal(signalId, signal, strategyId);
-      logger.info('Order executed from webhook', { signalId, orderId, strategyId });
-    } catch (error) {
-      logger.error('Failed to execute order from webhook', {
-        signalId,
-        strategyId,
-        error,
-      });
-    }
-  }
 }
@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { parseAlertText } from '../schemas/alertText';
+import { SignalSourceService } from '../../services/SignalSourceService';
+
+/**
+ * Turns text/plain alert messages into the same object a JSON alert parses to, once the
+ * request is authenticated and ahead of validation
+ */
+export const parseAlertBody = (req: Request, _res: Response, next: NextFunction) => {
+  if (typeof req.body === 'string') {
+    req.body = parseAlertText(req.body);
+  }
+
+  next();
+};
+
+/**
+ * Maps a signal source's payload onto a raw signal with the source's field mapping, once
+ * authentication has put the source in res.locals.signalSource
+ */
+export const mapSourceBody =
+  (sourceService: SignalSourceService) => (req: Request, res: Response, next: NextFunction) => {
+    req.body = sourceService.mapPayload(res.locals.signalSource.mapping, req.body);
+    next();
+  };
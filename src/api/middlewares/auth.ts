@@ -1,22 +1,156 @@
+import { IncomingMessage } from 'http';
 import { Request, Response, NextFunction } from 'express';
-import { AuthenticationError } from '../../utils/errors';
+import { AuthenticationError, ValidationError } from '../../utils/errors';
+import { SignalProcessor } from '../../services/SignalProcessor';
+import { StrategyService, WebhookAuthMode } from '../../services/StrategyService';
+import { SignalSourceService } from '../../services/SignalSourceService';
+import { WebhookSignatureVerifier } from '../../services/WebhookSignatureVerifier';
 import config from '../../config';
 
-export const authenticateWebhook = (req: Request, _res: Response, next: NextFunction) => {
-  // Skip authentication for OPTIONS requests (CORS preflight)
-  if (req.method === 'OPTIONS') {
-    return next();
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer; // Body exactly as received, for signature checks
+}
+
+/**
+ * Body parser `verify` hook keeping the raw body around
+ */
+export const captureRawBody = (req: IncomingMessage, _res: unknown, buf: Buffer) => {
+  (req as RawBodyRequest).rawBody = buf;
+};
+
+/**
+ * Check a webhook's credentials: the static x-webhook-secret header, or a signed request
+ * checked by the verifier
+ */
+const checkWebhookCredentials = (
+  req: Request,
+  verifier: WebhookSignatureVerifier,
+  mode: WebhookAuthMode,
+  secret: string,
+  strategyId: string | null
+) => {
+  if (mode === 'signed') {
+    verifier.verify({
+      timestamp: req.header('x-webhook-timestamp'),
+      nonce: req.header('x-webhook-nonce'),
+      signature: req.header('x-webhook-signature'),
+      rawBody: (req as RawBodyRequest).rawBody || Buffer.alloc(0),
+      secret,
+      strategyId,
+    });
+    return;
   }
 
-  const secret = req.headers['x-webhook-secret'];
+  const header = req.headers['x-webhook-secret'];
 
-  if (!secret || secret !== config.tradingView.webhookSecret) {
+  if (!header || header !== secret) {
     throw new AuthenticationError('Invalid webhook secret');
   }
-
-  next();
 };
 
+/**
+ * Authenticates webhooks on the shared endpoint with the global secret, the way
+ * TRADINGVIEW_WEBHOOK_AUTH asks for. Nothing in the body is trusted until this passes.
+ */
+export const authenticateWebhook =
+  (verifier: WebhookSignatureVerifier) => (req: Request, _res: Response, next: NextFunction) => {
+    // Skip authentication for OPTIONS requests (CORS preflight)
+    if (req.method === 'OPTIONS') {
+      return next();
+    }
+
+    checkWebhookCredentials(
+      req,
+      verifier,
+      config.tradingView.webhookAuth,
+      config.tradingView.webhookSecret,
+      null
+    );
+
+    next();
+  };
+
+/**
+ * Keeps a strategy that asks for signed webhooks from taking signals on the shared endpoint
+ * unless that endpoint is signed too. Runs on the authenticated, parsed body.
+ */
+export const checkSharedWebhookStrategy =
+  (signalProcessor: SignalProcessor) => (req: Request, _res: Response, next: NextFunction) => {
+    const strategy = signalProcessor.resolveStrategy(req.body?.strategy);
+
+    if (strategy?.webhook_auth === 'signed' && config.tradingView.webhookAuth !== 'signed') {
+      throw new AuthenticationError(`Strategy ${strategy.name} only takes signed webhooks`);
+    }
+
+    next();
+  };
+
+/**
+ * Authenticates webhooks on a strategy's own endpoint with that strategy's secret. The
+ * strategy is left in res.locals.strategy; unknown tokens are rejected.
+ */
+export const authenticateStrategyWebhook =
+  (strategyService: StrategyService, verifier: WebhookSignatureVerifier) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    // Skip authentication for OPTIONS requests (CORS preflight)
+    if (req.method === 'OPTIONS') {
+      return next();
+    }
+
+    const strategy = strategyService.getStrategyByWebhookToken(req.params.token);
+
+    if (!strategy) {
+      throw new AuthenticationError('Unknown webhook token');
+    }
+
+    checkWebhookCredentials(
+      req,
+      verifier,
+      strategy.webhook_auth,
+      strategy.webhook_secret,
+      strategy.id
+    );
+
+    res.locals.strategy = strategy;
+    next();
+  };
+
+/**
+ * Authenticates webhooks from a non-TradingView signal source with that source's secret. The
+ * source is left in res.locals.signalSource and its strategy, if it fixes one, in
+ * res.locals.strategy; unknown tokens are rejected.
+ */
+export const authenticateSourceWebhook =
+  (
+    sourceService: SignalSourceService,
+    strategyService: StrategyService,
+    verifier: WebhookSignatureVerifier
+  ) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    // Skip authentication for OPTIONS requests (CORS preflight)
+    if (req.method === 'OPTIONS') {
+      return next();
+    }
+
+    const source = sourceService.getSourceByWebhookToken(req.params.token);
+
+    if (!source) {
+      throw new AuthenticationError('Unknown webhook token');
+    }
+
+    checkWebhookCredentials(req, verifier, source.webhook_auth, source.webhook_secret, null);
+
+    if (!source.enabled) {
+      throw new ValidationError(`Signal source ${source.name} is disabled`);
+    }
+
+    res.locals.signalSource = source;
+    res.locals.strategy = source.strategy_id
+      ? strategyService.getStrategyById(source.strategy_id) || undefined
+      : undefined;
+    next();
+  };
+
 export const authenticateAdmin = (req: Request, _res: Response, next: NextFunction) => {
   // Skip authentication for OPTIONS requests (CORS preflight)
   if (req.method === 'OPTIONS') {
@@ -25,6 +25,14 @@ export function createAdminRouter(controller: AdminController): Router {
     controller.closePosition(req, res).catch(next);
   });
 
+  router.put('/positions/:id/trailing-stop', (req, res, next) => {
+    controller.setTrailingStop(req, res).catch(next);
+  });
+
+  router.delete('/positions/:id/trailing-stop', (req, res, next) => {
+    controller.clearTrailingStop(req, res).catch(next);
+  });
+
   router.get('/orders', (req, res, next) => {
     controller.getOrders(req, res).catch(next);
   });
@@ -54,10 +62,46 @@ export function createAdminRouter(controller: AdminController): Router {
     controller.updateRiskConfig(req, res).catch(next);
   });
 
+  // Drawdown circuit breaker
+  router.get('/circuit-breaker', (req, res, next) => {
+    controller.getCircuitBreaker(req, res).catch(next);
+  });
+
+  router.post('/circuit-breaker/:account/rearm', (req, res, next) => {
+    controller.rearmCircuitBreaker(req, res).catch(next);
+  });
+
   router.get('/signals', (req, res, next) => {
     controller.getSignals(req, res).catch(next);
   });
 
+  // Virtual balances of the paper exchange
+  router.get('/paper/balances', (req, res, next) => {
+    controller.getPaperBalances(req, res).catch(next);
+  });
+
+  router.post('/paper/balances', (req, res, next) => {
+    controller.setPaperBalance(req, res).catch(next);
+  });
+
+  // Drift between the database and the exchange
+  router.get('/reconciliation', (req, res, next) => {
+    controller.getReconciliation(req, res).catch(next);
+  });
+
+  router.post('/reconciliation/run', (req, res, next) => {
+    controller.runReconciliation(req, res).catch(next);
+  });
+
+  // Signal execution queue endpoints
+  router.get('/signal-jobs', (req, res, next) => {
+    controller.getSignalJobs(req, res).catch(next);
+  });
+
+  router.post('/signal-jobs/:id/retry', (req, res, next) => {
+    controller.retrySignalJob(req, res).catch(next);
+  });
+
   // Strategy management endpoints
   router.get('/strategies', (req, res, next) => {
     controller.getAllStrategies(req, res).catch(next);
@@ -83,6 +127,56 @@ export function createAdminRouter(controller: AdminController): Router {
     controller.toggleStrategy(req, res).catch(next);
   });
 
+  router.post('/strategies/:id/webhook-token/rotate', (req, res, next) => {
+    controller.rotateWebhookToken(req, res).catch(next);
+  });
+
+  router.post('/strategies/:id/webhook-secret/rotate', (req, res, next) => {
+    controller.rotateWebhookSecret(req, res).catch(next);
+  });
+
+  // Symbol resolution and ticker aliases
+  router.get('/symbols/resolve', (req, res, next) => {
+    controller.resolveSymbol(req, res).catch(next);
+  });
+
+  router.get('/symbol-aliases', (req, res, next) => {
+    controller.getSymbolAliases(req, res).catch(next);
+  });
+
+  router.put('/symbol-aliases/:alias', (req, res, next) => {
+    controller.setSymbolAlias(req, res).catch(next);
+  });
+
+  router.delete('/symbol-aliases/:alias', (req, res, next) => {
+    controller.deleteSymbolAlias(req, res).catch(next);
+  });
+
+  // Signal sources - field mappings for non-TradingView webhooks
+  router.get('/signal-sources', (req, res, next) => {
+    controller.getSignalSources(req, res).catch(next);
+  });
+
+  router.get('/signal-sources/:id', (req, res, next) => {
+    controller.getSignalSource(req, res).catch(next);
+  });
+
+  router.post('/signal-sources', (req, res, next) => {
+    controller.createSignalSource(req, res).catch(next);
+  });
+
+  router.put('/signal-sources/:id', (req, res, next) => {
+    controller.updateSignalSource(req, res).catch(next);
+  });
+
+  router.delete('/signal-sources/:id', (req, res, next) => {
+    controller.deleteSignalSource(req, res).catch(next);
+  });
+
+  router.post('/signal-sources/:id/preview', (req, res, next) => {
+    controller.previewSignalSource(req, res).catch(next);
+  });
+
   // Pending signals management endpoints
   router.get('/pending-signals', (req, res, next) => {
     controller.getPendingSignals(req, res).catch(next);
@@ -92,6 +186,10 @@ export function createAdminRouter(controller: AdminController): Router {
     controller.getPendingSignalsCount(req, res).catch(next);
   });
 
+  router.get('/pending-signals/:id/risk-preview', (req, res, next) => {
+    controller.getPendingSignalRiskPreview(req, res).catch(next);
+  });
+
   router.post('/pending-signals/:id/approve', (req, res, next) => {
     controller.approvePendingSignal(req, res).catch(next);
   });
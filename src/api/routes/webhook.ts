@@ -1,11 +1,35 @@
-import { Router } from 'express';
+import { RequestHandler, Router } from 'express';
 import { WebhookController } from '../controllers/WebhookController';
+import { parseAlertBody } from '../middlewares/alertBody';
 
-export function createWebhookRouter(controller: WebhookController): Router {
+export function createWebhookRouter(
+  controller: WebhookController,
+  authenticate: RequestHandler,
+  checkSharedStrategy: RequestHandler,
+  authenticateStrategy: RequestHandler,
+  authenticateSource: RequestHandler,
+  mapSource: RequestHandler
+): Router {
   const router = Router();
 
-  // Authentication temporarily disabled for testing - TradingView doesn't support custom headers
-  router.post('/tradingview', (req, res, next) => {
+  // Plain-text alerts are parsed only once the request is authenticated
+  router.post(
+    '/tradingview',
+    authenticate,
+    parseAlertBody,
+    checkSharedStrategy,
+    (req, res, next) => {
+      controller.handleTradingViewWebhook(req, res).catch(next);
+    }
+  );
+
+  // A strategy's own endpoint - the token picks the strategy and its secret
+  router.post('/s/:token', authenticateStrategy, parseAlertBody, (req, res, next) => {
+    controller.handleTradingViewWebhook(req, res).catch(next);
+  });
+
+  // Other signal sources - their payload is mapped onto a signal before validation
+  router.post('/source/:token', authenticateSource, parseAlertBody, mapSource, (req, res, next) => {
     controller.handleTradingViewWebhook(req, res).catch(next);
   });
 
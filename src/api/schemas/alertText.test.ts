@@ -0,0 +1,81 @@
+import { parseAlertText } from './alertText';
+import { tradingViewSignalSchema } from './webhook.schema';
+import { ValidationError } from '../../utils/errors';
+
+const parseError = (text: string) => {
+  try {
+    parseAlertText(text);
+  } catch (error) {
+    return error as ValidationError;
+  }
+  throw new Error('Expected the alert text to be rejected');
+};
+
+describe('parseAlertText', () => {
+  it('parses JSON sent as text', () => {
+    expect(parseAlertText(' {"action": "buy", "symbol": "BTCUSDT", "quantity": 0.01} ')).toEqual({
+      action: 'buy',
+      symbol: 'BTCUSDT',
+      quantity: 0.01,
+    });
+  });
+
+  it('parses key=value lines with aliases, comments and blank lines', () => {
+    const signal = parseAlertText(
+      ['# entry', 'side=BUY', 'ticker=BTCUSDT', '', 'type=Limit', 'price=60000', 'sl=58000'].join(
+        '\r\n'
+      )
+    );
+
+    expect(signal).toEqual({
+      action: 'buy',
+      symbol: 'BTCUSDT',
+      orderType: 'limit',
+      price: 60000,
+      stopLoss: 58000,
+    });
+  });
+
+  it('keeps the rest of the line as the value', () => {
+    expect(parseAlertText('action=close\nsymbol=ETHUSDT\ncomment=take profit hit')).toEqual({
+      action: 'close',
+      symbol: 'ETHUSDT',
+      message: 'take profit hit',
+    });
+  });
+
+  it('parses the compact form', () => {
+    expect(parseAlertText('sell BTCUSDT limit price=61000 qty=0.5 strategy=Breakout')).toEqual({
+      action: 'sell',
+      symbol: 'BTCUSDT',
+      orderType: 'limit',
+      price: 61000,
+      quantity: 0.5,
+      strategy: 'Breakout',
+    });
+  });
+
+  it('gives a signal the webhook schema accepts', () => {
+    const result = tradingViewSignalSchema.safeParse(parseAlertText('buy BTCUSDT qty=0.01'));
+
+    expect(result.success).toBe(true);
+  });
+
+  it.each([
+    ['', 'Alert message is empty'],
+    ['{"action": ', 'Alert message is not valid JSON'],
+    ['hold BTCUSDT', 'token 1: expected an action'],
+    ['buy qty=1', 'token 2: expected a symbol after "buy"'],
+    ['buy BTCUSDT 0.01', 'token 3: expected key=value, got "0.01"'],
+    ['buy BTCUSDT size=1', 'token 3: unknown key "size"'],
+    ['buy BTCUSDT qty=abc', 'token 3: "qty" must be a number, got "abc"'],
+    ['buy BTCUSDT qty=1 quantity=2', 'token 4: "quantity" is set more than once'],
+    ['action=buy\nsymbol', 'line 2: expected key=value, got "symbol"'],
+    ['action=buy\nsymbol=', 'line 2: "symbol" has no value'],
+  ])('rejects %j naming the fault', (text, message) => {
+    const error = parseError(text);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toContain(message);
+  });
+});
@@ -0,0 +1,180 @@
+import { ValidationError } from '../../utils/errors';
+import { SIGNAL_ACTIONS } from './webhook.schema';
+
+// Accepted spellings of each signal field
+const KEY_ALIASES: Record<string, string> = {
+  action: 'action',
+  side: 'action',
+  symbol: 'symbol',
+  ticker: 'symbol',
+  strategy: 'strategy',
+  ordertype: 'orderType',
+  order_type: 'orderType',
+  type: 'orderType',
+  price: 'price',
+  quantity: 'quantity',
+  qty: 'quantity',
+  stoploss: 'stopLoss',
+  stop_loss: 'stopLoss',
+  sl: 'stopLoss',
+  percent: 'percent',
+  pct: 'percent',
+  message: 'message',
+  comment: 'message',
+  idempotencykey: 'idempotencyKey',
+  idempotency_key: 'idempotencyKey',
+  time: 'time',
+  bartime: 'time',
+  bar_time: 'time',
+  timenow: 'timenow',
+  interval: 'interval',
+  tf: 'interval',
+};
+
+const NUMERIC_FIELDS = new Set(['price', 'quantity', 'stopLoss', 'percent']);
+const LOWERCASE_FIELDS = new Set(['action', 'orderType']);
+const ACTIONS: readonly string[] = SIGNAL_ACTIONS;
+const ORDER_TYPES = ['market', 'limit'];
+
+/**
+ * Parses the text TradingView sends when an alert message isn't strict JSON into a raw signal
+ * object, left for tradingViewSignalSchema to validate. Three forms are understood:
+ *
+ *   JSON sent as text:  {"action": "buy", "symbol": "BTCUSDT"}
+ *   key=value lines:    action=buy
+ *                       symbol=BTCUSDT
+ *                       qty=0.01
+ *   compact:            buy BTCUSDT qty=0.01 sl=60000
+ *
+ * Errors name the line (and token) at fault so the alert text can be fixed quickly.
+ */
+export function parseAlertText(text: string): Record<string, unknown> {
+  const trimmed = text.trim();
+
+  if (!trimmed) {
+    throw new ValidationError('Alert message is empty');
+  }
+
+  if (trimmed.startsWith('{')) {
+    return parseJson(trimmed);
+  }
+
+  // Comment lines belong to the key=value form - the form is told by the first line of content
+  const firstLine = trimmed.split(/\r?\n/).find((line) => !line.trim().startsWith('#')) || '';
+  const firstToken = firstLine.trim().split(/\s+/)[0];
+  return firstToken.includes('=') ? parseKeyValueLines(text) : parseCompact(text);
+}
+
+function parseJson(text: string): Record<string, unknown> {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new ValidationError(`Alert message is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ValidationError('Alert message JSON must be an object');
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+// One key=value pair per line; the value runs to the end of the line
+function parseKeyValueLines(text: string): Record<string, unknown> {
+  const signal: Record<string, unknown> = {};
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const where = `line ${index + 1}`;
+
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+
+    const separator = line.indexOf('=');
+    if (separator <= 0) {
+      throw new ValidationError(`Alert message ${where}: expected key=value, got "${line}"`);
+    }
+
+    setField(signal, line.slice(0, separator), line.slice(separator + 1), where);
+  });
+
+  return signal;
+}
+
+// <action> <symbol> [market|limit] [key=value ...]
+function parseCompact(text: string): Record<string, unknown> {
+  const tokens = text.trim().split(/\s+/);
+  const signal: Record<string, unknown> = {};
+
+  const action = tokens[0].toLowerCase();
+  if (!ACTIONS.includes(action)) {
+    throw new ValidationError(
+      `Alert message token 1: expected an action (${ACTIONS.join(', ')}), got "${tokens[0]}"`
+    );
+  }
+  signal.action = action;
+
+  if (tokens.length < 2 || tokens[1].includes('=')) {
+    throw new ValidationError(`Alert message token 2: expected a symbol after "${tokens[0]}"`);
+  }
+  signal.symbol = tokens[1];
+
+  tokens.slice(2).forEach((token, index) => {
+    const where = `token ${index + 3}`;
+
+    if (ORDER_TYPES.includes(token.toLowerCase()) && signal.orderType === undefined) {
+      signal.orderType = token.toLowerCase();
+      return;
+    }
+
+    const separator = token.indexOf('=');
+    if (separator <= 0) {
+      throw new ValidationError(`Alert message ${where}: expected key=value, got "${token}"`);
+    }
+
+    setField(signal, token.slice(0, separator), token.slice(separator + 1), where);
+  });
+
+  return signal;
+}
+
+function setField(
+  signal: Record<string, unknown>,
+  rawKey: string,
+  rawValue: string,
+  where: string
+): void {
+  const key = rawKey.trim();
+  const value = rawValue.trim();
+  const field = KEY_ALIASES[key.toLowerCase()];
+
+  if (!field) {
+    throw new ValidationError(
+      `Alert message ${where}: unknown key "${key}" (expected one of ${Object.keys(KEY_ALIASES).join(', ')})`
+    );
+  }
+
+  if (signal[field] !== undefined) {
+    throw new ValidationError(`Alert message ${where}: "${key}" is set more than once`);
+  }
+
+  if (!value) {
+    throw new ValidationError(`Alert message ${where}: "${key}" has no value`);
+  }
+
+  if (NUMERIC_FIELDS.has(field)) {
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+      throw new ValidationError(
+        `Alert message ${where}: "${key}" must be a number, got "${value}"`
+      );
+    }
+    signal[field] = number;
+    return;
+  }
+
+  signal[field] = LOWERCASE_FIELDS.has(field) ? value.toLowerCase() : value;
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { parseJsonPath } from '../../utils/jsonPath';
+import { tradingViewSignalSchema } from './webhook.schema';
+
+const jsonPath = z.string().superRefine((path, ctx) => {
+  try {
+    parseJsonPath(path);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+  }
+});
+
+const literal = z.union([z.string(), z.number(), z.boolean()]);
+
+/**
+ * How one signal field is filled: a JSONPath into the payload, a literal default used when the
+ * path is missing (or on its own), and an optional lookup translating payload values,
+ * e.g. { "long": "buy", "short": "sell" }. A bare string is shorthand for { path }.
+ */
+const fieldMappingSchema = z.preprocess(
+  (field) => (typeof field === 'string' ? { path: field } : field),
+  z
+    .object({
+      path: jsonPath.optional(),
+      default: literal.optional(),
+      values: z.record(literal).optional(),
+    })
+    .strict()
+    .refine((field) => field.path !== undefined || field.default !== undefined, {
+      message: 'A field mapping needs a path, a default or both',
+    })
+);
+
+const signalFields = Object.keys(tradingViewSignalSchema.shape) as [
+  keyof typeof tradingViewSignalSchema.shape,
+  ...(keyof typeof tradingViewSignalSchema.shape)[],
+];
+
+/**
+ * Mapping from a source's JSON payload onto the internal signal, keyed by signal field
+ */
+export const signalMappingSchema = z
+  .record(z.enum(signalFields), fieldMappingSchema)
+  .refine((mapping) => mapping.action !== undefined && mapping.symbol !== undefined, {
+    message: 'The mapping must cover action and symbol',
+  });
+
+export type FieldMapping = z.infer<typeof fieldMappingSchema>;
+export type SignalMapping = z.infer<typeof signalMappingSchema>;
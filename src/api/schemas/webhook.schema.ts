@@ -1,20 +1,134 @@
 import { z } from 'zod';
+import { intervalToMs, parseSignalTime } from '../../utils/tradingViewTime';
+
+// ISO 8601 or epoch seconds/milliseconds, normalised to an ISO string
+const signalTime = z.union([z.string(), z.number()]).transform((value, ctx) => {
+  const date = parseSignalTime(value);
+  if (!date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Time must be an ISO 8601 date or an epoch time',
+    });
+    return z.NEVER;
+  }
+  return date.toISOString();
+});
+
+/**
+ * What a signal does: buy/sell open (or net against) a position; close, close_long and
+ * close_short exit the open position (all of it, `quantity` of it or `percent` of it);
+ * reverse flattens the open futures position and opens one on the other side.
+ */
+export const SIGNAL_ACTIONS = [
+  'buy',
+  'sell',
+  'close',
+  'close_long',
+  'close_short',
+  'reverse',
+] as const;
+
+export const CLOSE_ACTIONS: readonly TradingViewSignal['action'][] = [
+  'close',
+  'close_long',
+  'close_short',
+];
+
+/**
+ * A take-profit target: a price, or a distance from the entry price in percent, and the share
+ * of the position (in percent) exited there
+ */
+const takeProfitSchema = z
+  .object({
+    price: z.number().positive('Take-profit price must be positive').optional(),
+    percent: z.number().positive('Take-profit percent must be positive').optional(),
+    allocation: z.number().positive().max(100, 'Take-profit allocation must be at most 100'),
+  })
+  .refine((target) => (target.price === undefined) !== (target.percent === undefined), {
+    message: 'A take-profit needs either price or percent',
+  });
+
+/**
+ * A trailing stop: the stop follows the best price since entry (or since the activation price
+ * was reached) at a callback distance in percent or in quote currency
+ */
+export const trailingStopSchema = z
+  .object({
+    percent: z
+      .number()
+      .positive()
+      .max(50, 'Trailing callback percent must be at most 50')
+      .optional(),
+    amount: z.number().positive('Trailing callback amount must be positive').optional(),
+    activationPrice: z.number().positive('Activation price must be positive').optional(),
+  })
+  .refine((trailing) => (trailing.percent === undefined) !== (trailing.amount === undefined), {
+    message: 'A trailing stop needs either percent or amount',
+  });
+
+/**
+ * How an entry without a quantity is sized: percent_balance and percent_equity take a percent
+ * of the free balance or of total equity, fixed_quote an amount of quote currency, and
+ * risk_per_trade the percent of equity lost if the stop is hit
+ */
+export const SIZING_MODES = [
+  'percent_balance',
+  'fixed_quote',
+  'percent_equity',
+  'risk_per_trade',
+] as const;
+export type SizingMode = (typeof SIZING_MODES)[number];
+
+export const sizingSchema = z
+  .object({
+    mode: z.enum(SIZING_MODES, {
+      invalid_type_error: `Sizing mode must be one of ${SIZING_MODES.join(', ')}`,
+    }),
+    value: z.number().positive('Sizing value must be positive'),
+  })
+  .refine((sizing) => sizing.mode === 'fixed_quote' || sizing.value <= 100, {
+    message: 'A percent sizing value must be at most 100',
+  });
 
 export const tradingViewSignalSchema = z.object({
-  action: z.enum(['buy', 'sell', 'close'], {
+  action: z.enum(SIGNAL_ACTIONS, {
     required_error: 'Action is required',
-    invalid_type_error: 'Action must be buy, sell, or close',
+    invalid_type_error: `Action must be one of ${SIGNAL_ACTIONS.join(', ')}`,
   }),
   symbol: z.string().min(1, 'Symbol is required').toUpperCase(),
   strategy: z.string().optional(), // Strategy name for routing to automatic/manual flow
   orderType: z.enum(['market', 'limit']).default('market'),
   price: z.number().positive('Price must be positive').optional(),
   quantity: z.number().positive('Quantity must be positive').optional(),
+  sizing: sizingSchema.optional(), // Overrides the strategy's sizing; a quantity overrides both
   stopLoss: z.number().positive('Stop loss must be positive').optional(),
+  percent: z.number().positive().max(100, 'Percent must be at most 100').optional(), // Of the position a close exits
+  takeProfits: z
+    .array(takeProfitSchema)
+    .min(1)
+    .max(10)
+    .refine((targets) => targets.reduce((sum, target) => sum + target.allocation, 0) <= 100, {
+      message: 'Take-profit allocations add up to more than 100%',
+    })
+    .optional(),
+  trailingStop: trailingStopSchema.optional(),
   message: z.string().optional(),
+  idempotencyKey: z.string().min(1).max(128).optional(), // Client-chosen id; repeats are dropped
+  time: signalTime.optional(), // Bar open time, TradingView's {{time}}
+  timenow: signalTime.optional(), // When the alert fired, {{timenow}}
+  interval: z
+    .union([z.string(), z.number()])
+    .transform(String)
+    .refine((interval) => intervalToMs(interval) !== null, {
+      message: 'Interval must be a TradingView resolution such as 15, 240, 1D or 1W',
+    })
+    .optional(), // Chart resolution, {{interval}}
 });
 
 export type TradingViewSignal = z.infer<typeof tradingViewSignalSchema>;
+export type TakeProfit = z.infer<typeof takeProfitSchema>;
+export type TrailingStop = z.infer<typeof trailingStopSchema>;
+export type Sizing = z.infer<typeof sizingSchema>;
 
 // Validate webhook secret header
 export const webhookHeaderSchema = z.object({
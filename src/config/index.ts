@@ -13,9 +13,19 @@ interface AppConfig {
     apiKey: string;
     apiSecret: string;
     testnet: boolean;
+    userDataStreams: ('SPOT' | 'FUTURE')[];
+  };
+  bybit: {
+    enabled: boolean; // Credentials (or recorded responses) are set
+    apiKey: string;
+    apiSecret: string;
+    testnet: boolean;
+    recordedResponses: string | null; // JSON file replayed instead of calling Bybit
   };
   tradingView: {
     webhookSecret: string;
+    webhookAuth: 'header' | 'signed'; // How the shared /webhook/tradingview endpoint authenticates
+    signatureToleranceMs: number; // Clock skew allowed on signed webhook timestamps
   };
   trading: {
     enabled: boolean;
@@ -25,7 +35,34 @@ interface AppConfig {
     maxDailyLoss: number;
     enableStopLoss: boolean;
     defaultStopLossPercent: number;
+    maxLeverage: number; // Highest leverage a futures entry may use
+    maxNotional: number; // Largest notional of a futures entry in quote currency; 0: no limit
+    bumpToMinNotional: boolean;
+    orderTrackingIntervalMs: number;
+    reconciliationIntervalMs: number;
     preventDuplicatesWindowMs: number;
+    idempotencyKeyTtlMs: number;
+    trailingStopIntervalMs: number;
+    trailingStopMinStepPercent: number; // Smallest move of a bot-managed trailing stop
+    maxDrawdown: number; // Drawdown from peak equity that trips the circuit breaker; 0: off
+    drawdownFlattenPositions: boolean; // Close all positions when the breaker trips
+    drawdownCooldownMinutes: number; // Re-arm the breaker after this long; 0: only by hand
+    circuitBreakerIntervalMs: number;
+  };
+  signalQueue: {
+    pollIntervalMs: number;
+    maxAttempts: number;
+    retryDelayMs: number;
+    maxRetryDelayMs: number;
+  };
+  paperTrading: {
+    enabled: boolean; // Every strategy trades on the paper exchange
+    priceFeed: 'market' | 'csv';
+    priceFile: string;
+    slippagePercent: number;
+    feePercent: number;
+    initialBalances: Record<string, number>;
+    matchingIntervalMs: number;
   };
   security: {
     adminApiKey: string;
@@ -58,9 +95,22 @@ const config: AppConfig = {
     apiKey: getEnv('BINANCE_API_KEY'),
     apiSecret: getEnv('BINANCE_API_SECRET'),
     testnet: getEnv('BINANCE_TESTNET', 'false') === 'true',
+    userDataStreams: (process.env.USER_DATA_STREAMS ?? 'SPOT,FUTURE')
+      .split(',')
+      .map((stream) => stream.trim().toUpperCase())
+      .filter((stream): stream is 'SPOT' | 'FUTURE' => stream === 'SPOT' || stream === 'FUTURE'),
+  },
+  bybit: {
+    enabled: !!(process.env.BYBIT_API_KEY || process.env.BYBIT_RECORDED_RESPONSES),
+    apiKey: process.env.BYBIT_API_KEY || '',
+    apiSecret: process.env.BYBIT_API_SECRET || '',
+    testnet: getEnv('BYBIT_TESTNET', 'false') === 'true',
+    recordedResponses: process.env.BYBIT_RECORDED_RESPONSES || null,
   },
   tradingView: {
     webhookSecret: getEnv('TRADINGVIEW_WEBHOOK_SECRET'),
+    webhookAuth: getEnv('TRADINGVIEW_WEBHOOK_AUTH', 'header') === 'signed' ? 'signed' : 'header',
+    signatureToleranceMs: parseInt(getEnv('WEBHOOK_SIGNATURE_TOLERANCE_MS', '300000'), 10),
   },
   trading: {
     enabled: getEnv('TRADING_ENABLED', 'true') === 'true',
@@ -70,7 +120,41 @@ const config: AppConfig = {
     maxDailyLoss: parseFloat(getEnv('MAX_DAILY_LOSS', '1000')),
     enableStopLoss: getEnv('ENABLE_STOP_LOSS', 'true') === 'true',
     defaultStopLossPercent: parseFloat(getEnv('DEFAULT_STOP_LOSS_PERCENT', '2')),
+    maxLeverage: parseFloat(getEnv('MAX_LEVERAGE', '20')),
+    maxNotional: parseFloat(getEnv('MAX_NOTIONAL', '0')),
+    bumpToMinNotional: getEnv('BUMP_TO_MIN_NOTIONAL', 'false') === 'true',
+    orderTrackingIntervalMs: parseInt(getEnv('ORDER_TRACKING_INTERVAL_MS', '10000'), 10),
+    reconciliationIntervalMs: parseInt(getEnv('RECONCILIATION_INTERVAL_MS', '300000'), 10),
     preventDuplicatesWindowMs: parseInt(getEnv('PREVENT_DUPLICATES_WINDOW_MS', '30000'), 10),
+    idempotencyKeyTtlMs: parseInt(getEnv('IDEMPOTENCY_KEY_TTL_MS', '86400000'), 10),
+    trailingStopIntervalMs: parseInt(getEnv('TRAILING_STOP_INTERVAL_MS', '5000'), 10),
+    trailingStopMinStepPercent: parseFloat(getEnv('TRAILING_STOP_MIN_STEP_PERCENT', '0.1')),
+    maxDrawdown: parseFloat(getEnv('MAX_DRAWDOWN', '0')),
+    drawdownFlattenPositions: getEnv('DRAWDOWN_FLATTEN_POSITIONS', 'false') === 'true',
+    drawdownCooldownMinutes: parseFloat(getEnv('DRAWDOWN_COOLDOWN_MINUTES', '0')),
+    circuitBreakerIntervalMs: parseInt(getEnv('CIRCUIT_BREAKER_INTERVAL_MS', '15000'), 10),
+  },
+  signalQueue: {
+    pollIntervalMs: parseInt(getEnv('SIGNAL_QUEUE_POLL_INTERVAL_MS', '1000'), 10),
+    maxAttempts: parseInt(getEnv('SIGNAL_JOB_MAX_ATTEMPTS', '5'), 10),
+    retryDelayMs: parseInt(getEnv('SIGNAL_JOB_RETRY_DELAY_MS', '5000'), 10),
+    maxRetryDelayMs: parseInt(getEnv('SIGNAL_JOB_MAX_RETRY_DELAY_MS', '300000'), 10),
+  },
+  paperTrading: {
+    enabled: getEnv('PAPER_TRADING', 'false') === 'true',
+    priceFeed: getEnv('PAPER_PRICE_FEED', 'market') === 'csv' ? 'csv' : 'market',
+    priceFile: getEnv('PAPER_PRICE_FILE', path.join(process.cwd(), 'data', 'paper-prices.csv')),
+    slippagePercent: parseFloat(getEnv('PAPER_SLIPPAGE_PERCENT', '0.05')),
+    feePercent: parseFloat(getEnv('PAPER_FEE_PERCENT', '0.1')),
+    // ASSET:amount pairs each paper account starts out with
+    initialBalances: Object.fromEntries(
+      getEnv('PAPER_INITIAL_BALANCES', 'USDT:10000')
+        .split(',')
+        .map((entry) => entry.split(':').map((part) => part.trim()))
+        .filter(([asset, amount]) => asset && !isNaN(parseFloat(amount)))
+        .map(([asset, amount]) => [asset.toUpperCase(), parseFloat(amount)])
+    ),
+    matchingIntervalMs: parseInt(getEnv('PAPER_MATCHING_INTERVAL_MS', '2000'), 10),
   },
   security: {
     adminApiKey: getEnv('ADMIN_API_KEY'),
@@ -7,7 +7,7 @@ CREATE TABLE pending_signals_new (
   strategy_id TEXT NOT NULL,
   signal_id TEXT NOT NULL,
   symbol TEXT NOT NULL,
-  action TEXT NOT NULL CHECK(action IN ('buy', 'sell', 'close')),
+  action TEXT NOT NULL CHECK(action IN ('buy', 'sell', 'close', 'close_long', 'close_short', 'reverse')),
   order_type TEXT NOT NULL,
   price REAL,
   quantity REAL,
@@ -22,9 +22,17 @@ CREATE TABLE pending_signals_new (
   FOREIGN KEY (signal_id) REFERENCES signals(id)
 );
 
--- Step 2: Copy data from old table (only records with valid foreign keys)
-INSERT INTO pending_signals_new
-SELECT ps.* FROM pending_signals ps
+-- Step 2: Copy data from old table (only records with valid foreign keys). The columns are
+-- listed because this file runs on every boot, after later migrations may have added others.
+INSERT INTO pending_signals_new (
+  id, strategy_id, signal_id, symbol, action, order_type, price, quantity, signal_data, status,
+  created_at, reviewed_at, reviewed_by, error_message, order_id
+)
+SELECT
+  ps.id, ps.strategy_id, ps.signal_id, ps.symbol, ps.action, ps.order_type, ps.price,
+  ps.quantity, ps.signal_data, ps.status, ps.created_at, ps.reviewed_at, ps.reviewed_by,
+  ps.error_message, ps.order_id
+FROM pending_signals ps
 INNER JOIN strategies s ON ps.strategy_id = s.id
 INNER JOIN signals si ON ps.signal_id = si.id;
 
@@ -0,0 +1,3 @@
+-- Distinguish orders placed by the bot from ones picked up from the exchange
+-- (manual trades, liquidations) via the user data stream
+ALTER TABLE orders ADD COLUMN source TEXT NOT NULL DEFAULT 'BOT' CHECK(source IN ('BOT', 'EXTERNAL'));
@@ -0,0 +1,7 @@
+-- Futures position mode per strategy: ONE_WAY (one net position per symbol)
+-- or HEDGE (separate LONG and SHORT positions per symbol)
+ALTER TABLE strategies ADD COLUMN position_mode TEXT NOT NULL DEFAULT 'ONE_WAY' CHECK(position_mode IN ('ONE_WAY', 'HEDGE'));
+
+-- Futures orders: position side they act on (BOTH in one-way mode) and reduce-only closes
+ALTER TABLE orders ADD COLUMN position_side TEXT CHECK(position_side IN ('LONG', 'SHORT', 'BOTH'));
+ALTER TABLE orders ADD COLUMN reduce_only BOOLEAN DEFAULT 0;
@@ -0,0 +1,4 @@
+-- Client order id each order is sent to the exchange with. It is derived from the local
+-- order id, so retried or interrupted submissions can be matched to the exchange's order
+ALTER TABLE orders ADD COLUMN client_order_id TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_client_order_id ON orders(client_order_id);
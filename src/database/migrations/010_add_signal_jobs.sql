@@ -0,0 +1,34 @@
+-- Durable queue for executing automatic signals. Jobs are retried with backoff and end up
+-- DEAD (dead letter) once they run out of attempts or fail permanently
+CREATE TABLE IF NOT EXISTS signal_jobs (
+  id TEXT PRIMARY KEY,
+  signal_id TEXT NOT NULL UNIQUE,
+  strategy_id TEXT,
+  symbol TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK(status IN ('PENDING', 'RUNNING', 'COMPLETED', 'DEAD')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL,
+  next_run_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  locked_by TEXT,
+  locked_at DATETIME,
+  order_id TEXT,
+  last_error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  completed_at DATETIME,
+  FOREIGN KEY (signal_id) REFERENCES signals(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_signal_jobs_status ON signal_jobs(status, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_signal_jobs_symbol ON signal_jobs(symbol, status);
+
+CREATE TRIGGER IF NOT EXISTS update_signal_jobs_timestamp
+AFTER UPDATE ON signal_jobs
+BEGIN
+  UPDATE signal_jobs SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
+
+-- Signal an order was placed for, so a retried job can tell it already traded
+-- (kept last: the runner stops at the duplicate column error on later boots)
+ALTER TABLE orders ADD COLUMN signal_id TEXT;
@@ -0,0 +1,11 @@
+-- Drift reports from reconciling local orders/positions with the exchange
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id TEXT PRIMARY KEY,
+  started_at DATETIME NOT NULL,
+  finished_at DATETIME,
+  discrepancies TEXT NOT NULL DEFAULT '[]',
+  fixed_count INTEGER NOT NULL DEFAULT 0,
+  errors TEXT NOT NULL DEFAULT '[]'
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started ON reconciliation_runs(started_at DESC);
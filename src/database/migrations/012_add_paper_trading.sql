@@ -0,0 +1,56 @@
+-- Paper trading: the simulated exchange keeps its own balances, orders and futures positions
+CREATE TABLE IF NOT EXISTS paper_balances (
+  account TEXT NOT NULL CHECK(account IN ('SPOT', 'FUTURE')),
+  asset TEXT NOT NULL,
+  free REAL NOT NULL DEFAULT 0,
+  locked REAL NOT NULL DEFAULT 0,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (account, asset)
+);
+
+CREATE TABLE IF NOT EXISTS paper_orders (
+  id TEXT PRIMARY KEY,
+  client_order_id TEXT NOT NULL UNIQUE,
+  trading_type TEXT NOT NULL CHECK(trading_type IN ('SPOT', 'FUTURE')),
+  symbol TEXT NOT NULL,
+  side TEXT NOT NULL CHECK(side IN ('BUY', 'SELL')),
+  type TEXT NOT NULL CHECK(type IN ('MARKET', 'LIMIT', 'STOP_LOSS_LIMIT', 'STOP_MARKET')),
+  quantity REAL NOT NULL,
+  price REAL,
+  stop_price REAL,
+  position_side TEXT CHECK(position_side IN ('LONG', 'SHORT', 'BOTH')),
+  reduce_only BOOLEAN DEFAULT 0,
+  status TEXT NOT NULL CHECK(status IN ('NEW', 'FILLED', 'CANCELED', 'EXPIRED')),
+  triggered BOOLEAN DEFAULT 0, -- Stop price reached, the stop now rests as a limit order
+  executed_qty REAL DEFAULT 0,
+  cummulative_quote_qty REAL DEFAULT 0,
+  commission REAL DEFAULT 0,
+  commission_asset TEXT,
+  locked_asset TEXT, -- Balance reserved while the order rests
+  locked_amount REAL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_orders_open ON paper_orders(status, trading_type, symbol);
+
+CREATE TRIGGER IF NOT EXISTS update_paper_orders_timestamp
+AFTER UPDATE ON paper_orders
+BEGIN
+  UPDATE paper_orders SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
+
+-- Net futures position per symbol and position side (BOTH in one-way mode), negative when short
+CREATE TABLE IF NOT EXISTS paper_futures_positions (
+  symbol TEXT NOT NULL,
+  position_side TEXT NOT NULL CHECK(position_side IN ('LONG', 'SHORT', 'BOTH')),
+  amount REAL NOT NULL DEFAULT 0,
+  entry_price REAL NOT NULL DEFAULT 0,
+  PRIMARY KEY (symbol, position_side)
+);
+
+-- Strategies trading on the paper exchange, and the orders and positions that are simulated
+-- (kept last: the runner stops at the duplicate column error on later boots)
+ALTER TABLE strategies ADD COLUMN paper_trading BOOLEAN NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN paper BOOLEAN NOT NULL DEFAULT 0;
+ALTER TABLE positions ADD COLUMN paper BOOLEAN NOT NULL DEFAULT 0;
@@ -0,0 +1,6 @@
+-- Exchange each strategy trades on (binance, bybit)
+ALTER TABLE strategies ADD COLUMN exchange TEXT NOT NULL DEFAULT 'binance';
+
+-- Exchange each order and position lives on; binance_order_id holds that exchange's order id
+ALTER TABLE orders ADD COLUMN exchange TEXT NOT NULL DEFAULT 'binance';
+ALTER TABLE positions ADD COLUMN exchange TEXT NOT NULL DEFAULT 'binance';
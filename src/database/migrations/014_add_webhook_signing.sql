@@ -0,0 +1,12 @@
+-- Nonces of signed webhooks seen within the timestamp tolerance, so a request can't be replayed
+CREATE TABLE IF NOT EXISTS webhook_nonces (
+  nonce TEXT PRIMARY KEY,
+  strategy_id TEXT,
+  received_at INTEGER NOT NULL -- Epoch milliseconds
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_nonces_received ON webhook_nonces(received_at);
+
+-- How each strategy's webhooks are authenticated: the static secret header, or an HMAC signature
+-- (kept last: the runner stops at the duplicate column error on later boots)
+ALTER TABLE strategies ADD COLUMN webhook_auth TEXT NOT NULL DEFAULT 'header' CHECK(webhook_auth IN ('header', 'signed'));
@@ -0,0 +1,10 @@
+-- Each strategy gets its own webhook URL token and secret. The runner stops at the duplicate
+-- column error on later boots, so the backfill and index below only run on the first one.
+ALTER TABLE strategies ADD COLUMN webhook_token TEXT;
+ALTER TABLE strategies ADD COLUMN webhook_secret TEXT;
+
+UPDATE strategies
+SET webhook_token = lower(hex(randomblob(16))), webhook_secret = lower(hex(randomblob(32)))
+WHERE webhook_token IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_strategies_webhook_token ON strategies(webhook_token);
@@ -0,0 +1,22 @@
+-- Non-TradingView signal sources: each posts to its own webhook URL, and its JSON payload is
+-- mapped onto the internal signal by the JSONPath mapping stored here
+CREATE TABLE IF NOT EXISTS signal_sources (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  mapping TEXT NOT NULL, -- JSON: signal field -> path / default / value lookup
+  strategy_id TEXT, -- Fixes the strategy; otherwise routed by the mapped strategy name
+  webhook_token TEXT NOT NULL UNIQUE,
+  webhook_secret TEXT NOT NULL,
+  webhook_auth TEXT NOT NULL DEFAULT 'header' CHECK(webhook_auth IN ('header', 'signed')),
+  enabled BOOLEAN NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (strategy_id) REFERENCES strategies(id) ON DELETE SET NULL
+);
+
+CREATE TRIGGER IF NOT EXISTS update_signal_sources_timestamp
+AFTER UPDATE ON signal_sources
+BEGIN
+  UPDATE signal_sources SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
@@ -0,0 +1,15 @@
+-- Dedupe keys of recently accepted signals, kept until they expire so restarts don't forget them
+CREATE TABLE IF NOT EXISTS signal_dedupe_keys (
+  dedupe_key TEXT PRIMARY KEY, -- Strategy plus either the idempotency key or the chosen fields
+  strategy_id TEXT,
+  signal_id TEXT NOT NULL,
+  expires_at INTEGER NOT NULL -- Epoch milliseconds
+);
+
+CREATE INDEX IF NOT EXISTS idx_signal_dedupe_keys_expires ON signal_dedupe_keys(expires_at);
+
+-- Per-strategy duplicate detection: the signal fields compared (comma-separated) and the window;
+-- NULL window falls back to PREVENT_DUPLICATES_WINDOW_MS, 0 turns field-based dedupe off
+-- (kept last: the runner stops at the duplicate column error on later boots)
+ALTER TABLE strategies ADD COLUMN dedupe_fields TEXT NOT NULL DEFAULT 'action,symbol,orderType';
+ALTER TABLE strategies ADD COLUMN dedupe_window_ms INTEGER;
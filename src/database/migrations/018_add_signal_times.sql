@@ -0,0 +1,8 @@
+-- Alert times sent with a signal, kept to analyse latency against received_at:
+-- bar_time is TradingView's {{time}} (bar open), fired_at its {{timenow}}, bar_interval {{interval}}
+ALTER TABLE signals ADD COLUMN bar_time DATETIME;
+ALTER TABLE signals ADD COLUMN fired_at DATETIME;
+ALTER TABLE signals ADD COLUMN bar_interval TEXT;
+
+-- Signals older than this when received are rejected; NULL accepts any age
+ALTER TABLE strategies ADD COLUMN max_signal_age_ms INTEGER;
@@ -0,0 +1,6 @@
+-- User-defined ticker aliases, e.g. XBTUSD -> BTCUSDT, applied after exchange prefixes are stripped
+CREATE TABLE IF NOT EXISTS symbol_aliases (
+  alias TEXT PRIMARY KEY,
+  symbol TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,46 @@
+-- Signal actions close_long, close_short and reverse. SQLite can't change a CHECK constraint in
+-- place, so signals is rebuilt with the new one. The ALTER runs first: on later boots it fails
+-- with a duplicate column error, which skips the rest of this file.
+
+-- Side of the open position a close or reverse acted on
+ALTER TABLE signals ADD COLUMN position_side TEXT CHECK(position_side IN ('LONG', 'SHORT'));
+
+PRAGMA foreign_keys = OFF;
+
+CREATE TABLE signals_new (
+  id TEXT PRIMARY KEY,
+  action TEXT NOT NULL CHECK(action IN ('buy', 'sell', 'close', 'close_long', 'close_short', 'reverse')),
+  symbol TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  processed BOOLEAN DEFAULT 0,
+  order_id TEXT,
+  error_message TEXT,
+  received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  processed_at DATETIME,
+  strategy_id TEXT REFERENCES strategies(id),
+  bar_time DATETIME,
+  fired_at DATETIME,
+  bar_interval TEXT,
+  position_side TEXT CHECK(position_side IN ('LONG', 'SHORT')),
+  FOREIGN KEY (order_id) REFERENCES orders(id)
+);
+
+INSERT INTO signals_new (
+  id, action, symbol, payload, processed, order_id, error_message, received_at, processed_at,
+  strategy_id, bar_time, fired_at, bar_interval, position_side
+)
+SELECT
+  id, action, symbol, payload, processed, order_id, error_message, received_at, processed_at,
+  strategy_id, bar_time, fired_at, bar_interval, position_side
+FROM signals;
+
+DROP TABLE signals;
+
+ALTER TABLE signals_new RENAME TO signals;
+
+CREATE INDEX IF NOT EXISTS idx_signals_processed ON signals(processed);
+CREATE INDEX IF NOT EXISTS idx_signals_received ON signals(received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_signals_symbol ON signals(symbol);
+CREATE INDEX IF NOT EXISTS idx_signals_strategy ON signals(strategy_id);
+
+PRAGMA foreign_keys = ON;
@@ -0,0 +1,23 @@
+-- Take-profit targets a signal set for its position, each worked by a reduce-only limit order.
+-- PENDING targets haven't been sent yet; realized_pnl is what the target's fills booked.
+CREATE TABLE IF NOT EXISTS take_profit_targets (
+  id TEXT PRIMARY KEY,
+  position_id TEXT NOT NULL,
+  target_index INTEGER NOT NULL,
+  price REAL NOT NULL,
+  allocation REAL NOT NULL, -- Share of the position in %
+  quantity REAL NOT NULL,
+  filled_quantity REAL NOT NULL DEFAULT 0,
+  realized_pnl REAL NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'PENDING'
+    CHECK(status IN ('PENDING', 'OPEN', 'FILLED', 'CANCELED', 'REJECTED')),
+  order_id TEXT,
+  error_message TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  filled_at DATETIME,
+  FOREIGN KEY (position_id) REFERENCES positions(id),
+  FOREIGN KEY (order_id) REFERENCES orders(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_take_profit_targets_position ON take_profit_targets(position_id);
+CREATE INDEX IF NOT EXISTS idx_take_profit_targets_order ON take_profit_targets(order_id);
@@ -0,0 +1,12 @@
+-- Trailing stops: callback distance in percent or in quote currency (one of the two), an
+-- optional activation price, and the best price seen since activation (NULL until then).
+-- trailing_native marks futures trails worked by an exchange TRAILING_STOP_MARKET order.
+ALTER TABLE positions ADD COLUMN trailing_stop_percent REAL;
+ALTER TABLE positions ADD COLUMN trailing_stop_amount REAL;
+ALTER TABLE positions ADD COLUMN trailing_activation_price REAL;
+ALTER TABLE positions ADD COLUMN trailing_extreme_price REAL;
+ALTER TABLE positions ADD COLUMN trailing_native INTEGER NOT NULL DEFAULT 0;
+
+-- Strategy default for positions whose signal doesn't set a trailing stop
+ALTER TABLE strategies ADD COLUMN trailing_stop_percent REAL;
+ALTER TABLE strategies ADD COLUMN trailing_stop_amount REAL;
@@ -0,0 +1,7 @@
+-- Per-strategy risk budget, checked alongside the global trading.* limits. NULL falls back to
+-- the global setting; max_open_positions has no global counterpart, so NULL means no limit.
+ALTER TABLE strategies ADD COLUMN max_position_size_percent REAL;
+ALTER TABLE strategies ADD COLUMN max_open_positions INTEGER;
+ALTER TABLE strategies ADD COLUMN max_daily_loss REAL;
+ALTER TABLE strategies ADD COLUMN default_position_size_percent REAL;
+ALTER TABLE strategies ADD COLUMN default_stop_loss_percent REAL;
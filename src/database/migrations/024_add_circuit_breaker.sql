@@ -0,0 +1,29 @@
+-- Drawdown circuit breaker, one per account (live or paper). Equity is realized plus unrealized
+-- PnL of the account's positions; a drawdown from its peak past trading.maxDrawdown halts new
+-- entries until the breaker is re-armed by hand or its cooldown expires.
+CREATE TABLE IF NOT EXISTS circuit_breaker_state (
+  account TEXT PRIMARY KEY CHECK(account IN ('live', 'paper')),
+  status TEXT NOT NULL DEFAULT 'ARMED' CHECK(status IN ('ARMED', 'TRIPPED')),
+  equity REAL,
+  peak_equity REAL,
+  trip_id TEXT, -- Trip that halted trading, while TRIPPED
+  cooldown_until INTEGER, -- Epoch ms it re-arms itself at; NULL waits for a manual re-arm
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Every trip, with its cause
+CREATE TABLE IF NOT EXISTS circuit_breaker_trips (
+  id TEXT PRIMARY KEY,
+  account TEXT NOT NULL CHECK(account IN ('live', 'paper')),
+  cause TEXT NOT NULL,
+  equity REAL NOT NULL,
+  peak_equity REAL NOT NULL,
+  drawdown REAL NOT NULL,
+  max_drawdown REAL NOT NULL,
+  flattened_positions INTEGER NOT NULL DEFAULT 0, -- Positions closed by the trip
+  tripped_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  rearmed_at DATETIME,
+  rearmed_by TEXT CHECK(rearmed_by IN ('manual', 'cooldown'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_circuit_breaker_trips_tripped ON circuit_breaker_trips(tripped_at DESC);
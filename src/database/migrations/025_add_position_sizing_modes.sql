@@ -0,0 +1,5 @@
+-- How a strategy sizes entries whose signal gives no quantity: percent_balance, fixed_quote,
+-- percent_equity or risk_per_trade, and the amount or percent the mode takes. A NULL mode
+-- sizes by default_position_size_percent of the free balance, as before.
+ALTER TABLE strategies ADD COLUMN sizing_mode TEXT;
+ALTER TABLE strategies ADD COLUMN sizing_value REAL;
@@ -0,0 +1,9 @@
+-- Soft risk limits an approver overrode when approving a pending signal: the justification
+-- they gave and the reasons of the limits it broke (JSON array). Kept out of pending_signals,
+-- which migration 004 rebuilds on every boot, and without a foreign key for the same reason.
+CREATE TABLE IF NOT EXISTS pending_signal_overrides (
+  pending_signal_id TEXT PRIMARY KEY,
+  justification TEXT NOT NULL,
+  overridden_limits TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,3 @@
+-- Leg of a reverse signal an order belongs to: 'close' for the exit of the open position,
+-- 'entry' for the new one. NULL for the order of any other signal.
+ALTER TABLE orders ADD COLUMN signal_leg TEXT CHECK(signal_leg IN ('close', 'entry'));
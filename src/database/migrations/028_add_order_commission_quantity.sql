@@ -0,0 +1,7 @@
+-- Executed quantity whose commission has been booked, so a fill's commission is added once
+-- whether it arrives with the fill or after it
+ALTER TABLE orders ADD COLUMN commission_quantity REAL NOT NULL DEFAULT 0;
+
+-- Fills booked so far had their commission booked with them
+-- (kept after the ALTER: the runner stops at the duplicate column error on later boots)
+UPDATE orders SET commission_quantity = COALESCE(filled_quantity, 0);
@@ -44,7 +44,7 @@ CREATE TABLE IF NOT EXISTS positions (
 -- Trading signals audit log
 CREATE TABLE IF NOT EXISTS signals (
   id TEXT PRIMARY KEY,
-  action TEXT NOT NULL CHECK(action IN ('buy', 'sell', 'close')),
+  action TEXT NOT NULL CHECK(action IN ('buy', 'sell', 'close', 'close_long', 'close_short', 'reverse')),
   symbol TEXT NOT NULL,
   payload TEXT NOT NULL,
   processed BOOLEAN DEFAULT 0,
@@ -72,7 +72,7 @@ CREATE TABLE IF NOT EXISTS pending_signals (
   strategy_id TEXT NOT NULL,
   signal_id TEXT NOT NULL,
   symbol TEXT NOT NULL,
-  action TEXT NOT NULL CHECK(action IN ('buy', 'sell', 'close')),
+  action TEXT NOT NULL CHECK(action IN ('buy', 'sell', 'close', 'close_long', 'close_short', 'reverse')),
   order_type TEXT NOT NULL,
   price REAL,
   quantity REAL,
@@ -20,11 +20,15 @@ async function main() {
     }
 
     // Create Express server
-    const app = createServer();
+    const { app, backgroundServices } = createServer();
 
     // Start server
     const server = app.listen(config.server.port, () => {
       logger.info(`Server listening on port ${config.server.port}`);
+
+      // Start background workers
+      backgroundServices.forEach((service) => service.start());
+
       logger.info('Trading bot started successfully');
     });
 
@@ -36,6 +40,9 @@ async function main() {
         logger.info('HTTP server closed');
       });
 
+      // Stop background workers
+      backgroundServices.forEach((service) => service.stop());
+
       // Close database connection
       databaseService.close();
 
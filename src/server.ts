@@ -5,16 +5,54 @@ import rateLimit from 'express-rate-limit';
 import config from './config';
 import logger from './utils/logger';
 import { errorHandler } from './api/middlewares/errorHandler';
+import {
+  authenticateSourceWebhook,
+  authenticateStrategyWebhook,
+  authenticateWebhook,
+  checkSharedWebhookStrategy,
+  captureRawBody,
+} from './api/middlewares/auth';
+import { mapSourceBody } from './api/middlewares/alertBody';
 import { BinanceClient } from './services/binance/BinanceClient';
+import { BybitClient } from './services/bybit/BybitClient';
+import { createBybitTransport } from './services/bybit/BybitTransport';
+import { ExchangeAdapter } from './services/exchange/ExchangeAdapter';
+import { ExchangeRegistry } from './services/exchange/ExchangeRegistry';
 import { SignalProcessor } from './services/SignalProcessor';
+import { SymbolRegistry } from './services/SymbolRegistry';
 import { RiskManager } from './services/RiskManager';
 import { OrderManager } from './services/OrderManager';
+import { OrderNormalizer } from './services/OrderNormalizer';
+import { OrderTracker } from './services/OrderTracker';
+import { TrailingStopService } from './services/TrailingStopService';
+import { CircuitBreaker } from './services/CircuitBreaker';
+import { UserDataListener } from './services/UserDataListener';
+import { SignalQueue } from './services/SignalQueue';
+import { ReconciliationService } from './services/ReconciliationService';
+import { StrategyService } from './services/StrategyService';
+import { WebhookSignatureVerifier } from './services/WebhookSignatureVerifier';
+import { SignalSourceService } from './services/SignalSourceService';
+import { PaperExchange } from './services/paper/PaperExchange';
+import { createPriceFeed } from './services/paper/PriceFeed';
 import { WebhookController } from './api/controllers/WebhookController';
 import { AdminController } from './api/controllers/AdminController';
 import { createWebhookRouter } from './api/routes/webhook';
 import { createAdminRouter } from './api/routes/admin';
 
-export function createServer(): Express {
+/**
+ * Long-running workers started once the HTTP server is listening
+ */
+export interface BackgroundService {
+  start(): void;
+  stop(): void;
+}
+
+export interface ServerContext {
+  app: Express;
+  backgroundServices: BackgroundService[];
+}
+
+export function createServer(): ServerContext {
   const app = express();
 
   // CORS configuration - must be before other middleware
@@ -25,13 +63,22 @@ export function createServer(): Express {
         : process.env.FRONTEND_URL || '*',
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'x-webhook-secret'],
+      allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'x-webhook-secret',
+        'x-webhook-timestamp',
+        'x-webhook-nonce',
+        'x-webhook-signature',
+      ],
     })
   );
 
   // Security middleware
   app.use(helmet());
-  app.use(express.json({ limit: '1mb' }));
+  app.use(express.json({ limit: '1mb', verify: captureRawBody }));
+  // TradingView sends text/plain whenever the alert message isn't strict JSON
+  app.use(express.text({ type: 'text/plain', limit: '1mb', verify: captureRawBody }));
   app.use(express.urlencoded({ extended: true }));
 
   // Rate limiting
@@ -61,16 +108,61 @@ export function createServer(): Express {
     testnet: config.binance.testnet,
   });
 
-  const signalProcessor = new SignalProcessor();
-  const riskManager = new RiskManager(binanceClient);
-  const orderManager = new OrderManager(binanceClient, riskManager, signalProcessor);
+  const adapters: ExchangeAdapter[] = [binanceClient];
+  if (config.bybit.enabled) {
+    adapters.push(new BybitClient(createBybitTransport(config.bybit)));
+  }
+  const exchanges = new ExchangeRegistry(adapters);
+
+  const paperExchange = new PaperExchange(binanceClient, createPriceFeed(binanceClient));
+
+  const symbolRegistry = new SymbolRegistry(exchanges);
+  const signalProcessor = new SignalProcessor(symbolRegistry);
+  const riskManager = new RiskManager(exchanges, paperExchange, symbolRegistry);
+  const orderNormalizer = new OrderNormalizer(exchanges);
+  const orderManager = new OrderManager(
+    exchanges,
+    riskManager,
+    signalProcessor,
+    orderNormalizer,
+    paperExchange
+  );
+  const orderTracker = new OrderTracker(orderManager);
+  const trailingStopService = new TrailingStopService(orderManager);
+  const circuitBreaker = new CircuitBreaker(orderManager, riskManager);
+  const userDataListener = new UserDataListener(binanceClient, orderManager);
+  const signalQueue = new SignalQueue(orderManager);
+  const reconciliationService = new ReconciliationService(exchanges, orderManager);
 
   // Initialize controllers
-  const webhookController = new WebhookController(signalProcessor, orderManager);
-  const adminController = new AdminController(binanceClient, orderManager, riskManager, signalProcessor);
+  const webhookController = new WebhookController(signalProcessor, signalQueue);
+  const adminController = new AdminController(
+    exchanges,
+    orderManager,
+    riskManager,
+    signalProcessor,
+    signalQueue,
+    reconciliationService,
+    paperExchange,
+    symbolRegistry,
+    circuitBreaker
+  );
 
   // Setup routes
-  app.use('/webhook', createWebhookRouter(webhookController));
+  const signatureVerifier = new WebhookSignatureVerifier();
+  const strategyService = new StrategyService();
+  const signalSourceService = new SignalSourceService();
+  app.use(
+    '/webhook',
+    createWebhookRouter(
+      webhookController,
+      authenticateWebhook(signatureVerifier),
+      checkSharedWebhookStrategy(signalProcessor),
+      authenticateStrategyWebhook(strategyService, signatureVerifier),
+      authenticateSourceWebhook(signalSourceService, strategyService, signatureVerifier),
+      mapSourceBody(signalSourceService)
+    )
+  );
   app.use('/api', createAdminRouter(adminController));
 
   // Root endpoint
@@ -97,5 +189,16 @@ export function createServer(): Express {
 
   logger.info('Server initialized successfully');
 
-  return app;
+  return {
+    app,
+    backgroundServices: [
+      orderTracker,
+      trailingStopService,
+      circuitBreaker,
+      userDataListener,
+      signalQueue,
+      reconciliationService,
+      paperExchange,
+    ],
+  };
 }
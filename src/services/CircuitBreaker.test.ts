@@ -0,0 +1,166 @@
+import { CircuitBreaker } from './CircuitBreaker';
+import { OrderManager } from './OrderManager';
+import { RiskManager } from './RiskManager';
+import { insertPosition } from '../test/fixtures';
+import databaseService from '../database';
+
+describe('CircuitBreaker', () => {
+  let exchange: { getPrice: jest.Mock; getFuturesPrice: jest.Mock };
+  let orderManager: { exchangeFor: jest.Mock; closePositionWithOrder: jest.Mock };
+  let riskConfig: {
+    maxDrawdown: number;
+    drawdownFlattenPositions: boolean;
+    drawdownCooldownMinutes: number;
+  };
+  let breaker: CircuitBreaker;
+
+  const db = () => databaseService.getDatabase();
+
+  const state = (account: 'live' | 'paper') =>
+    breaker.getStates().find((row) => row.account === account)!;
+
+  const checkAt = async (price: number) => {
+    exchange.getPrice.mockResolvedValue(price);
+    await breaker.check();
+  };
+
+  beforeEach(() => {
+    db().exec(
+      `DELETE FROM circuit_breaker_trips; DELETE FROM circuit_breaker_state;
+       DELETE FROM positions; DELETE FROM orders;`
+    );
+
+    exchange = {
+      getPrice: jest.fn().mockResolvedValue(100),
+      getFuturesPrice: jest.fn().mockResolvedValue(100),
+    };
+    orderManager = {
+      exchangeFor: jest.fn().mockReturnValue(exchange),
+      closePositionWithOrder: jest.fn().mockResolvedValue('close-order'),
+    };
+    riskConfig = { maxDrawdown: 50, drawdownFlattenPositions: false, drawdownCooldownMinutes: 0 };
+    breaker = new CircuitBreaker(
+      orderManager as unknown as OrderManager,
+      { getRiskConfig: () => riskConfig } as unknown as RiskManager
+    );
+  });
+
+  it('tracks peak equity from realized and unrealized PnL', async () => {
+    insertPosition('closed-1', { status: 'CLOSED', realized_pnl: 25 });
+    insertPosition('position-1');
+    insertPosition('position-2', { side: 'SHORT' });
+
+    await checkAt(130);
+    await checkAt(110);
+
+    // 25 realized, +10 on the long, -10 on the short
+    expect(state('live')).toMatchObject({
+      status: 'ARMED',
+      equity: 25,
+      peak_equity: 25,
+      drawdown: 0,
+    });
+  });
+
+  it('trips once the drawdown from the peak exceeds the maximum', async () => {
+    insertPosition('position-1');
+
+    await checkAt(150);
+    await checkAt(100);
+    expect(state('live').status).toBe('ARMED');
+
+    await checkAt(99);
+
+    expect(state('live')).toMatchObject({ status: 'TRIPPED', equity: -1, peak_equity: 50 });
+    expect(breaker.getTrips()).toEqual([
+      expect.objectContaining({
+        account: 'live',
+        cause: 'Drawdown $51.00 from peak equity $50.00 exceeds max $50.00',
+        drawdown: 51,
+        flattened_positions: 0,
+        rearmed_at: null,
+      }),
+    ]);
+    expect(state('paper').status).toBe('ARMED');
+  });
+
+  it('stays armed with no maximum drawdown set', async () => {
+    riskConfig.maxDrawdown = 0;
+    insertPosition('position-1');
+
+    await checkAt(150);
+    await checkAt(10);
+
+    expect(state('live').status).toBe('ARMED');
+  });
+
+  it('flattens the open positions of the tripped account', async () => {
+    riskConfig.drawdownFlattenPositions = true;
+    insertPosition('position-1');
+    insertPosition('position-2', { symbol: 'ETHUSDT' });
+    insertPosition('position-3', { symbol: 'SOLUSDT', paper: 1 });
+    orderManager.closePositionWithOrder.mockImplementation(async (positionId: string) => {
+      if (positionId === 'position-2') {
+        throw new Error('Exchange unavailable');
+      }
+    });
+    exchange.getPrice.mockImplementation(async (symbol: string) =>
+      symbol === 'BTCUSDT' ? 150 : 100
+    );
+    await breaker.check();
+
+    await checkAt(99);
+
+    expect(orderManager.closePositionWithOrder.mock.calls).toEqual([
+      ['position-1', 'BTCUSDT', 1],
+      ['position-2', 'ETHUSDT', 1],
+    ]);
+    expect(breaker.getTrips()[0]).toMatchObject({ account: 'live', flattened_positions: 1 });
+  });
+
+  it('leaves the state alone when a price cannot be fetched', async () => {
+    insertPosition('position-1');
+    await checkAt(150);
+
+    exchange.getPrice.mockRejectedValue(new Error('Timeout'));
+    await breaker.check();
+
+    expect(state('live')).toMatchObject({ status: 'ARMED', equity: 50, peak_equity: 50 });
+  });
+
+  describe('re-arming', () => {
+    beforeEach(async () => {
+      insertPosition('position-1');
+      await checkAt(150);
+    });
+
+    it('restarts the peak at the current equity when re-armed by hand', async () => {
+      await checkAt(90);
+
+      expect(breaker.rearm('live')).toBe(true);
+      expect(state('live')).toMatchObject({ status: 'ARMED', peak_equity: -10, trip_id: null });
+      expect(breaker.getTrips()[0]).toMatchObject({ rearmed_by: 'manual' });
+      expect(breaker.rearm('live')).toBe(false);
+
+      await checkAt(85);
+      expect(state('live').status).toBe('ARMED');
+    });
+
+    it('re-arms by itself once the cooldown has passed', async () => {
+      riskConfig.drawdownCooldownMinutes = 30;
+      await checkAt(90);
+
+      expect(state('live').cooldown_until).toBeGreaterThan(Date.now());
+      await checkAt(95);
+      expect(state('live')).toMatchObject({ status: 'TRIPPED', equity: -5 });
+
+      db()
+        .prepare("UPDATE circuit_breaker_state SET cooldown_until = ? WHERE account = 'live'")
+        .run(Date.now() - 1000);
+      await checkAt(95);
+
+      expect(state('live')).toMatchObject({ status: 'ARMED', peak_equity: -5 });
+      expect(breaker.getTrips()[0]).toMatchObject({ rearmed_by: 'cooldown' });
+    });
+  });
+});
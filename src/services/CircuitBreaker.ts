@@ -0,0 +1,302 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createModuleLogger } from '../utils/logger';
+import { OrderManager, Position } from './OrderManager';
+import { RiskManager } from './RiskManager';
+import databaseService from '../database';
+import config from '../config';
+
+const logger = createModuleLogger('CircuitBreaker');
+
+export type BreakerAccount = 'live' | 'paper';
+const ACCOUNTS: BreakerAccount[] = ['live', 'paper'];
+
+const formatUsd = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+export interface CircuitBreakerState {
+  account: BreakerAccount;
+  status: 'ARMED' | 'TRIPPED';
+  equity: number | null; // Realized plus unrealized PnL at the last check
+  peak_equity: number | null;
+  drawdown: number;
+  trip_id: string | null;
+  cooldown_until: number | null;
+  updated_at: string;
+}
+
+export interface CircuitBreakerTrip {
+  id: string;
+  account: BreakerAccount;
+  cause: string;
+  equity: number;
+  peak_equity: number;
+  drawdown: number;
+  max_drawdown: number;
+  flattened_positions: number;
+  tripped_at: string;
+  rearmed_at: string | null;
+  rearmed_by: 'manual' | 'cooldown' | null;
+}
+
+/**
+ * Equity-based drawdown guard, one per account (live or paper). Equity is the realized PnL of
+ * the account's positions plus the unrealized PnL of its open ones, spot and futures alike. When
+ * it falls more than trading.maxDrawdown below its peak the breaker trips: the trip is recorded,
+ * new entries are halted (RiskManager rejects them), and optionally every open position is
+ * closed. It re-arms by hand, or by itself once trading.drawdownCooldownMinutes pass.
+ */
+export class CircuitBreaker {
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(
+    private orderManager: OrderManager,
+    private riskManager: RiskManager,
+    private intervalMs: number = config.trading.circuitBreakerIntervalMs
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    logger.info('Circuit breaker started', { intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Circuit breaker stopped');
+    }
+  }
+
+  /**
+   * Update each account's equity and peak, tripping or re-arming its breaker as due
+   */
+  async check(): Promise<void> {
+    for (const account of ACCOUNTS) {
+      try {
+        await this.checkAccount(account);
+      } catch (error) {
+        logger.error('Circuit breaker check failed', { account, error });
+      }
+    }
+  }
+
+  getStates(): CircuitBreakerState[] {
+    return ACCOUNTS.map((account) => this.getState(account));
+  }
+
+  getTrips(limit: number = 50): CircuitBreakerTrip[] {
+    const db = databaseService.getDatabase();
+    return db
+      .prepare('SELECT * FROM circuit_breaker_trips ORDER BY tripped_at DESC, rowid DESC LIMIT ?')
+      .all(limit) as CircuitBreakerTrip[];
+  }
+
+  /**
+   * Re-arm a tripped breaker. Its peak restarts at the current equity, so the drawdown that
+   * tripped it doesn't trip it again. Returns false if it wasn't tripped.
+   */
+  rearm(account: BreakerAccount, by: 'manual' | 'cooldown' = 'manual'): boolean {
+    const db = databaseService.getDatabase();
+    const state = this.getState(account);
+
+    if (state.status !== 'TRIPPED') {
+      return false;
+    }
+
+    db.transaction(() => {
+      db.prepare(
+        `UPDATE circuit_breaker_state
+         SET status = 'ARMED', peak_equity = equity, trip_id = NULL, cooldown_until = NULL,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE account = ?`
+      ).run(account);
+
+      db.prepare(
+        `UPDATE circuit_breaker_trips SET rearmed_at = CURRENT_TIMESTAMP, rearmed_by = ?
+         WHERE id = ?`
+      ).run(by, state.trip_id);
+    })();
+
+    logger.warn('Circuit breaker re-armed', { account, by, tripId: state.trip_id });
+    return true;
+  }
+
+  private async checkAccount(account: BreakerAccount): Promise<void> {
+    const db = databaseService.getDatabase();
+    const equity = await this.getEquity(account);
+    const state = this.getState(account);
+
+    if (state.status === 'TRIPPED') {
+      db.prepare(
+        `UPDATE circuit_breaker_state SET equity = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE account = ?`
+      ).run(equity, account);
+
+      if (state.cooldown_until !== null && Date.now() >= state.cooldown_until) {
+        this.rearm(account, 'cooldown');
+      }
+      return;
+    }
+
+    const peakEquity = Math.max(state.peak_equity ?? equity, equity);
+    db.prepare(
+      `UPDATE circuit_breaker_state
+       SET equity = ?, peak_equity = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE account = ?`
+    ).run(equity, peakEquity, account);
+
+    const { maxDrawdown } = this.riskManager.getRiskConfig();
+    const drawdown = peakEquity - equity;
+
+    if (maxDrawdown > 0 && drawdown > maxDrawdown) {
+      await this.trip(account, equity, peakEquity, maxDrawdown);
+    }
+  }
+
+  private async trip(
+    account: BreakerAccount,
+    equity: number,
+    peakEquity: number,
+    maxDrawdown: number
+  ): Promise<void> {
+    const db = databaseService.getDatabase();
+    const { drawdownFlattenPositions, drawdownCooldownMinutes } = this.riskManager.getRiskConfig();
+    const drawdown = peakEquity - equity;
+    const tripId = uuidv4();
+    const cause =
+      `Drawdown ${formatUsd(drawdown)} from peak equity ${formatUsd(peakEquity)} ` +
+      `exceeds max ${formatUsd(maxDrawdown)}`;
+
+    db.transaction(() => {
+      db.prepare(
+        `INSERT INTO circuit_breaker_trips
+           (id, account, cause, equity, peak_equity, drawdown, max_drawdown)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).run(tripId, account, cause, equity, peakEquity, drawdown, maxDrawdown);
+
+      db.prepare(
+        `UPDATE circuit_breaker_state
+         SET status = 'TRIPPED', trip_id = ?, cooldown_until = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE account = ?`
+      ).run(
+        tripId,
+        drawdownCooldownMinutes > 0 ? Date.now() + drawdownCooldownMinutes * 60000 : null,
+        account
+      );
+    })();
+
+    logger.error('Circuit breaker tripped, new entries halted', {
+      account,
+      tripId,
+      cause,
+      flatten: drawdownFlattenPositions,
+    });
+
+    if (drawdownFlattenPositions) {
+      const flattened = await this.flattenPositions(account);
+      db.prepare('UPDATE circuit_breaker_trips SET flattened_positions = ? WHERE id = ?').run(
+        flattened,
+        tripId
+      );
+    }
+  }
+
+  /**
+   * Close every open position of the account at market, returning how many were closed
+   */
+  private async flattenPositions(account: BreakerAccount): Promise<number> {
+    const db = databaseService.getDatabase();
+    const positions = db
+      .prepare("SELECT id, symbol, quantity FROM positions WHERE status = 'OPEN' AND paper = ?")
+      .all(account === 'paper' ? 1 : 0) as Array<{ id: string; symbol: string; quantity: number }>;
+
+    let flattened = 0;
+    for (const position of positions) {
+      try {
+        await this.orderManager.closePositionWithOrder(
+          position.id,
+          position.symbol,
+          position.quantity
+        );
+        flattened++;
+      } catch (error) {
+        logger.error('Failed to flatten position', {
+          account,
+          positionId: position.id,
+          symbol: position.symbol,
+          error,
+        });
+      }
+    }
+
+    logger.warn('Positions flattened by circuit breaker', {
+      account,
+      flattened,
+      total: positions.length,
+    });
+    return flattened;
+  }
+
+  /**
+   * Realized PnL of the account's positions plus unrealized PnL of its open ones. Throws if a
+   * price can't be fetched - a partial figure could trip the breaker or lower its peak.
+   */
+  private async getEquity(account: BreakerAccount): Promise<number> {
+    const db = databaseService.getDatabase();
+    const paper = account === 'paper' ? 1 : 0;
+
+    const { realized } = db
+      .prepare('SELECT COALESCE(SUM(realized_pnl), 0) as realized FROM positions WHERE paper = ?')
+      .get(paper) as { realized: number };
+
+    const positions = db
+      .prepare("SELECT * FROM positions WHERE status = 'OPEN' AND paper = ?")
+      .all(paper) as Position[];
+
+    let unrealized = 0;
+    for (const position of positions) {
+      const exchange = this.orderManager.exchangeFor(position);
+      const price =
+        position.trading_type === 'FUTURE'
+          ? await exchange.getFuturesPrice(position.symbol)
+          : await exchange.getPrice(position.symbol);
+
+      unrealized +=
+        (price - position.entry_price) * position.quantity * (position.side === 'LONG' ? 1 : -1);
+    }
+
+    return realized + unrealized;
+  }
+
+  private getState(account: BreakerAccount): CircuitBreakerState {
+    const db = databaseService.getDatabase();
+
+    db.prepare('INSERT OR IGNORE INTO circuit_breaker_state (account) VALUES (?)').run(account);
+    const row = db
+      .prepare('SELECT * FROM circuit_breaker_state WHERE account = ?')
+      .get(account) as Omit<CircuitBreakerState, 'drawdown'>;
+
+    return {
+      ...row,
+      drawdown: row.equity !== null && row.peak_equity !== null ? row.peak_equity - row.equity : 0,
+    };
+  }
+
+  private async tick(): Promise<void> {
+    // Skip this tick if the previous check is still waiting on the exchange
+    if (this.checking) {
+      return;
+    }
+
+    this.checking = true;
+    try {
+      await this.check();
+    } finally {
+      this.checking = false;
+    }
+  }
+}
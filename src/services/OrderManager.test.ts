@@ -0,0 +1,242 @@
+import { OrderManager } from './OrderManager';
+import { RiskManager } from './RiskManager';
+import { SignalProcessor } from './SignalProcessor';
+import { OrderNormalizer, NormalizeOrderParams } from './OrderNormalizer';
+import { ExchangeRegistry } from './exchange/ExchangeRegistry';
+import { ExchangeAdapter, OrderExchange } from './exchange/ExchangeAdapter';
+import { LimitOrderParams, MarketOrderParams, Order } from './exchange/types';
+import { TradingViewSignal } from '../api/schemas/webhook.schema';
+import { insertPosition } from '../test/fixtures';
+import databaseService from '../database';
+
+describe('OrderManager', () => {
+  let exchange: {
+    name: string;
+    createMarketOrder: jest.Mock;
+    createLimitOrder: jest.Mock;
+    cancelOrder: jest.Mock;
+  };
+  let orderManager: OrderManager;
+
+  const db = () => databaseService.getDatabase();
+
+  const exchangeOrder = (
+    params: MarketOrderParams | LimitOrderParams,
+    fields: Partial<Order>
+  ): Order => ({
+    orderId: `ex-${params.clientOrderId}`,
+    clientOrderId: params.clientOrderId,
+    symbol: params.symbol,
+    side: params.side,
+    type: 'LIMIT',
+    quantity: params.quantity,
+    price: 0,
+    status: 'NEW',
+    executedQty: 0,
+    cummulativeQuoteQty: 0,
+    transactTime: Date.now(),
+    ...fields,
+  });
+
+  // A target of the position with its live limit order
+  const openTakeProfit = (index: number, price: number, quantity: number) => {
+    db()
+      .prepare(
+        `INSERT INTO orders (id, binance_order_id, symbol, side, type, quantity, price, status,
+           exchange)
+         VALUES (?, ?, 'BTCUSDT', 'SELL', 'LIMIT', ?, ?, 'NEW', 'binance')`
+      )
+      .run(`tp-order-${index}`, `ex-tp-${index}`, quantity, price);
+    db()
+      .prepare(
+        `INSERT INTO take_profit_targets (id, position_id, target_index, price, allocation,
+           quantity, status, order_id)
+         VALUES (?, 'position-1', ?, ?, 50, ?, 'OPEN', ?)`
+      )
+      .run(`target-${index}`, index, price, quantity, `tp-order-${index}`);
+  };
+
+  const targets = () =>
+    db()
+      .prepare(
+        `SELECT t.status, o.quantity, o.price FROM take_profit_targets t
+         JOIN orders o ON o.id = t.order_id
+         ORDER BY t.target_index`
+      )
+      .all();
+
+  beforeEach(() => {
+    db().exec('DELETE FROM take_profit_targets; DELETE FROM positions; DELETE FROM orders;');
+
+    exchange = {
+      name: 'binance',
+      createMarketOrder: jest.fn(async (params: MarketOrderParams) =>
+        exchangeOrder(params, {
+          type: 'MARKET',
+          status: 'FILLED',
+          executedQty: params.quantity,
+          cummulativeQuoteQty: params.quantity * 110,
+        })
+      ),
+      createLimitOrder: jest.fn(async (params: LimitOrderParams) =>
+        exchangeOrder(params, { price: params.price })
+      ),
+      cancelOrder: jest.fn().mockResolvedValue(undefined),
+    };
+
+    orderManager = new OrderManager(
+      new ExchangeRegistry([exchange as unknown as ExchangeAdapter]),
+      {
+        calculateStopLossPrice: () => null,
+        calculatePositionSize: async (signal: TradingViewSignal) => signal.quantity,
+        checkRiskLimits: async () => ({ allowed: true }),
+      } as unknown as RiskManager,
+      {
+        recordPositionSide: jest.fn(),
+        updateSignalStatus: jest.fn(),
+      } as unknown as SignalProcessor,
+      {
+        normalize: async (params: NormalizeOrderParams) => ({
+          quantity: params.quantity,
+          price: params.price,
+        }),
+      } as unknown as OrderNormalizer,
+      {} as OrderExchange
+    );
+  });
+
+  describe('partial closes', () => {
+    beforeEach(() => {
+      insertPosition('position-1', { quantity: 1 });
+      openTakeProfit(0, 120, 0.5);
+      openTakeProfit(1, 130, 0.5);
+    });
+
+    it('sends the take-profits again after closing half of a spot position', async () => {
+      await orderManager.executeFromSignal('signal-1', {
+        action: 'close',
+        symbol: 'BTCUSDT',
+        orderType: 'market',
+        percent: 50,
+      } as TradingViewSignal);
+
+      expect(exchange.cancelOrder.mock.calls).toEqual([
+        ['BTCUSDT', 'ex-tp-0'],
+        ['BTCUSDT', 'ex-tp-1'],
+      ]);
+      expect(exchange.createMarketOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ side: 'SELL', quantity: 0.5 })
+      );
+      expect(targets()).toEqual([
+        { status: 'OPEN', quantity: 0.5, price: 120 },
+        { status: 'OPEN', quantity: 0.5, price: 130 },
+      ]);
+      expect(
+        db().prepare("SELECT status, quantity FROM positions WHERE id = 'position-1'").get()
+      ).toEqual({ status: 'OPEN', quantity: 0.5 });
+    });
+
+    it('sends the take-profits again when the exit fails', async () => {
+      exchange.createMarketOrder.mockRejectedValue(new Error('Exchange unavailable'));
+
+      await expect(orderManager.closePositionWithOrder('position-1', 'BTCUSDT', 1)).rejects.toThrow(
+        'Exchange unavailable'
+      );
+
+      expect(exchange.createLimitOrder).toHaveBeenCalledTimes(2);
+      expect(targets()).toEqual([
+        { status: 'OPEN', quantity: 0.5, price: 120 },
+        { status: 'OPEN', quantity: 0.5, price: 130 },
+      ]);
+    });
+
+    it('drops the targets once the position is closed', async () => {
+      await orderManager.closePositionWithOrder('position-1', 'BTCUSDT', 1);
+
+      expect(exchange.createLimitOrder).not.toHaveBeenCalled();
+      expect(
+        db().prepare('SELECT status FROM take_profit_targets ORDER BY target_index').all()
+      ).toEqual([{ status: 'CANCELED' }, { status: 'CANCELED' }]);
+    });
+  });
+
+  describe('commission', () => {
+    const commission = () =>
+      db().prepare("SELECT filled_quantity, commission FROM orders WHERE id = 'order-1'").get();
+
+    beforeEach(() => {
+      db()
+        .prepare(
+          `INSERT INTO orders (id, binance_order_id, symbol, side, type, quantity, price, status,
+             exchange)
+           VALUES ('order-1', 'ex-1', 'BTCUSDT', 'BUY', 'LIMIT', 1, 100, 'NEW', 'binance')`
+        )
+        .run();
+    });
+
+    it('books the commission of fills an order query booked first', async () => {
+      await orderManager.applyOrderUpdate('order-1', {
+        status: 'FILLED',
+        executedQty: 1,
+        cummulativeQuoteQty: 100,
+      });
+      await orderManager.applyOrderUpdate('order-1', {
+        status: 'FILLED',
+        executedQty: 1,
+        cummulativeQuoteQty: 100,
+        commission: 0.001,
+        commissionAsset: 'BTC',
+      });
+
+      expect(commission()).toEqual({ filled_quantity: 1, commission: 0.001 });
+    });
+
+    it('books the commission of each fill once', async () => {
+      const fill = { status: 'PARTIALLY_FILLED', executedQty: 0.5, cummulativeQuoteQty: 50 };
+
+      await orderManager.applyOrderUpdate('order-1', { ...fill, commission: 0.0005 });
+      await orderManager.applyOrderUpdate('order-1', { ...fill, commission: 0.0005 });
+      await orderManager.applyOrderUpdate('order-1', {
+        status: 'FILLED',
+        executedQty: 1,
+        cummulativeQuoteQty: 100,
+        commission: 0.0005,
+      });
+
+      expect(commission()).toEqual({ filled_quantity: 1, commission: 0.001 });
+    });
+
+    it('keeps the commission a market order response booked', async () => {
+      exchange.createMarketOrder.mockImplementationOnce(async (params: MarketOrderParams) =>
+        exchangeOrder(params, {
+          type: 'MARKET',
+          status: 'FILLED',
+          executedQty: 1,
+          cummulativeQuoteQty: 110,
+          fills: [{ price: '110', qty: '1', commission: '0.001', commissionAsset: 'BTC' }],
+        })
+      );
+
+      await orderManager.executeFromSignal('signal-1', {
+        action: 'buy',
+        symbol: 'BTCUSDT',
+        orderType: 'market',
+        quantity: 1,
+      } as TradingViewSignal);
+      const order = db().prepare("SELECT id FROM orders WHERE type = 'MARKET'").get() as {
+        id: string;
+      };
+
+      await orderManager.applyOrderUpdate(order.id, {
+        status: 'FILLED',
+        executedQty: 1,
+        cummulativeQuoteQty: 110,
+        commission: 0.001,
+      });
+
+      expect(db().prepare('SELECT commission FROM orders WHERE id = ?').get(order.id)).toEqual({
+        commission: 0.001,
+      });
+    });
+  });
+});
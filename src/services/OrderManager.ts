@@ -1,15 +1,36 @@
 import { v4 as uuidv4 } from 'uuid';
 import { createModuleLogger } from '../utils/logger';
-import { TradingViewSignal } from '../api/schemas/webhook.schema';
-import { BinanceClient } from './binance/BinanceClient';
-import { RiskManager } from './RiskManager';
+import {
+  CLOSE_ACTIONS,
+  TakeProfit,
+  TradingViewSignal,
+  TrailingStop,
+} from '../api/schemas/webhook.schema';
+import { ExecutionReport } from './binance/types';
+import { FuturesPositionSide, Order } from './exchange/types';
+import { DEFAULT_EXCHANGE, ExchangeName, OrderExchange } from './exchange/ExchangeAdapter';
+import { ExchangeRegistry } from './exchange/ExchangeRegistry';
+import { RiskManager, RiskPreview } from './RiskManager';
 import { SignalProcessor } from './SignalProcessor';
-import { RiskLimitExceededError } from '../utils/errors';
+import { OrderNormalizer } from './OrderNormalizer';
+import { InvalidOrderError, RiskLimitExceededError, TradingError } from '../utils/errors';
 import databaseService from '../database';
-import { Strategy } from './StrategyService';
+import { Strategy, StrategyService } from './StrategyService';
+import config from '../config';
 
 const logger = createModuleLogger('OrderManager');
 
+// Spot stops are STOP_LOSS_LIMIT orders; the limit sits this far beyond the trigger
+// so the order still fills when price gaps through the stop
+const STOP_LIMIT_BUFFER_PERCENT = 0.5;
+
+// Callback rates Binance accepts on TRAILING_STOP_MARKET orders, in 0.1% steps
+const NATIVE_TRAILING_CALLBACK_MIN = 0.1;
+const NATIVE_TRAILING_CALLBACK_MAX = 5;
+
+// The two orders of a reverse signal: the exit of the open position, then the new entry
+export type SignalLeg = 'close' | 'entry';
+
 export interface OrderRequest {
   symbol: string;
   side: 'BUY' | 'SELL';
@@ -20,49 +41,245 @@ export interface OrderRequest {
   strategyId?: string | null;
   trading_type?: 'SPOT' | 'FUTURE';
   leverage?: number;
+  stopLoss?: number;
+  signal?: TradingViewSignal;
+  signalId?: string;
+  signalLeg?: SignalLeg;
+  positionSide?: FuturesPositionSide; // Futures only - BOTH in one-way mode
+  reduceOnly?: boolean;
+  paper?: boolean; // Executed on the paper exchange
+  exchange?: ExchangeName; // Venue the order goes to, the default exchange when unset
+}
+
+/**
+ * Row of the positions table
+ */
+export interface Position {
+  id: string;
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  entry_price: number;
+  quantity: number;
+  stop_loss_price: number | null;
+  stop_loss_order_id: string | null;
+  entry_order_id: string;
+  exit_order_id: string | null;
+  exit_price: number | null;
+  realized_pnl: number | null;
+  status: 'OPEN' | 'CLOSED';
+  opened_at: string;
+  closed_at: string | null;
+  trading_type: 'SPOT' | 'FUTURE';
+  leverage: number | null;
+  liquidation_price: number | null;
+  paper: number; // 1 for paper trading positions
+  exchange: ExchangeName;
+  trailing_stop_percent: number | null;
+  trailing_stop_amount: number | null;
+  trailing_activation_price: number | null;
+  trailing_extreme_price: number | null; // Best price seen since the trail activated
+  trailing_native: number; // 1 when an exchange trailing order works the stop
+}
+
+/**
+ * Row of the orders table
+ */
+export interface OrderRecord {
+  id: string;
+  binance_order_id: string | null; // Order id on the exchange, whichever venue it's on
+  client_order_id: string | null;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: 'MARKET' | 'LIMIT' | 'STOP_LOSS' | 'STOP_LOSS_LIMIT';
+  quantity: number;
+  price: number | null;
+  stop_price: number | null;
+  status: string;
+  filled_quantity: number;
+  avg_fill_price: number | null;
+  commission: number;
+  commission_asset: string | null;
+  commission_quantity: number; // Executed quantity whose commission has been booked
+  signal_data: string | null;
+  signal_id: string | null;
+  signal_leg: SignalLeg | null;
+  error_message: string | null;
+  strategy_id: string | null;
+  risk_passed: number;
+  trading_type: 'SPOT' | 'FUTURE';
+  source: 'BOT' | 'EXTERNAL';
+  position_side: FuturesPositionSide | null;
+  reduce_only: number;
+  paper: number; // 1 for paper trading orders
+  exchange: ExchangeName;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Row of the take_profit_targets table
+ */
+export interface TakeProfitTarget {
+  id: string;
+  position_id: string;
+  target_index: number;
+  price: number;
+  allocation: number; // Share of the position in %
+  quantity: number;
+  filled_quantity: number;
+  realized_pnl: number;
+  status: 'PENDING' | 'OPEN' | 'FILLED' | 'CANCELED' | 'REJECTED';
+  order_id: string | null;
+  error_message: string | null;
+  created_at: string;
+  filled_at: string | null;
+}
+
+/**
+ * Where a signal's order goes: its side and, for futures, the position it acts on
+ */
+interface OrderTarget {
+  side: 'BUY' | 'SELL';
+  positionSide?: FuturesPositionSide;
+  reduceOnly?: boolean;
+  closeQuantity?: number; // Size of the position being closed
+  closedSide?: 'LONG' | 'SHORT'; // Side of the position being closed
+}
+
+/**
+ * Snapshot of an order's execution state as reported by the exchange
+ */
+export type OrderUpdate = Pick<Order, 'status' | 'executedQty' | 'cummulativeQuoteQty'> & {
+  commission?: number; // Commission of the latest fills, those up to executedQty
+  commissionAsset?: string;
+};
+
+// Exchange statuses that still need to be followed until they reach a final state
+export const OPEN_ORDER_STATUSES = ['NEW', 'PARTIALLY_FILLED'];
+
+// Orders are recorded right before they're sent; requests (and their retries) still in flight
+// get this long to confirm them before the order is looked up on the exchange instead
+export const UNCONFIRMED_ORDER_AGE_MS = 60 * 1000;
+
+/**
+ * Client order id an order is sent to the exchange with - derived from the local order id
+ * so the exchange's order can always be traced back to it (Binance allows 36 characters)
+ */
+export function toClientOrderId(orderId: string): string {
+  return `bot_${orderId.replace(/-/g, '')}`;
+}
+
+/**
+ * Whether a failed order is known not to be live: the exchange turned it down, or it never got
+ * past our own checks. After a timeout or a network failure it may be live all the same.
+ */
+export function isOrderRejection(error: unknown): boolean {
+  return error instanceof TradingError && error.statusCode < 500;
 }
 
 export class OrderManager {
+  private strategyService = new StrategyService();
+
   constructor(
-    private binanceClient: BinanceClient,
+    private exchanges: ExchangeRegistry,
     private riskManager: RiskManager,
-    private signalProcessor: SignalProcessor
+    private signalProcessor: SignalProcessor,
+    private orderNormalizer: OrderNormalizer,
+    private paperExchange: OrderExchange
   ) {}
 
+  /**
+   * Exchange an order or position is traded on - its venue, or the paper exchange for
+   * simulated ones
+   */
+  exchangeFor(target: {
+    exchange?: string | null;
+    paper?: boolean | number | null;
+  }): OrderExchange {
+    return target.paper ? this.paperExchange : this.exchanges.get(target.exchange);
+  }
+
   async executeFromSignal(
     signalId: string,
     signal: TradingViewSignal,
     strategyId?: string | null,
-    bypassEnabledCheck: boolean = false,
-    isManualApproval: boolean = false
+    overrideSoftLimits: boolean = false,
+    isManualApproval: boolean = false,
+    signalLeg?: SignalLeg
   ): Promise<string> {
     const orderId = uuidv4();
     const db = databaseService.getDatabase();
 
     try {
-      logger.info('Executing order from signal', { signalId, signal, strategyId, bypassEnabledCheck, isManualApproval });
+      logger.info('Executing order from signal', {
+        signalId,
+        signal,
+        strategyId,
+        overrideSoftLimits,
+        isManualApproval,
+      });
 
       // Get strategy details if strategyId is provided
       let strategy: Strategy | null = null;
       if (strategyId) {
-        strategy = db.prepare('SELECT * FROM strategies WHERE id = ?').get(strategyId) as Strategy | undefined || null;
+        strategy = this.strategyService.getStrategyById(strategyId);
         logger.info('Strategy loaded', { strategyId, strategy });
       }
 
       const trading_type = strategy?.trading_type || 'SPOT';
       const leverage = strategy?.leverage || 5;
+      const paper = config.paperTrading.enabled || Boolean(strategy?.paper_trading);
+      const venue = strategy?.exchange || DEFAULT_EXCHANGE;
+
+      if (signal.action === 'reverse') {
+        return await this.executeReversal(
+          signalId,
+          signal,
+          strategyId,
+          overrideSoftLimits,
+          isManualApproval,
+          paper,
+          venue
+        );
+      }
+
+      const target = this.resolveOrderTarget(
+        signal,
+        trading_type,
+        strategy?.position_mode || 'ONE_WAY',
+        paper,
+        venue
+      );
 
-      // Calculate quantity
-      const quantity = await this.riskManager.calculatePositionSize(signal);
+      if (target.closedSide) {
+        this.signalProcessor.recordPositionSide(signalId, target.closedSide);
+      }
+
+      const quantity = await this.getSignalQuantity(
+        signal,
+        target,
+        trading_type,
+        paper,
+        venue,
+        strategy
+      );
 
       // Check risk limits
-      const riskCheck = await this.riskManager.checkRiskLimits(signal, quantity, bypassEnabledCheck);
+      const riskCheck = await this.riskManager.checkRiskLimits(
+        signal,
+        quantity,
+        overrideSoftLimits,
+        paper,
+        venue,
+        trading_type,
+        strategy
+      );
       const riskPassed = riskCheck.allowed;
 
       if (!riskPassed) {
         // Risk check failed - create REJECTED order record so it's visible in UI
         // Note: This only happens when Risk Management is ENABLED
-        const side = this.getOrderSide(signal);
+        const side = target.side;
 
         logger.info('[REJECTED ORDER] Creating REJECTED order record', {
           orderId,
@@ -76,8 +293,8 @@ export class OrderManager {
 
         const stmt = db.prepare(`
           INSERT INTO orders (
-            id, symbol, side, type, quantity, price, status, error_message, strategy_id, risk_passed, trading_type
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            id, symbol, side, type, quantity, price, status, error_message, strategy_id, risk_passed, trading_type, paper, exchange
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         const result = stmt.run(
@@ -91,7 +308,9 @@ export class OrderManager {
           riskCheck.reason,
           strategyId || null,
           0,
-          trading_type
+          trading_type,
+          paper ? 1 : 0,
+          venue
         );
 
         logger.info('[REJECTED ORDER] Order record created successfully', {
@@ -117,38 +336,81 @@ export class OrderManager {
         throw new RiskLimitExceededError(riskCheck.reason!);
       }
 
-      // Determine order side
-      const side = this.getOrderSide(signal);
+      const side = target.side;
+
+      // Spot stop orders lock the base asset, so the stop has to be released
+      // before an exit order can use that balance
+      const exitingPosition =
+        trading_type === 'SPOT'
+          ? this.getOpenPositionClosedBy(signal.symbol, side, trading_type, paper, venue)
+          : null;
+      if (exitingPosition) {
+        await this.cancelStopLoss(exitingPosition);
+        await this.cancelTakeProfits(exitingPosition, undefined, true);
+      }
 
       // Execute order based on type (will create its own order ID and return it)
       let executedOrderId: string;
 
-      if (signal.orderType === 'market') {
-        executedOrderId = await this.executeMarketOrder({
-          symbol: signal.symbol,
-          side,
-          type: 'MARKET',
-          quantity,
-          strategyId: strategyId || null,
-          trading_type,
-          leverage,
-        }, riskPassed, isManualApproval);
-      } else {
-        // Limit order
-        if (!signal.price) {
-          throw new Error('Price is required for limit orders');
-        }
+      try {
+        if (signal.orderType === 'market') {
+          executedOrderId = await this.executeMarketOrder(
+            {
+              symbol: signal.symbol,
+              side,
+              type: 'MARKET',
+              quantity,
+              strategyId: strategyId || null,
+              trading_type,
+              leverage,
+              stopLoss: signal.stopLoss,
+              signal,
+              signalId,
+              signalLeg,
+              positionSide: target.positionSide,
+              reduceOnly: target.reduceOnly,
+              paper,
+              exchange: venue,
+            },
+            riskPassed,
+            isManualApproval
+          );
+        } else {
+          // Limit order
+          if (!signal.price) {
+            throw new Error('Price is required for limit orders');
+          }
 
-        executedOrderId = await this.executeLimitOrder({
-          symbol: signal.symbol,
-          side,
-          type: 'LIMIT',
-          quantity,
-          price: signal.price,
-          strategyId: strategyId || null,
-          trading_type,
-          leverage,
-        }, riskPassed, isManualApproval);
+          executedOrderId = await this.executeLimitOrder(
+            {
+              symbol: signal.symbol,
+              side,
+              type: 'LIMIT',
+              quantity,
+              price: signal.price,
+              strategyId: strategyId || null,
+              trading_type,
+              leverage,
+              stopLoss: signal.stopLoss,
+              signal,
+              signalId,
+              signalLeg,
+              positionSide: target.positionSide,
+              reduceOnly: target.reduceOnly,
+              paper,
+              exchange: venue,
+            },
+            riskPassed,
+            isManualApproval
+          );
+        }
+      } catch (error) {
+        // The exit never reached the exchange - put the take-profits and the stop back
+        if (exitingPosition) {
+          await this.placeTakeProfits(exitingPosition.id);
+          await this.placeStopLoss(exitingPosition.id);
+        }
+        throw error;
       }
 
       // Update signal status
@@ -198,20 +460,35 @@ export class OrderManager {
     // SHORT positions are closed with BUY orders
     const orderSide = position.side === 'LONG' ? 'SELL' : 'BUY';
 
+    // Cancel the protective stop first so it can't fire after the position is gone
+    await this.cancelStopLoss(position);
+    await this.cancelTakeProfits(position, undefined, true);
+
     // Create order to close position
-    const orderId = await this.executeMarketOrder(
-      {
-        symbol,
-        side: orderSide,
-        type: 'MARKET',
-        quantity,
-        strategyId: null,
-        trading_type: position.trading_type,
-        leverage: position.leverage,
-      },
-      true, // riskPassed = true (manual close, bypass risk checks)
-      false // isManualApproval = false (not from pending signals)
-    );
+    let orderId: string;
+    try {
+      orderId = await this.executeMarketOrder(
+        {
+          symbol,
+          side: orderSide,
+          type: 'MARKET',
+          quantity,
+          strategyId: null,
+          trading_type: position.trading_type,
+          leverage: position.leverage,
+          paper: Boolean(position.paper),
+          exchange: position.exchange,
+          ...(position.trading_type === 'FUTURE' ? this.getClosingTarget(position) : {}),
+        },
+        true, // riskPassed = true (manual close, bypass risk checks)
+        false // isManualApproval = false (not from pending signals)
+      );
+    } catch (error) {
+      // Close failed - the position is still open, so protect it again
+      await this.placeTakeProfits(positionId);
+      await this.placeStopLoss(positionId);
+      throw error;
+    }
 
     logger.info('Position closed with order', {
       positionId,
@@ -225,6 +502,8 @@ export class OrderManager {
   private async executeMarketOrder(request: OrderRequest, riskPassed: boolean = true, isManualApproval: boolean = false): Promise<string> {
     const orderId = uuidv4();
     const db = databaseService.getDatabase();
+    let binanceOrder: Order;
+    let submitted = false;
 
     try {
       logger.info('Executing market order', { orderId, request, isManualApproval });
@@ -232,34 +511,78 @@ export class OrderManager {
       const trading_type = request.trading_type || 'SPOT';
       const leverage = request.leverage || 5;
 
-      let binanceOrder: any;
+      // Fit the order to the symbol's exchange filters - violations become the rejection reason
+      const normalized = await this.orderNormalizer.normalize({
+        symbol: request.symbol,
+        tradingType: trading_type,
+        orderType: 'MARKET',
+        quantity: request.quantity,
+        isEntry: !this.isExitOrder(request),
+        reduceOnly: request.reduceOnly,
+        exchange: request.exchange,
+      });
+      request = { ...request, quantity: normalized.quantity };
+
+      const exchange = this.exchangeFor(request);
 
       if (trading_type === 'FUTURE') {
+        await this.ensurePositionMode(exchange, request.positionSide);
+
         // Set leverage for futures trading
         logger.info('Setting futures leverage', { symbol: request.symbol, leverage });
-        await this.binanceClient.setFuturesLeverage(request.symbol, leverage);
+        await exchange.setFuturesLeverage(request.symbol, leverage);
+      }
+
+      // Record the order before sending it - fill state is applied below so positions follow
+      // the same path as fills picked up later by the order tracker
+      const clientOrderId = toClientOrderId(orderId);
+      db.prepare(
+        `INSERT INTO orders (
+          id, client_order_id, symbol, side, type, quantity, status, signal_data, signal_id,
+          signal_leg, strategy_id, risk_passed, trading_type, position_side, reduce_only, paper,
+          exchange
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        orderId,
+        clientOrderId,
+        request.symbol,
+        request.side,
+        'MARKET',
+        request.quantity,
+        'NEW',
+        request.signal ? JSON.stringify(request.signal) : null,
+        request.signalId || null,
+        request.signalLeg || null,
+        request.strategyId || null,
+        riskPassed ? 1 : 0,
+        trading_type,
+        request.positionSide || null,
+        request.reduceOnly ? 1 : 0,
+        request.paper ? 1 : 0,
+        request.exchange || DEFAULT_EXCHANGE
+      );
+      submitted = true;
 
+      if (trading_type === 'FUTURE') {
         // Execute futures order
-        binanceOrder = await this.binanceClient.createFuturesMarketOrder({
+        binanceOrder = await exchange.createFuturesMarketOrder({
+          clientOrderId,
           symbol: request.symbol,
           side: request.side,
           quantity: request.quantity,
+          positionSide: request.positionSide,
+          reduceOnly: request.reduceOnly,
         });
       } else {
         // Execute spot order
-        binanceOrder = await this.binanceClient.createMarketOrder({
+        binanceOrder = await exchange.createMarketOrder({
+          clientOrderId,
           symbol: request.symbol,
           side: request.side,
           quantity: request.quantity,
         });
       }
 
-      // Calculate average fill price
-      const avgFillPrice =
-        binanceOrder.cummulativeQuoteQty > 0
-          ? binanceOrder.cummulativeQuoteQty / binanceOrder.executedQty
-          : 0;
-
       // Calculate commission
       const commission = binanceOrder.fills
         ? binanceOrder.fills.reduce((sum: number, fill: any) => sum + parseFloat(fill.commission), 0)
@@ -267,30 +590,19 @@ export class OrderManager {
 
       const commissionAsset = binanceOrder.fills?.[0]?.commissionAsset || '';
 
-      // Save to database
-      const stmt = db.prepare(`
-        INSERT INTO orders (
-          id, binance_order_id, symbol, side, type, quantity,
-          status, filled_quantity, avg_fill_price, commission, commission_asset,
-          strategy_id, risk_passed, trading_type
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `);
-
-      stmt.run(
-        orderId,
+      // The user data stream may have booked these fills already
+      db.prepare(
+        `UPDATE orders
+         SET binance_order_id = ?, commission = MAX(COALESCE(commission, 0), ?),
+             commission_asset = COALESCE(NULLIF(?, ''), commission_asset),
+             commission_quantity = MAX(commission_quantity, ?)
+         WHERE id = ?`
+      ).run(
         binanceOrder.orderId,
-        request.symbol,
-        request.side,
-        'MARKET',
-        request.quantity,
-        binanceOrder.status,
-        binanceOrder.executedQty,
-        avgFillPrice,
         commission,
         commissionAsset,
-        request.strategyId || null,
-        riskPassed ? 1 : 0,
-        trading_type
+        binanceOrder.fills ? binanceOrder.executedQty : 0,
+        orderId
       );
 
       logger.info('Market order executed and saved', {
@@ -299,26 +611,24 @@ export class OrderManager {
         status: binanceOrder.status,
         executedQty: binanceOrder.executedQty,
       });
-
-      // Create or update position if order is filled
-      if (binanceOrder.status === 'FILLED') {
-        await this.handleFilledOrder(orderId, request, avgFillPrice);
-      }
-
-      return orderId;
     } catch (error) {
       logger.error('Market order execution failed', { orderId, error, isManualApproval });
 
-      // For manual approvals, don't create REJECTED order record
-      // The pending signal will be marked as FAILED instead
-      if (!isManualApproval) {
+      if (submitted && !isOrderRejection(error)) {
+        // The order may be live - the order tracker looks it up by its client order id
+        logger.warn('Market order outcome unknown, left for the order tracker to resolve', {
+          orderId,
+        });
+      } else if (!isManualApproval || submitted) {
         const trading_type = request.trading_type || 'SPOT';
 
-        // Save failed order to database
+        // Save failed order to database, reusing its row if it was recorded before sending
         const stmt = db.prepare(`
           INSERT INTO orders (
-            id, symbol, side, type, quantity, status, error_message, strategy_id, risk_passed, trading_type
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            id, symbol, side, type, quantity, status, error_message, strategy_id, risk_passed, trading_type, paper, exchange
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET status = excluded.status, error_message = excluded.error_message
+          WHERE orders.binance_order_id IS NULL AND orders.status = 'NEW'
         `);
 
         stmt.run(
@@ -331,21 +641,32 @@ export class OrderManager {
           (error as Error).message,
           request.strategyId || null,
           riskPassed ? 1 : 0,
-          trading_type
+          trading_type,
+          request.paper ? 1 : 0,
+          request.exchange || DEFAULT_EXCHANGE
         );
 
-        logger.info('Created REJECTED order record for automatic signal', { orderId });
+        logger.info('Created REJECTED order record', { orderId });
       } else {
+        // A manual approval that never reached the exchange gets no order record - the
+        // pending signal is marked as FAILED instead
         logger.info('Skipping REJECTED order record for manual approval - will be marked as FAILED in pending signals', { orderId });
       }
 
       throw error;
     }
+
+    // Create or update position for whatever already filled
+    await this.applyOrderUpdate(orderId, binanceOrder);
+
+    return orderId;
   }
 
   private async executeLimitOrder(request: OrderRequest, riskPassed: boolean = true, isManualApproval: boolean = false): Promise<string> {
     const orderId = uuidv4();
     const db = databaseService.getDatabase();
+    let binanceOrder: Order;
+    let submitted = false;
 
     try {
       logger.info('Executing limit order', { orderId, request, isManualApproval });
@@ -353,23 +674,75 @@ export class OrderManager {
       const trading_type = request.trading_type || 'SPOT';
       const leverage = request.leverage || 5;
 
-      let binanceOrder: any;
+      // Fit the order to the symbol's exchange filters - violations become the rejection reason
+      const normalized = await this.orderNormalizer.normalize({
+        symbol: request.symbol,
+        tradingType: trading_type,
+        orderType: 'LIMIT',
+        quantity: request.quantity,
+        price: request.price,
+        isEntry: !this.isExitOrder(request),
+        reduceOnly: request.reduceOnly,
+        exchange: request.exchange,
+      });
+      request = { ...request, quantity: normalized.quantity, price: normalized.price };
+
+      const exchange = this.exchangeFor(request);
 
       if (trading_type === 'FUTURE') {
+        await this.ensurePositionMode(exchange, request.positionSide);
+
         // Set leverage for futures trading
         logger.info('Setting futures leverage for limit order', { symbol: request.symbol, leverage });
-        await this.binanceClient.setFuturesLeverage(request.symbol, leverage);
+        await exchange.setFuturesLeverage(request.symbol, leverage);
+      }
+
+      // Record the order before sending it - the order tracker follows it until it is
+      // filled or cancelled
+      const clientOrderId = toClientOrderId(orderId);
+      db.prepare(
+        `INSERT INTO orders (
+          id, client_order_id, symbol, side, type, quantity, price, status, signal_data,
+          signal_id, signal_leg, strategy_id, risk_passed, trading_type, position_side,
+          reduce_only, paper, exchange
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        orderId,
+        clientOrderId,
+        request.symbol,
+        request.side,
+        'LIMIT',
+        request.quantity,
+        request.price,
+        'NEW',
+        request.signal ? JSON.stringify(request.signal) : null,
+        request.signalId || null,
+        request.signalLeg || null,
+        request.strategyId || null,
+        riskPassed ? 1 : 0,
+        trading_type,
+        request.positionSide || null,
+        request.reduceOnly ? 1 : 0,
+        request.paper ? 1 : 0,
+        request.exchange || DEFAULT_EXCHANGE
+      );
+      submitted = true;
 
+      if (trading_type === 'FUTURE') {
         // Execute futures limit order
-        binanceOrder = await this.binanceClient.createFuturesLimitOrder({
+        binanceOrder = await exchange.createFuturesLimitOrder({
+          clientOrderId,
           symbol: request.symbol,
           side: request.side,
           quantity: request.quantity,
           price: request.price!,
+          positionSide: request.positionSide,
+          reduceOnly: request.reduceOnly,
         });
       } else {
         // Execute spot limit order
-        binanceOrder = await this.binanceClient.createLimitOrder({
+        binanceOrder = await exchange.createLimitOrder({
+          clientOrderId,
           symbol: request.symbol,
           side: request.side,
           quantity: request.quantity,
@@ -377,26 +750,9 @@ export class OrderManager {
         });
       }
 
-      // Save to database
-      const stmt = db.prepare(`
-        INSERT INTO orders (
-          id, binance_order_id, symbol, side, type, quantity, price, status,
-          strategy_id, risk_passed, trading_type
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `);
-
-      stmt.run(
-        orderId,
+      db.prepare('UPDATE orders SET binance_order_id = ? WHERE id = ?').run(
         binanceOrder.orderId,
-        request.symbol,
-        request.side,
-        'LIMIT',
-        request.quantity,
-        request.price,
-        binanceOrder.status,
-        request.strategyId || null,
-        riskPassed ? 1 : 0,
-        trading_type
+        orderId
       );
 
       logger.info('Limit order executed and saved', {
@@ -405,21 +761,24 @@ export class OrderManager {
         status: binanceOrder.status,
         trading_type,
       });
-
-      return orderId;
     } catch (error) {
       logger.error('Limit order execution failed', { orderId, error, isManualApproval });
 
-      // For manual approvals, don't create REJECTED order record
-      // The pending signal will be marked as FAILED instead
-      if (!isManualApproval) {
+      if (submitted && !isOrderRejection(error)) {
+        // The order may be live - the order tracker looks it up by its client order id
+        logger.warn('Limit order outcome unknown, left for the order tracker to resolve', {
+          orderId,
+        });
+      } else if (!isManualApproval || submitted) {
         const trading_type = request.trading_type || 'SPOT';
 
-        // Save failed order to database
+        // Save failed order to database, reusing its row if it was recorded before sending
         const stmt = db.prepare(`
           INSERT INTO orders (
-            id, symbol, side, type, quantity, price, status, error_message, strategy_id, risk_passed, trading_type
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            id, symbol, side, type, quantity, price, status, error_message, strategy_id, risk_passed, trading_type, paper, exchange
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET status = excluded.status, error_message = excluded.error_message
+          WHERE orders.binance_order_id IS NULL AND orders.status = 'NEW'
         `);
 
         stmt.run(
@@ -433,16 +792,25 @@ export class OrderManager {
           (error as Error).message,
           request.strategyId || null,
           riskPassed ? 1 : 0,
-          trading_type
+          trading_type,
+          request.paper ? 1 : 0,
+          request.exchange || DEFAULT_EXCHANGE
         );
 
-        logger.info('Created REJECTED order record for automatic signal', { orderId });
+        logger.info('Created REJECTED order record', { orderId });
       } else {
+        // A manual approval that never reached the exchange gets no order record - the
+        // pending signal is marked as FAILED instead
         logger.info('Skipping REJECTED order record for manual approval - will be marked as FAILED in pending signals', { orderId });
       }
 
       throw error;
     }
+
+    // Limit orders can fill (partly) on placement when they cross the book
+    await this.applyOrderUpdate(orderId, binanceOrder);
+
+    return orderId;
   }
 
   async cancelOrder(orderId: string): Promise<void> {
@@ -462,11 +830,21 @@ export class OrderManager {
         throw new Error(`Order ${orderId} has no Binance order ID`);
       }
 
-      // Cancel on Binance
-      await this.binanceClient.cancelOrder(order.symbol, order.binance_order_id);
+      // Cancel on the exchange
+      const exchange = this.exchangeFor(order);
+      if (order.trading_type === 'FUTURE') {
+        await exchange.cancelFuturesOrder(order.symbol, order.binance_order_id);
+      } else {
+        await exchange.cancelOrder(order.symbol, order.binance_order_id);
+      }
 
-      // Update status in database
-      db.prepare('UPDATE orders SET status = ? WHERE id = ?').run('CANCELED', orderId);
+      // Pick up any fills that happened before the cancel went through
+      try {
+        await this.refreshOrder(order);
+      } catch (error) {
+        logger.warn('Failed to refresh cancelled order, marking as CANCELED', { orderId, error });
+        db.prepare('UPDATE orders SET status = ? WHERE id = ?').run('CANCELED', orderId);
+      }
 
       logger.info('Order cancelled', { orderId });
     } catch (error) {
@@ -475,129 +853,1665 @@ export class OrderManager {
     }
   }
 
-  private getOrderSide(signal: TradingViewSignal): 'BUY' | 'SELL' {
-    if (signal.action === 'buy') {
-      return 'BUY';
-    } else if (signal.action === 'sell' || signal.action === 'close') {
-      return 'SELL';
-    }
-
-    throw new Error(`Invalid action: ${signal.action}`);
+  /**
+   * Fetch the latest state of an order the exchange has confirmed and apply it
+   */
+  async refreshOrder(order: OrderRecord): Promise<void> {
+    const exchange = this.exchangeFor(order);
+    const exchangeOrder: Order =
+      order.trading_type === 'FUTURE'
+        ? await exchange.getFuturesOrder(order.symbol, order.binance_order_id!)
+        : await exchange.getOrder(order.symbol, order.binance_order_id!);
+
+    await this.applyOrderUpdate(order.id, exchangeOrder);
   }
 
-  async getOrder(orderId: string) {
+  /**
+   * Resolve an order that was recorded but never confirmed by the exchange, e.g. because the
+   * process stopped mid-request. The exchange is asked by client order id: a known order is
+   * adopted and its fills applied, an unknown one never arrived and is marked REJECTED.
+   */
+  async recoverUnconfirmedOrder(order: OrderRecord): Promise<void> {
     const db = databaseService.getDatabase();
-    return db.prepare('SELECT * FROM orders WHERE id = ?').get(orderId);
+    const exchange = this.exchangeFor(order);
+
+    const exchangeOrder =
+      order.trading_type === 'FUTURE'
+        ? await exchange.getFuturesOrderByClientId(order.symbol, order.client_order_id!)
+        : await exchange.getOrderByClientId(order.symbol, order.client_order_id!);
+
+    if (!exchangeOrder) {
+      db.prepare(
+        `UPDATE orders SET status = 'REJECTED', error_message = ?
+         WHERE id = ? AND binance_order_id IS NULL AND status = 'NEW'`
+      ).run('Order never reached the exchange', order.id);
+
+      logger.warn('Unconfirmed order not found on the exchange, marked as rejected', {
+        orderId: order.id,
+        clientOrderId: order.client_order_id,
+      });
+      return;
+    }
+
+    db.prepare('UPDATE orders SET binance_order_id = ? WHERE id = ?').run(
+      exchangeOrder.orderId,
+      order.id
+    );
+
+    logger.warn('Recovered unconfirmed order from the exchange', {
+      orderId: order.id,
+      binanceOrderId: exchangeOrder.orderId,
+      status: exchangeOrder.status,
+    });
+
+    await this.applyOrderUpdate(order.id, exchangeOrder);
   }
 
-  async getOrders(filters?: { symbol?: string; status?: string; limit?: number }) {
+  /**
+   * Record an order that was placed outside the bot (manual trade, liquidation) so its
+   * fills can be applied like any other order. Returns the local order id.
+   */
+  recordExternalOrder(report: ExecutionReport, exchange: ExchangeName = DEFAULT_EXCHANGE): string {
     const db = databaseService.getDatabase();
 
-    let query = `
-      SELECT
-        o.*,
-        s.name as strategy_name
-      FROM orders o
-      LEFT JOIN strategies s ON o.strategy_id = s.id
-      WHERE 1=1
-    `;
-    const params: any[] = [];
+    db.prepare(
+      `INSERT OR IGNORE INTO orders (
+        id, binance_order_id, client_order_id, symbol, side, type, quantity, price, stop_price,
+        status, strategy_id, risk_passed, trading_type, position_side, reduce_only, source, exchange
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'NEW', NULL, 1, ?, ?, ?, 'EXTERNAL', ?)`
+    ).run(
+      uuidv4(),
+      report.orderId,
+      report.clientOrderId || null,
+      report.symbol,
+      report.side,
+      this.toLocalOrderType(report.orderType),
+      report.quantity,
+      report.price ?? null,
+      report.stopPrice ?? null,
+      report.tradingType,
+      report.positionSide || null,
+      report.reduceOnly ? 1 : 0,
+      exchange
+    );
 
-    if (filters?.symbol) {
-      query += ' AND o.symbol = ?';
-      params.push(filters.symbol);
-    }
+    const order = db
+      .prepare(
+        'SELECT id FROM orders WHERE binance_order_id = ? AND trading_type = ? AND exchange = ?'
+      )
+      .get(report.orderId, report.tradingType, exchange) as { id: string } | undefined;
 
-    if (filters?.status) {
-      query += ' AND o.status = ?';
-      params.push(filters.status);
+    if (!order) {
+      throw new Error(`Could not record external order ${report.orderId} for ${report.symbol}`);
     }
 
-    query += ' ORDER BY o.created_at DESC';
-
-    if (filters?.limit) {
-      query += ' LIMIT ?';
-      params.push(filters.limit);
-    }
+    logger.info('Recorded external order', {
+      orderId: order.id,
+      binanceOrderId: report.orderId,
+      symbol: report.symbol,
+      side: report.side,
+      type: report.orderType,
+      tradingType: report.tradingType,
+      isLiquidation: report.isLiquidation,
+    });
 
-    return db.prepare(query).all(...params);
+    return order.id;
   }
 
-  private async handleFilledOrder(
-    orderId: string,
-    request: OrderRequest,
-    fillPrice: number
+  /**
+   * Close a position that was closed on the exchange without a matching order fill
+   * (liquidation, ADL, manual close), booking PnL at the given exit price
+   */
+  async closePositionAt(
+    positionId: string,
+    exitPrice: number,
+    exitOrderId: string | null = null
   ): Promise<void> {
-    try {
-      const trading_type = request.trading_type || 'SPOT';
+    const db = databaseService.getDatabase();
 
-      if (trading_type === 'SPOT') {
-        // Spot trading: BUY opens position, SELL closes position
-        if (request.side === 'BUY') {
-          await this.createPosition(orderId, request, fillPrice);
-        } else if (request.side === 'SELL') {
-          await this.closePosition(orderId, request, fillPrice);
-        }
-      } else {
-        // Futures trading: BUY can open LONG or close SHORT, SELL can open SHORT or close LONG
-        // For now, we'll treat BUY as opening LONG and SELL as closing LONG (simplified)
-        // In a more complex system, we'd check if there's an existing position to close first
-        if (request.side === 'BUY') {
-          await this.createPosition(orderId, request, fillPrice);
-        } else if (request.side === 'SELL') {
-          await this.closePosition(orderId, request, fillPrice);
-        }
+    const position = db.prepare('SELECT * FROM positions WHERE id = ?').get(positionId) as
+      Position | undefined;
+
+    if (!position || position.status !== 'OPEN') {
+      return;
+    }
+
+    const realizedPnL =
+      position.side === 'LONG'
+        ? (exitPrice - position.entry_price) * position.quantity
+        : (position.entry_price - exitPrice) * position.quantity;
+
+    db.prepare(
+      `UPDATE positions
+       SET status = 'CLOSED', exit_price = ?, realized_pnl = COALESCE(realized_pnl, 0) + ?,
+           exit_order_id = ?, closed_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status = 'OPEN'`
+    ).run(exitPrice, realizedPnL, exitOrderId, positionId);
+
+    logger.warn('Position closed on the exchange', {
+      positionId,
+      symbol: position.symbol,
+      side: position.side,
+      exitPrice,
+      realizedPnL,
+    });
+
+    if (position.stop_loss_order_id) {
+      try {
+        await this.cancelStopLoss(position);
+      } catch (error) {
+        logger.error('Failed to cancel stop loss of closed position', {
+          positionId,
+          error,
+        });
       }
-    } catch (error) {
-      logger.error('Failed to handle filled order', {
-        orderId,
-        side: request.side,
-        error,
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-        errorStack: error instanceof Error ? error.stack : undefined
-      });
-      // Don't throw - order was executed successfully, position tracking is secondary
     }
+
+    await this.cancelTakeProfits(position);
   }
 
-  private async createPosition(
-    orderId: string,
-    request: OrderRequest,
-    entryPrice: number
-  ): Promise<void> {
+  /**
+   * Apply an exchange order snapshot to the orders table and feed any new fills into
+   * position tracking. Fills are derived from the cumulative executed quantity, so the
+   * same snapshot can be applied more than once without double counting.
+   */
+  async applyOrderUpdate(orderId: string, update: OrderUpdate): Promise<void> {
     const db = databaseService.getDatabase();
-    const positionId = uuidv4();
 
-    try {
-      const trading_type = request.trading_type || 'SPOT';
-      const leverage = request.leverage || 5;
+    // Read and write in one immediate transaction so updates arriving from the tracker, the
+    // user data stream or another process can't book the same fill twice
+    const applied = db
+      .transaction(() => {
+        const order = db.prepare('SELECT * FROM orders WHERE id = ?').get(orderId) as
+          OrderRecord | undefined;
 
-      // Determine position side based on order side and trading type
-      // Spot: Always LONG (BUY opens, SELL closes)
-      // Futures: BUY opens LONG, SELL opens SHORT (but we're treating SELL as close for now)
-      const positionSide = request.side === 'BUY' ? 'LONG' : 'SHORT';
+        if (!order) {
+          return null;
+        }
 
-      // Check if there's already an open position for this symbol
-      // For our "only 1 position per symbol" rule
-      const existingPosition = db
-        .prepare('SELECT * FROM positions WHERE symbol = ? AND status = ?')
-        .get(request.symbol, 'OPEN') as any;
+        const status = this.normalizeOrderStatus(update.status, order.status);
+        const previousFilled = order.filled_quantity || 0;
+        const fillQuantity = update.executedQty - previousFilled;
 
-      if (existingPosition) {
-        // Update existing position - average entry price
-        // This only makes sense if positions are on the same side
-        if (existingPosition.side !== positionSide) {
-          logger.warn('Attempting to add to position with different side', {
-            existingPosition,
-            newSide: positionSide,
-          });
-          throw new Error(
-            `Cannot add ${positionSide} position when ${existingPosition.side} position exists for ${request.symbol}`
-          );
+        // Commission is booked by quantity rather than with new fills: a snapshot without it
+        // (an order query) may have booked the fills before the event carrying it arrived
+        const commissionDue =
+          update.commission && update.executedQty > order.commission_quantity
+            ? update.commission
+            : 0;
+
+        if (fillQuantity <= 0 && status === order.status && !commissionDue) {
+          return null;
         }
 
-        const totalQuantity = existingPosition.quantity + request.quantity;
-        const totalValue =
+        // An event that's behind the booked fills only brings its commission
+        const avgFillPrice =
+          update.executedQty > 0 && update.executedQty >= previousFilled
+            ? update.cummulativeQuoteQty / update.executedQty
+            : order.avg_fill_price;
+
+        db.prepare(
+          `UPDATE orders
+           SET status = ?, filled_quantity = ?, avg_fill_price = ?,
+               commission = COALESCE(commission, 0) + ?,
+               commission_asset = COALESCE(?, commission_asset),
+               commission_quantity = ?
+           WHERE id = ?`
+        ).run(
+          status,
+          Math.max(update.executedQty, previousFilled),
+          avgFillPrice,
+          commissionDue,
+          update.commissionAsset || null,
+          commissionDue ? update.executedQty : order.commission_quantity,
+          orderId
+        );
+
+        return {
+          order,
+          status,
+          fillQuantity,
+          avgFillPrice,
+          previousQuote: previousFilled * (order.avg_fill_price || 0),
+        };
+      })
+      .immediate();
+
+    if (!applied) {
+      return;
+    }
+
+    const { order, status, fillQuantity, avgFillPrice, previousQuote } = applied;
+
+    if (status !== order.status) {
+      logger.info('Order status changed', {
+        orderId,
+        symbol: order.symbol,
+        from: order.status,
+        to: status,
+        filledQuantity: update.executedQty,
+      });
+
+      this.updateTakeProfitStatus(orderId, status);
+
+      if (
+        order.type.startsWith('STOP_LOSS') &&
+        ['CANCELED', 'EXPIRED', 'REJECTED'].includes(status)
+      ) {
+        const protectedPosition = db
+          .prepare("SELECT id FROM positions WHERE stop_loss_order_id = ? AND status = 'OPEN'")
+          .get(orderId);
+
+        if (protectedPosition) {
+          logger.warn('Stop loss order is no longer active, position is unprotected', {
+            orderId,
+            status,
+            position: protectedPosition,
+          });
+        }
+      }
+    }
+
+    if (fillQuantity > 0) {
+      // Price of just the new fills, so partial fills are booked at what they actually traded at
+      const fillPrice =
+        update.cummulativeQuoteQty > previousQuote
+          ? (update.cummulativeQuoteQty - previousQuote) / fillQuantity
+          : avgFillPrice!; // Set whenever anything has filled
+
+      if (order.type.startsWith('STOP_LOSS')) {
+        logger.warn('Stop loss triggered', {
+          orderId,
+          symbol: order.symbol,
+          stopPrice: order.stop_price,
+          fillPrice,
+        });
+      }
+
+      await this.handleFilledOrder(orderId, this.toOrderRequest(order, fillQuantity), fillPrice);
+    }
+  }
+
+  /**
+   * Rebuild the order request for a stored order so fills can be fed through handleFilledOrder
+   */
+  private toOrderRequest(order: OrderRecord, quantity: number): OrderRequest {
+    const db = databaseService.getDatabase();
+
+    const strategy = db
+      .prepare('SELECT leverage FROM strategies WHERE id = ?')
+      .get(order.strategy_id) as { leverage: number } | undefined;
+    const signal: TradingViewSignal | undefined = order.signal_data
+      ? JSON.parse(order.signal_data)
+      : undefined;
+
+    return {
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type === 'STOP_LOSS_LIMIT' ? 'STOP_LOSS' : order.type,
+      quantity,
+      price: order.price ?? undefined,
+      strategyId: order.strategy_id,
+      trading_type: order.trading_type,
+      leverage: strategy?.leverage,
+      stopLoss: signal?.stopLoss,
+      signal,
+      positionSide: order.position_side ?? undefined,
+      reduceOnly: Boolean(order.reduce_only),
+      paper: Boolean(order.paper),
+      exchange: order.exchange,
+    };
+  }
+
+  /**
+   * Map exchange order types onto the ones the orders table accepts
+   */
+  private toLocalOrderType(
+    orderType: string
+  ): 'MARKET' | 'LIMIT' | 'STOP_LOSS' | 'STOP_LOSS_LIMIT' {
+    switch (orderType) {
+      case 'LIMIT':
+      case 'LIMIT_MAKER':
+        return 'LIMIT';
+      case 'STOP_LOSS':
+      case 'STOP_MARKET':
+      case 'TRAILING_STOP_MARKET':
+        return 'STOP_LOSS';
+      case 'STOP_LOSS_LIMIT':
+      case 'STOP':
+        return 'STOP_LOSS_LIMIT';
+      default:
+        // MARKET, LIQUIDATION and take-profit orders all execute at market
+        return 'MARKET';
+    }
+  }
+
+  /**
+   * Map exchange order statuses onto the ones the orders table accepts
+   */
+  private normalizeOrderStatus(status: string, currentStatus: string): string {
+    // A snapshot taken before the order was cancelled or filled here mustn't reopen it
+    if (OPEN_ORDER_STATUSES.includes(status) && !OPEN_ORDER_STATUSES.includes(currentStatus)) {
+      return currentStatus;
+    }
+
+    switch (status) {
+      case 'EXPIRED_IN_MATCH':
+        return 'EXPIRED';
+      case 'PENDING_CANCEL':
+        return currentStatus;
+      default:
+        return status;
+    }
+  }
+
+  /**
+   * Place (or replace) the protective stop order for an open position.
+   * Any existing stop is cancelled first so the stop always covers the full position quantity.
+   * Failures are logged rather than thrown - the position itself is already recorded.
+   */
+  private async placeStopLoss(positionId: string, signalStopLoss?: number): Promise<void> {
+    const db = databaseService.getDatabase();
+
+    const position = db.prepare('SELECT * FROM positions WHERE id = ?').get(positionId) as
+      Position | undefined;
+
+    if (!position || position.status !== 'OPEN') {
+      return;
+    }
+
+    // Keep the existing stop level when scaling in or re-protecting without a new stop
+    let stopPrice =
+      !signalStopLoss && position.stop_loss_price
+        ? position.stop_loss_price
+        : this.riskManager.calculateStopLossPrice(
+            position.side,
+            position.entry_price,
+            signalStopLoss,
+            this.getPositionStrategy(position)
+          );
+
+    const exchange = this.exchangeFor(position);
+    const callbackRate = this.getNativeTrailingCallbackRate(position, exchange);
+    const trailingPrice = this.getTrailingStopPrice(position);
+
+    // A native trailing order replaces the fixed stop; a bot-managed trail takes over from it
+    // once it's tighter
+    if (
+      trailingPrice &&
+      (callbackRate ||
+        !stopPrice ||
+        (position.side === 'LONG' ? trailingPrice > stopPrice : trailingPrice < stopPrice))
+    ) {
+      stopPrice = trailingPrice;
+    }
+
+    if (!stopPrice) {
+      logger.info('No stop loss configured for position', { positionId });
+      return;
+    }
+
+    const stopOrderId = uuidv4();
+    const side: 'BUY' | 'SELL' = position.side === 'LONG' ? 'SELL' : 'BUY';
+    const trading_type = position.trading_type || 'SPOT';
+    const orderType = trading_type === 'FUTURE' ? 'STOP_LOSS' : 'STOP_LOSS_LIMIT';
+    const positionSide = trading_type === 'FUTURE' ? this.getFuturesPositionSide(position) : null;
+
+    const entryOrder = db
+      .prepare('SELECT strategy_id FROM orders WHERE id = ?')
+      .get(position.entry_order_id) as { strategy_id: string | null } | undefined;
+    const strategyId = entryOrder?.strategy_id || null;
+
+    // Spot orders lock the asset they sell, so there the stop covers what take-profits don't
+    let quantity =
+      trading_type === 'SPOT'
+        ? position.quantity - this.getTakeProfitReservedQuantity(positionId)
+        : position.quantity;
+
+    if (quantity <= 0) {
+      logger.info('Spot position is fully allocated to take-profit orders, no stop placed', {
+        positionId,
+      });
+      await this.cancelStopLoss(position);
+      return;
+    }
+
+    try {
+      let limitPrice: number | null = null;
+
+      if (trading_type === 'SPOT') {
+        const buffer = (stopPrice * STOP_LIMIT_BUFFER_PERCENT) / 100;
+        limitPrice = side === 'SELL' ? stopPrice - buffer : stopPrice + buffer;
+      }
+
+      // Validate before touching the current stop, so an invalid new one leaves it in place
+      const normalized = await this.orderNormalizer.normalize({
+        symbol: position.symbol,
+        tradingType: trading_type,
+        orderType,
+        quantity,
+        price: limitPrice ?? undefined,
+        stopPrice,
+        reduceOnly: trading_type === 'FUTURE',
+        exchange: position.exchange,
+      });
+      quantity = normalized.quantity;
+      stopPrice = normalized.stopPrice!;
+      limitPrice = normalized.price ?? null;
+
+      await this.cancelStopLoss(position);
+
+      // Record the stop before sending it so it can be matched up if the request is interrupted
+      const clientOrderId = toClientOrderId(stopOrderId);
+      db.prepare(
+        `INSERT INTO orders (
+          id, client_order_id, symbol, side, type, quantity, price, stop_price,
+          status, strategy_id, trading_type, position_side, reduce_only, paper, exchange
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        stopOrderId,
+        clientOrderId,
+        position.symbol,
+        side,
+        orderType,
+        quantity,
+        limitPrice,
+        stopPrice,
+        'NEW',
+        strategyId,
+        trading_type,
+        positionSide,
+        positionSide === 'BOTH' ? 1 : 0,
+        position.paper ? 1 : 0,
+        position.exchange
+      );
+
+      let binanceOrder: Order;
+
+      if (callbackRate) {
+        binanceOrder = await exchange.createFuturesTrailingStopOrder!({
+          clientOrderId,
+          symbol: position.symbol,
+          side,
+          quantity,
+          callbackRate,
+          positionSide: positionSide!,
+        });
+      } else if (trading_type === 'FUTURE') {
+        binanceOrder = await exchange.createFuturesStopMarketOrder({
+          clientOrderId,
+          symbol: position.symbol,
+          side,
+          quantity,
+          stopPrice,
+          positionSide: positionSide!,
+        });
+      } else {
+        binanceOrder = await exchange.createStopLossOrder({
+          clientOrderId,
+          symbol: position.symbol,
+          side,
+          quantity,
+          stopPrice,
+          limitPrice: limitPrice!,
+        });
+      }
+
+      db.prepare('UPDATE orders SET binance_order_id = ?, status = ? WHERE id = ?').run(
+        binanceOrder.orderId,
+        this.normalizeOrderStatus(binanceOrder.status, 'NEW'),
+        stopOrderId
+      );
+
+      db.prepare(
+        `UPDATE positions SET stop_loss_price = ?, stop_loss_order_id = ?, trailing_native = ?
+         WHERE id = ?`
+      ).run(stopPrice, stopOrderId, callbackRate ? 1 : 0, positionId);
+
+      logger.info('Stop loss placed', {
+        positionId,
+        stopOrderId,
+        binanceOrderId: binanceOrder.orderId,
+        symbol: position.symbol,
+        side,
+        quantity,
+        stopPrice,
+        callbackRate,
+      });
+    } catch (error) {
+      logger.error('Failed to place stop loss, position is unprotected', {
+        positionId,
+        symbol: position.symbol,
+        stopPrice,
+        error,
+      });
+
+      // Keep a REJECTED record so the failed stop is visible in the UI
+      db.prepare(
+        `INSERT INTO orders (
+          id, symbol, side, type, quantity, stop_price, status, error_message,
+          strategy_id, trading_type, paper, exchange
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET status = excluded.status, error_message = excluded.error_message
+        WHERE orders.binance_order_id IS NULL AND orders.status = 'NEW'`
+      ).run(
+        stopOrderId,
+        position.symbol,
+        side,
+        orderType,
+        position.quantity,
+        stopPrice,
+        'REJECTED',
+        (error as Error).message,
+        strategyId,
+        trading_type,
+        position.paper ? 1 : 0,
+        position.exchange
+      );
+
+      // A trail whose native order may be gone is worked by the bot from here on
+      db.prepare('UPDATE positions SET stop_loss_price = ?, trailing_native = 0 WHERE id = ?').run(
+        stopPrice,
+        positionId
+      );
+    }
+  }
+
+  /**
+   * Set or clear an open position's trailing stop and re-place its stop to match. The trail
+   * starts from the current price.
+   */
+  async setTrailingStop(positionId: string, trailingStop: TrailingStop | null): Promise<void> {
+    const db = databaseService.getDatabase();
+    const position = db.prepare('SELECT * FROM positions WHERE id = ?').get(positionId) as
+      Position | undefined;
+
+    if (!position || position.status !== 'OPEN') {
+      throw new InvalidOrderError(`Position ${positionId} is not open`);
+    }
+
+    const exchange = this.exchangeFor(position);
+    const price =
+      position.trading_type === 'FUTURE'
+        ? await exchange.getFuturesPrice(position.symbol)
+        : await exchange.getPrice(position.symbol);
+
+    this.saveTrailingStop(positionId, trailingStop, price);
+    logger.info(trailingStop ? 'Trailing stop set' : 'Trailing stop cleared', {
+      positionId,
+      trailingStop,
+      price,
+    });
+
+    await this.placeStopLoss(positionId);
+  }
+
+  /**
+   * Feed a position's latest price to its trailing stop: the trail activates once the
+   * activation price is reached and follows each new best price. The stop is re-placed when the
+   * trailed level has moved TRAILING_STOP_MIN_STEP_PERCENT beyond it; native trailing orders
+   * move on the exchange, so for them only the recorded level is updated.
+   */
+  async trailStopLoss(positionId: string, price: number): Promise<void> {
+    const db = databaseService.getDatabase();
+    const position = db.prepare('SELECT * FROM positions WHERE id = ?').get(positionId) as
+      Position | undefined;
+
+    if (
+      !position ||
+      position.status !== 'OPEN' ||
+      (!position.trailing_stop_percent && !position.trailing_stop_amount)
+    ) {
+      return;
+    }
+
+    const long = position.side === 'LONG';
+
+    if (position.trailing_extreme_price === null) {
+      const activationPrice = position.trailing_activation_price!; // Set until the trail starts
+      if (long ? price < activationPrice : price > activationPrice) {
+        return;
+      }
+
+      logger.info('Trailing stop activated', { positionId, price, activationPrice });
+    } else if (
+      long ? price <= position.trailing_extreme_price : price >= position.trailing_extreme_price
+    ) {
+      return;
+    }
+
+    db.prepare('UPDATE positions SET trailing_extreme_price = ? WHERE id = ?').run(
+      price,
+      positionId
+    );
+
+    const trailingPrice = this.getTrailingStopPrice({ ...position, trailing_extreme_price: price });
+    const stopPrice = position.stop_loss_price;
+
+    if (!trailingPrice) {
+      return;
+    }
+
+    if (position.trailing_native) {
+      db.prepare('UPDATE positions SET stop_loss_price = ? WHERE id = ?').run(
+        trailingPrice,
+        positionId
+      );
+      return;
+    }
+
+    const minStep = (price * config.trading.trailingStopMinStepPercent) / 100;
+    if (stopPrice && (long ? trailingPrice - stopPrice : stopPrice - trailingPrice) < minStep) {
+      return;
+    }
+
+    logger.info('Trailing stop loss', { positionId, price, from: stopPrice, to: trailingPrice });
+    await this.placeStopLoss(positionId);
+  }
+
+  /**
+   * Record a position's trailing stop. Without an activation price the trail starts at
+   * startPrice; with one it waits for the price to get there.
+   */
+  private saveTrailingStop(
+    positionId: string,
+    trailingStop: TrailingStop | null,
+    startPrice: number
+  ): void {
+    const db = databaseService.getDatabase();
+
+    db.prepare(
+      `UPDATE positions
+       SET trailing_stop_percent = ?, trailing_stop_amount = ?, trailing_activation_price = ?,
+           trailing_extreme_price = ?
+       WHERE id = ?`
+    ).run(
+      trailingStop?.percent ?? null,
+      trailingStop?.amount ?? null,
+      trailingStop?.activationPrice ?? null,
+      trailingStop && !trailingStop.activationPrice ? startPrice : null,
+      positionId
+    );
+  }
+
+  /**
+   * Strategy whose entry order opened the position, if any
+   */
+  private getPositionStrategy(position: { entry_order_id: string }): Strategy | null {
+    const db = databaseService.getDatabase();
+    const order = db
+      .prepare('SELECT strategy_id FROM orders WHERE id = ?')
+      .get(position.entry_order_id) as { strategy_id: string | null } | undefined;
+
+    return order?.strategy_id ? this.strategyService.getStrategyById(order.strategy_id) : null;
+  }
+
+  /**
+   * Trailing stop for a new position: the signal's, otherwise its strategy's
+   */
+  private getTrailingStopSettings(request: OrderRequest): TrailingStop | null {
+    if (request.signal?.trailingStop) {
+      return request.signal.trailingStop;
+    }
+
+    if (!request.strategyId) {
+      return null;
+    }
+
+    const db = databaseService.getDatabase();
+    const strategy = db
+      .prepare('SELECT trailing_stop_percent, trailing_stop_amount FROM strategies WHERE id = ?')
+      .get(request.strategyId) as
+      Pick<Strategy, 'trailing_stop_percent' | 'trailing_stop_amount'> | undefined;
+
+    if (strategy?.trailing_stop_percent) {
+      return { percent: strategy.trailing_stop_percent };
+    }
+
+    if (strategy?.trailing_stop_amount) {
+      return { amount: strategy.trailing_stop_amount };
+    }
+
+    return null;
+  }
+
+  /**
+   * Stop level the trail gives at the best price seen so far, null before it activates
+   */
+  private getTrailingStopPrice(position: Position): number | null {
+    const extremePrice = position.trailing_extreme_price;
+    if (!extremePrice) {
+      return null;
+    }
+
+    const distance = position.trailing_stop_percent
+      ? (extremePrice * position.trailing_stop_percent) / 100
+      : position.trailing_stop_amount;
+
+    if (!distance) {
+      return null;
+    }
+
+    const stopPrice = position.side === 'LONG' ? extremePrice - distance : extremePrice + distance;
+    return stopPrice > 0 ? stopPrice : null;
+  }
+
+  /**
+   * Callback rate for a native TRAILING_STOP_MARKET order, or null when the bot has to trail the
+   * stop itself: spot, amount callbacks, activation prices, rates the exchange doesn't take and
+   * venues without native trailing stops
+   */
+  private getNativeTrailingCallbackRate(
+    position: Position,
+    exchange: OrderExchange
+  ): number | null {
+    const rate = position.trailing_stop_percent;
+
+    if (
+      position.trading_type !== 'FUTURE' ||
+      !rate ||
+      position.trailing_activation_price ||
+      !exchange.createFuturesTrailingStopOrder ||
+      rate < NATIVE_TRAILING_CALLBACK_MIN ||
+      rate > NATIVE_TRAILING_CALLBACK_MAX ||
+      Math.abs(rate * 10 - Math.round(rate * 10)) > 1e-9
+    ) {
+      return null;
+    }
+
+    return rate;
+  }
+
+  /**
+   * Cancel a position's protective stop on the exchange.
+   * Throws if the stop can't be cancelled and is still live, or if it has already filled.
+   */
+  private async cancelStopLoss(position: Position): Promise<void> {
+    if (!position.stop_loss_order_id) {
+      return;
+    }
+
+    const db = databaseService.getDatabase();
+    const stopOrder = db
+      .prepare('SELECT * FROM orders WHERE id = ?')
+      .get(position.stop_loss_order_id) as OrderRecord | undefined;
+
+    if (!stopOrder?.binance_order_id || !OPEN_ORDER_STATUSES.includes(stopOrder.status)) {
+      return;
+    }
+
+    try {
+      const exchange = this.exchangeFor(stopOrder);
+      if (stopOrder.trading_type === 'FUTURE') {
+        await exchange.cancelFuturesOrder(stopOrder.symbol, stopOrder.binance_order_id);
+      } else {
+        await exchange.cancelOrder(stopOrder.symbol, stopOrder.binance_order_id);
+      }
+
+      db.prepare('UPDATE orders SET status = ? WHERE id = ?').run('CANCELED', stopOrder.id);
+
+      logger.info('Stop loss cancelled', { positionId: position.id, stopOrderId: stopOrder.id });
+    } catch (error) {
+      // The stop may have filled or been cancelled on the exchange in the meantime
+      await this.refreshOrder(stopOrder);
+
+      const refreshed = db.prepare('SELECT status FROM orders WHERE id = ?').get(stopOrder.id) as {
+        status: string;
+      };
+
+      if (refreshed.status === 'FILLED') {
+        throw new Error(`Position ${position.id} was already closed by its stop loss`);
+      }
+
+      if (OPEN_ORDER_STATUSES.includes(refreshed.status)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Record the take-profit targets an entry signal set for a new position, sized by their
+   * allocation of it. Percent targets are measured from the entry price; a target that isn't
+   * beyond the entry price is kept as REJECTED.
+   */
+  private createTakeProfitTargets(
+    positionId: string,
+    takeProfits: TakeProfit[],
+    side: 'LONG' | 'SHORT',
+    entryPrice: number,
+    quantity: number
+  ): void {
+    const db = databaseService.getDatabase();
+    const direction = side === 'LONG' ? 1 : -1;
+    const insert = db.prepare(
+      `INSERT INTO take_profit_targets (
+        id, position_id, target_index, price, allocation, quantity, status, error_message
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    takeProfits.forEach((target, index) => {
+      const price = target.price ?? entryPrice * (1 + (direction * target.percent!) / 100);
+      const beyondEntry = (price - entryPrice) * direction > 0;
+
+      insert.run(
+        uuidv4(),
+        positionId,
+        index,
+        price,
+        target.allocation,
+        (quantity * target.allocation) / 100,
+        beyondEntry ? 'PENDING' : 'REJECTED',
+        beyondEntry ? null : `Target ${price} is not beyond the ${side} entry price ${entryPrice}`
+      );
+    });
+  }
+
+  /**
+   * Send a position's PENDING take-profit targets as reduce-only limit orders. Each is sized by
+   * its allocation, capped at what's left of the position. Failures are logged and kept on the
+   * target rather than thrown - the position itself is already recorded.
+   */
+  private async placeTakeProfits(positionId: string): Promise<void> {
+    const db = databaseService.getDatabase();
+
+    const position = db.prepare('SELECT * FROM positions WHERE id = ?').get(positionId) as
+      Position | undefined;
+
+    if (!position || position.status !== 'OPEN') {
+      return;
+    }
+
+    const targets = db
+      .prepare(
+        `SELECT * FROM take_profit_targets
+         WHERE position_id = ? AND status = 'PENDING'
+         ORDER BY target_index`
+      )
+      .all(positionId) as TakeProfitTarget[];
+
+    const side: 'BUY' | 'SELL' = position.side === 'LONG' ? 'SELL' : 'BUY';
+    const trading_type = position.trading_type || 'SPOT';
+    const positionSide = trading_type === 'FUTURE' ? this.getFuturesPositionSide(position) : null;
+    const exchange = this.exchangeFor(position);
+
+    const entryOrder = db
+      .prepare('SELECT strategy_id FROM orders WHERE id = ?')
+      .get(position.entry_order_id) as { strategy_id: string | null } | undefined;
+    const strategyId = entryOrder?.strategy_id || null;
+
+    for (const target of targets) {
+      const takeProfitOrderId = uuidv4();
+      let quantity = Math.min(target.quantity - target.filled_quantity, position.quantity);
+      let price: number = target.price;
+
+      try {
+        const normalized = await this.orderNormalizer.normalize({
+          symbol: position.symbol,
+          tradingType: trading_type,
+          orderType: 'LIMIT',
+          quantity,
+          price,
+          reduceOnly: trading_type === 'FUTURE',
+          exchange: position.exchange,
+        });
+        quantity = normalized.quantity;
+        price = normalized.price!;
+
+        // Record the order before sending it so it can be matched up if the request is interrupted
+        const clientOrderId = toClientOrderId(takeProfitOrderId);
+        db.prepare(
+          `INSERT INTO orders (
+            id, client_order_id, symbol, side, type, quantity, price, status, strategy_id,
+            trading_type, position_side, reduce_only, paper, exchange
+          ) VALUES (?, ?, ?, ?, 'LIMIT', ?, ?, 'NEW', ?, ?, ?, ?, ?, ?)`
+        ).run(
+          takeProfitOrderId,
+          clientOrderId,
+          position.symbol,
+          side,
+          quantity,
+          price,
+          strategyId,
+          trading_type,
+          positionSide,
+          positionSide === 'BOTH' ? 1 : 0,
+          position.paper ? 1 : 0,
+          position.exchange
+        );
+
+        db.prepare(
+          "UPDATE take_profit_targets SET status = 'OPEN', order_id = ?, price = ? WHERE id = ?"
+        ).run(takeProfitOrderId, price, target.id);
+
+        const order =
+          trading_type === 'FUTURE'
+            ? await exchange.createFuturesLimitOrder({
+                clientOrderId,
+                symbol: position.symbol,
+                side,
+                quantity,
+                price,
+                positionSide: positionSide!,
+                reduceOnly: positionSide === 'BOTH',
+              })
+            : await exchange.createLimitOrder({
+                clientOrderId,
+                symbol: position.symbol,
+                side,
+                quantity,
+                price,
+              });
+
+        db.prepare('UPDATE orders SET binance_order_id = ? WHERE id = ?').run(
+          order.orderId,
+          takeProfitOrderId
+        );
+
+        logger.info('Take-profit placed', {
+          positionId,
+          targetId: target.id,
+          orderId: takeProfitOrderId,
+          binanceOrderId: order.orderId,
+          quantity,
+          price,
+        });
+
+        // A target the price is already through fills straight away
+        await this.applyOrderUpdate(takeProfitOrderId, order);
+      } catch (error) {
+        logger.error('Failed to place take-profit', {
+          positionId,
+          targetId: target.id,
+          price,
+          error,
+        });
+
+        db.prepare(
+          `INSERT INTO orders (
+            id, symbol, side, type, quantity, price, status, error_message,
+            strategy_id, trading_type, paper, exchange
+          ) VALUES (?, ?, ?, 'LIMIT', ?, ?, 'REJECTED', ?, ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET status = excluded.status, error_message = excluded.error_message
+          WHERE orders.binance_order_id IS NULL AND orders.status = 'NEW'`
+        ).run(
+          takeProfitOrderId,
+          position.symbol,
+          side,
+          quantity,
+          price,
+          (error as Error).message,
+          strategyId,
+          trading_type,
+          position.paper ? 1 : 0,
+          position.exchange
+        );
+
+        db.prepare(
+          `UPDATE take_profit_targets SET status = 'REJECTED', order_id = ?, error_message = ?
+           WHERE id = ? AND status IN ('PENDING', 'OPEN')`
+        ).run(takeProfitOrderId, (error as Error).message, target.id);
+      }
+    }
+  }
+
+  /**
+   * Cancel a position's live take-profit orders, leaving out the one being filled, and drop
+   * its targets that haven't filled. With keepTargets they go back to PENDING instead, for
+   * placeTakeProfits to send again if the position outlives the exit.
+   */
+  private async cancelTakeProfits(
+    position: Position,
+    exceptOrderId?: string,
+    keepTargets: boolean = false
+  ): Promise<void> {
+    const db = databaseService.getDatabase();
+
+    const targets = db
+      .prepare(
+        `SELECT t.id AS target_id, t.order_id, o.binance_order_id, o.status AS order_status,
+                o.symbol, o.trading_type, o.paper, o.exchange
+         FROM take_profit_targets t
+         LEFT JOIN orders o ON o.id = t.order_id
+         WHERE t.position_id = ? AND t.status IN ('PENDING', 'OPEN')`
+      )
+      .all(position.id) as (Pick<
+      OrderRecord,
+      'binance_order_id' | 'symbol' | 'trading_type' | 'paper' | 'exchange'
+    > & { target_id: string; order_id: string | null; order_status: string })[];
+
+    for (const target of targets) {
+      if (exceptOrderId && target.order_id === exceptOrderId) {
+        continue;
+      }
+
+      if (target.binance_order_id && OPEN_ORDER_STATUSES.includes(target.order_status)) {
+        try {
+          const exchange = this.exchangeFor(target);
+          if (target.trading_type === 'FUTURE') {
+            await exchange.cancelFuturesOrder(target.symbol, target.binance_order_id);
+          } else {
+            await exchange.cancelOrder(target.symbol, target.binance_order_id);
+          }
+
+          db.prepare("UPDATE orders SET status = 'CANCELED' WHERE id = ?").run(target.order_id);
+        } catch (error) {
+          // Likely filled in the meantime - its fills still come through the order tracker
+          logger.error('Failed to cancel take-profit order', {
+            positionId: position.id,
+            orderId: target.order_id,
+            error,
+          });
+          continue;
+        }
+      }
+
+      if (keepTargets) {
+        db.prepare(
+          "UPDATE take_profit_targets SET status = 'PENDING', order_id = NULL WHERE id = ? AND status = 'OPEN'"
+        ).run(target.target_id);
+        continue;
+      }
+
+      db.prepare(
+        "UPDATE take_profit_targets SET status = 'CANCELED' WHERE id = ? AND status IN ('PENDING', 'OPEN')"
+      ).run(target.target_id);
+    }
+
+    if (targets.length > 0) {
+      logger.info('Take-profits cancelled', { positionId: position.id });
+    }
+  }
+
+  /**
+   * Follow a take-profit order's final status onto its target
+   */
+  private updateTakeProfitStatus(orderId: string, status: string): void {
+    const targetStatus =
+      status === 'FILLED'
+        ? 'FILLED'
+        : ['CANCELED', 'EXPIRED', 'REJECTED'].includes(status)
+          ? 'CANCELED'
+          : null;
+
+    if (!targetStatus) {
+      return;
+    }
+
+    const db = databaseService.getDatabase();
+    const result = db
+      .prepare(
+        `UPDATE take_profit_targets
+         SET status = ?, filled_at = CASE WHEN ? = 'FILLED' THEN CURRENT_TIMESTAMP END
+         WHERE order_id = ? AND status = 'OPEN'`
+      )
+      .run(targetStatus, targetStatus, orderId);
+
+    if (result.changes > 0) {
+      logger.info('Take-profit target finished', { orderId, status: targetStatus });
+    }
+  }
+
+  /**
+   * Quantity of a position still committed to its live take-profit orders
+   */
+  private getTakeProfitReservedQuantity(positionId: string): number {
+    const db = databaseService.getDatabase();
+
+    const row = db
+      .prepare(
+        `SELECT COALESCE(SUM(o.quantity - COALESCE(o.filled_quantity, 0)), 0) AS reserved
+         FROM take_profit_targets t
+         JOIN orders o ON o.id = t.order_id
+         WHERE t.position_id = ? AND t.status = 'OPEN'`
+      )
+      .get(positionId) as { reserved: number };
+
+    return row.reserved;
+  }
+
+  /**
+   * Find the open position that an order on this side would exit
+   */
+  private getOpenPositionClosedBy(
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    trading_type: 'SPOT' | 'FUTURE',
+    paper: boolean = false,
+    exchange: ExchangeName = DEFAULT_EXCHANGE
+  ): Position | null {
+    const db = databaseService.getDatabase();
+    const positionSide = side === 'SELL' ? 'LONG' : 'SHORT';
+
+    return (
+      (db
+        .prepare(
+          `SELECT * FROM positions
+           WHERE symbol = ? AND side = ? AND trading_type = ? AND paper = ? AND exchange = ?
+             AND status = ?`
+        )
+        .get(symbol, positionSide, trading_type, paper ? 1 : 0, exchange, 'OPEN') as
+        Position | undefined) || null
+    );
+  }
+
+  /**
+   * Reverse the open futures position: a market close of all of it, then the signal's entry on
+   * the other side. The entry is only sent once the close has filled, so the two orders can't
+   * net against each other.
+   */
+  private async executeReversal(
+    signalId: string,
+    signal: TradingViewSignal,
+    strategyId: string | null | undefined,
+    overrideSoftLimits: boolean,
+    isManualApproval: boolean,
+    paper: boolean,
+    exchange: ExchangeName
+  ): Promise<string> {
+    const db = databaseService.getDatabase();
+
+    // A retry picks up after the close leg an earlier attempt placed
+    const closeOrder = db
+      .prepare(
+        `SELECT id, side FROM orders
+         WHERE signal_id = ? AND signal_leg = 'close' AND status != 'REJECTED'
+         ORDER BY created_at DESC LIMIT 1`
+      )
+      .get(signalId) as { id: string; side: 'BUY' | 'SELL' } | undefined;
+
+    let closedSide: 'LONG' | 'SHORT';
+    let closed: { status: string } | undefined;
+
+    if (closeOrder) {
+      closedSide = closeOrder.side === 'SELL' ? 'LONG' : 'SHORT';
+      closed = db
+        .prepare('SELECT status FROM positions WHERE exit_order_id = ?')
+        .get(closeOrder.id) as { status: string } | undefined;
+
+      logger.info('Resuming reverse after its close leg', {
+        signalId,
+        closeOrderId: closeOrder.id,
+      });
+    } else {
+      const position = this.getPositionToClose(signal.symbol, 'reverse', 'FUTURE', paper, exchange);
+      closedSide = position.side;
+
+      logger.info('Reversing position', { signalId, positionId: position.id });
+
+      await this.executeFromSignal(
+        signalId,
+        {
+          ...signal,
+          action: position.side === 'LONG' ? 'close_long' : 'close_short',
+          orderType: 'market',
+          quantity: undefined,
+          stopLoss: undefined,
+        },
+        strategyId,
+        overrideSoftLimits,
+        isManualApproval,
+        'close'
+      );
+
+      closed = db.prepare('SELECT status FROM positions WHERE id = ?').get(position.id) as {
+        status: string;
+      };
+    }
+
+    const entrySide = closedSide === 'LONG' ? 'SHORT' : 'LONG';
+
+    if (closed?.status !== 'CLOSED') {
+      throw new InvalidOrderError(
+        `Reverse stopped: the ${closedSide} position on ${signal.symbol} isn't fully closed yet, ` +
+          `so no ${entrySide} entry was sent`,
+        { closeOrderId: closeOrder?.id }
+      );
+    }
+
+    return this.executeFromSignal(
+      signalId,
+      { ...signal, action: entrySide === 'LONG' ? 'buy' : 'sell' },
+      strategyId,
+      overrideSoftLimits,
+      isManualApproval,
+      'entry'
+    );
+  }
+
+  /**
+   * Measure a signal against the risk limits the way executeFromSignal would size and check it,
+   * without placing anything - what a reviewer sees before approving it. A reverse is previewed
+   * by its entry leg.
+   */
+  async previewSignalRisk(
+    signal: TradingViewSignal,
+    strategyId?: string | null
+  ): Promise<RiskPreview> {
+    const strategy = strategyId ? this.strategyService.getStrategyById(strategyId) : null;
+
+    const trading_type = strategy?.trading_type || 'SPOT';
+    const paper = config.paperTrading.enabled || Boolean(strategy?.paper_trading);
+    const venue = strategy?.exchange || DEFAULT_EXCHANGE;
+
+    let entrySignal = signal;
+    if (signal.action === 'reverse') {
+      const position = this.getPositionToClose(signal.symbol, 'reverse', 'FUTURE', paper, venue);
+      entrySignal = { ...signal, action: position.side === 'LONG' ? 'sell' : 'buy' };
+    }
+
+    const target = this.resolveOrderTarget(
+      entrySignal,
+      trading_type,
+      strategy?.position_mode || 'ONE_WAY',
+      paper,
+      venue
+    );
+    const quantity = await this.getSignalQuantity(
+      entrySignal,
+      target,
+      trading_type,
+      paper,
+      venue,
+      strategy
+    );
+
+    return this.riskManager.previewRiskLimits(
+      entrySignal,
+      quantity,
+      paper,
+      venue,
+      trading_type,
+      strategy
+    );
+  }
+
+  /**
+   * Quantity a signal's order goes out at. Closes are sized by the position they close; entries
+   * by the risk manager, then fitted to the symbol's filters so the risk limits are checked
+   * against an entry the normalizer raises to the minimum notional. An entry the filters refuse
+   * keeps its size - the order attempt records the rejection.
+   */
+  private async getSignalQuantity(
+    signal: TradingViewSignal,
+    target: OrderTarget,
+    trading_type: 'SPOT' | 'FUTURE',
+    paper: boolean,
+    exchange: ExchangeName,
+    strategy: Strategy | null
+  ): Promise<number> {
+    if (target.closeQuantity !== undefined) {
+      return target.closeQuantity;
+    }
+
+    const quantity = await this.riskManager.calculatePositionSize(
+      signal,
+      paper,
+      exchange,
+      trading_type,
+      strategy
+    );
+    const isLimit = signal.orderType !== 'market';
+
+    try {
+      const normalized = await this.orderNormalizer.normalize({
+        symbol: signal.symbol,
+        tradingType: trading_type,
+        orderType: isLimit ? 'LIMIT' : 'MARKET',
+        quantity,
+        price: isLimit ? signal.price : undefined,
+        isEntry: !this.isExitOrder({
+          symbol: signal.symbol,
+          side: target.side,
+          type: isLimit ? 'LIMIT' : 'MARKET',
+          quantity,
+          trading_type,
+          positionSide: target.positionSide,
+          reduceOnly: target.reduceOnly,
+          paper,
+          exchange,
+        }),
+        reduceOnly: target.reduceOnly,
+        exchange,
+      });
+
+      return normalized.quantity;
+    } catch (error) {
+      if (error instanceof InvalidOrderError) {
+        return quantity;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the order side for a signal. Buy/sell open (or, for futures in one-way mode, net
+   * against) a position. Closes are resolved against the open position, so a short closes with a
+   * BUY, and sized by it: all of it, the signal's quantity of it or its percent of it.
+   */
+  private resolveOrderTarget(
+    signal: TradingViewSignal,
+    trading_type: 'SPOT' | 'FUTURE',
+    positionMode: 'ONE_WAY' | 'HEDGE',
+    paper: boolean,
+    exchange: ExchangeName
+  ): OrderTarget {
+    if (!CLOSE_ACTIONS.includes(signal.action)) {
+      const side = signal.action === 'buy' ? 'BUY' : 'SELL';
+      if (trading_type === 'SPOT') {
+        return { side };
+      }
+
+      const hedgeSide = side === 'BUY' ? 'LONG' : 'SHORT';
+      return { side, positionSide: positionMode === 'HEDGE' ? hedgeSide : 'BOTH' };
+    }
+
+    const position = this.getPositionToClose(
+      signal.symbol,
+      signal.action,
+      trading_type,
+      paper,
+      exchange
+    );
+
+    const closeQuantity =
+      signal.percent !== undefined
+        ? (position.quantity * signal.percent) / 100
+        : Math.min(signal.quantity ?? position.quantity, position.quantity);
+
+    return {
+      ...(trading_type === 'FUTURE' ? this.getClosingTarget(position) : { side: 'SELL' }),
+      closeQuantity,
+      closedSide: position.side,
+    };
+  }
+
+  /**
+   * The open position a close exits. close_long and close_short pick the side; a plain close
+   * needs exactly one open position, so it's ambiguous when both sides are open in hedge mode.
+   */
+  private getPositionToClose(
+    symbol: string,
+    action: TradingViewSignal['action'],
+    trading_type: 'SPOT' | 'FUTURE',
+    paper: boolean,
+    exchange: ExchangeName
+  ): Position {
+    const db = databaseService.getDatabase();
+    const side = action === 'close_long' ? 'LONG' : action === 'close_short' ? 'SHORT' : null;
+
+    const positions = (
+      db
+        .prepare(
+          `SELECT * FROM positions
+           WHERE symbol = ? AND trading_type = ? AND paper = ? AND exchange = ?
+             AND status = 'OPEN'`
+        )
+        .all(symbol, trading_type, paper ? 1 : 0, exchange) as Position[]
+    ).filter((position) => !side || position.side === side);
+
+    const market = trading_type === 'FUTURE' ? 'futures' : 'spot';
+
+    if (positions.length === 0) {
+      throw new InvalidOrderError(
+        `No open ${side ? `${side} ` : ''}${market} position to ${action} for ${symbol}`,
+        { symbol, action, trading_type }
+      );
+    }
+
+    if (positions.length > 1) {
+      throw new InvalidOrderError(
+        `Both LONG and SHORT positions are open for ${symbol}, ${action} is ambiguous - ` +
+          'use close_long or close_short',
+        { symbol, action }
+      );
+    }
+
+    return positions[0];
+  }
+
+  /**
+   * Order side and routing that closes (part of) a futures position: reduce-only in one-way
+   * mode, the position's own side in hedge mode
+   */
+  private getClosingTarget(position: Position): OrderTarget {
+    const side = position.side === 'LONG' ? 'SELL' : 'BUY';
+    const positionSide = this.getFuturesPositionSide(position);
+
+    return positionSide === 'BOTH'
+      ? { side, positionSide, reduceOnly: true }
+      : { side, positionSide };
+  }
+
+  /**
+   * Position side used for orders on a futures position, following the mode it was opened in
+   */
+  private getFuturesPositionSide(position: Position): FuturesPositionSide {
+    const db = databaseService.getDatabase();
+
+    const entryOrder = db
+      .prepare('SELECT position_side FROM orders WHERE id = ?')
+      .get(position.entry_order_id) as { position_side: FuturesPositionSide | null } | undefined;
+
+    return entryOrder?.position_side === 'LONG' || entryOrder?.position_side === 'SHORT'
+      ? position.side
+      : 'BOTH';
+  }
+
+  /**
+   * Whether an order reduces an existing position rather than opening or adding to one
+   */
+  private isExitOrder(request: OrderRequest): boolean {
+    if (request.reduceOnly) {
+      return true;
+    }
+
+    if (request.positionSide === 'LONG' || request.positionSide === 'SHORT') {
+      return (request.side === 'SELL') === (request.positionSide === 'LONG');
+    }
+
+    return !!this.getOpenPositionClosedBy(
+      request.symbol,
+      request.side,
+      request.trading_type || 'SPOT',
+      request.paper,
+      request.exchange
+    );
+  }
+
+  /**
+   * Make sure the futures account is in the position mode an order was built for
+   */
+  private async ensurePositionMode(
+    exchange: OrderExchange,
+    positionSide?: FuturesPositionSide
+  ): Promise<void> {
+    const mode = positionSide === 'LONG' || positionSide === 'SHORT' ? 'HEDGE' : 'ONE_WAY';
+
+    try {
+      await exchange.setFuturesPositionMode(mode);
+    } catch (error) {
+      throw new InvalidOrderError(
+        `Futures account could not be switched to ${mode === 'HEDGE' ? 'hedge' : 'one-way'} ` +
+          `mode (only possible with no open positions or orders): ${(error as Error).message}`,
+        { mode }
+      );
+    }
+  }
+
+  async getOrder(orderId: string) {
+    const db = databaseService.getDatabase();
+    return db.prepare('SELECT * FROM orders WHERE id = ?').get(orderId);
+  }
+
+  async getOrders(filters?: { symbol?: string; status?: string; limit?: number }) {
+    const db = databaseService.getDatabase();
+
+    let query = `
+      SELECT
+        o.*,
+        s.name as strategy_name
+      FROM orders o
+      LEFT JOIN strategies s ON o.strategy_id = s.id
+      WHERE 1=1
+    `;
+    const params: any[] = [];
+
+    if (filters?.symbol) {
+      query += ' AND o.symbol = ?';
+      params.push(filters.symbol);
+    }
+
+    if (filters?.status) {
+      query += ' AND o.status = ?';
+      params.push(filters.status);
+    }
+
+    query += ' ORDER BY o.created_at DESC';
+
+    if (filters?.limit) {
+      query += ' LIMIT ?';
+      params.push(filters.limit);
+    }
+
+    return db.prepare(query).all(...params);
+  }
+
+  private async handleFilledOrder(
+    orderId: string,
+    request: OrderRequest,
+    fillPrice: number
+  ): Promise<void> {
+    try {
+      const trading_type = request.trading_type || 'SPOT';
+
+      if (trading_type === 'SPOT') {
+        // Spot trading: BUY opens position, SELL closes position
+        if (request.side === 'BUY') {
+          await this.createPosition(orderId, request, fillPrice);
+        } else if (request.side === 'SELL') {
+          await this.closePosition(orderId, request, fillPrice);
+        }
+      } else {
+        await this.handleFuturesFill(orderId, request, fillPrice);
+      }
+    } catch (error) {
+      logger.error('Failed to handle filled order', {
+        orderId,
+        side: request.side,
+        error,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        errorStack: error instanceof Error ? error.stack : undefined
+      });
+      // Don't throw - order was executed successfully, position tracking is secondary
+    }
+  }
+
+  /**
+   * Futures fills can open, add to, reduce or flip a position. In hedge mode the order's
+   * position side says which position it acts on; in one-way mode a fill against the open
+   * position reduces it and anything beyond its size opens the opposite side.
+   */
+  private async handleFuturesFill(
+    orderId: string,
+    request: OrderRequest,
+    fillPrice: number
+  ): Promise<void> {
+    const fillSide = request.side === 'BUY' ? 'LONG' : 'SHORT';
+
+    if (request.positionSide === 'LONG' || request.positionSide === 'SHORT') {
+      if (fillSide === request.positionSide) {
+        await this.createPosition(orderId, request, fillPrice);
+      } else {
+        await this.closePosition(orderId, request, fillPrice);
+      }
+      return;
+    }
+
+    const position = this.getOpenPositionClosedBy(
+      request.symbol,
+      request.side,
+      'FUTURE',
+      request.paper,
+      request.exchange
+    );
+
+    if (!position) {
+      if (request.reduceOnly) {
+        logger.warn('Reduce-only fill without an open position', { orderId, request });
+        return;
+      }
+
+      await this.createPosition(orderId, request, fillPrice);
+      return;
+    }
+
+    const closingQuantity = Math.min(request.quantity, position.quantity);
+    await this.closePosition(orderId, { ...request, quantity: closingQuantity }, fillPrice);
+
+    const remainingQuantity = Math.round((request.quantity - closingQuantity) * 1e8) / 1e8;
+
+    if (remainingQuantity > 0 && !request.reduceOnly) {
+      logger.info('Position flipped', {
+        orderId,
+        symbol: request.symbol,
+        from: position.side,
+        to: fillSide,
+        quantity: remainingQuantity,
+      });
+
+      await this.createPosition(orderId, { ...request, quantity: remainingQuantity }, fillPrice);
+    }
+  }
+
+  private async createPosition(
+    orderId: string,
+    request: OrderRequest,
+    entryPrice: number
+  ): Promise<void> {
+    const db = databaseService.getDatabase();
+    const positionId = uuidv4();
+
+    try {
+      const trading_type = request.trading_type || 'SPOT';
+      const leverage = request.leverage || 5;
+
+      // Determine position side based on order side and trading type
+      // Spot: Always LONG (BUY opens, SELL closes)
+      // Futures: BUY opens LONG, SELL opens SHORT (reductions go through closePosition)
+      const positionSide = request.side === 'BUY' ? 'LONG' : 'SHORT';
+
+      // Check if there's already an open position for this symbol
+      // For our "only 1 position per symbol" rule - hedge mode allows one per side
+      const hedged = request.positionSide === 'LONG' || request.positionSide === 'SHORT';
+      const existingPosition = db
+        .prepare(
+          `SELECT * FROM positions
+           WHERE symbol = ? AND trading_type = ? AND paper = ? AND exchange = ?
+             AND status = 'OPEN' ${hedged ? 'AND side = ?' : ''}`
+        )
+        .get(
+          request.symbol,
+          trading_type,
+          request.paper ? 1 : 0,
+          request.exchange || DEFAULT_EXCHANGE,
+          ...(hedged ? [positionSide] : [])
+        ) as Position | undefined;
+
+      if (existingPosition) {
+        // Update existing position - average entry price
+        // This only makes sense if positions are on the same side
+        if (existingPosition.side !== positionSide) {
+          logger.warn('Attempting to add to position with different side', {
+            existingPosition,
+            newSide: positionSide,
+          });
+          throw new Error(
+            `Cannot add ${positionSide} position when ${existingPosition.side} position exists for ${request.symbol}`
+          );
+        }
+
+        const totalQuantity = existingPosition.quantity + request.quantity;
+        const totalValue =
           existingPosition.quantity * existingPosition.entry_price +
           request.quantity * entryPrice;
         const avgEntryPrice = totalValue / totalQuantity;
@@ -615,6 +2529,9 @@ export class OrderManager {
           newQuantity: totalQuantity,
           avgEntryPrice,
         });
+
+        // Resize the stop to cover the added quantity
+        await this.placeStopLoss(existingPosition.id, request.stopLoss);
       } else {
         // Calculate liquidation price for futures (simplified calculation)
         let liquidationPrice = null;
@@ -633,8 +2550,8 @@ export class OrderManager {
         db.prepare(
           `INSERT INTO positions (
             id, entry_order_id, symbol, side, trading_type, leverage, quantity,
-            entry_price, liquidation_price, status, realized_pnl
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            entry_price, liquidation_price, status, realized_pnl, paper, exchange
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
         ).run(
           positionId,
           orderId,
@@ -646,9 +2563,16 @@ export class OrderManager {
           entryPrice,
           liquidationPrice,
           'OPEN',
-          0
+          0,
+          request.paper ? 1 : 0,
+          request.exchange || DEFAULT_EXCHANGE
         );
 
+        const trailingStop = this.getTrailingStopSettings(request);
+        if (trailingStop) {
+          this.saveTrailingStop(positionId, trailingStop, entryPrice);
+        }
+
         logger.info('Created new position', {
           positionId,
           orderId,
@@ -660,6 +2584,20 @@ export class OrderManager {
           entryPrice,
           liquidationPrice,
         });
+
+        // Targets go out before the stop, which on spot only covers what they leave
+        if (request.signal?.takeProfits) {
+          this.createTakeProfitTargets(
+            positionId,
+            request.signal.takeProfits,
+            positionSide,
+            entryPrice,
+            request.quantity
+          );
+          await this.placeTakeProfits(positionId);
+        }
+
+        await this.placeStopLoss(positionId, request.stopLoss);
       }
     } catch (error) {
       logger.error('Failed to create position', {
@@ -680,37 +2618,20 @@ export class OrderManager {
     const db = databaseService.getDatabase();
 
     try {
-      // Find open position for this symbol
-      const position = db
-        .prepare('SELECT * FROM positions WHERE symbol = ? AND status = ?')
-        .get(request.symbol, 'OPEN') as any;
+      // Find the open position this order closes (LONG for SELL, SHORT for BUY)
+      const position = this.getOpenPositionClosedBy(
+        request.symbol,
+        request.side,
+        request.trading_type || 'SPOT',
+        request.paper,
+        request.exchange
+      );
 
       if (!position) {
         logger.warn('No open position found to close', { symbol: request.symbol });
         return;
       }
 
-      // Validate order side matches position side for closing
-      // LONG positions are closed with SELL orders
-      // SHORT positions are closed with BUY orders
-      if (position.side === 'LONG' && request.side !== 'SELL') {
-        logger.error('Invalid close order side for LONG position', {
-          positionId: position.id,
-          positionSide: position.side,
-          orderSide: request.side,
-        });
-        throw new Error('LONG positions must be closed with SELL orders');
-      }
-
-      if (position.side === 'SHORT' && request.side !== 'BUY') {
-        logger.error('Invalid close order side for SHORT position', {
-          positionId: position.id,
-          positionSide: position.side,
-          orderSide: request.side,
-        });
-        throw new Error('SHORT positions must be closed with BUY orders');
-      }
-
       // Calculate realized PnL
       // LONG: (exitPrice - entryPrice) * quantity
       // SHORT: (entryPrice - exitPrice) * quantity (inverse)
@@ -722,11 +2643,19 @@ export class OrderManager {
         realizedPnL = (position.entry_price - exitPrice) * request.quantity;
       }
 
+      // Book the exit on its take-profit target when it is one
+      db.prepare(
+        `UPDATE take_profit_targets
+         SET filled_quantity = filled_quantity + ?, realized_pnl = realized_pnl + ?
+         WHERE order_id = ?`
+      ).run(request.quantity, realizedPnL, orderId);
+
       if (request.quantity >= position.quantity) {
-        // Close entire position
+        // Close entire position, on top of what earlier partial exits booked
         db.prepare(
           `UPDATE positions
-           SET status = ?, exit_price = ?, realized_pnl = ?, exit_order_id = ?, closed_at = CURRENT_TIMESTAMP
+           SET status = ?, exit_price = ?, realized_pnl = COALESCE(realized_pnl, 0) + ?,
+               exit_order_id = ?, closed_at = CURRENT_TIMESTAMP
            WHERE id = ?`
         ).run('CLOSED', exitPrice, realizedPnL, orderId, position.id);
 
@@ -736,6 +2665,20 @@ export class OrderManager {
           side: position.side,
           realizedPnL,
         });
+
+        // A stop left behind would open a new position (futures) or fail (spot) when it fires
+        if (position.stop_loss_order_id && position.stop_loss_order_id !== orderId) {
+          try {
+            await this.cancelStopLoss(position);
+          } catch (error) {
+            logger.error('Failed to cancel stop loss of closed position', {
+              positionId: position.id,
+              error,
+            });
+          }
+        }
+
+        await this.cancelTakeProfits(position, orderId);
       } else {
         // Partially close position
         const remainingQuantity = position.quantity - request.quantity;
@@ -753,6 +2696,10 @@ export class OrderManager {
           remainingQuantity,
           realizedPnL,
         });
+
+        // Send the targets an exit took down again, and shrink the stop to the remaining quantity
+        await this.placeTakeProfits(position.id);
+        await this.placeStopLoss(position.id);
       }
     } catch (error) {
       logger.error('Failed to close position', { orderId, error });
@@ -0,0 +1,156 @@
+import { OrderNormalizer, NormalizeOrderParams } from './OrderNormalizer';
+import { ExchangeRegistry } from './exchange/ExchangeRegistry';
+import { ExchangeAdapter } from './exchange/ExchangeAdapter';
+import { SymbolInfo } from './exchange/types';
+import { InvalidOrderError } from '../utils/errors';
+
+const symbolInfo = (overrides: Partial<SymbolInfo> = {}): SymbolInfo => ({
+  symbol: 'BTCUSDT',
+  status: 'TRADING',
+  baseAsset: 'BTC',
+  quoteAsset: 'USDT',
+  filters: [
+    {
+      filterType: 'LOT_SIZE',
+      minQty: '0.00010000',
+      maxQty: '9000.00000000',
+      stepSize: '0.00001000',
+    },
+    { filterType: 'MARKET_LOT_SIZE', minQty: '0.001', maxQty: '100', stepSize: '0.001' },
+    { filterType: 'PRICE_FILTER', minPrice: '0.01', maxPrice: '1000000', tickSize: '0.10' },
+    { filterType: 'NOTIONAL', minNotional: '10', applyMinToMarket: true },
+  ],
+  ...overrides,
+});
+
+const normalizerFor = (info: SymbolInfo, bumpToMinNotional = false, price = 50000) => {
+  const adapter = {
+    name: 'binance',
+    getSymbolInfo: jest.fn().mockResolvedValue(info),
+    getFuturesSymbolInfo: jest.fn().mockResolvedValue(info),
+    getPrice: jest.fn().mockResolvedValue(price),
+    getFuturesPrice: jest.fn().mockResolvedValue(price),
+  } as unknown as ExchangeAdapter;
+
+  return new OrderNormalizer(new ExchangeRegistry([adapter]), bumpToMinNotional);
+};
+
+const order = (overrides: Partial<NormalizeOrderParams> = {}): NormalizeOrderParams => ({
+  symbol: 'BTCUSDT',
+  tradingType: 'SPOT',
+  orderType: 'LIMIT',
+  quantity: 0.0123456,
+  price: 50000.04,
+  ...overrides,
+});
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('Expected the order to be rejected');
+    },
+    (error) => error as InvalidOrderError
+  );
+
+describe('OrderNormalizer', () => {
+  it('floors the quantity to the lot step and rounds prices to the tick', async () => {
+    const normalized = await normalizerFor(symbolInfo()).normalize(order({ stopPrice: 49000.06 }));
+
+    expect(normalized).toEqual({ quantity: 0.01234, price: 50000, stopPrice: 49000.1 });
+  });
+
+  it('uses the market lot size for market orders', async () => {
+    const normalized = await normalizerFor(symbolInfo()).normalize(
+      order({ orderType: 'MARKET', price: undefined })
+    );
+
+    expect(normalized.quantity).toBe(0.012);
+  });
+
+  it('rejects quantities under the minimum', async () => {
+    const error = await rejection(
+      normalizerFor(symbolInfo()).normalize(order({ quantity: 0.00005, price: 500000 }))
+    );
+
+    expect(error).toBeInstanceOf(InvalidOrderError);
+    expect(error.message).toBe('Quantity 0.00005 is below the minimum 0.0001 for BTCUSDT');
+  });
+
+  it('reports the rounded quantity that fell under the minimum', async () => {
+    const info = symbolInfo({
+      filters: [{ filterType: 'LOT_SIZE', minQty: '0.002', maxQty: '100', stepSize: '0.001' }],
+    });
+
+    const error = await rejection(normalizerFor(info).normalize(order({ quantity: 0.0019 })));
+
+    expect(error.message).toBe(
+      'Quantity 0.001 (rounded from 0.0019) is below the minimum 0.002 for BTCUSDT'
+    );
+  });
+
+  it('rejects quantities over the market maximum', async () => {
+    const error = await rejection(
+      normalizerFor(symbolInfo()).normalize(order({ orderType: 'MARKET', quantity: 150 }))
+    );
+
+    expect(error.message).toBe('Quantity 150 is above the maximum 100 for BTCUSDT');
+  });
+
+  it('rejects prices outside the price filter', async () => {
+    const error = await rejection(normalizerFor(symbolInfo()).normalize(order({ price: 0.001 })));
+
+    expect(error.message).toBe('Price 0.001 is below the minimum 0.01 for BTCUSDT');
+  });
+
+  it('rejects symbols that are not trading', async () => {
+    const error = await rejection(
+      normalizerFor(symbolInfo({ status: 'BREAK' })).normalize(order())
+    );
+
+    expect(error.message).toBe('BTCUSDT is not trading (status BREAK)');
+  });
+
+  describe('minimum notional', () => {
+    it('rejects orders worth less than the minimum notional', async () => {
+      const error = await rejection(
+        normalizerFor(symbolInfo()).normalize(order({ quantity: 0.0001, isEntry: true }))
+      );
+
+      expect(error.message).toBe('Order value 5 is below the minimum notional 10 for BTCUSDT');
+    });
+
+    it('checks market orders against the current price', async () => {
+      const error = await rejection(
+        normalizerFor(symbolInfo(), false, 5000).normalize(
+          order({ orderType: 'MARKET', price: undefined, quantity: 0.001 })
+        )
+      );
+
+      expect(error.message).toBe('Order value 5 is below the minimum notional 10 for BTCUSDT');
+    });
+
+    it('raises entries to the minimum notional when bumping is on', async () => {
+      const normalized = await normalizerFor(symbolInfo(), true).normalize(
+        order({ quantity: 0.0001, isEntry: true })
+      );
+
+      expect(normalized.quantity).toBe(0.0002);
+    });
+
+    it('never raises exits', async () => {
+      const error = await rejection(
+        normalizerFor(symbolInfo(), true).normalize(order({ quantity: 0.0001, isEntry: false }))
+      );
+
+      expect(error).toBeInstanceOf(InvalidOrderError);
+    });
+
+    it('exempts futures reduce-only orders', async () => {
+      const normalized = await normalizerFor(symbolInfo()).normalize(
+        order({ tradingType: 'FUTURE', quantity: 0.0001, reduceOnly: true })
+      );
+
+      expect(normalized.quantity).toBe(0.0001);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { createModuleLogger } from '../utils/logger';
+import { InvalidOrderError } from '../utils/errors';
+import { ExchangeRegistry } from './exchange/ExchangeRegistry';
+import { ExchangeAdapter, ExchangeName } from './exchange/ExchangeAdapter';
+import { SymbolFilter, SymbolInfo } from './exchange/types';
+import config from '../config';
+
+const logger = createModuleLogger('OrderNormalizer');
+
+export interface NormalizeOrderParams {
+  symbol: string;
+  tradingType: 'SPOT' | 'FUTURE';
+  orderType: 'MARKET' | 'LIMIT' | 'STOP_LOSS' | 'STOP_LOSS_LIMIT';
+  quantity: number;
+  price?: number; // Limit price
+  stopPrice?: number;
+  isEntry?: boolean; // Only entries may be bumped up to the minimum notional
+  reduceOnly?: boolean; // Futures reduce-only orders are exempt from the minimum notional
+  exchange?: ExchangeName; // Whose filters apply, the default exchange when unset
+}
+
+export interface NormalizedOrder {
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+}
+
+interface Step {
+  size: number;
+  decimals: number;
+}
+
+interface SymbolFilters {
+  lotStep: Step | null;
+  minQty: number;
+  maxQty: number;
+  marketLotStep: Step | null;
+  marketMinQty: number;
+  marketMaxQty: number;
+  tick: Step | null;
+  minPrice: number;
+  maxPrice: number;
+  minNotional: number;
+  applyMinNotionalToMarket: boolean;
+}
+
+/**
+ * Rounds order quantities and prices to a symbol's exchange filters (LOT_SIZE, MARKET_LOT_SIZE,
+ * PRICE_FILTER, MIN_NOTIONAL/NOTIONAL) so orders aren't rejected by the exchange after sending
+ */
+export class OrderNormalizer {
+  constructor(
+    private exchanges: ExchangeRegistry,
+    private bumpToMinNotional: boolean = config.trading.bumpToMinNotional
+  ) {}
+
+  /**
+   * Throws InvalidOrderError with the violated filter when the order can't be made valid
+   */
+  async normalize(params: NormalizeOrderParams): Promise<NormalizedOrder> {
+    const exchange = this.exchanges.get(params.exchange);
+    const symbolInfo =
+      params.tradingType === 'FUTURE'
+        ? await exchange.getFuturesSymbolInfo(params.symbol)
+        : await exchange.getSymbolInfo(params.symbol);
+
+    if (symbolInfo.status !== 'TRADING') {
+      throw new InvalidOrderError(`${params.symbol} is not trading (status ${symbolInfo.status})`, {
+        symbol: params.symbol,
+        status: symbolInfo.status,
+      });
+    }
+
+    const filters = this.parseFilters(symbolInfo);
+    const isMarket = params.orderType === 'MARKET' || params.orderType === 'STOP_LOSS';
+
+    const price =
+      params.price !== undefined ? this.normalizePrice(params, params.price, filters) : undefined;
+    const stopPrice =
+      params.stopPrice !== undefined
+        ? this.normalizePrice(params, params.stopPrice, filters)
+        : undefined;
+
+    const step = (isMarket && filters.marketLotStep) || filters.lotStep;
+    const minQty = isMarket ? Math.max(filters.minQty, filters.marketMinQty) : filters.minQty;
+    const maxQty =
+      isMarket && filters.marketMaxQty > 0
+        ? Math.min(filters.maxQty || Infinity, filters.marketMaxQty)
+        : filters.maxQty || Infinity;
+
+    let quantity = step ? this.roundToStep(params.quantity, step, 'floor') : params.quantity;
+
+    // Market orders are checked against the current price, others against their own price
+    const notionalPrice =
+      price ??
+      stopPrice ??
+      (await this.getReferencePrice(exchange, params.symbol, params.tradingType));
+    const checkNotional =
+      filters.minNotional > 0 &&
+      (!isMarket || filters.applyMinNotionalToMarket) &&
+      !(params.reduceOnly && params.tradingType === 'FUTURE');
+
+    if (checkNotional && quantity * notionalPrice < filters.minNotional) {
+      if (!params.isEntry || !this.bumpToMinNotional) {
+        throw new InvalidOrderError(
+          `Order value ${this.format(quantity * notionalPrice)} is below the minimum notional ` +
+            `${filters.minNotional} for ${params.symbol}`,
+          {
+            symbol: params.symbol,
+            quantity,
+            price: notionalPrice,
+            minNotional: filters.minNotional,
+          }
+        );
+      }
+
+      const bumped = step
+        ? this.roundToStep(filters.minNotional / notionalPrice, step, 'ceil')
+        : filters.minNotional / notionalPrice;
+
+      logger.info('Raised quantity to the minimum notional', {
+        symbol: params.symbol,
+        from: quantity,
+        to: bumped,
+        minNotional: filters.minNotional,
+      });
+
+      quantity = bumped;
+    }
+
+    if (quantity <= 0 || quantity < minQty) {
+      const rounded =
+        quantity !== params.quantity ? ` (rounded from ${this.format(params.quantity)})` : '';
+      throw new InvalidOrderError(
+        `Quantity ${this.format(quantity)}${rounded} is below the minimum ${minQty} for ${params.symbol}`,
+        {
+          symbol: params.symbol,
+          quantity,
+          requestedQuantity: params.quantity,
+          minQty,
+          stepSize: step?.size,
+        }
+      );
+    }
+
+    if (quantity > maxQty) {
+      throw new InvalidOrderError(
+        `Quantity ${this.format(quantity)} is above the maximum ${maxQty} for ${params.symbol}`,
+        { symbol: params.symbol, quantity, maxQty }
+      );
+    }
+
+    if (quantity !== params.quantity || price !== params.price || stopPrice !== params.stopPrice) {
+      logger.debug('Normalized order to exchange filters', {
+        symbol: params.symbol,
+        quantity: [params.quantity, quantity],
+        price: [params.price, price],
+        stopPrice: [params.stopPrice, stopPrice],
+      });
+    }
+
+    return { quantity, price, stopPrice };
+  }
+
+  private normalizePrice(
+    params: NormalizeOrderParams,
+    value: number,
+    filters: SymbolFilters
+  ): number {
+    const price = filters.tick ? this.roundToStep(value, filters.tick, 'round') : value;
+
+    if (price <= 0 || (filters.minPrice > 0 && price < filters.minPrice)) {
+      throw new InvalidOrderError(
+        `Price ${value} is below the minimum ${filters.minPrice} for ${params.symbol}`,
+        { symbol: params.symbol, price: value, minPrice: filters.minPrice }
+      );
+    }
+
+    if (filters.maxPrice > 0 && price > filters.maxPrice) {
+      throw new InvalidOrderError(
+        `Price ${value} is above the maximum ${filters.maxPrice} for ${params.symbol}`,
+        { symbol: params.symbol, price: value, maxPrice: filters.maxPrice }
+      );
+    }
+
+    return price;
+  }
+
+  private async getReferencePrice(
+    exchange: ExchangeAdapter,
+    symbol: string,
+    tradingType: 'SPOT' | 'FUTURE'
+  ): Promise<number> {
+    return tradingType === 'FUTURE' ? exchange.getFuturesPrice(symbol) : exchange.getPrice(symbol);
+  }
+
+  private parseFilters(symbolInfo: SymbolInfo): SymbolFilters {
+    const find = (type: string): Partial<SymbolFilter> =>
+      symbolInfo.filters.find((f) => f.filterType === type) || {};
+
+    const lotSize = find('LOT_SIZE');
+    const marketLotSize = find('MARKET_LOT_SIZE');
+    const priceFilter = find('PRICE_FILTER');
+    const minNotional = find('MIN_NOTIONAL');
+    const notional = find('NOTIONAL');
+
+    return {
+      lotStep: this.parseStep(lotSize.stepSize),
+      minQty: parseFloat(lotSize.minQty || '0'),
+      maxQty: parseFloat(lotSize.maxQty || '0'),
+      marketLotStep: this.parseStep(marketLotSize.stepSize),
+      marketMinQty: parseFloat(marketLotSize.minQty || '0'),
+      marketMaxQty: parseFloat(marketLotSize.maxQty || '0'),
+      tick: this.parseStep(priceFilter.tickSize),
+      minPrice: parseFloat(priceFilter.minPrice || '0'),
+      maxPrice: parseFloat(priceFilter.maxPrice || '0'),
+      // Spot uses MIN_NOTIONAL.minNotional or NOTIONAL.minNotional, futures MIN_NOTIONAL.notional
+      minNotional: parseFloat(
+        minNotional.minNotional || minNotional.notional || notional.minNotional || '0'
+      ),
+      applyMinNotionalToMarket:
+        (minNotional.applyToMarket ?? notional.applyMinToMarket ?? true) !== false,
+    };
+  }
+
+  private parseStep(value?: string): Step | null {
+    const size = parseFloat(value || '0');
+    if (!size) {
+      return null;
+    }
+
+    // Count decimals from the string - parseFloat('0.00001000').toString() is '1e-5'
+    const fraction = (value!.split('.')[1] || '').replace(/0+$/, '');
+    return { size, decimals: fraction.length };
+  }
+
+  private roundToStep(value: number, step: Step, mode: 'floor' | 'ceil' | 'round'): number {
+    // Small epsilon so values already on a step aren't pushed off it by float error
+    const units = value / step.size;
+    const rounded =
+      mode === 'floor'
+        ? Math.floor(units + 1e-9)
+        : mode === 'ceil'
+          ? Math.ceil(units - 1e-9)
+          : Math.round(units);
+
+    return parseFloat((rounded * step.size).toFixed(step.decimals));
+  }
+
+  private format(value: number): string {
+    return parseFloat(value.toFixed(8)).toString();
+  }
+}
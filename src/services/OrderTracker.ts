@@ -0,0 +1,158 @@
+import { createModuleLogger } from '../utils/logger';
+import { Order } from './exchange/types';
+import {
+  OrderManager,
+  OrderRecord,
+  OPEN_ORDER_STATUSES,
+  UNCONFIRMED_ORDER_AGE_MS,
+} from './OrderManager';
+import databaseService from '../database';
+import config from '../config';
+
+const logger = createModuleLogger('OrderTracker');
+
+/**
+ * Follows open orders (limit entries, protective stops, unfilled market orders)
+ * on the exchange until they reach a final state, feeding fills into OrderManager
+ */
+export class OrderTracker {
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = false;
+
+  constructor(
+    private orderManager: OrderManager,
+    private intervalMs: number = config.trading.orderTrackingIntervalMs
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    logger.info('Order tracker started', { intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Order tracker stopped');
+    }
+  }
+
+  /**
+   * Sync every locally open order with its state on the exchange
+   */
+  async syncOpenOrders(): Promise<void> {
+    const db = databaseService.getDatabase();
+
+    await this.recoverUnconfirmedOrders();
+
+    const placeholders = OPEN_ORDER_STATUSES.map(() => '?').join(', ');
+    const openOrders = db
+      .prepare(
+        `SELECT * FROM orders
+         WHERE status IN (${placeholders}) AND binance_order_id IS NOT NULL
+         ORDER BY created_at ASC`
+      )
+      .all(...OPEN_ORDER_STATUSES) as OrderRecord[];
+
+    if (openOrders.length === 0) {
+      return;
+    }
+
+    // Paper orders all rest on the one simulated exchange, whatever venue they were meant for
+    const venues = new Set<string>(openOrders.map((order) => (order.paper ? '' : order.exchange)));
+
+    for (const venue of venues) {
+      for (const tradingType of ['SPOT', 'FUTURE'] as const) {
+        const orders = openOrders.filter(
+          (order) =>
+            order.trading_type === tradingType && (order.paper ? '' : order.exchange) === venue
+        );
+        if (orders.length > 0) {
+          await this.syncOrders(tradingType, orders);
+        }
+      }
+    }
+  }
+
+  private async syncOrders(tradingType: 'SPOT' | 'FUTURE', orders: OrderRecord[]): Promise<void> {
+    const exchange = this.orderManager.exchangeFor(orders[0]);
+
+    // One request covers every order that is still resting on the book
+    const exchangeOpenOrders =
+      tradingType === 'FUTURE'
+        ? await exchange.getFuturesOpenOrders()
+        : await exchange.getOpenOrders();
+
+    const openByExchangeId = new Map<string, Order>(
+      exchangeOpenOrders.map((order) => [order.orderId, order])
+    );
+
+    for (const order of orders) {
+      try {
+        const exchangeOrder = openByExchangeId.get(order.binance_order_id!);
+
+        if (exchangeOrder) {
+          await this.orderManager.applyOrderUpdate(order.id, exchangeOrder);
+        } else {
+          // No longer open on the exchange - look it up to learn how it finished
+          await this.orderManager.refreshOrder(order);
+        }
+      } catch (error) {
+        logger.error('Failed to sync order', {
+          orderId: order.id,
+          binanceOrderId: order.binance_order_id,
+          symbol: order.symbol,
+          error,
+        });
+      }
+    }
+  }
+
+  /**
+   * Resolve orders that never got an exchange order id, e.g. after a crash mid-submission
+   */
+  private async recoverUnconfirmedOrders(): Promise<void> {
+    const db = databaseService.getDatabase();
+
+    const unconfirmed = db
+      .prepare(
+        `SELECT * FROM orders
+         WHERE status = 'NEW' AND binance_order_id IS NULL AND client_order_id IS NOT NULL
+           AND created_at <= datetime('now', ?)`
+      )
+      .all(`-${Math.ceil(UNCONFIRMED_ORDER_AGE_MS / 1000)} seconds`) as OrderRecord[];
+
+    for (const order of unconfirmed) {
+      try {
+        await this.orderManager.recoverUnconfirmedOrder(order);
+      } catch (error) {
+        logger.error('Failed to recover unconfirmed order', {
+          orderId: order.id,
+          clientOrderId: order.client_order_id,
+          symbol: order.symbol,
+          error,
+        });
+      }
+    }
+  }
+
+  private async tick(): Promise<void> {
+    // Skip this tick if the previous sync is still waiting on the exchange
+    if (this.syncing) {
+      return;
+    }
+
+    this.syncing = true;
+    try {
+      await this.syncOpenOrders();
+    } catch (error) {
+      logger.error('Order sync failed', { error });
+    } finally {
+      this.syncing = false;
+    }
+  }
+}
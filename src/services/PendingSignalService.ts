@@ -5,13 +5,23 @@ import { TradingViewSignal } from '../api/schemas/webhook.schema';
 
 const logger = createModuleLogger('PendingSignalService');
 
+// Pending signals with the soft risk limits their approver overrode, if any
+const SELECT_PENDING_SIGNALS = `
+  SELECT
+    ps.*,
+    o.justification as override_justification,
+    o.overridden_limits
+  FROM pending_signals ps
+  LEFT JOIN pending_signal_overrides o ON o.pending_signal_id = ps.id
+`;
+
 export interface PendingSignal {
   id: string;
   strategy_id: string;
   strategy_name?: string; // Optional, populated when joining with strategies table
   signal_id: string;
   symbol: string;
-  action: 'buy' | 'sell' | 'close';
+  action: TradingViewSignal['action'];
   order_type: string;
   price: number | null;
   quantity: number | null;
@@ -22,6 +32,8 @@ export interface PendingSignal {
   created_at: string;
   reviewed_at: string | null;
   reviewed_by: string | null;
+  override_justification: string | null; // Why the approver let soft risk limits through
+  overridden_limits: string | null; // JSON array of the soft limits' reasons
 }
 
 export interface CreatePendingSignalInput {
@@ -76,10 +88,7 @@ export class PendingSignalService {
    * Get pending signal by ID
    */
   getPendingSignalById(id: string): PendingSignal | null {
-    const stmt = this.db.prepare(`
-      SELECT * FROM pending_signals
-      WHERE id = ?
-    `);
+    const stmt = this.db.prepare(`${SELECT_PENDING_SIGNALS} WHERE ps.id = ?`);
 
     return (stmt.get(id) as PendingSignal) || null;
   }
@@ -88,19 +97,16 @@ export class PendingSignalService {
    * Get all pending signals (awaiting review)
    */
   getPendingSignals(strategyId?: string): PendingSignal[] {
-    let query = `
-      SELECT * FROM pending_signals
-      WHERE status = 'pending'
-    `;
+    let query = `${SELECT_PENDING_SIGNALS} WHERE ps.status = 'pending'`;
 
     const params: any[] = [];
 
     if (strategyId) {
-      query += ' AND strategy_id = ?';
+      query += ' AND ps.strategy_id = ?';
       params.push(strategyId);
     }
 
-    query += ' ORDER BY created_at DESC';
+    query += ' ORDER BY ps.created_at DESC';
 
     const stmt = this.db.prepare(query);
 
@@ -117,9 +123,12 @@ export class PendingSignalService {
     let query = `
       SELECT
         ps.*,
-        s.name as strategy_name
+        s.name as strategy_name,
+        o.justification as override_justification,
+        o.overridden_limits
       FROM pending_signals ps
       LEFT JOIN strategies s ON ps.strategy_id = s.id
+      LEFT JOIN pending_signal_overrides o ON o.pending_signal_id = ps.id
       WHERE 1=1
     `;
     const params: any[] = [];
@@ -142,9 +151,13 @@ export class PendingSignalService {
   }
 
   /**
-   * Approve a pending signal
+   * Approve a pending signal, recording the soft risk limits it overrides and why
    */
-  approvePendingSignal(id: string, reviewedBy?: string): PendingSignal | null {
+  approvePendingSignal(
+    id: string,
+    reviewedBy?: string,
+    override?: { justification: string; overriddenLimits: string[] }
+  ): PendingSignal | null {
     const signal = this.getPendingSignalById(id);
     if (!signal) {
       logger.warn('Pending signal not found', { id });
@@ -158,15 +171,26 @@ export class PendingSignalService {
 
     const now = new Date().toISOString();
 
-    const stmt = this.db.prepare(`
-      UPDATE pending_signals
-      SET status = 'approved', reviewed_at = ?, reviewed_by = ?
-      WHERE id = ?
-    `);
-
-    stmt.run(now, reviewedBy || null, id);
-
-    logger.info('Pending signal approved', { id, reviewedBy });
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE pending_signals
+           SET status = 'approved', reviewed_at = ?, reviewed_by = ?
+           WHERE id = ?`
+        )
+        .run(now, reviewedBy || null, id);
+
+      if (override) {
+        this.db
+          .prepare(
+            `INSERT INTO pending_signal_overrides (pending_signal_id, justification, overridden_limits)
+             VALUES (?, ?, ?)`
+          )
+          .run(id, override.justification, JSON.stringify(override.overriddenLimits));
+      }
+    })();
+
+    logger.info('Pending signal approved', { id, reviewedBy, override });
 
     return this.getPendingSignalById(id);
   }
@@ -284,6 +308,13 @@ export class PendingSignalService {
 
     const result = stmt.run(cutoffDate.toISOString());
 
+    this.db
+      .prepare(
+        `DELETE FROM pending_signal_overrides
+         WHERE pending_signal_id NOT IN (SELECT id FROM pending_signals)`
+      )
+      .run();
+
     logger.info('Old pending signals cleaned up', {
       deleted: result.changes,
       daysOld,
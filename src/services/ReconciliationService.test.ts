@@ -0,0 +1,278 @@
+import { ReconciliationService } from './ReconciliationService';
+import { ExchangeRegistry } from './exchange/ExchangeRegistry';
+import { ExchangeAdapter } from './exchange/ExchangeAdapter';
+import { FuturesPosition, Order } from './exchange/types';
+import { OrderManager, Position } from './OrderManager';
+import { insertPosition } from '../test/fixtures';
+import databaseService from '../database';
+
+describe('ReconciliationService', () => {
+  let exchange: {
+    name: string;
+    getOpenOrders: jest.Mock;
+    getFuturesOpenOrders: jest.Mock;
+    getAccountInfo: jest.Mock;
+    getSymbolInfo: jest.Mock;
+    getPrice: jest.Mock;
+    getFuturesPrice: jest.Mock;
+    getFuturesPositions: jest.Mock;
+  };
+  let orderManager: {
+    refreshOrder: jest.Mock;
+    recordExternalOrder: jest.Mock;
+    applyOrderUpdate: jest.Mock;
+    closePositionAt: jest.Mock;
+  };
+  let service: ReconciliationService;
+
+  const db = () => databaseService.getDatabase();
+
+  // Orders touched over a minute ago, so their symbols aren't skipped as recently traded
+  const recordOrder = (
+    id: string,
+    fields: { symbol?: string; tradingType?: string; updatedAgo?: string } = {}
+  ) => {
+    db()
+      .prepare(
+        `INSERT INTO orders (id, binance_order_id, client_order_id, symbol, side, type, quantity,
+           status, trading_type, exchange, updated_at)
+         VALUES (?, ?, ?, ?, 'BUY', 'LIMIT', 0.01, 'NEW', ?, 'binance', datetime('now', ?))`
+      )
+      .run(
+        id,
+        `ex-${id}`,
+        `client-${id}`,
+        fields.symbol ?? 'BTCUSDT',
+        fields.tradingType ?? 'SPOT',
+        fields.updatedAgo ?? '-1 hour'
+      );
+  };
+
+  const openPosition = (id: string, columns: Partial<Position> = {}) =>
+    insertPosition(id, { entry_price: 50000, quantity: 0.01, trading_type: 'FUTURE', ...columns });
+
+  const exchangeOrder = (orderId: string, clientOrderId: string): Order => ({
+    orderId,
+    clientOrderId,
+    symbol: 'BTCUSDT',
+    side: 'SELL',
+    type: 'LIMIT',
+    quantity: 0.01,
+    price: 60000,
+    status: 'NEW',
+    executedQty: 0,
+    cummulativeQuoteQty: 0,
+    transactTime: Date.now(),
+  });
+
+  const futuresPosition = (
+    symbol: string,
+    positionAmt: string,
+    positionSide = 'BOTH'
+  ): FuturesPosition =>
+    ({
+      symbol,
+      positionAmt,
+      entryPrice: '50000',
+      markPrice: '50000',
+      unrealizedProfit: '0',
+      positionSide,
+    }) as FuturesPosition;
+
+  beforeEach(() => {
+    db().exec(
+      'DELETE FROM reconciliation_runs; DELETE FROM positions; DELETE FROM orders; DELETE FROM signals;'
+    );
+
+    exchange = {
+      name: 'binance',
+      getOpenOrders: jest.fn().mockResolvedValue([]),
+      getFuturesOpenOrders: jest.fn().mockResolvedValue([]),
+      getAccountInfo: jest.fn().mockResolvedValue({ balances: [] }),
+      getSymbolInfo: jest.fn().mockResolvedValue({ baseAsset: 'BTC', quoteAsset: 'USDT' }),
+      getPrice: jest.fn().mockResolvedValue(51000),
+      getFuturesPrice: jest.fn().mockResolvedValue(52000),
+      getFuturesPositions: jest.fn().mockResolvedValue([]),
+    };
+    orderManager = {
+      refreshOrder: jest.fn().mockResolvedValue(undefined),
+      recordExternalOrder: jest.fn().mockReturnValue('external-order'),
+      applyOrderUpdate: jest.fn().mockResolvedValue(undefined),
+      closePositionAt: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new ReconciliationService(
+      new ExchangeRegistry([exchange as unknown as ExchangeAdapter]),
+      orderManager as unknown as OrderManager
+    );
+  });
+
+  describe('orders', () => {
+    it('refreshes orders open locally that the exchange no longer has open', async () => {
+      recordOrder('order-1');
+
+      const report = await service.reconcile();
+
+      expect(orderManager.refreshOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'order-1' })
+      );
+      expect(report.discrepancies).toEqual([
+        expect.objectContaining({
+          type: 'ORDER_NOT_OPEN_ON_EXCHANGE',
+          tradingType: 'SPOT',
+          details: { orderId: 'order-1', binanceOrderId: 'ex-order-1' },
+          fixed: true,
+        }),
+      ]);
+    });
+
+    it('records unknown exchange orders as external orders', async () => {
+      const order = exchangeOrder('999', 'placed-in-app');
+      exchange.getFuturesOpenOrders.mockResolvedValue([order]);
+
+      const report = await service.reconcile();
+
+      expect(orderManager.recordExternalOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ tradingType: 'FUTURE', orderId: '999' }),
+        'binance'
+      );
+      expect(orderManager.applyOrderUpdate).toHaveBeenCalledWith('external-order', order);
+      expect(report.discrepancies).toEqual([
+        expect.objectContaining({ type: 'UNTRACKED_ORDER', tradingType: 'FUTURE', fixed: true }),
+      ]);
+    });
+
+    it('knows orders still being submitted by their client order id', async () => {
+      db()
+        .prepare(
+          `INSERT INTO orders (id, client_order_id, symbol, side, type, quantity, status,
+             trading_type, exchange, updated_at)
+           VALUES ('order-1', 'client-1', 'BTCUSDT', 'SELL', 'LIMIT', 0.01, 'NEW', 'SPOT',
+             'binance', datetime('now', '-1 hour'))`
+        )
+        .run();
+      exchange.getOpenOrders.mockResolvedValue([exchangeOrder('999', 'client-1')]);
+
+      const report = await service.reconcile();
+
+      expect(report.discrepancies).toEqual([]);
+      expect(orderManager.recordExternalOrder).not.toHaveBeenCalled();
+    });
+
+    it('skips symbols traded within the last minute', async () => {
+      recordOrder('order-1', { updatedAgo: '-10 seconds' });
+
+      const report = await service.reconcile();
+
+      expect(report.discrepancies).toEqual([]);
+      expect(orderManager.refreshOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('spot balances', () => {
+    it('closes positions whose asset was sold outside the bot', async () => {
+      openPosition('position-1', { trading_type: 'SPOT' });
+
+      const report = await service.reconcile();
+
+      expect(orderManager.closePositionAt).toHaveBeenCalledWith('position-1', 51000);
+      expect(report.discrepancies).toEqual([
+        expect.objectContaining({
+          type: 'SPOT_BALANCE_SHORTFALL',
+          fixed: true,
+          action: 'Closed position at 51000',
+        }),
+      ]);
+    });
+
+    it('only reports a partial shortfall', async () => {
+      openPosition('position-1', { trading_type: 'SPOT' });
+      exchange.getAccountInfo.mockResolvedValue({
+        balances: [{ asset: 'BTC', free: '0.004', locked: '0' }],
+      });
+
+      const report = await service.reconcile();
+
+      expect(orderManager.closePositionAt).not.toHaveBeenCalled();
+      expect(report.discrepancies).toEqual([
+        expect.objectContaining({ type: 'SPOT_BALANCE_SHORTFALL', fixed: false }),
+      ]);
+    });
+
+    it('accepts a balance short by commission paid in the base asset', async () => {
+      openPosition('position-1', { trading_type: 'SPOT' });
+      exchange.getAccountInfo.mockResolvedValue({
+        balances: [{ asset: 'BTC', free: '0.00995', locked: '0' }],
+      });
+
+      const report = await service.reconcile();
+
+      expect(report.discrepancies).toEqual([]);
+    });
+  });
+
+  describe('futures positions', () => {
+    it('closes positions that are flat on the exchange at the futures price', async () => {
+      openPosition('position-1');
+
+      const report = await service.reconcile();
+
+      expect(orderManager.closePositionAt).toHaveBeenCalledWith('position-1', 52000);
+      expect(report.discrepancies).toEqual([
+        expect.objectContaining({ type: 'POSITION_NOT_ON_EXCHANGE', fixed: true }),
+      ]);
+    });
+
+    it('reports size differences and positions it does not track', async () => {
+      openPosition('position-1', { side: 'SHORT' });
+      exchange.getFuturesPositions.mockResolvedValue([
+        futuresPosition('BTCUSDT', '-0.02'),
+        futuresPosition('ETHUSDT', '1.5', 'LONG'),
+      ]);
+
+      const report = await service.reconcile();
+
+      expect(orderManager.closePositionAt).not.toHaveBeenCalled();
+      expect(report.discrepancies).toEqual([
+        expect.objectContaining({
+          type: 'QUANTITY_MISMATCH',
+          symbol: 'BTCUSDT',
+          details: {
+            positionId: 'position-1',
+            side: 'SHORT',
+            localQuantity: 0.01,
+            exchangeQuantity: 0.02,
+          },
+          fixed: false,
+        }),
+        expect.objectContaining({
+          type: 'UNTRACKED_POSITION',
+          symbol: 'ETHUSDT',
+          details: { side: 'LONG', quantity: 1.5, entryPrice: 50000 },
+          fixed: false,
+        }),
+      ]);
+    });
+
+    it('leaves paper positions alone', async () => {
+      openPosition('position-1');
+      db().prepare("UPDATE positions SET paper = 1 WHERE id = 'position-1'").run();
+
+      const report = await service.reconcile();
+
+      expect(report.discrepancies).toEqual([]);
+    });
+  });
+
+  it('reports a failing check and still runs the others', async () => {
+    exchange.getOpenOrders.mockRejectedValue(new Error('Connection reset'));
+    openPosition('position-1');
+
+    const report = await service.reconcile();
+
+    expect(report.errors).toEqual(['binance spot orders: Connection reset']);
+    expect(report.discrepancies).toEqual([
+      expect.objectContaining({ type: 'POSITION_NOT_ON_EXCHANGE' }),
+    ]);
+    expect(service.getLatestReport()).toEqual(report);
+  });
+});
@@ -0,0 +1,521 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createModuleLogger } from '../utils/logger';
+import { ExecutionReport } from './binance/types';
+import { FuturesPosition, Order } from './exchange/types';
+import { ExchangeAdapter, ExchangeName } from './exchange/ExchangeAdapter';
+import { ExchangeRegistry } from './exchange/ExchangeRegistry';
+import { OrderManager, OPEN_ORDER_STATUSES, OrderRecord, Position } from './OrderManager';
+import databaseService from '../database';
+import config from '../config';
+
+const logger = createModuleLogger('ReconciliationService');
+
+// Symbols traded this recently are skipped - fills and the position updates they cause
+// may still be on their way
+const RECENT_ACTIVITY_MS = 60 * 1000;
+
+// Spot balances below this share of a position's quantity count as missing; the gap between
+// covers commission paid in the base asset
+const SPOT_BALANCE_TOLERANCE = 0.02;
+
+export type DiscrepancyType =
+  | 'ORDER_NOT_OPEN_ON_EXCHANGE' // Open locally, no longer open on the exchange
+  | 'UNTRACKED_ORDER' // Open on the exchange, unknown locally
+  | 'SPOT_BALANCE_SHORTFALL' // Spot position larger than the asset balance held
+  | 'POSITION_NOT_ON_EXCHANGE' // Open futures position locally, flat on the exchange
+  | 'UNTRACKED_POSITION' // Futures position on the exchange, none locally
+  | 'QUANTITY_MISMATCH'; // Futures position size differs
+
+export interface Discrepancy {
+  type: DiscrepancyType;
+  exchange: ExchangeName;
+  tradingType: 'SPOT' | 'FUTURE';
+  symbol: string;
+  details: Record<string, unknown>;
+  fixed: boolean;
+  action?: string; // What was done to fix it
+}
+
+export interface ReconciliationReport {
+  id: string;
+  startedAt: string;
+  finishedAt: string | null;
+  discrepancies: Discrepancy[];
+  fixedCount: number;
+  errors: string[];
+}
+
+// Row of the reconciliation_runs table, lists stored as JSON
+interface ReconciliationRun {
+  id: string;
+  started_at: string;
+  finished_at: string | null;
+  discrepancies: string;
+  fixed_count: number;
+  errors: string;
+}
+
+/**
+ * Compares local orders and positions with what the exchange actually holds, at startup and
+ * on a schedule. Safe discrepancies are fixed automatically (orders that finished, positions
+ * that were closed outside the bot); everything else is only reported. Every configured
+ * exchange is checked on its own. Paper trades are left out - they never reach an exchange.
+ */
+export class ReconciliationService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private exchanges: ExchangeRegistry,
+    private orderManager: OrderManager,
+    private intervalMs: number = config.trading.reconciliationIntervalMs
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    logger.info('Reconciliation started', { intervalMs: this.intervalMs });
+
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Reconciliation stopped');
+    }
+  }
+
+  /**
+   * Run a full reconciliation and store its report
+   */
+  async reconcile(): Promise<ReconciliationReport> {
+    const report: ReconciliationReport = {
+      id: uuidv4(),
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      discrepancies: [],
+      fixedCount: 0,
+      errors: [],
+    };
+
+    const recentSymbols = this.getRecentlyTradedSymbols();
+
+    for (const exchange of this.exchanges.all()) {
+      const checks: [string, () => Promise<Discrepancy[]>][] = [
+        ['spot orders', () => this.reconcileOrders(exchange, 'SPOT', recentSymbols)],
+        ['futures orders', () => this.reconcileOrders(exchange, 'FUTURE', recentSymbols)],
+        ['spot balances', () => this.reconcileSpotBalances(exchange, recentSymbols)],
+        ['futures positions', () => this.reconcileFuturesPositions(exchange, recentSymbols)],
+      ];
+
+      // Each check stands on its own, so one failing request doesn't hide the others' drift
+      for (const [check, run] of checks) {
+        const name = `${exchange.name} ${check}`;
+        try {
+          report.discrepancies.push(...(await run()));
+        } catch (error) {
+          logger.error(`Failed to reconcile ${name}`, { error });
+          report.errors.push(`${name}: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    report.finishedAt = new Date().toISOString();
+    report.fixedCount = report.discrepancies.filter((d) => d.fixed).length;
+    this.saveReport(report);
+
+    const summary = {
+      discrepancies: report.discrepancies.length,
+      fixed: report.fixedCount,
+      errors: report.errors.length,
+    };
+    if (report.discrepancies.length > 0 || report.errors.length > 0) {
+      logger.warn('Reconciliation found drift', summary);
+    } else {
+      logger.info('Reconciliation finished, no drift', summary);
+    }
+
+    return report;
+  }
+
+  getLatestReport(): ReconciliationReport | null {
+    const db = databaseService.getDatabase();
+
+    const row = db
+      .prepare('SELECT * FROM reconciliation_runs ORDER BY started_at DESC LIMIT 1')
+      .get() as ReconciliationRun | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+      discrepancies: JSON.parse(row.discrepancies),
+      fixedCount: row.fixed_count,
+      errors: JSON.parse(row.errors),
+    };
+  }
+
+  private async reconcileOrders(
+    exchange: ExchangeAdapter,
+    tradingType: 'SPOT' | 'FUTURE',
+    recentSymbols: Set<string>
+  ): Promise<Discrepancy[]> {
+    const db = databaseService.getDatabase();
+    const discrepancies: Discrepancy[] = [];
+
+    const exchangeOrders =
+      tradingType === 'FUTURE'
+        ? await exchange.getFuturesOpenOrders()
+        : await exchange.getOpenOrders();
+    const exchangeIds = new Set(exchangeOrders.map((order) => order.orderId));
+
+    const placeholders = OPEN_ORDER_STATUSES.map(() => '?').join(', ');
+    const localOrders = db
+      .prepare(
+        `SELECT * FROM orders
+         WHERE trading_type = ? AND status IN (${placeholders}) AND binance_order_id IS NOT NULL
+           AND paper = 0 AND exchange = ?`
+      )
+      .all(tradingType, ...OPEN_ORDER_STATUSES, exchange.name) as OrderRecord[];
+
+    // Finished on the exchange without us hearing about it - pick up how it ended
+    for (const order of localOrders) {
+      if (exchangeIds.has(order.binance_order_id!) || recentSymbols.has(order.symbol)) {
+        continue;
+      }
+
+      const discrepancy: Discrepancy = {
+        type: 'ORDER_NOT_OPEN_ON_EXCHANGE',
+        exchange: exchange.name,
+        tradingType,
+        symbol: order.symbol,
+        details: { orderId: order.id, binanceOrderId: order.binance_order_id },
+        fixed: false,
+      };
+
+      try {
+        await this.orderManager.refreshOrder(order);
+        discrepancy.fixed = true;
+        discrepancy.action = 'Refreshed order state from the exchange';
+      } catch (error) {
+        discrepancy.details.error = (error as Error).message;
+      }
+
+      discrepancies.push(discrepancy);
+    }
+
+    // Open on the exchange but unknown locally - start tracking it as an external order
+    for (const exchangeOrder of exchangeOrders) {
+      if (
+        recentSymbols.has(exchangeOrder.symbol) ||
+        this.isKnownOrder(exchange.name, tradingType, exchangeOrder)
+      ) {
+        continue;
+      }
+
+      const discrepancy: Discrepancy = {
+        type: 'UNTRACKED_ORDER',
+        exchange: exchange.name,
+        tradingType,
+        symbol: exchangeOrder.symbol,
+        details: {
+          binanceOrderId: exchangeOrder.orderId,
+          side: exchangeOrder.side,
+          type: exchangeOrder.type,
+          quantity: exchangeOrder.quantity,
+        },
+        fixed: false,
+      };
+
+      try {
+        const orderId = this.orderManager.recordExternalOrder(
+          this.toExecutionReport(tradingType, exchangeOrder),
+          exchange.name
+        );
+        await this.orderManager.applyOrderUpdate(orderId, exchangeOrder);
+        discrepancy.fixed = true;
+        discrepancy.action = 'Recorded as external order';
+      } catch (error) {
+        discrepancy.details.error = (error as Error).message;
+      }
+
+      discrepancies.push(discrepancy);
+    }
+
+    return discrepancies;
+  }
+
+  private async reconcileSpotBalances(
+    exchange: ExchangeAdapter,
+    recentSymbols: Set<string>
+  ): Promise<Discrepancy[]> {
+    const db = databaseService.getDatabase();
+    const discrepancies: Discrepancy[] = [];
+
+    const positions = db
+      .prepare(
+        `SELECT * FROM positions
+         WHERE trading_type = 'SPOT' AND side = 'LONG' AND paper = 0 AND status = 'OPEN'
+           AND exchange = ?`
+      )
+      .all(exchange.name) as Position[];
+
+    if (positions.length === 0) {
+      return discrepancies;
+    }
+
+    const account = await exchange.getAccountInfo();
+    const held = new Map(
+      account.balances.map((balance) => [
+        balance.asset,
+        parseFloat(balance.free) + parseFloat(balance.locked),
+      ])
+    );
+
+    // Several positions can hold the same asset
+    const byAsset = new Map<string, Position[]>();
+    for (const position of positions) {
+      if (recentSymbols.has(position.symbol)) {
+        continue;
+      }
+
+      const { baseAsset } = await exchange.getSymbolInfo(position.symbol);
+      byAsset.set(baseAsset, [...(byAsset.get(baseAsset) || []), position]);
+    }
+
+    for (const [asset, assetPositions] of byAsset) {
+      const expected = assetPositions.reduce((sum, position) => sum + position.quantity, 0);
+      const balance = held.get(asset) || 0;
+
+      if (balance >= expected * (1 - SPOT_BALANCE_TOLERANCE)) {
+        continue;
+      }
+
+      // Only a balance that is (next to) gone is safe to act on - the positions were
+      // sold outside the bot. Partial shortfalls are left for a human to look at.
+      const sold = balance < expected * SPOT_BALANCE_TOLERANCE;
+
+      for (const position of assetPositions) {
+        const discrepancy: Discrepancy = {
+          type: 'SPOT_BALANCE_SHORTFALL',
+          exchange: exchange.name,
+          tradingType: 'SPOT',
+          symbol: position.symbol,
+          details: { positionId: position.id, asset, expected, balance },
+          fixed: false,
+        };
+
+        if (sold) {
+          try {
+            const exitPrice = await exchange.getPrice(position.symbol);
+            await this.orderManager.closePositionAt(position.id, exitPrice);
+            discrepancy.fixed = true;
+            discrepancy.action = `Closed position at ${exitPrice}`;
+          } catch (error) {
+            discrepancy.details.error = (error as Error).message;
+          }
+        }
+
+        discrepancies.push(discrepancy);
+      }
+    }
+
+    return discrepancies;
+  }
+
+  private async reconcileFuturesPositions(
+    exchange: ExchangeAdapter,
+    recentSymbols: Set<string>
+  ): Promise<Discrepancy[]> {
+    const db = databaseService.getDatabase();
+    const discrepancies: Discrepancy[] = [];
+
+    const localPositions = db
+      .prepare(
+        `SELECT * FROM positions
+         WHERE trading_type = 'FUTURE' AND paper = 0 AND status = 'OPEN' AND exchange = ?`
+      )
+      .all(exchange.name) as Position[];
+    const exchangePositions = await exchange.getFuturesPositions();
+
+    const exchangeByKey = new Map<string, FuturesPosition>(
+      exchangePositions.map((position) => [
+        this.positionKey(position.symbol, this.getExchangeSide(position)),
+        position,
+      ])
+    );
+
+    for (const position of localPositions) {
+      const key = this.positionKey(position.symbol, position.side);
+      const exchangePosition = exchangeByKey.get(key);
+      exchangeByKey.delete(key);
+
+      if (recentSymbols.has(position.symbol)) {
+        continue;
+      }
+
+      if (!exchangePosition) {
+        // Closed outside the bot (app, liquidation, ADL) - book it at the current price
+        const discrepancy: Discrepancy = {
+          type: 'POSITION_NOT_ON_EXCHANGE',
+          exchange: exchange.name,
+          tradingType: 'FUTURE',
+          symbol: position.symbol,
+          details: { positionId: position.id, side: position.side, quantity: position.quantity },
+          fixed: false,
+        };
+
+        try {
+          const exitPrice = await exchange.getFuturesPrice(position.symbol);
+          await this.orderManager.closePositionAt(position.id, exitPrice);
+          discrepancy.fixed = true;
+          discrepancy.action = `Closed position at ${exitPrice}`;
+        } catch (error) {
+          discrepancy.details.error = (error as Error).message;
+        }
+
+        discrepancies.push(discrepancy);
+        continue;
+      }
+
+      const exchangeQuantity = Math.abs(parseFloat(exchangePosition.positionAmt));
+      if (Math.abs(exchangeQuantity - position.quantity) > 1e-8) {
+        discrepancies.push({
+          type: 'QUANTITY_MISMATCH',
+          exchange: exchange.name,
+          tradingType: 'FUTURE',
+          symbol: position.symbol,
+          details: {
+            positionId: position.id,
+            side: position.side,
+            localQuantity: position.quantity,
+            exchangeQuantity,
+          },
+          fixed: false,
+        });
+      }
+    }
+
+    // Whatever is left has no local position
+    for (const exchangePosition of exchangeByKey.values()) {
+      if (recentSymbols.has(exchangePosition.symbol)) {
+        continue;
+      }
+
+      discrepancies.push({
+        type: 'UNTRACKED_POSITION',
+        exchange: exchange.name,
+        tradingType: 'FUTURE',
+        symbol: exchangePosition.symbol,
+        details: {
+          side: this.getExchangeSide(exchangePosition),
+          quantity: Math.abs(parseFloat(exchangePosition.positionAmt)),
+          entryPrice: parseFloat(exchangePosition.entryPrice),
+        },
+        fixed: false,
+      });
+    }
+
+    return discrepancies;
+  }
+
+  private isKnownOrder(
+    exchange: ExchangeName,
+    tradingType: 'SPOT' | 'FUTURE',
+    order: Order
+  ): boolean {
+    const db = databaseService.getDatabase();
+
+    // Orders still being submitted only have their client order id recorded
+    return !!db
+      .prepare(
+        `SELECT 1 FROM orders
+         WHERE exchange = ? AND trading_type = ? AND (binance_order_id = ? OR client_order_id = ?)`
+      )
+      .get(exchange, tradingType, order.orderId, order.clientOrderId ?? null);
+  }
+
+  private getRecentlyTradedSymbols(): Set<string> {
+    const db = databaseService.getDatabase();
+
+    const rows = db
+      .prepare("SELECT DISTINCT symbol FROM orders WHERE updated_at >= datetime('now', ?)")
+      .all(`-${Math.ceil(RECENT_ACTIVITY_MS / 1000)} seconds`) as { symbol: string }[];
+
+    return new Set(rows.map((row) => row.symbol));
+  }
+
+  private getExchangeSide(position: FuturesPosition): 'LONG' | 'SHORT' {
+    if (position.positionSide === 'LONG' || position.positionSide === 'SHORT') {
+      return position.positionSide;
+    }
+
+    // One-way mode reports BOTH with a signed amount
+    return parseFloat(position.positionAmt) > 0 ? 'LONG' : 'SHORT';
+  }
+
+  private positionKey(symbol: string, side: string): string {
+    return `${symbol}:${side}`;
+  }
+
+  private toExecutionReport(tradingType: 'SPOT' | 'FUTURE', order: Order): ExecutionReport {
+    return {
+      tradingType,
+      symbol: order.symbol,
+      orderId: order.orderId,
+      clientOrderId: order.clientOrderId || '',
+      side: order.side,
+      orderType: order.type,
+      status: order.status,
+      quantity: order.quantity,
+      price: order.price,
+      stopPrice: order.stopPrice,
+      executedQty: order.executedQty,
+      cummulativeQuoteQty: order.cummulativeQuoteQty,
+      commission: 0,
+      isLiquidation: false,
+      eventTime: Date.now(),
+    };
+  }
+
+  private saveReport(report: ReconciliationReport): void {
+    const db = databaseService.getDatabase();
+
+    db.prepare(
+      `INSERT INTO reconciliation_runs (id, started_at, finished_at, discrepancies, fixed_count, errors)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(
+      report.id,
+      report.startedAt,
+      report.finishedAt,
+      JSON.stringify(report.discrepancies),
+      report.fixedCount,
+      JSON.stringify(report.errors)
+    );
+  }
+
+  private async tick(): Promise<void> {
+    // Skip this run if the previous one is still going
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.reconcile();
+    } catch (error) {
+      logger.error('Reconciliation failed', { error });
+    } finally {
+      this.running = false;
+    }
+  }
+}
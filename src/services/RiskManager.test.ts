@@ -0,0 +1,216 @@
+import { RiskManager, StrategyRiskLimits } from './RiskManager';
+import { ExchangeRegistry } from './exchange/ExchangeRegistry';
+import { ExchangeAdapter } from './exchange/ExchangeAdapter';
+import { PaperExchange } from './paper/PaperExchange';
+import { SymbolRegistry } from './SymbolRegistry';
+import { TradingViewSignal } from '../api/schemas/webhook.schema';
+import { ValidationError } from '../utils/errors';
+import databaseService from '../database';
+
+describe('RiskManager', () => {
+  let exchange: {
+    name: string;
+    getBalance: jest.Mock;
+    getPrice: jest.Mock;
+    getFuturesBalance: jest.Mock;
+    getFuturesPrice: jest.Mock;
+  };
+  let riskManager: RiskManager;
+
+  const db = () => databaseService.getDatabase();
+
+  const setConfig = (key: string, value: unknown) =>
+    db()
+      .prepare('INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)')
+      .run(key, JSON.stringify(value));
+
+  const signal = (fields: Partial<TradingViewSignal> = {}) =>
+    ({ action: 'buy', symbol: 'BTCUSDT', orderType: 'market', ...fields }) as TradingViewSignal;
+
+  const freeBalance = (free: number) =>
+    exchange.getBalance.mockResolvedValue({ asset: 'USDT', free: String(free), locked: '0' });
+
+  beforeEach(() => {
+    db().exec('DELETE FROM config; DELETE FROM positions; DELETE FROM orders;');
+    setConfig('trading.enabled', true);
+    setConfig('trading.maxPositionSizePercent', 10);
+    setConfig('trading.maxTotalExposurePercent', 50);
+    setConfig('trading.maxDailyLoss', 1000);
+
+    exchange = {
+      name: 'binance',
+      getBalance: jest.fn(),
+      getPrice: jest.fn().mockResolvedValue(50000),
+      getFuturesBalance: jest.fn(),
+      getFuturesPrice: jest.fn().mockResolvedValue(50000),
+    };
+    freeBalance(10000);
+
+    riskManager = new RiskManager(
+      new ExchangeRegistry([exchange as unknown as ExchangeAdapter]),
+      {} as PaperExchange,
+      {
+        resolve: jest.fn().mockResolvedValue({ baseAsset: 'BTC', quoteAsset: 'USDT' }),
+      } as unknown as SymbolRegistry
+    );
+  });
+
+  describe('calculatePositionSize', () => {
+    beforeEach(() => {
+      setConfig('trading.maxPositionSizePercent', 100);
+    });
+
+    it('uses the quantity a signal sets', async () => {
+      const quantity = await riskManager.calculatePositionSize(signal({ quantity: 0.5 }));
+
+      expect(quantity).toBe(0.5);
+    });
+
+    it('buys a fixed quote amount', async () => {
+      const quantity = await riskManager.calculatePositionSize(
+        signal({ sizing: { mode: 'fixed_quote', value: 1000 } })
+      );
+
+      expect(quantity).toBe(0.02);
+    });
+
+    it('sizes by the sizing mode of the strategy', async () => {
+      const strategy = {
+        name: 'Breakout',
+        leverage: 1,
+        sizing_mode: 'fixed_quote',
+        sizing_value: 2500,
+      } as StrategyRiskLimits;
+
+      const quantity = await riskManager.calculatePositionSize(
+        signal(),
+        false,
+        'binance',
+        'SPOT',
+        strategy
+      );
+
+      expect(quantity).toBe(0.05);
+    });
+
+    it('risks a percent of equity over the distance to the stop', async () => {
+      const quantity = await riskManager.calculatePositionSize(
+        signal({ stopLoss: 49000, sizing: { mode: 'risk_per_trade', value: 1 } })
+      );
+
+      // Losing 1000 per BTC at the stop, 100 at risk
+      expect(quantity).toBe(0.1);
+    });
+
+    it('measures the risk from the default stop loss without one on the signal', async () => {
+      setConfig('trading.enableStopLoss', true);
+      setConfig('trading.defaultStopLossPercent', 4);
+
+      const quantity = await riskManager.calculatePositionSize(
+        signal({ sizing: { mode: 'risk_per_trade', value: 1 } })
+      );
+
+      expect(quantity).toBe(0.05);
+    });
+
+    it('refuses risk-per-trade sizing without a stop loss', async () => {
+      setConfig('trading.enableStopLoss', false);
+
+      await expect(
+        riskManager.calculatePositionSize(signal({ sizing: { mode: 'risk_per_trade', value: 1 } }))
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('caps the size at the max position size', async () => {
+      setConfig('trading.maxPositionSizePercent', 10);
+
+      const quantity = await riskManager.calculatePositionSize(
+        signal({ sizing: { mode: 'percent_balance', value: 50 } })
+      );
+
+      expect(quantity).toBe(0.02);
+    });
+
+    it('leaves the size uncapped with risk management off', async () => {
+      setConfig('trading.enabled', false);
+      setConfig('trading.maxPositionSizePercent', 10);
+
+      const quantity = await riskManager.calculatePositionSize(
+        signal({ sizing: { mode: 'percent_balance', value: 50 } })
+      );
+
+      expect(quantity).toBe(0.1);
+    });
+  });
+
+  describe('checkRiskLimits', () => {
+    it.each(['close', 'close_long', 'close_short'] as const)(
+      'lets a %s through with no free quote balance',
+      async (action) => {
+        freeBalance(10);
+
+        const result = await riskManager.checkRiskLimits(signal({ action }), 0.1);
+
+        expect(result.allowed).toBe(true);
+      }
+    );
+
+    it('lets a close through with trading stopped', async () => {
+      setConfig('trading.enabled', false);
+      freeBalance(0);
+
+      const result = await riskManager.checkRiskLimits(signal({ action: 'close' }), 0.1);
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('rejects an entry over a soft limit unless approval overrides it', async () => {
+      // 20% of the balance against a 10% max position size
+      const rejected = await riskManager.checkRiskLimits(signal(), 0.04);
+      const approved = await riskManager.checkRiskLimits(signal(), 0.04, true);
+
+      expect(rejected).toEqual({
+        allowed: false,
+        reason: 'Global limit: position size 20.00% exceeds max 10%',
+      });
+      expect(approved).toMatchObject({
+        allowed: true,
+        overridden: [
+          { tier: 'soft', reason: 'Global limit: position size 20.00% exceeds max 10%' },
+        ],
+      });
+    });
+
+    it('holds the hard limits of an approved entry', async () => {
+      setConfig('trading.maxLeverage', 10);
+      const strategy = { name: 'Breakout', leverage: 20 } as StrategyRiskLimits;
+      exchange.getFuturesBalance.mockResolvedValue({ balance: '10000', availableBalance: '10000' });
+
+      const result = await riskManager.checkRiskLimits(
+        signal(),
+        0.01,
+        true,
+        false,
+        'binance',
+        'FUTURE',
+        strategy
+      );
+
+      expect(result).toEqual({
+        allowed: false,
+        reason: 'Global limit: leverage 20x exceeds max 10x',
+      });
+    });
+
+    it('rejects an entry the balance cannot cover', async () => {
+      freeBalance(10);
+
+      const result = await riskManager.checkRiskLimits(signal(), 0.1, true);
+
+      expect(result).toEqual({
+        allowed: false,
+        reason: 'Insufficient balance. Required: 5000.00, Available: 10.00',
+      });
+    });
+  });
+});
@@ -1,24 +1,69 @@
 import { createModuleLogger } from '../utils/logger';
-import { TradingViewSignal } from '../api/schemas/webhook.schema';
-import { BinanceClient } from './binance/BinanceClient';
+import { CLOSE_ACTIONS, Sizing, TradingViewSignal } from '../api/schemas/webhook.schema';
+import { ExchangeRegistry } from './exchange/ExchangeRegistry';
+import { DEFAULT_EXCHANGE, ExchangeAdapter, ExchangeName } from './exchange/ExchangeAdapter';
+import { PaperExchange } from './paper/PaperExchange';
+import { SymbolRegistry } from './SymbolRegistry';
+import { RiskLimitField, Strategy } from './StrategyService';
+import { ValidationError } from '../utils/errors';
 import databaseService from '../database';
 import config from '../config';
 
 const logger = createModuleLogger('RiskManager');
 
+// Hard limits hold even for a manually approved signal; an approver may override soft ones
+export type RiskLimitTier = 'hard' | 'soft';
+
+export interface RiskViolation {
+  tier: RiskLimitTier;
+  reason: string;
+}
+
 export interface RiskCheckResult {
   allowed: boolean;
   reason?: string;
   calculatedQuantity?: number;
+  overridden?: RiskViolation[]; // Soft limits a manual approval let through
+}
+
+// An order measured against the risk limits, with every limit it breaks
+export interface RiskPreview {
+  quantity: number;
+  price: number;
+  orderValue: number;
+  orderCost: number; // The order value on spot, its margin on futures
+  availableBalance: number;
+  positionSizePercent: number;
+  exposurePercent: number;
+  dailyLoss: number;
+  violations: RiskViolation[];
+}
+
+// The strategy whose risk budget an order is checked against
+export type StrategyRiskLimits = Pick<
+  Strategy,
+  'id' | 'name' | 'leverage' | 'sizing_mode' | 'sizing_value' | RiskLimitField
+>;
+
+// What an order is sized and checked against on its account
+interface AccountFunds {
+  available: number; // Free quote balance on spot, available margin on futures
+  total: number; // Base of the exposure limit - on futures the wallet balance, margin in use included
+  price: number;
+  leverage: number; // 1 on spot
 }
 
 export class RiskManager {
-  constructor(private binanceClient: BinanceClient) {}
+  constructor(
+    private exchanges: ExchangeRegistry,
+    private paperExchange: PaperExchange,
+    private symbolRegistry: SymbolRegistry
+  ) {}
 
   /**
    * Get current risk configuration from database
    */
-  private getRiskConfig() {
+  getRiskConfig() {
     const db = databaseService.getDatabase();
 
     const getConfigValue = (key: string, defaultValue: any) => {
@@ -35,119 +80,289 @@ export class RiskManager {
     };
 
     const enabled = getConfigValue('trading.enabled', config.trading.enabled);
+    const enableStopLoss = getConfigValue('trading.enableStopLoss', config.trading.enableStopLoss);
+    const drawdownFlattenPositions = getConfigValue(
+      'trading.drawdownFlattenPositions',
+      config.trading.drawdownFlattenPositions
+    );
 
     return {
       enabled: typeof enabled === 'boolean' ? enabled : enabled === 'true',
+      defaultPositionSizePercent: parseFloat(
+        getConfigValue(
+          'trading.defaultPositionSizePercent',
+          config.trading.defaultPositionSizePercent
+        )
+      ),
       maxPositionSizePercent: parseFloat(getConfigValue('trading.maxPositionSizePercent', config.trading.maxPositionSizePercent)),
       maxTotalExposurePercent: parseFloat(getConfigValue('trading.maxTotalExposurePercent', config.trading.maxTotalExposurePercent)),
       maxDailyLoss: parseFloat(getConfigValue('trading.maxDailyLoss', config.trading.maxDailyLoss)),
+      enableStopLoss:
+        typeof enableStopLoss === 'boolean' ? enableStopLoss : enableStopLoss === 'true',
+      defaultStopLossPercent: parseFloat(
+        getConfigValue('trading.defaultStopLossPercent', config.trading.defaultStopLossPercent)
+      ),
+      maxLeverage: parseFloat(getConfigValue('trading.maxLeverage', config.trading.maxLeverage)),
+      maxNotional: parseFloat(getConfigValue('trading.maxNotional', config.trading.maxNotional)),
+      maxDrawdown: parseFloat(getConfigValue('trading.maxDrawdown', config.trading.maxDrawdown)),
+      drawdownFlattenPositions:
+        typeof drawdownFlattenPositions === 'boolean'
+          ? drawdownFlattenPositions
+          : drawdownFlattenPositions === 'true',
+      drawdownCooldownMinutes: parseFloat(
+        getConfigValue('trading.drawdownCooldownMinutes', config.trading.drawdownCooldownMinutes)
+      ),
     };
   }
 
+  /**
+   * Resolve the protective stop price for a new position.
+   * Uses the signal's stopLoss when given, otherwise the strategy's or the configured default
+   * percent. Returns null when stop losses are disabled or the price is on the wrong side of entry.
+   */
+  calculateStopLossPrice(
+    positionSide: 'LONG' | 'SHORT',
+    entryPrice: number,
+    signalStopLoss?: number,
+    strategy: StrategyRiskLimits | null = null
+  ): number | null {
+    const riskConfig = this.getRiskConfig();
+    const stopLossPercent =
+      strategy?.default_stop_loss_percent ?? riskConfig.defaultStopLossPercent;
+
+    let stopPrice: number;
+    if (signalStopLoss) {
+      stopPrice = signalStopLoss;
+    } else if (riskConfig.enableStopLoss && stopLossPercent > 0) {
+      const offset = (entryPrice * stopLossPercent) / 100;
+      stopPrice = positionSide === 'LONG' ? entryPrice - offset : entryPrice + offset;
+    } else {
+      return null;
+    }
+
+    const validSide = positionSide === 'LONG' ? stopPrice < entryPrice : stopPrice > entryPrice;
+    if (!validSide) {
+      logger.warn('Stop loss price is on the wrong side of entry, skipping', {
+        positionSide,
+        entryPrice,
+        stopPrice,
+      });
+      return null;
+    }
+
+    // Round to appropriate precision (8 decimal places for crypto)
+    return Math.round(stopPrice * 100000000) / 100000000;
+  }
+
+  /**
+   * Check an order against its strategy's risk budget, then the global limits. The reason of a
+   * rejection names the limit that tripped. Futures orders are measured by their margin (notional
+   * over the strategy leverage) against the available margin. A manual approval may override
+   * the soft limits; hard ones (emergency stop, circuit breaker, balance, max leverage and
+   * notional) always hold, even with risk management off.
+   */
   async checkRiskLimits(
     signal: TradingViewSignal,
     calculatedQuantity: number,
-    bypassEnabledCheck: boolean = false
+    overrideSoftLimits: boolean = false,
+    paper: boolean = false,
+    exchange: ExchangeName = DEFAULT_EXCHANGE,
+    tradingType: 'SPOT' | 'FUTURE' = 'SPOT',
+    strategy: StrategyRiskLimits | null = null
   ): Promise<RiskCheckResult> {
     try {
-      logger.info('Checking risk limits', { signal, calculatedQuantity, bypassEnabledCheck });
+      logger.info('Checking risk limits', { signal, calculatedQuantity, overrideSoftLimits });
 
-      // Get current risk config from database
-      const riskConfig = this.getRiskConfig();
-
-      // If Risk Management is disabled, bypass all checks
-      if (!riskConfig.enabled) {
-        logger.info('Risk Management is disabled, bypassing all risk checks');
+      // With Risk Management disabled only the hard limits are checked
+      const preview = await this.previewRiskLimits(
+        signal,
+        calculatedQuantity,
+        paper,
+        exchange,
+        tradingType,
+        strategy
+      );
+      const hard = preview.violations.filter((violation) => violation.tier === 'hard');
+      const soft = preview.violations.filter((violation) => violation.tier === 'soft');
+
+      if (hard.length > 0 || (soft.length > 0 && !overrideSoftLimits)) {
         return {
-          allowed: true,
-          calculatedQuantity,
+          allowed: false,
+          reason: (overrideSoftLimits ? hard : preview.violations)[0].reason,
         };
       }
 
-      // If manual approval bypass is requested, skip checks
-      if (bypassEnabledCheck) {
-        logger.info('Manual approval bypass enabled, skipping risk checks');
-        return {
-          allowed: true,
-          calculatedQuantity,
-        };
+      if (soft.length > 0) {
+        logger.warn('Soft risk limits overridden by manual approval', {
+          symbol: signal.symbol,
+          reasons: soft.map((violation) => violation.reason),
+        });
       }
 
-      // Risk Management is enabled - run all checks
-      logger.info('Risk Management is enabled, running risk checks');
+      logger.info('Risk check passed', {
+        positionSizePercent: preview.positionSizePercent.toFixed(2),
+        exposurePercent: preview.exposurePercent.toFixed(2),
+        dailyLoss: preview.dailyLoss.toFixed(2),
+      });
+
+      return {
+        allowed: true,
+        calculatedQuantity,
+        overridden: soft,
+      };
+    } catch (error) {
+      logger.error('Risk check failed', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Measure an order against every risk limit without stopping at the first one it breaks -
+   * what checkRiskLimits decides on, and what a reviewer sees before approving a signal. Soft
+   * limits are left out while risk management is disabled. The limits only apply to entries -
+   * closes bring the exposure down and need no free balance.
+   */
+  async previewRiskLimits(
+    signal: TradingViewSignal,
+    calculatedQuantity: number,
+    paper: boolean = false,
+    exchange: ExchangeName = DEFAULT_EXCHANGE,
+    tradingType: 'SPOT' | 'FUTURE' = 'SPOT',
+    strategy: StrategyRiskLimits | null = null
+  ): Promise<RiskPreview> {
+    const riskConfig = this.getRiskConfig();
+    const opening = !CLOSE_ACTIONS.includes(signal.action);
+    const violations: RiskViolation[] = [];
+
+    // The emergency stop (risk management disabled) and a tripped circuit breaker halt new
+    // entries, manually approved ones included
+    if (opening && !riskConfig.enabled) {
+      violations.push({
+        tier: 'hard',
+        reason: 'Trading is stopped, new entries are halted',
+      });
+    }
+
+    if (opening) {
+      const haltCause = this.getCircuitBreakerHalt(paper);
+      if (haltCause) {
+        violations.push({
+          tier: 'hard',
+          reason: `Circuit breaker tripped, new entries are halted: ${haltCause}`,
+        });
+      }
+    }
 
-      // Get current price
-      const currentPrice = await this.binanceClient.getPrice(signal.symbol);
+    // Checked against the account the order goes to - virtual for paper trades
+    const funds = await this.getAccountFunds(signal, paper, exchange, tradingType, strategy);
+    const availableBalance = funds.available;
 
-      // Calculate order value
-      const orderValue = calculatedQuantity * currentPrice;
+    // Calculate order value, and the part of it the account puts up
+    const orderValue = calculatedQuantity * funds.price;
+    const orderCost = orderValue / funds.leverage;
 
-      // Get account balance
-      const quoteAsset = this.getQuoteAsset(signal.symbol);
-      const balance = await this.binanceClient.getBalance(quoteAsset);
-      const availableBalance = parseFloat(balance.free);
+    const positionSizePercent = (orderCost / availableBalance) * 100;
 
-      // Check position size limit
-      const positionSizePercent = (orderValue / availableBalance) * 100;
-      if (positionSizePercent > riskConfig.maxPositionSizePercent) {
-        return {
-          allowed: false,
-          reason: `Position size ${positionSizePercent.toFixed(2)}% exceeds max ${
-            riskConfig.maxPositionSizePercent
-          }%`,
-        };
+    if (strategy && opening) {
+      const budgetReason = await this.checkStrategyBudget(strategy, positionSizePercent, paper);
+      if (budgetReason) {
+        violations.push({
+          tier: 'soft',
+          reason: `Strategy ${strategy.name} limit: ${budgetReason}`,
+        });
       }
+    }
 
-      // Check total exposure
-      const currentExposure = await this.getCurrentExposure();
-      const totalExposure = currentExposure + orderValue;
-      const exposurePercent = (totalExposure / availableBalance) * 100;
+    // Check position size limit
+    if (opening && positionSizePercent > riskConfig.maxPositionSizePercent) {
+      violations.push({
+        tier: 'soft',
+        reason: `Global limit: position size ${positionSizePercent.toFixed(2)}% exceeds max ${
+          riskConfig.maxPositionSizePercent
+        }%`,
+      });
+    }
 
-      if (exposurePercent > riskConfig.maxTotalExposurePercent) {
-        return {
-          allowed: false,
-          reason: `Total exposure ${exposurePercent.toFixed(2)}% exceeds max ${
-            riskConfig.maxTotalExposurePercent
-          }%`,
-        };
+    // Check futures leverage and notional - closes only bring them down
+    if (tradingType === 'FUTURE' && opening) {
+      if (funds.leverage > riskConfig.maxLeverage) {
+        violations.push({
+          tier: 'hard',
+          reason: `Global limit: leverage ${funds.leverage}x exceeds max ${riskConfig.maxLeverage}x`,
+        });
       }
 
-      // Check daily loss limit
-      const dailyLoss = await this.getDailyLoss();
-      if (Math.abs(dailyLoss) > riskConfig.maxDailyLoss) {
-        return {
-          allowed: false,
-          reason: `Daily loss $${Math.abs(dailyLoss).toFixed(2)} exceeds max $${
-            riskConfig.maxDailyLoss
+      if (riskConfig.maxNotional > 0 && orderValue > riskConfig.maxNotional) {
+        violations.push({
+          tier: 'hard',
+          reason: `Global limit: notional $${orderValue.toFixed(2)} exceeds max $${
+            riskConfig.maxNotional
           }`,
-        };
+        });
       }
+    }
 
-      // Check sufficient balance
-      if (orderValue > availableBalance) {
-        return {
-          allowed: false,
-          reason: `Insufficient balance. Required: ${orderValue.toFixed(2)}, Available: ${availableBalance.toFixed(2)}`,
-        };
-      }
+    // Check total exposure
+    const currentExposure = await this.getCurrentExposure(paper, tradingType);
+    const totalExposure = currentExposure + orderCost;
+    const exposurePercent = (totalExposure / funds.total) * 100;
+
+    if (opening && exposurePercent > riskConfig.maxTotalExposurePercent) {
+      violations.push({
+        tier: 'soft',
+        reason: `Global limit: total exposure ${exposurePercent.toFixed(2)}% exceeds max ${
+          riskConfig.maxTotalExposurePercent
+        }%`,
+      });
+    }
 
-      logger.info('Risk check passed', {
-        positionSizePercent: positionSizePercent.toFixed(2),
-        exposurePercent: exposurePercent.toFixed(2),
-        dailyLoss: dailyLoss.toFixed(2),
+    // Check daily loss limit
+    const dailyLoss = await this.getDailyLoss(paper);
+    if (opening && Math.abs(dailyLoss) > riskConfig.maxDailyLoss) {
+      violations.push({
+        tier: 'soft',
+        reason: `Global limit: daily loss $${Math.abs(dailyLoss).toFixed(2)} exceeds max $${
+          riskConfig.maxDailyLoss
+        }`,
       });
+    }
 
-      return {
-        allowed: true,
-        calculatedQuantity,
-      };
-    } catch (error) {
-      logger.error('Risk check failed', { error });
-      throw error;
+    // Check sufficient balance
+    if (opening && orderCost > availableBalance) {
+      violations.push({
+        tier: 'hard',
+        reason: `Insufficient ${tradingType === 'FUTURE' ? 'margin' : 'balance'}. Required: ${orderCost.toFixed(2)}, Available: ${availableBalance.toFixed(2)}`,
+      });
     }
+
+    return {
+      quantity: calculatedQuantity,
+      price: funds.price,
+      orderValue,
+      orderCost,
+      availableBalance,
+      positionSizePercent,
+      exposurePercent,
+      dailyLoss,
+      violations: riskConfig.enabled
+        ? violations
+        : violations.filter((violation) => violation.tier === 'hard'),
+    };
   }
 
-  async calculatePositionSize(signal: TradingViewSignal): Promise<number> {
+  /**
+   * Size an entry: the signal's quantity as given, otherwise by the signal's or the strategy's
+   * sizing mode. On futures the balance-based modes size the margin, and the position is worth
+   * that margin times the leverage. With risk management on, a computed size is capped at the
+   * max position size so it passes the risk check.
+   */
+  async calculatePositionSize(
+    signal: TradingViewSignal,
+    paper: boolean = false,
+    exchange: ExchangeName = DEFAULT_EXCHANGE,
+    tradingType: 'SPOT' | 'FUTURE' = 'SPOT',
+    strategy: StrategyRiskLimits | null = null
+  ): Promise<number> {
     try {
       // If quantity is provided in signal, use it
       if (signal.quantity) {
@@ -155,24 +370,88 @@ export class RiskManager {
         return signal.quantity;
       }
 
-      // Otherwise, calculate based on position size percentage
-      const quoteAsset = this.getQuoteAsset(signal.symbol);
-      const balance = await this.binanceClient.getBalance(quoteAsset);
-      const availableBalance = parseFloat(balance.free);
-
-      const currentPrice = await this.binanceClient.getPrice(signal.symbol);
+      const riskConfig = this.getRiskConfig();
+      const sizing = this.resolveSizing(signal, strategy, riskConfig.defaultPositionSizePercent);
+      const funds = await this.getAccountFunds(signal, paper, exchange, tradingType, strategy);
+      const availableBalance = funds.available;
+      const currentPrice = funds.price;
+
+      let positionValue: number;
+      let equity: number | undefined;
+
+      switch (sizing.mode) {
+        case 'fixed_quote':
+          positionValue = sizing.value * funds.leverage;
+          break;
+        case 'percent_equity':
+          equity = await this.getAccountEquity(signal, paper, exchange, tradingType);
+          positionValue = ((equity * sizing.value) / 100) * funds.leverage;
+          break;
+        case 'risk_per_trade': {
+          // Losing (equity x risk%) if the stop is hit - leverage doesn't change the loss per unit
+          const stopLossPercent =
+            strategy?.default_stop_loss_percent ?? riskConfig.defaultStopLossPercent;
+
+          // Without a stop the loss isn't capped at the risk, so the size means nothing
+          if (!signal.stopLoss && !(riskConfig.enableStopLoss && stopLossPercent > 0)) {
+            throw new ValidationError(
+              'Risk-per-trade sizing needs a stop loss - send stopLoss or enable the default ' +
+                'stop loss',
+              { enableStopLoss: riskConfig.enableStopLoss, stopLossPercent }
+            );
+          }
+
+          equity = await this.getAccountEquity(signal, paper, exchange, tradingType);
+          const entryPrice = signal.price ?? currentPrice;
+          const stopDistance = signal.stopLoss
+            ? Math.abs(entryPrice - signal.stopLoss)
+            : (entryPrice * stopLossPercent) / 100;
+
+          if (!(stopDistance > 0)) {
+            throw new ValidationError(
+              'Risk-per-trade sizing needs a stop loss away from the entry price',
+              { entryPrice, stopLoss: signal.stopLoss, stopLossPercent }
+            );
+          }
+
+          positionValue = (((equity * sizing.value) / 100) * currentPrice) / stopDistance;
+          break;
+        }
+        default:
+          positionValue = ((availableBalance * sizing.value) / 100) * funds.leverage;
+      }
 
-      // Calculate quantity based on default position size percentage
-      const positionValue =
-        (availableBalance * config.trading.defaultPositionSizePercent) / 100;
-      const quantity = positionValue / currentPrice;
+      let quantity = positionValue / currentPrice;
+
+      // Cap at the strategy's and the global max position size, which checkRiskLimits enforces
+      if (riskConfig.enabled) {
+        const maxPositionSizePercent = Math.min(
+          riskConfig.maxPositionSizePercent,
+          strategy?.max_position_size_percent ?? Infinity
+        );
+        const maxQuantity =
+          (((availableBalance * maxPositionSizePercent) / 100) * funds.leverage) / currentPrice;
+
+        if (quantity > maxQuantity) {
+          logger.info('Position size capped at max position size', {
+            quantity,
+            maxQuantity,
+            maxPositionSizePercent,
+          });
+          quantity = maxQuantity;
+        }
+      }
 
-      // Round to appropriate precision (8 decimal places for crypto)
+      // Round to appropriate precision (8 decimal places for crypto) - the symbol's step size
+      // is applied by OrderNormalizer when the order is placed
       const roundedQuantity = Math.floor(quantity * 100000000) / 100000000;
 
       logger.info('Calculated position size', {
+        sizing,
         availableBalance,
+        equity,
         positionValue,
+        leverage: funds.leverage,
         currentPrice,
         quantity: roundedQuantity,
       });
@@ -184,29 +463,52 @@ export class RiskManager {
     }
   }
 
-  async getCurrentExposure(): Promise<number> {
+  /**
+   * Capital in open positions at current prices: the value of spot positions and the margin of
+   * futures ones (notional over leverage). Live and paper, spot and futures positions together
+   * unless `paper` or `tradingType` picks one of them.
+   */
+  async getCurrentExposure(paper?: boolean, tradingType?: 'SPOT' | 'FUTURE'): Promise<number> {
     const db = databaseService.getDatabase();
 
     const stmt = db.prepare(`
       SELECT
         p.symbol,
         p.quantity,
-        p.entry_price
+        p.entry_price,
+        p.exchange,
+        p.trading_type,
+        p.leverage
       FROM positions p
       WHERE p.status = 'OPEN'
+        ${paper === undefined ? '' : 'AND p.paper = ?'}
+        ${tradingType === undefined ? '' : 'AND p.trading_type = ?'}
     `);
 
-    const positions = stmt.all() as Array<{
+    const positions = stmt.all(
+      ...(paper === undefined ? [] : [paper ? 1 : 0]),
+      ...(tradingType === undefined ? [] : [tradingType])
+    ) as Array<{
       symbol: string;
       quantity: number;
       entry_price: number;
+      exchange: string;
+      trading_type: 'SPOT' | 'FUTURE';
+      leverage: number | null;
     }>;
 
     let totalExposure = 0;
 
     for (const position of positions) {
       try {
-        const currentPrice = await this.binanceClient.getPrice(position.symbol);
+        const exchange = this.exchanges.get(position.exchange);
+        if (position.trading_type === 'FUTURE') {
+          const currentPrice = await exchange.getFuturesPrice(position.symbol);
+          totalExposure += (position.quantity * currentPrice) / (position.leverage || 1);
+          continue;
+        }
+
+        const currentPrice = await exchange.getPrice(position.symbol);
         const positionValue = position.quantity * currentPrice;
         totalExposure += positionValue;
       } catch (error) {
@@ -217,29 +519,186 @@ export class RiskManager {
     return totalExposure;
   }
 
-  async getDailyLoss(): Promise<number> {
+  async getDailyLoss(paper?: boolean, strategyId?: string): Promise<number> {
     const db = databaseService.getDatabase();
 
     const stmt = db.prepare(`
-      SELECT COALESCE(SUM(realized_pnl), 0) as total_pnl
-      FROM positions
-      WHERE DATE(closed_at) = DATE('now')
+      SELECT COALESCE(SUM(p.realized_pnl), 0) as total_pnl
+      FROM positions p
+      ${strategyId === undefined ? '' : 'JOIN orders o ON o.id = p.entry_order_id'}
+      WHERE DATE(p.closed_at) = DATE('now')
+        ${paper === undefined ? '' : 'AND p.paper = ?'}
+        ${strategyId === undefined ? '' : 'AND o.strategy_id = ?'}
     `);
 
-    const result = stmt.get() as { total_pnl: number };
+    const result = stmt.get(
+      ...(paper === undefined ? [] : [paper ? 1 : 0]),
+      ...(strategyId === undefined ? [] : [strategyId])
+    ) as {
+      total_pnl: number;
+    };
     return result.total_pnl || 0;
   }
 
-  private getQuoteAsset(symbol: string): string {
-    // Common quote assets
-    if (symbol.endsWith('USDT')) return 'USDT';
-    if (symbol.endsWith('BUSD')) return 'BUSD';
-    if (symbol.endsWith('BTC')) return 'BTC';
-    if (symbol.endsWith('ETH')) return 'ETH';
-    if (symbol.endsWith('BNB')) return 'BNB';
+  /**
+   * Open positions a strategy's entry orders opened
+   */
+  getOpenPositionCount(strategyId: string, paper: boolean): number {
+    const db = databaseService.getDatabase();
+
+    const result = db
+      .prepare(
+        `SELECT COUNT(*) as count
+         FROM positions p
+         JOIN orders o ON o.id = p.entry_order_id
+         WHERE p.status = 'OPEN' AND p.paper = ? AND o.strategy_id = ?`
+      )
+      .get(paper ? 1 : 0, strategyId) as { count: number };
+
+    return result.count;
+  }
+
+  /**
+   * Check an entry against the strategy's own limits, returning why it's over budget if it is
+   */
+  private async checkStrategyBudget(
+    strategy: StrategyRiskLimits,
+    positionSizePercent: number,
+    paper: boolean
+  ): Promise<string | null> {
+    if (
+      strategy.max_position_size_percent &&
+      positionSizePercent > strategy.max_position_size_percent
+    ) {
+      return `position size ${positionSizePercent.toFixed(2)}% exceeds max ${
+        strategy.max_position_size_percent
+      }%`;
+    }
+
+    if (strategy.max_open_positions) {
+      const openPositions = this.getOpenPositionCount(strategy.id, paper);
+      if (openPositions >= strategy.max_open_positions) {
+        return `open positions ${openPositions} reached max ${strategy.max_open_positions}`;
+      }
+    }
+
+    if (strategy.max_daily_loss) {
+      // Realized PnL of the strategy's positions closed today - only a net loss counts
+      const dailyLoss = -(await this.getDailyLoss(paper, strategy.id));
+      if (dailyLoss > strategy.max_daily_loss) {
+        return `daily loss $${dailyLoss.toFixed(2)} exceeds max $${strategy.max_daily_loss}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Cause of the trip halting the account's trading, null while its circuit breaker is armed
+   */
+  private getCircuitBreakerHalt(paper: boolean): string | null {
+    const db = databaseService.getDatabase();
+    const row = db
+      .prepare(
+        `SELECT t.cause FROM circuit_breaker_state s
+         JOIN circuit_breaker_trips t ON t.id = s.trip_id
+         WHERE s.account = ? AND s.status = 'TRIPPED'`
+      )
+      .get(paper ? 'paper' : 'live') as { cause: string } | undefined;
+
+    return row ? row.cause : null;
+  }
+
+  /**
+   * Sizing mode and value of an entry: the signal's, else the strategy's. percent_balance
+   * without a value of its own uses the strategy's or the global default position size.
+   */
+  private resolveSizing(
+    signal: TradingViewSignal,
+    strategy: StrategyRiskLimits | null,
+    defaultPositionSizePercent: number
+  ): Sizing {
+    if (signal.sizing) {
+      return signal.sizing;
+    }
+
+    const mode = strategy?.sizing_mode ?? 'percent_balance';
+    const value =
+      strategy?.sizing_value ??
+      (mode === 'percent_balance'
+        ? (strategy?.default_position_size_percent ?? defaultPositionSizePercent)
+        : null);
+
+    if (value === null) {
+      throw new ValidationError(`Strategy ${strategy?.name} has sizing mode ${mode} but no value`);
+    }
+
+    return { mode, value };
+  }
+
+  /**
+   * Total equity of the account an order goes to: on spot the quote balance, free and locked,
+   * plus the value of the account's open spot positions; on futures the wallet balance
+   */
+  private async getAccountEquity(
+    signal: TradingViewSignal,
+    paper: boolean,
+    exchange: ExchangeName,
+    tradingType: 'SPOT' | 'FUTURE'
+  ): Promise<number> {
+    const account = this.accountFor(paper, exchange);
+    const { quoteAsset } = await this.symbolRegistry.resolve(signal.symbol, exchange, tradingType);
+
+    if (tradingType === 'FUTURE') {
+      const balance = await account.getFuturesBalance(quoteAsset);
+      return parseFloat(balance.balance);
+    }
+
+    const balance = await account.getBalance(quoteAsset);
+    const positionsValue = await this.getCurrentExposure(paper, 'SPOT');
+    return parseFloat(balance.free) + parseFloat(balance.locked) + positionsValue;
+  }
+
+  /**
+   * Balance, price and leverage an order is sized and checked with: the free quote balance and
+   * spot price on spot, the futures margin and price with the strategy leverage on futures
+   */
+  private async getAccountFunds(
+    signal: TradingViewSignal,
+    paper: boolean,
+    exchange: ExchangeName,
+    tradingType: 'SPOT' | 'FUTURE',
+    strategy: StrategyRiskLimits | null
+  ): Promise<AccountFunds> {
+    const account = this.accountFor(paper, exchange);
+    const { quoteAsset } = await this.symbolRegistry.resolve(signal.symbol, exchange, tradingType);
+
+    if (tradingType === 'FUTURE') {
+      const balance = await account.getFuturesBalance(quoteAsset);
+      return {
+        available: parseFloat(balance.availableBalance),
+        total: parseFloat(balance.balance),
+        price: await account.getFuturesPrice(signal.symbol),
+        // Same default OrderManager opens the position with
+        leverage: strategy?.leverage || 5,
+      };
+    }
+
+    const balance = await account.getBalance(quoteAsset);
+    const available = parseFloat(balance.free);
+    return {
+      available,
+      total: available,
+      price: await account.getPrice(signal.symbol),
+      leverage: 1,
+    };
+  }
 
-    // Default to USDT
-    return 'USDT';
+  private accountFor(
+    paper: boolean,
+    exchange: ExchangeName
+  ): Pick<ExchangeAdapter, 'getBalance' | 'getPrice' | 'getFuturesBalance' | 'getFuturesPrice'> {
+    return paper ? this.paperExchange : this.exchanges.get(exchange);
   }
 
   shouldAllowTrade(): boolean {
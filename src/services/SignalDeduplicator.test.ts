@@ -0,0 +1,90 @@
+import { SignalDeduplicator } from './SignalDeduplicator';
+import { Strategy } from './StrategyService';
+import { TradingViewSignal } from '../api/schemas/webhook.schema';
+import { DuplicateSignalError } from '../utils/errors';
+import databaseService from '../database';
+
+describe('SignalDeduplicator', () => {
+  const deduplicator = new SignalDeduplicator();
+  let now: number;
+
+  const strategy = {
+    id: 'strategy-1',
+    dedupe_fields: ['action', 'symbol', 'price'],
+    dedupe_window_ms: 10000,
+  } as Strategy;
+
+  const signal = (fields: Partial<TradingViewSignal> = {}) =>
+    ({
+      action: 'buy',
+      symbol: 'BTCUSDT',
+      orderType: 'limit',
+      price: 50000,
+      ...fields,
+    }) as TradingViewSignal;
+
+  beforeEach(() => {
+    databaseService.getDatabase().exec('DELETE FROM signal_dedupe_keys;');
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('drops a repeat within the dedupe window', () => {
+    deduplicator.claim('signal-1', signal(), strategy);
+    now += 9999;
+
+    expect(() => deduplicator.claim('signal-2', signal(), strategy)).toThrow(
+      new DuplicateSignalError(
+        'Duplicate signal for BTCUSDT within 10000ms (same as signal signal-1)'
+      )
+    );
+  });
+
+  it('accepts a repeat once the dedupe window has passed', () => {
+    deduplicator.claim('signal-1', signal(), strategy);
+    now += 10000;
+
+    expect(() => deduplicator.claim('signal-2', signal(), strategy)).not.toThrow();
+  });
+
+  it('tells apart signals that differ in a dedupe field', () => {
+    deduplicator.claim('signal-1', signal(), strategy);
+
+    expect(() => deduplicator.claim('signal-2', signal({ price: 50100 }), strategy)).not.toThrow();
+  });
+
+  it('ignores fields that are not dedupe fields', () => {
+    deduplicator.claim('signal-1', signal(), strategy);
+
+    expect(() => deduplicator.claim('signal-2', signal({ orderType: 'market' }), strategy)).toThrow(
+      DuplicateSignalError
+    );
+  });
+
+  it('keeps the signals of each strategy apart', () => {
+    deduplicator.claim('signal-1', signal(), strategy);
+
+    expect(() =>
+      deduplicator.claim('signal-2', signal(), { ...strategy, id: 'strategy-2' })
+    ).not.toThrow();
+  });
+
+  it('drops a reused idempotency key even when the fields differ', () => {
+    deduplicator.claim('signal-1', signal({ idempotencyKey: 'alert-1' }), strategy);
+
+    expect(() =>
+      deduplicator.claim('signal-2', signal({ idempotencyKey: 'alert-1', price: 50100 }), strategy)
+    ).toThrow('Idempotency key alert-1 was already used by signal signal-1');
+  });
+
+  it('only checks idempotency keys with a dedupe window of 0', () => {
+    const keysOnly = { ...strategy, dedupe_window_ms: 0 };
+    deduplicator.claim('signal-1', signal(), keysOnly);
+
+    expect(() => deduplicator.claim('signal-2', signal(), keysOnly)).not.toThrow();
+  });
+});
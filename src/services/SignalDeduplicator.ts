@@ -0,0 +1,67 @@
+import { createModuleLogger } from '../utils/logger';
+import { DuplicateSignalError } from '../utils/errors';
+import { TradingViewSignal } from '../api/schemas/webhook.schema';
+import databaseService from '../database';
+import config from '../config';
+import { Strategy } from './StrategyService';
+
+const logger = createModuleLogger('SignalDeduplicator');
+
+// Used for signals no strategy could be found for
+const NO_STRATEGY_FIELDS = ['action', 'symbol', 'orderType'] as const;
+
+/**
+ * Drops repeated signals. A signal carrying an idempotency key is a duplicate when the same key
+ * was seen for the strategy within IDEMPOTENCY_KEY_TTL_MS; otherwise when a signal for the
+ * strategy matched on its dedupe fields within its dedupe window. Keys live in SQLite, so they
+ * survive restarts.
+ */
+export class SignalDeduplicator {
+  /**
+   * Claim the signal's dedupe key, throwing DuplicateSignalError if it's already taken
+   */
+  claim(signalId: string, signal: TradingViewSignal, strategy: Strategy | null): void {
+    const scope = strategy?.id || 'none';
+    let key: string;
+    let ttlMs: number;
+
+    if (signal.idempotencyKey) {
+      key = `${scope}|key|${signal.idempotencyKey}`;
+      ttlMs = config.trading.idempotencyKeyTtlMs;
+    } else {
+      const fields = strategy?.dedupe_fields || NO_STRATEGY_FIELDS;
+      key = `${scope}|fields|${fields.map((field) => `${field}=${signal[field] ?? ''}`).join('&')}`;
+      ttlMs = strategy?.dedupe_window_ms ?? config.trading.preventDuplicatesWindowMs;
+    }
+
+    if (ttlMs <= 0) {
+      return;
+    }
+
+    const db = databaseService.getDatabase();
+    const now = Date.now();
+
+    db.prepare('DELETE FROM signal_dedupe_keys WHERE expires_at <= ?').run(now);
+
+    const result = db
+      .prepare(
+        `INSERT OR IGNORE INTO signal_dedupe_keys (dedupe_key, strategy_id, signal_id, expires_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(key, strategy?.id || null, signalId, now + ttlMs);
+
+    if (result.changes === 0) {
+      const original = db
+        .prepare('SELECT signal_id FROM signal_dedupe_keys WHERE dedupe_key = ?')
+        .get(key) as { signal_id: string };
+
+      logger.warn('Duplicate signal detected', { key, originalSignalId: original.signal_id });
+
+      throw new DuplicateSignalError(
+        signal.idempotencyKey
+          ? `Idempotency key ${signal.idempotencyKey} was already used by signal ${original.signal_id}`
+          : `Duplicate signal for ${signal.symbol} within ${ttlMs}ms (same as signal ${original.signal_id})`
+      );
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { SignalProcessor } from './SignalProcessor';
+import { Strategy, StrategyService } from './StrategyService';
+import { SymbolRegistry } from './SymbolRegistry';
+import { tradingViewSignalSchema } from '../api/schemas/webhook.schema';
+import { StaleSignalError } from '../utils/errors';
+import databaseService from '../database';
+
+describe('SignalProcessor', () => {
+  describe('signal freshness', () => {
+    const now = new Date('2026-03-01T12:00:00Z').getTime();
+    let processor: SignalProcessor;
+    let strategy: Strategy;
+
+    const ago = (ms: number) => new Date(now - ms).toISOString();
+
+    // A buy sent through the webhook schema, as the webhook route does
+    const process = (times: Record<string, unknown>) =>
+      processor.processSignal(
+        tradingViewSignalSchema.parse({
+          action: 'buy',
+          symbol: 'BTCUSDT',
+          orderType: 'market',
+          ...times,
+        }),
+        strategy
+      );
+
+    beforeEach(() => {
+      databaseService
+        .getDatabase()
+        .exec('DELETE FROM signal_dedupe_keys; DELETE FROM signals; DELETE FROM strategies;');
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      strategy = new StrategyService().createStrategy({
+        name: 'Breakout',
+        type: 'automatic',
+        dedupe_window_ms: 0,
+        max_signal_age_ms: 60000,
+      });
+      processor = new SignalProcessor({
+        resolve: async (symbol: string) => ({ symbol }),
+      } as unknown as SymbolRegistry);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('accepts an alert fired within the max age', async () => {
+      await expect(process({ timenow: ago(59000) })).resolves.toMatchObject({
+        strategyId: strategy.id,
+      });
+    });
+
+    it('rejects an alert fired before the max age', async () => {
+      await expect(process({ timenow: ago(90000) })).rejects.toThrow(
+        new StaleSignalError('Signal is 90s old (from alert time), strategy Breakout allows 60s')
+      );
+    });
+
+    it('takes the age from the close of the bar', async () => {
+      // A 15 minute bar opened 16 minutes ago closed a minute ago
+      await expect(process({ time: ago(16 * 60000), interval: '15' })).resolves.toBeDefined();
+      await expect(process({ time: ago(17 * 60000), interval: '15' })).rejects.toThrow(
+        'Signal is 120s old (from bar close), strategy Breakout allows 60s'
+      );
+    });
+
+    it('takes the age from the bar open time without an interval', async () => {
+      await expect(process({ time: ago(16 * 60000) })).rejects.toThrow(
+        'Signal is 960s old (from bar time), strategy Breakout allows 60s'
+      );
+    });
+
+    it('prefers the alert time over the bar time', async () => {
+      await expect(process({ time: ago(16 * 60000), timenow: ago(1000) })).resolves.toBeDefined();
+    });
+
+    it('accepts an alert time ahead of the server clock', async () => {
+      await expect(process({ timenow: ago(-5000) })).resolves.toBeDefined();
+    });
+
+    it('accepts epoch times', async () => {
+      await expect(process({ timenow: Math.floor((now - 30000) / 1000) })).resolves.toBeDefined();
+      await expect(process({ timenow: now - 90000 })).rejects.toThrow(StaleSignalError);
+    });
+
+    it('lets a signal without a time through', async () => {
+      await expect(process({})).resolves.toBeDefined();
+    });
+
+    it('leaves the age unchecked when the strategy has no max age', async () => {
+      strategy = new StrategyService().updateStrategy(strategy.id, { max_signal_age_ms: null })!;
+
+      await expect(process({ timenow: ago(24 * 60 * 60000) })).resolves.toBeDefined();
+    });
+
+    it('rejects a time the schema cannot parse', () => {
+      expect(() =>
+        tradingViewSignalSchema.parse({ action: 'buy', symbol: 'BTCUSDT', timenow: 'soon' })
+      ).toThrow('Time must be an ISO 8601 date or an epoch time');
+    });
+  });
+});
@@ -1,10 +1,13 @@
 import { v4 as uuidv4 } from 'uuid';
 import { createModuleLogger } from '../utils/logger';
-import { TradingViewSignal } from '../api/schemas/webhook.schema';
-import { DuplicateSignalError, ValidationError } from '../utils/errors';
+import { CLOSE_ACTIONS, TradingViewSignal } from '../api/schemas/webhook.schema';
+import { InvalidSymbolError, StaleSignalError, ValidationError } from '../utils/errors';
+import { intervalToMs } from '../utils/tradingViewTime';
 import databaseService from '../database';
-import config from '../config';
-import { StrategyService } from './StrategyService';
+import { Strategy, StrategyService } from './StrategyService';
+import { SignalDeduplicator } from './SignalDeduplicator';
+import { SymbolRegistry } from './SymbolRegistry';
+import { DEFAULT_EXCHANGE } from './exchange/ExchangeAdapter';
 
 const logger = createModuleLogger('SignalProcessor');
 
@@ -19,45 +22,60 @@ interface SignalRecord {
 
 export interface ProcessSignalResult {
   signalId: string;
+  signal: TradingViewSignal; // As accepted, with the symbol resolved for the venue
   strategyId: string | null;
   strategyType: 'automatic' | 'manual' | null;
   requiresApproval: boolean;
 }
 
 export class SignalProcessor {
-  private recentSignals: Map<string, number> = new Map();
   private strategyService: StrategyService;
+  private deduplicator: SignalDeduplicator;
 
-  constructor() {
+  constructor(private symbolRegistry: SymbolRegistry) {
     this.strategyService = new StrategyService();
+    this.deduplicator = new SignalDeduplicator();
   }
 
-  async processSignal(signal: TradingViewSignal): Promise<ProcessSignalResult> {
+  /**
+   * Record a signal and route it to a strategy. Signals from a strategy's own webhook endpoint
+   * pass that strategy; others are routed by the strategy name they carry.
+   */
+  async processSignal(
+    signal: TradingViewSignal,
+    endpointStrategy?: Strategy
+  ): Promise<ProcessSignalResult> {
     const signalId = uuidv4();
 
     try {
       logger.info('Processing trading signal', { signalId, signal });
 
-      // Check for duplicates
-      if (this.isDuplicate(signal)) {
-        logger.warn('Duplicate signal detected', { signal });
-        throw new DuplicateSignalError(
-          `Duplicate signal for ${signal.symbol} within ${config.trading.preventDuplicatesWindowMs}ms`
-        );
-      }
-
       // Validate signal
       this.validateSignal(signal);
 
       // Determine strategy
-      const { strategyId, strategyType, requiresApproval } = this.determineStrategy(signal);
+      const { strategy, strategyId, strategyType, requiresApproval } = this.determineStrategy(
+        signal,
+        endpointStrategy
+      );
+
+      // Spot positions are long only, so there's nothing to reverse into
+      if (signal.action === 'reverse' && strategy?.trading_type !== 'FUTURE') {
+        throw new ValidationError('Reverse needs a futures strategy');
+      }
+
+      // Reject signals that arrive too late for the strategy
+      this.checkFreshness(signal, strategy);
+
+      // Turn the ticker into the venue's symbol, rejecting unknown or halted ones
+      signal = { ...signal, symbol: await this.resolveSymbol(signal.symbol, strategy) };
+
+      // Check for duplicates - duplicates are judged per strategy
+      this.deduplicator.claim(signalId, signal, strategy);
 
       // Save signal to database with strategy
       this.saveSignal(signalId, signal, undefined, strategyId);
 
-      // Mark as recent
-      this.markAsRecent(signal);
-
       logger.info('Signal processed successfully', {
         signalId,
         strategyId,
@@ -67,6 +85,7 @@ export class SignalProcessor {
 
       return {
         signalId,
+        signal,
         strategyId,
         strategyType,
         requiresApproval,
@@ -84,24 +103,54 @@ export class SignalProcessor {
   /**
    * Determine which strategy to use for the signal
    */
-  private determineStrategy(signal: TradingViewSignal): {
+  private determineStrategy(
+    signal: TradingViewSignal,
+    endpointStrategy?: Strategy
+  ): {
+    strategy: Strategy | null;
     strategyId: string | null;
     strategyType: 'automatic' | 'manual' | null;
     requiresApproval: boolean;
   } {
+    // The endpoint fixes the strategy - no falling back to the default one
+    if (endpointStrategy && !endpointStrategy.enabled) {
+      throw new ValidationError(`Strategy ${endpointStrategy.name} is disabled`);
+    }
+
+    const strategy = endpointStrategy || this.resolveStrategy(signal.strategy);
+
+    if (!strategy) {
+      logger.warn('No strategy found, signal will be processed without strategy');
+      return {
+        strategy: null,
+        strategyId: null,
+        strategyType: null,
+        requiresApproval: false, // Default to automatic if no strategy
+      };
+    }
+
+    return {
+      strategy,
+      strategyId: strategy.id,
+      strategyType: strategy.type,
+      requiresApproval: strategy.type === 'manual',
+    };
+  }
+
+  /**
+   * Strategy a signal naming this strategy is routed to - the named one if it exists and is
+   * enabled, otherwise the default automatic strategy
+   */
+  resolveStrategy(strategyName?: string): Strategy | null {
     let strategy = null;
 
     // If signal specifies a strategy name, try to find it
-    if (signal.strategy) {
-      strategy = this.strategyService.getStrategyByName(signal.strategy);
+    if (strategyName) {
+      strategy = this.strategyService.getStrategyByName(strategyName);
       if (!strategy) {
-        logger.warn('Strategy not found, using default', {
-          strategyName: signal.strategy,
-        });
+        logger.warn('Strategy not found, using default', { strategyName });
       } else if (!strategy.enabled) {
-        logger.warn('Strategy is disabled, using default', {
-          strategyName: signal.strategy,
-        });
+        logger.warn('Strategy is disabled, using default', { strategyName });
         strategy = null;
       }
     }
@@ -118,20 +167,7 @@ export class SignalProcessor {
       }
     }
 
-    if (!strategy) {
-      logger.warn('No strategy found, signal will be processed without strategy');
-      return {
-        strategyId: null,
-        strategyType: null,
-        requiresApproval: false, // Default to automatic if no strategy
-      };
-    }
-
-    return {
-      strategyId: strategy.id,
-      strategyType: strategy.type,
-      requiresApproval: strategy.type === 'manual',
-    };
+    return strategy;
   }
 
   validateSignal(signal: TradingViewSignal): void {
@@ -140,14 +176,35 @@ export class SignalProcessor {
       throw new ValidationError('Price is required for limit orders');
     }
 
+    // Percent sizes an exit - entries are sized by quantity or the risk settings
+    if (signal.percent !== undefined) {
+      if (!CLOSE_ACTIONS.includes(signal.action)) {
+        throw new ValidationError(
+          `Percent only applies to close, close_long and close_short, not ${signal.action}`
+        );
+      }
+
+      if (signal.quantity !== undefined) {
+        throw new ValidationError('A close takes either quantity or percent, not both');
+      }
+    }
+
+    if (signal.takeProfits && CLOSE_ACTIONS.includes(signal.action)) {
+      throw new ValidationError('Take-profits only apply to signals that open a position');
+    }
+
+    if (signal.trailingStop && CLOSE_ACTIONS.includes(signal.action)) {
+      throw new ValidationError('Trailing stops only apply to signals that open a position');
+    }
+
     // Validate close action doesn't need price/quantity
-    if (signal.action === 'close') {
+    if (CLOSE_ACTIONS.includes(signal.action)) {
       // Close action is valid, no additional validation needed
       return;
     }
 
     // Validate buy/sell action
-    if (signal.action === 'buy' || signal.action === 'sell') {
+    if (signal.action === 'buy' || signal.action === 'sell' || signal.action === 'reverse') {
       // Quantity is optional, will be calculated based on config if not provided
       if (signal.quantity && signal.quantity <= 0) {
         throw new ValidationError('Quantity must be positive');
@@ -163,38 +220,65 @@ export class SignalProcessor {
     }
   }
 
-  isDuplicate(signal: TradingViewSignal): boolean {
-    const key = this.getSignalKey(signal);
-    const lastTime = this.recentSignals.get(key);
-
-    if (!lastTime) {
-      return false;
-    }
-
-    const timeSinceLastSignal = Date.now() - lastTime;
-    return timeSinceLastSignal < config.trading.preventDuplicatesWindowMs;
-  }
+  /**
+   * Venue symbol for the signal's ticker on the strategy's exchange and market. If the exchange
+   * info can't be fetched, the ticker is only normalised - orders still check the symbol.
+   */
+  private async resolveSymbol(ticker: string, strategy: Strategy | null): Promise<string> {
+    try {
+      const resolved = await this.symbolRegistry.resolve(
+        ticker,
+        strategy?.exchange || DEFAULT_EXCHANGE,
+        strategy?.trading_type || 'SPOT'
+      );
+
+      if (resolved.symbol !== ticker) {
+        logger.info('Signal symbol resolved', { ticker, symbol: resolved.symbol });
+      }
 
-  private markAsRecent(signal: TradingViewSignal): void {
-    const key = this.getSignalKey(signal);
-    this.recentSignals.set(key, Date.now());
+      return resolved.symbol;
+    } catch (error) {
+      if (error instanceof InvalidSymbolError) {
+        throw error;
+      }
 
-    // Cleanup old entries
-    this.cleanupRecentSignals();
+      logger.warn('Exchange info unavailable, symbol not checked', { ticker, error });
+      return this.symbolRegistry.normalize(ticker);
+    }
   }
 
-  private getSignalKey(signal: TradingViewSignal): string {
-    return `${signal.action}-${signal.symbol}-${signal.orderType}`;
-  }
+  /**
+   * Reject a signal older than the strategy's max age. Its age runs from when the alert fired
+   * (timenow), else from the close of its bar (time + interval), else from the bar's open time;
+   * signals without any of these can't be checked and are let through.
+   */
+  private checkFreshness(signal: TradingViewSignal, strategy: Strategy | null): void {
+    const maxAgeMs = strategy?.max_signal_age_ms;
+    if (!maxAgeMs) {
+      return;
+    }
 
-  private cleanupRecentSignals(): void {
-    const now = Date.now();
-    const threshold = config.trading.preventDuplicatesWindowMs;
+    let sentAt: number;
+    let reference: string;
+
+    if (signal.timenow) {
+      sentAt = Date.parse(signal.timenow);
+      reference = 'alert time';
+    } else if (signal.time) {
+      const barMs = signal.interval ? intervalToMs(signal.interval) : null;
+      sentAt = Date.parse(signal.time) + (barMs || 0);
+      reference = barMs ? 'bar close' : 'bar time';
+    } else {
+      logger.debug('Signal carries no time, freshness not checked', { symbol: signal.symbol });
+      return;
+    }
 
-    for (const [key, timestamp] of this.recentSignals.entries()) {
-      if (now - timestamp > threshold) {
-        this.recentSignals.delete(key);
-      }
+    const ageMs = Date.now() - sentAt;
+    if (ageMs > maxAgeMs) {
+      logger.warn('Stale signal rejected', { symbol: signal.symbol, ageMs, maxAgeMs });
+      throw new StaleSignalError(
+        `Signal is ${Math.round(ageMs / 1000)}s old (from ${reference}), strategy ${strategy!.name} allows ${Math.round(maxAgeMs / 1000)}s`
+      );
     }
   }
 
@@ -207,8 +291,8 @@ export class SignalProcessor {
     const db = databaseService.getDatabase();
 
     const stmt = db.prepare(`
-      INSERT INTO signals (id, strategy_id, action, symbol, payload, processed, error_message)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO signals (id, strategy_id, action, symbol, payload, processed, error_message, bar_time, fired_at, bar_interval)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -218,7 +302,10 @@ export class SignalProcessor {
       signal.symbol,
       JSON.stringify(signal),
       errorMessage ? 0 : 1,
-      errorMessage || null
+      errorMessage || null,
+      signal.time || null,
+      signal.timenow || null,
+      signal.interval || null
     );
   }
 
@@ -238,6 +325,14 @@ export class SignalProcessor {
     stmt.run(errorMessage ? 0 : 1, orderId || null, errorMessage || null, signalId);
   }
 
+  /**
+   * Record which side of the open position a close or reverse signal acted on
+   */
+  recordPositionSide(signalId: string, side: 'LONG' | 'SHORT'): void {
+    const db = databaseService.getDatabase();
+    db.prepare('UPDATE signals SET position_side = ? WHERE id = ?').run(side, signalId);
+  }
+
   async getRecentSignals(limit = 100): Promise<SignalRecord[]> {
     const db = databaseService.getDatabase();
 
@@ -0,0 +1,189 @@
+import { SignalQueue } from './SignalQueue';
+import { OrderManager, UNCONFIRMED_ORDER_AGE_MS } from './OrderManager';
+import { TradingViewSignal } from '../api/schemas/webhook.schema';
+import { BinanceApiError, RiskLimitExceededError } from '../utils/errors';
+import databaseService from '../database';
+
+describe('SignalQueue', () => {
+  let orderManager: { executeFromSignal: jest.Mock; recoverUnconfirmedOrder: jest.Mock };
+  let queue: SignalQueue;
+
+  const db = () => databaseService.getDatabase();
+
+  const enqueue = (signalId: string, symbol = 'BTCUSDT') => {
+    const signal = { action: 'buy', symbol, orderType: 'market' } as TradingViewSignal;
+
+    db()
+      .prepare('INSERT INTO signals (id, action, symbol, payload) VALUES (?, ?, ?, ?)')
+      .run(signalId, 'buy', symbol, JSON.stringify(signal));
+
+    return queue.enqueue(signalId, null, signal);
+  };
+
+  const recordOrder = (
+    id: string,
+    signalId: string,
+    fields: { exchangeOrderId?: string; signalLeg?: 'close' | 'entry'; ageMs?: number } = {}
+  ) => {
+    db()
+      .prepare(
+        `INSERT INTO orders (id, binance_order_id, client_order_id, symbol, side, type, quantity,
+           status, signal_id, signal_leg, created_at)
+         VALUES (?, ?, ?, 'BTCUSDT', 'BUY', 'MARKET', 0.01, ?, ?, ?,
+           strftime('%Y-%m-%d %H:%M:%f', 'now', ?))`
+      )
+      .run(
+        id,
+        fields.exchangeOrderId ?? null,
+        `client-${id}`,
+        fields.exchangeOrderId ? 'FILLED' : 'NEW',
+        signalId,
+        fields.signalLeg ?? null,
+        `-${(fields.ageMs ?? 0) / 1000} seconds`
+      );
+  };
+
+  beforeEach(() => {
+    db().exec('DELETE FROM signal_jobs; DELETE FROM orders; DELETE FROM signals;');
+
+    orderManager = {
+      executeFromSignal: jest.fn().mockResolvedValue('order-1'),
+      recoverUnconfirmedOrder: jest.fn(),
+    };
+    queue = new SignalQueue(orderManager as unknown as OrderManager, {
+      maxAttempts: 2,
+      retryDelayMs: 1000,
+      maxRetryDelayMs: 1000,
+    });
+  });
+
+  it('runs a job and records the order it placed', async () => {
+    const job = enqueue('signal-1');
+
+    await queue.drain();
+
+    expect(orderManager.executeFromSignal).toHaveBeenCalledWith(
+      'signal-1',
+      { action: 'buy', symbol: 'BTCUSDT', orderType: 'market' },
+      null
+    );
+    expect(queue.getJob(job.id)).toMatchObject({
+      status: 'COMPLETED',
+      attempts: 1,
+      order_id: 'order-1',
+      locked_by: null,
+    });
+  });
+
+  it('retries failures later until the attempts run out', async () => {
+    orderManager.executeFromSignal.mockRejectedValue(new BinanceApiError('Exchange unavailable'));
+    const job = enqueue('signal-1');
+
+    await queue.drain();
+
+    expect(queue.getJob(job.id)).toMatchObject({
+      status: 'PENDING',
+      attempts: 1,
+      last_error: 'Exchange unavailable',
+    });
+
+    // Make the retry due now
+    db().prepare("UPDATE signal_jobs SET next_run_at = datetime('now')").run();
+    await queue.drain();
+
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'DEAD', attempts: 2 });
+    expect(orderManager.executeFromSignal).toHaveBeenCalledTimes(2);
+  });
+
+  it('moves rejections to the dead letter without retrying', async () => {
+    orderManager.executeFromSignal.mockRejectedValue(
+      new RiskLimitExceededError('Daily loss limit reached')
+    );
+    const job = enqueue('signal-1');
+
+    await queue.drain();
+
+    expect(queue.getJob(job.id)).toMatchObject({
+      status: 'DEAD',
+      attempts: 1,
+      last_error: 'Daily loss limit reached',
+    });
+  });
+
+  it('requeues a dead job with fresh attempts', async () => {
+    orderManager.executeFromSignal.mockRejectedValueOnce(new RiskLimitExceededError('Too large'));
+    const job = enqueue('signal-1');
+    await queue.drain();
+
+    expect(queue.retryJob(job.id)).toMatchObject({ status: 'PENDING', attempts: 0 });
+    await queue.drain();
+
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'COMPLETED', order_id: 'order-1' });
+    expect(queue.retryJob(job.id)).toBeNull();
+  });
+
+  it('holds later jobs for a symbol until the earlier one finishes', async () => {
+    orderManager.executeFromSignal.mockRejectedValueOnce(new BinanceApiError('Timeout'));
+    const first = enqueue('signal-1');
+    const second = enqueue('signal-2');
+    const other = enqueue('signal-3', 'ETHUSDT');
+
+    await queue.drain();
+
+    expect(queue.getJob(first.id)!.status).toBe('PENDING');
+    expect(queue.getJob(second.id)).toMatchObject({ status: 'PENDING', attempts: 0 });
+    expect(queue.getJob(other.id)!.status).toBe('COMPLETED');
+  });
+
+  describe('after an earlier attempt', () => {
+    it('completes without running again when an order was placed', async () => {
+      const job = enqueue('signal-1');
+      recordOrder('placed-order', 'signal-1', { exchangeOrderId: '123' });
+
+      await queue.drain();
+
+      expect(orderManager.executeFromSignal).not.toHaveBeenCalled();
+      expect(queue.getJob(job.id)).toMatchObject({
+        status: 'COMPLETED',
+        order_id: 'placed-order',
+      });
+    });
+
+    it('runs again when only the close leg of a reverse was placed', async () => {
+      const job = enqueue('signal-1');
+      recordOrder('close-order', 'signal-1', { exchangeOrderId: '123', signalLeg: 'close' });
+
+      await queue.drain();
+
+      expect(orderManager.executeFromSignal).toHaveBeenCalledTimes(1);
+      expect(queue.getJob(job.id)).toMatchObject({ status: 'COMPLETED', order_id: 'order-1' });
+    });
+
+    it('waits on a recent order it never heard back about without using an attempt', async () => {
+      const job = enqueue('signal-1');
+      recordOrder('unconfirmed-order', 'signal-1');
+
+      await queue.drain();
+
+      expect(orderManager.executeFromSignal).not.toHaveBeenCalled();
+      expect(orderManager.recoverUnconfirmedOrder).not.toHaveBeenCalled();
+      expect(queue.getJob(job.id)).toMatchObject({ status: 'PENDING', attempts: 0 });
+    });
+
+    it('looks up an older unconfirmed order and runs again if it never arrived', async () => {
+      const job = enqueue('signal-1');
+      recordOrder('unconfirmed-order', 'signal-1', { ageMs: UNCONFIRMED_ORDER_AGE_MS + 1000 });
+      orderManager.recoverUnconfirmedOrder.mockImplementation(async ({ id }: { id: string }) => {
+        db().prepare("UPDATE orders SET status = 'REJECTED' WHERE id = ?").run(id);
+      });
+
+      await queue.drain();
+
+      expect(orderManager.recoverUnconfirmedOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'unconfirmed-order' })
+      );
+      expect(orderManager.executeFromSignal).toHaveBeenCalledTimes(1);
+      expect(queue.getJob(job.id)).toMatchObject({ status: 'COMPLETED', order_id: 'order-1' });
+    });
+  });
+});
@@ -0,0 +1,402 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { createModuleLogger } from '../utils/logger';
+import { TradingError } from '../utils/errors';
+import { TradingViewSignal } from '../api/schemas/webhook.schema';
+import { OrderManager, OrderRecord, UNCONFIRMED_ORDER_AGE_MS } from './OrderManager';
+import databaseService from '../database';
+import config from '../config';
+
+const logger = createModuleLogger('SignalQueue');
+
+// A job still RUNNING after this long belongs to a worker that died (restart, crash)
+const JOB_LEASE_MS = 5 * 60 * 1000;
+
+export type SignalJobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'DEAD';
+
+export interface SignalJob {
+  id: string;
+  signal_id: string;
+  strategy_id: string | null;
+  symbol: string;
+  payload: string;
+  status: SignalJobStatus;
+  attempts: number;
+  max_attempts: number;
+  next_run_at: string;
+  locked_by: string | null;
+  locked_at: string | null;
+  order_id: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface SignalQueueOptions {
+  pollIntervalMs?: number;
+  maxAttempts?: number;
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+}
+
+/**
+ * Durable queue for executing automatic signals. Webhooks enqueue a job in SQLite and a
+ * worker in each process picks jobs up, so signals survive restarts and exchange outages.
+ * Jobs for the same symbol run one at a time in the order they were received.
+ */
+export class SignalQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private draining = false;
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+
+  private readonly pollIntervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+
+  constructor(
+    private orderManager: OrderManager,
+    options: SignalQueueOptions = {}
+  ) {
+    this.pollIntervalMs = options.pollIntervalMs ?? config.signalQueue.pollIntervalMs;
+    this.maxAttempts = options.maxAttempts ?? config.signalQueue.maxAttempts;
+    this.retryDelayMs = options.retryDelayMs ?? config.signalQueue.retryDelayMs;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? config.signalQueue.maxRetryDelayMs;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    // Pick up jobs left behind by a previous run before taking new ones
+    this.releaseExpiredJobs();
+
+    this.timer = setInterval(() => this.drain(), this.pollIntervalMs);
+    logger.info('Signal queue worker started', {
+      workerId: this.workerId,
+      pollIntervalMs: this.pollIntervalMs,
+    });
+
+    void this.drain();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Signal queue worker stopped');
+    }
+  }
+
+  /**
+   * Store a signal for execution. Once this returns the signal is durable.
+   */
+  enqueue(signalId: string, strategyId: string | null, signal: TradingViewSignal): SignalJob {
+    const db = databaseService.getDatabase();
+    const id = uuidv4();
+
+    db.prepare(
+      `INSERT INTO signal_jobs (id, signal_id, strategy_id, symbol, payload, max_attempts)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(id, signalId, strategyId, signal.symbol, JSON.stringify(signal), this.maxAttempts);
+
+    logger.info('Signal job enqueued', { jobId: id, signalId, symbol: signal.symbol });
+
+    // Run it right away instead of waiting for the next poll
+    if (this.timer) {
+      setImmediate(() => void this.drain());
+    }
+
+    return this.getJob(id)!;
+  }
+
+  getJob(id: string): SignalJob | null {
+    const db = databaseService.getDatabase();
+    return (db.prepare('SELECT * FROM signal_jobs WHERE id = ?').get(id) as SignalJob) || null;
+  }
+
+  getJobs(filters: { status?: SignalJobStatus; limit?: number } = {}): SignalJob[] {
+    const db = databaseService.getDatabase();
+
+    let query = 'SELECT * FROM signal_jobs';
+    const params: (string | number)[] = [];
+
+    if (filters.status) {
+      query += ' WHERE status = ?';
+      params.push(filters.status);
+    }
+
+    query += ' ORDER BY created_at DESC, rowid DESC LIMIT ?';
+    params.push(filters.limit || 100);
+
+    return db.prepare(query).all(...params) as SignalJob[];
+  }
+
+  /**
+   * Put a dead job back in the queue with a fresh set of attempts
+   */
+  retryJob(id: string): SignalJob | null {
+    const db = databaseService.getDatabase();
+
+    const result = db
+      .prepare(
+        `UPDATE signal_jobs
+         SET status = 'PENDING', attempts = 0, next_run_at = datetime('now'), last_error = NULL,
+             locked_by = NULL, locked_at = NULL, completed_at = NULL
+         WHERE id = ? AND status = 'DEAD'`
+      )
+      .run(id);
+
+    if (result.changes === 0) {
+      return null;
+    }
+
+    logger.info('Signal job requeued', { jobId: id });
+
+    if (this.timer) {
+      setImmediate(() => void this.drain());
+    }
+
+    return this.getJob(id);
+  }
+
+  /**
+   * Run due jobs until none are left
+   */
+  async drain(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+
+    this.draining = true;
+    try {
+      this.releaseExpiredJobs();
+
+      let job = this.claimNextJob();
+      while (job) {
+        await this.runJob(job);
+        job = this.claimNextJob();
+      }
+    } catch (error) {
+      logger.error('Signal queue drain failed', { error });
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async runJob(job: SignalJob): Promise<void> {
+    logger.info('Running signal job', {
+      jobId: job.id,
+      signalId: job.signal_id,
+      attempt: job.attempts,
+    });
+
+    // An earlier attempt that got as far as placing an order must not be repeated - the order
+    // tracker resolves that order. One the attempt never heard back about is looked up on the
+    // exchange first, once it's had time to arrive: if it never did, the signal runs again.
+    let placedOrderId: string | null;
+    try {
+      const placed = await this.findPlacedOrder(job.signal_id);
+
+      if (placed?.waitMs) {
+        this.deferJob(job, placed.waitMs, 'Waiting to confirm the order of an earlier attempt');
+        return;
+      }
+
+      placedOrderId = placed?.id ?? null;
+    } catch (error) {
+      this.failJob(job, error as Error);
+      return;
+    }
+
+    if (placedOrderId) {
+      logger.warn('Signal job already placed an order, not running it again', {
+        jobId: job.id,
+        orderId: placedOrderId,
+      });
+      this.completeJob(job, placedOrderId);
+      return;
+    }
+
+    try {
+      const orderId = await this.orderManager.executeFromSignal(
+        job.signal_id,
+        JSON.parse(job.payload),
+        job.strategy_id
+      );
+      this.completeJob(job, orderId);
+    } catch (error) {
+      this.failJob(job, error as Error);
+    }
+  }
+
+  private completeJob(job: SignalJob, orderId: string): void {
+    const db = databaseService.getDatabase();
+
+    db.prepare(
+      `UPDATE signal_jobs
+       SET status = 'COMPLETED', order_id = ?, locked_by = NULL, locked_at = NULL,
+           completed_at = CURRENT_TIMESTAMP
+       WHERE id = ?`
+    ).run(orderId, job.id);
+
+    logger.info('Signal job completed', { jobId: job.id, signalId: job.signal_id, orderId });
+  }
+
+  /**
+   * Put a job back in the queue without using up an attempt
+   */
+  private deferJob(job: SignalJob, delayMs: number, reason: string): void {
+    const db = databaseService.getDatabase();
+
+    db.prepare(
+      `UPDATE signal_jobs
+       SET status = 'PENDING', attempts = attempts - 1, last_error = ?, locked_by = NULL,
+           locked_at = NULL, next_run_at = datetime('now', ?)
+       WHERE id = ?`
+    ).run(reason, `+${Math.ceil(delayMs / 1000)} seconds`, job.id);
+
+    logger.info('Signal job deferred', { jobId: job.id, delayMs, reason });
+  }
+
+  private failJob(job: SignalJob, error: Error): void {
+    const db = databaseService.getDatabase();
+
+    // Rejections (risk limits, invalid orders, the exchange turning an order down) fail the same
+    // way every time
+    const retryable = !(error instanceof TradingError && error.statusCode < 500);
+
+    if (retryable && job.attempts < job.max_attempts) {
+      const delayMs = Math.min(
+        this.retryDelayMs * Math.pow(2, job.attempts - 1),
+        this.maxRetryDelayMs
+      );
+
+      db.prepare(
+        `UPDATE signal_jobs
+         SET status = 'PENDING', last_error = ?, locked_by = NULL, locked_at = NULL,
+             next_run_at = datetime('now', ?)
+         WHERE id = ?`
+      ).run(error.message, `+${Math.ceil(delayMs / 1000)} seconds`, job.id);
+
+      logger.warn('Signal job failed, will retry', {
+        jobId: job.id,
+        attempt: job.attempts,
+        maxAttempts: job.max_attempts,
+        delayMs,
+        error: error.message,
+      });
+      return;
+    }
+
+    db.prepare(
+      `UPDATE signal_jobs
+       SET status = 'DEAD', last_error = ?, locked_by = NULL, locked_at = NULL,
+           completed_at = CURRENT_TIMESTAMP
+       WHERE id = ?`
+    ).run(error.message, job.id);
+
+    logger.error('Signal job moved to dead letter', {
+      jobId: job.id,
+      signalId: job.signal_id,
+      attempts: job.attempts,
+      retryable,
+      error: error.message,
+    });
+  }
+
+  /**
+   * Lock the oldest due job whose symbol has no earlier job still waiting or running.
+   * Runs as one immediate transaction so workers in other processes can't claim it too.
+   */
+  private claimNextJob(): SignalJob | null {
+    const db = databaseService.getDatabase();
+
+    return db
+      .transaction(() => {
+        const job = db
+          .prepare(
+            `SELECT * FROM signal_jobs j
+             WHERE j.status = 'PENDING' AND j.next_run_at <= datetime('now')
+               AND NOT EXISTS (
+                 SELECT 1 FROM signal_jobs e
+                 WHERE e.symbol = j.symbol AND e.id != j.id
+                   AND (e.status = 'RUNNING' OR (e.status = 'PENDING' AND e.rowid < j.rowid))
+               )
+             ORDER BY j.rowid
+             LIMIT 1`
+          )
+          .get() as SignalJob | undefined;
+
+        if (!job) {
+          return null;
+        }
+
+        db.prepare(
+          `UPDATE signal_jobs
+           SET status = 'RUNNING', attempts = attempts + 1, locked_by = ?,
+               locked_at = CURRENT_TIMESTAMP
+           WHERE id = ?`
+        ).run(this.workerId, job.id);
+
+        return { ...job, status: 'RUNNING' as const, attempts: job.attempts + 1 };
+      })
+      .immediate();
+  }
+
+  /**
+   * Return jobs held by workers that stopped without finishing them to the queue
+   */
+  private releaseExpiredJobs(): void {
+    const db = databaseService.getDatabase();
+
+    const result = db
+      .prepare(
+        `UPDATE signal_jobs
+         SET status = 'PENDING', locked_by = NULL, locked_at = NULL,
+             last_error = COALESCE(last_error, 'Worker stopped while running the job')
+         WHERE status = 'RUNNING' AND locked_at <= datetime('now', ?)`
+      )
+      .run(`-${Math.ceil(JOB_LEASE_MS / 1000)} seconds`);
+
+    if (result.changes > 0) {
+      logger.warn('Requeued signal jobs from stopped workers', { count: result.changes });
+    }
+  }
+
+  /**
+   * The order an earlier attempt placed for a signal. An order still unconfirmed comes back
+   * with how long until it may be looked up; after that it's looked up on the exchange, and
+   * one that never arrived there is rejected and no longer counts. The close leg of a reverse
+   * doesn't finish the job on its own - the retry sends the missing entry leg.
+   */
+  private async findPlacedOrder(signalId: string): Promise<{ id: string; waitMs?: number } | null> {
+    const db = databaseService.getDatabase();
+
+    const orders = db
+      .prepare(
+        `SELECT *, (julianday('now') - julianday(created_at)) * 86400000 AS age_ms
+         FROM orders WHERE signal_id = ? AND status != 'REJECTED' ORDER BY created_at`
+      )
+      .all(signalId) as (OrderRecord & { age_ms: number })[];
+
+    const unconfirmed = orders.find(
+      (order) =>
+        order.status === 'NEW' && order.binance_order_id === null && order.client_order_id !== null
+    );
+
+    if (unconfirmed) {
+      if (unconfirmed.age_ms < UNCONFIRMED_ORDER_AGE_MS) {
+        return { id: unconfirmed.id, waitMs: UNCONFIRMED_ORDER_AGE_MS - unconfirmed.age_ms };
+      }
+
+      await this.orderManager.recoverUnconfirmedOrder(unconfirmed);
+      return this.findPlacedOrder(signalId);
+    }
+
+    const placed = orders.find((order) => order.signal_leg !== 'close');
+    return placed ? { id: placed.id } : null;
+  }
+}
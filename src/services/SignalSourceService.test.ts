@@ -0,0 +1,103 @@
+import { SignalSourceService } from './SignalSourceService';
+import { signalMappingSchema } from '../api/schemas/signalMapping.schema';
+
+describe('SignalSourceService', () => {
+  describe('mapPayload', () => {
+    const service = new SignalSourceService();
+
+    const map = (mapping: Record<string, unknown>, payload: unknown) =>
+      service.mapPayload(signalMappingSchema.parse(mapping), payload);
+
+    it('maps fields from paths into the payload', () => {
+      const signal = map(
+        { action: '$.orders[0].side', symbol: '$.market.ticker', price: '$.orders[-1].price' },
+        { market: { ticker: 'BTCUSDT' }, orders: [{ side: 'buy' }, { price: 50000 }] }
+      );
+
+      expect(signal).toEqual({ action: 'buy', symbol: 'BTCUSDT', price: 50000 });
+    });
+
+    it('translates values and lower-cases the enums', () => {
+      const signal = map(
+        {
+          action: { path: '$.direction', values: { long: 'BUY', short: 'SELL' } },
+          symbol: '$.ticker',
+          orderType: '$.type',
+        },
+        { direction: 'short', ticker: 'ETHUSDT', type: 'LIMIT' }
+      );
+
+      expect(signal).toEqual({ action: 'sell', symbol: 'ETHUSDT', orderType: 'limit' });
+    });
+
+    it('turns numeric strings into numbers', () => {
+      const signal = map(
+        {
+          action: '$.side',
+          symbol: '$.symbol',
+          price: '$.price',
+          quantity: '$.qty',
+          stopLoss: '$.sl',
+          percent: '$.pct',
+          strategy: '$.strategy',
+        },
+        {
+          side: 'close',
+          symbol: 'BTCUSDT',
+          price: ' 50000.5 ',
+          qty: '0.01',
+          sl: 'none',
+          pct: 50,
+          strategy: '42',
+        }
+      );
+
+      expect(signal).toEqual({
+        action: 'close',
+        symbol: 'BTCUSDT',
+        price: 50000.5,
+        quantity: 0.01,
+        stopLoss: 'none', // Left for the signal schema to reject
+        percent: 50,
+        strategy: '42',
+      });
+    });
+
+    it('falls back to the default for missing, null and empty values', () => {
+      const signal = map(
+        {
+          action: { path: '$.side', default: 'buy' },
+          symbol: { default: 'BTCUSDT' },
+          orderType: { path: '$.type', default: 'market' },
+          quantity: { path: '$.orders[3].qty', default: '0.5' },
+        },
+        { side: null, type: '' }
+      );
+
+      expect(signal).toEqual({
+        action: 'buy',
+        symbol: 'BTCUSDT',
+        orderType: 'market',
+        quantity: 0.5,
+      });
+    });
+
+    it('leaves out missing fields without a default', () => {
+      const signal = map(
+        { action: '$.side', symbol: '$.symbol', price: '$.price', stopLoss: '$.risk.stop' },
+        { side: 'buy', symbol: 'BTCUSDT', risk: 'low' }
+      );
+
+      expect(signal).toEqual({ action: 'buy', symbol: 'BTCUSDT' });
+    });
+
+    it('keeps values the lookup has no translation for', () => {
+      const signal = map(
+        { action: { path: '$.side', values: { long: 'buy' } }, symbol: '$.symbol' },
+        { side: 'Flat', symbol: 'BTCUSDT' }
+      );
+
+      expect(signal).toEqual({ action: 'flat', symbol: 'BTCUSDT' });
+    });
+  });
+});
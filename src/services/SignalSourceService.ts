@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import databaseService from '../database';
+import { createModuleLogger } from '../utils/logger';
+import { getJsonPath } from '../utils/jsonPath';
+import { SignalMapping } from '../api/schemas/signalMapping.schema';
+import { WebhookAuthMode } from './StrategyService';
+
+const logger = createModuleLogger('SignalSourceService');
+
+// Payloads often carry numbers as strings and upper-case enums; the signal schema wants
+// numbers and lower case
+const NUMERIC_FIELDS = new Set(['price', 'quantity', 'stopLoss', 'percent']);
+const LOWERCASE_FIELDS = new Set(['action', 'orderType']);
+
+export interface SignalSource {
+  id: string;
+  name: string;
+  description?: string;
+  mapping: SignalMapping;
+  strategy_id: string | null; // Fixes the strategy; otherwise routed by the mapped name
+  webhook_token: string; // Path segment of the source's webhook URL, /webhook/source/:token
+  webhook_secret: string;
+  webhook_auth: WebhookAuthMode;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateSignalSourceInput {
+  name: string;
+  description?: string;
+  mapping: SignalMapping;
+  strategy_id?: string | null;
+  webhook_auth?: WebhookAuthMode;
+  enabled?: boolean;
+}
+
+export type UpdateSignalSourceInput = Partial<CreateSignalSourceInput>;
+
+// Row of the signal_sources table - the mapping is stored as JSON, enabled as 0/1
+type SignalSourceRow = Omit<SignalSource, 'mapping' | 'enabled'> & {
+  mapping: string;
+  enabled: number;
+};
+
+export class SignalSourceService {
+  private db = databaseService.getDatabase();
+
+  private toSignalSource(row: SignalSourceRow): SignalSource {
+    return {
+      ...row,
+      mapping: JSON.parse(row.mapping),
+      enabled: Boolean(row.enabled),
+    };
+  }
+
+  getAllSources(): SignalSource[] {
+    const rows = this.db.prepare('SELECT * FROM signal_sources ORDER BY created_at DESC').all();
+    return (rows as SignalSourceRow[]).map((row) => this.toSignalSource(row));
+  }
+
+  getSourceById(id: string): SignalSource | null {
+    const row = this.db.prepare('SELECT * FROM signal_sources WHERE id = ?').get(id) as
+      SignalSourceRow | undefined;
+    return row ? this.toSignalSource(row) : null;
+  }
+
+  getSourceByWebhookToken(token: string): SignalSource | null {
+    const row = this.db
+      .prepare('SELECT * FROM signal_sources WHERE webhook_token = ?')
+      .get(token) as SignalSourceRow | undefined;
+    return row ? this.toSignalSource(row) : null;
+  }
+
+  createSource(input: CreateSignalSourceInput): SignalSource {
+    const id = uuidv4();
+
+    this.db
+      .prepare(
+        `INSERT INTO signal_sources
+           (id, name, description, mapping, strategy_id, webhook_token, webhook_secret, webhook_auth, enabled)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        id,
+        input.name,
+        input.description || null,
+        JSON.stringify(input.mapping),
+        input.strategy_id || null,
+        crypto.randomBytes(16).toString('hex'),
+        crypto.randomBytes(32).toString('hex'),
+        input.webhook_auth || 'header',
+        input.enabled === false ? 0 : 1
+      );
+
+    logger.info('Signal source created', { id, name: input.name, strategyId: input.strategy_id });
+
+    return this.getSourceById(id)!;
+  }
+
+  updateSource(id: string, input: UpdateSignalSourceInput): SignalSource | null {
+    const source = this.getSourceById(id);
+    if (!source) {
+      return null;
+    }
+
+    const columns: Record<string, unknown> = {
+      name: input.name,
+      description: input.description,
+      mapping: input.mapping && JSON.stringify(input.mapping),
+      strategy_id: input.strategy_id,
+      webhook_auth: input.webhook_auth,
+      enabled: input.enabled === undefined ? undefined : input.enabled ? 1 : 0,
+    };
+    const updates = Object.entries(columns).filter(([, value]) => value !== undefined);
+
+    if (updates.length === 0) {
+      return source;
+    }
+
+    this.db
+      .prepare(
+        `UPDATE signal_sources SET ${updates.map(([column]) => `${column} = ?`).join(', ')}
+         WHERE id = ?`
+      )
+      .run(...updates.map(([, value]) => value), id);
+
+    logger.info('Signal source updated', { id, updates: updates.map(([column]) => column) });
+
+    return this.getSourceById(id);
+  }
+
+  deleteSource(id: string): boolean {
+    const result = this.db.prepare('DELETE FROM signal_sources WHERE id = ?').run(id);
+
+    if (result.changes > 0) {
+      logger.info('Signal source deleted', { id });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Build a raw signal from a source payload - still to be validated by the signal schema.
+   * Missing paths fall back to the field's default; fields with neither are left out.
+   */
+  mapPayload(mapping: SignalMapping, payload: unknown): Record<string, unknown> {
+    const signal: Record<string, unknown> = {};
+
+    for (const [field, fieldMapping] of Object.entries(mapping)) {
+      let value =
+        fieldMapping.path !== undefined ? getJsonPath(payload, fieldMapping.path) : undefined;
+
+      if (value !== undefined && value !== null && fieldMapping.values) {
+        const translated = fieldMapping.values[String(value)];
+        value = translated !== undefined ? translated : value;
+      }
+
+      if (value === undefined || value === null || value === '') {
+        value = fieldMapping.default;
+      }
+
+      if (value === undefined) {
+        continue;
+      }
+
+      if (NUMERIC_FIELDS.has(field) && typeof value === 'string' && value.trim() !== '') {
+        const number = Number(value);
+        value = Number.isFinite(number) ? number : value;
+      }
+
+      if (LOWERCASE_FIELDS.has(field) && typeof value === 'string') {
+        value = value.toLowerCase();
+      }
+
+      signal[field] = value;
+    }
+
+    return signal;
+  }
+}
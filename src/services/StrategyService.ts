@@ -1,26 +1,99 @@
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import databaseService from '../database';
 import { createModuleLogger } from '../utils/logger';
+import { DEFAULT_EXCHANGE, ExchangeName } from './exchange/ExchangeAdapter';
+import { SizingMode } from '../api/schemas/webhook.schema';
 
 const logger = createModuleLogger('StrategyService');
 
+// 'header': static x-webhook-secret header; 'signed': HMAC signature with timestamp and nonce
+export type WebhookAuthMode = 'header' | 'signed';
+
+// Signal fields that can make up a strategy's duplicate-detection key
+export const DEDUPE_FIELDS = [
+  'action',
+  'symbol',
+  'orderType',
+  'price',
+  'quantity',
+  'stopLoss',
+] as const;
+export type DedupeField = (typeof DEDUPE_FIELDS)[number];
+const DEFAULT_DEDUPE_FIELDS: DedupeField[] = ['action', 'symbol', 'orderType'];
+
+// Settings of a strategy's own risk budget
+export const RISK_LIMIT_FIELDS = [
+  'max_position_size_percent',
+  'max_open_positions',
+  'max_daily_loss',
+  'default_position_size_percent',
+  'default_stop_loss_percent',
+] as const;
+export type RiskLimitField = (typeof RISK_LIMIT_FIELDS)[number];
+
+const newWebhookToken = () => crypto.randomBytes(16).toString('hex');
+const newWebhookSecret = () => crypto.randomBytes(32).toString('hex');
+
 export interface Strategy {
   id: string;
   name: string;
   type: 'automatic' | 'manual';
   trading_type: 'SPOT' | 'FUTURE';
   leverage: number;
+  position_mode: 'ONE_WAY' | 'HEDGE';
+  paper_trading: boolean; // Orders go to the paper exchange
+  exchange: ExchangeName; // Venue orders are sent to
+  webhook_auth: WebhookAuthMode;
+  webhook_token: string; // Path segment of the strategy's own webhook URL, /webhook/s/:token
+  webhook_secret: string; // Header value, or HMAC key for signed webhooks
+  dedupe_fields: DedupeField[]; // Signals matching on these fields within the window are dropped
+  dedupe_window_ms: number | null; // null: PREVENT_DUPLICATES_WINDOW_MS; 0: only idempotency keys
+  max_signal_age_ms: number | null; // Older signals are rejected; null accepts any age
+  trailing_stop_percent: number | null; // Trailing stop for positions whose signal sets none,
+  trailing_stop_amount: number | null; // as a callback in percent or in quote currency
+  // Risk budget checked alongside the global limits; null uses the global setting
+  max_position_size_percent: number | null;
+  max_open_positions: number | null; // null: no limit
+  max_daily_loss: number | null;
+  default_position_size_percent: number | null;
+  default_stop_loss_percent: number | null;
+  sizing_mode: SizingMode | null; // Sizing of entries without a quantity; null: percent_balance
+  sizing_value: number | null; // Quote amount for fixed_quote, a percent for the others
   description?: string;
   enabled: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// Row of the strategies table - flags are stored as 0/1, dedupe fields comma-separated
+type StrategyRow = Omit<Strategy, 'enabled' | 'paper_trading' | 'dedupe_fields'> & {
+  enabled: number;
+  paper_trading: number;
+  dedupe_fields: string | null;
+};
+
 export interface CreateStrategyInput {
   name: string;
   type: 'automatic' | 'manual';
   trading_type?: 'SPOT' | 'FUTURE';
   leverage?: number;
+  position_mode?: 'ONE_WAY' | 'HEDGE';
+  paper_trading?: boolean;
+  exchange?: ExchangeName;
+  webhook_auth?: WebhookAuthMode;
+  dedupe_fields?: DedupeField[];
+  dedupe_window_ms?: number | null;
+  max_signal_age_ms?: number | null;
+  trailing_stop_percent?: number | null;
+  trailing_stop_amount?: number | null;
+  max_position_size_percent?: number | null;
+  max_open_positions?: number | null;
+  max_daily_loss?: number | null;
+  default_position_size_percent?: number | null;
+  default_stop_loss_percent?: number | null;
+  sizing_mode?: SizingMode | null;
+  sizing_value?: number | null;
   description?: string;
   enabled?: boolean;
 }
@@ -30,6 +103,22 @@ export interface UpdateStrategyInput {
   type?: 'automatic' | 'manual';
   trading_type?: 'SPOT' | 'FUTURE';
   leverage?: number;
+  position_mode?: 'ONE_WAY' | 'HEDGE';
+  paper_trading?: boolean;
+  exchange?: ExchangeName;
+  webhook_auth?: WebhookAuthMode;
+  dedupe_fields?: DedupeField[];
+  dedupe_window_ms?: number | null;
+  max_signal_age_ms?: number | null;
+  trailing_stop_percent?: number | null;
+  trailing_stop_amount?: number | null;
+  max_position_size_percent?: number | null;
+  max_open_positions?: number | null;
+  max_daily_loss?: number | null;
+  default_position_size_percent?: number | null;
+  default_stop_loss_percent?: number | null;
+  sizing_mode?: SizingMode | null;
+  sizing_value?: number | null;
   description?: string;
   enabled?: boolean;
 }
@@ -40,10 +129,14 @@ export class StrategyService {
   /**
    * Convert SQLite row to Strategy object (converts enabled from number to boolean)
    */
-  private toStrategy(row: any): Strategy {
+  private toStrategy(row: StrategyRow): Strategy {
     return {
       ...row,
       enabled: Boolean(row.enabled),
+      paper_trading: Boolean(row.paper_trading),
+      dedupe_fields: row.dedupe_fields
+        ? (row.dedupe_fields.split(',') as DedupeField[])
+        : DEFAULT_DEDUPE_FIELDS,
     };
   }
 
@@ -56,7 +149,7 @@ export class StrategyService {
       ORDER BY created_at DESC
     `);
 
-    return (stmt.all() as any[]).map((row) => this.toStrategy(row));
+    return (stmt.all() as StrategyRow[]).map((row) => this.toStrategy(row));
   }
 
   /**
@@ -69,7 +162,7 @@ export class StrategyService {
       ORDER BY created_at DESC
     `);
 
-    return (stmt.all(type) as any[]).map((row) => this.toStrategy(row));
+    return (stmt.all(type) as StrategyRow[]).map((row) => this.toStrategy(row));
   }
 
   /**
@@ -82,7 +175,7 @@ export class StrategyService {
       ORDER BY created_at DESC
     `);
 
-    return (stmt.all() as any[]).map((row) => this.toStrategy(row));
+    return (stmt.all() as StrategyRow[]).map((row) => this.toStrategy(row));
   }
 
   /**
@@ -94,7 +187,7 @@ export class StrategyService {
       WHERE id = ?
     `);
 
-    const row = stmt.get(id) as any;
+    const row = stmt.get(id) as StrategyRow | undefined;
     return row ? this.toStrategy(row) : null;
   }
 
@@ -107,7 +200,20 @@ export class StrategyService {
       WHERE name = ?
     `);
 
-    const row = stmt.get(name) as any;
+    const row = stmt.get(name) as StrategyRow | undefined;
+    return row ? this.toStrategy(row) : null;
+  }
+
+  /**
+   * Get strategy by its webhook token
+   */
+  getStrategyByWebhookToken(token: string): Strategy | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM strategies
+      WHERE webhook_token = ?
+    `);
+
+    const row = stmt.get(token) as StrategyRow | undefined;
     return row ? this.toStrategy(row) : null;
   }
 
@@ -119,8 +225,8 @@ export class StrategyService {
     const now = new Date().toISOString();
 
     const stmt = this.db.prepare(`
-      INSERT INTO strategies (id, name, type, trading_type, leverage, description, enabled, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO strategies (id, name, type, trading_type, leverage, position_mode, paper_trading, exchange, webhook_auth, webhook_token, webhook_secret, dedupe_fields, dedupe_window_ms, max_signal_age_ms, trailing_stop_percent, trailing_stop_amount, max_position_size_percent, max_open_positions, max_daily_loss, default_position_size_percent, default_stop_loss_percent, sizing_mode, sizing_value, description, enabled, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -129,6 +235,24 @@ export class StrategyService {
       input.type,
       input.trading_type || 'SPOT',
       input.leverage || 5,
+      input.position_mode || 'ONE_WAY',
+      input.paper_trading ? 1 : 0,
+      input.exchange || DEFAULT_EXCHANGE,
+      input.webhook_auth || 'header',
+      newWebhookToken(),
+      newWebhookSecret(),
+      (input.dedupe_fields || DEFAULT_DEDUPE_FIELDS).join(','),
+      input.dedupe_window_ms ?? null,
+      input.max_signal_age_ms ?? null,
+      input.trailing_stop_percent ?? null,
+      input.trailing_stop_amount ?? null,
+      input.max_position_size_percent ?? null,
+      input.max_open_positions ?? null,
+      input.max_daily_loss ?? null,
+      input.default_position_size_percent ?? null,
+      input.default_stop_loss_percent ?? null,
+      input.sizing_mode ?? null,
+      input.sizing_value ?? null,
       input.description || null,
       input.enabled !== undefined ? (input.enabled ? 1 : 0) : 1,
       now,
@@ -140,7 +264,11 @@ export class StrategyService {
       name: input.name,
       type: input.type,
       trading_type: input.trading_type || 'SPOT',
-      leverage: input.leverage || 5
+      leverage: input.leverage || 5,
+      position_mode: input.position_mode || 'ONE_WAY',
+      paper_trading: !!input.paper_trading,
+      exchange: input.exchange || DEFAULT_EXCHANGE,
+      webhook_auth: input.webhook_auth || 'header',
     });
 
     return this.getStrategyById(id)!;
@@ -179,6 +307,68 @@ export class StrategyService {
       values.push(input.leverage);
     }
 
+    if (input.position_mode !== undefined) {
+      updates.push('position_mode = ?');
+      values.push(input.position_mode);
+    }
+
+    if (input.paper_trading !== undefined) {
+      updates.push('paper_trading = ?');
+      values.push(input.paper_trading ? 1 : 0);
+    }
+
+    if (input.exchange !== undefined) {
+      updates.push('exchange = ?');
+      values.push(input.exchange);
+    }
+
+    if (input.webhook_auth !== undefined) {
+      updates.push('webhook_auth = ?');
+      values.push(input.webhook_auth);
+    }
+
+    if (input.dedupe_fields !== undefined) {
+      updates.push('dedupe_fields = ?');
+      values.push(input.dedupe_fields.join(','));
+    }
+
+    if (input.dedupe_window_ms !== undefined) {
+      updates.push('dedupe_window_ms = ?');
+      values.push(input.dedupe_window_ms);
+    }
+
+    if (input.max_signal_age_ms !== undefined) {
+      updates.push('max_signal_age_ms = ?');
+      values.push(input.max_signal_age_ms);
+    }
+
+    if (input.trailing_stop_percent !== undefined) {
+      updates.push('trailing_stop_percent = ?');
+      values.push(input.trailing_stop_percent);
+    }
+
+    if (input.trailing_stop_amount !== undefined) {
+      updates.push('trailing_stop_amount = ?');
+      values.push(input.trailing_stop_amount);
+    }
+
+    for (const field of RISK_LIMIT_FIELDS) {
+      if (input[field] !== undefined) {
+        updates.push(`${field} = ?`);
+        values.push(input[field]);
+      }
+    }
+
+    if (input.sizing_mode !== undefined) {
+      updates.push('sizing_mode = ?');
+      values.push(input.sizing_mode);
+    }
+
+    if (input.sizing_value !== undefined) {
+      updates.push('sizing_value = ?');
+      values.push(input.sizing_value);
+    }
+
     if (input.description !== undefined) {
       updates.push('description = ?');
       values.push(input.description);
@@ -257,4 +447,36 @@ export class StrategyService {
 
     return this.getStrategyById(id);
   }
+
+  /**
+   * Replace the strategy's webhook token - alerts posting to the old URL are rejected
+   */
+  rotateWebhookToken(id: string): Strategy | null {
+    const result = this.db
+      .prepare('UPDATE strategies SET webhook_token = ? WHERE id = ?')
+      .run(newWebhookToken(), id);
+
+    if (result.changes === 0) {
+      return null;
+    }
+
+    logger.info('Strategy webhook token rotated', { id });
+    return this.getStrategyById(id);
+  }
+
+  /**
+   * Replace the strategy's webhook secret - alerts using the old one are rejected
+   */
+  rotateWebhookSecret(id: string): Strategy | null {
+    const result = this.db
+      .prepare('UPDATE strategies SET webhook_secret = ? WHERE id = ?')
+      .run(newWebhookSecret(), id);
+
+    if (result.changes === 0) {
+      return null;
+    }
+
+    logger.info('Strategy webhook secret rotated', { id });
+    return this.getStrategyById(id);
+  }
 }
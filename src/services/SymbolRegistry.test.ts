@@ -0,0 +1,131 @@
+import { SymbolRegistry } from './SymbolRegistry';
+import { ExchangeRegistry } from './exchange/ExchangeRegistry';
+import { ExchangeAdapter } from './exchange/ExchangeAdapter';
+import { SymbolInfo } from './exchange/types';
+import { InvalidSymbolError } from '../utils/errors';
+import databaseService from '../database';
+
+describe('SymbolRegistry', () => {
+  let exchange: { name: string; getSymbols: jest.Mock; getFuturesSymbols: jest.Mock };
+  let registry: SymbolRegistry;
+  let now: number;
+
+  const symbol = (name: string, baseAsset: string, status = 'TRADING'): SymbolInfo => ({
+    symbol: name,
+    status,
+    baseAsset,
+    quoteAsset: 'USDT',
+    filters: [],
+  });
+
+  beforeEach(() => {
+    databaseService.getDatabase().exec('DELETE FROM symbol_aliases;');
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    exchange = {
+      name: 'binance',
+      getSymbols: jest
+        .fn()
+        .mockResolvedValue([symbol('BTCUSDT', 'BTC'), symbol('LUNAUSDT', 'LUNA', 'BREAK')]),
+      getFuturesSymbols: jest
+        .fn()
+        .mockResolvedValue([symbol('BTCUSDT', 'BTC'), symbol('1000PEPEUSDT', '1000PEPE')]),
+    };
+    registry = new SymbolRegistry(new ExchangeRegistry([exchange as unknown as ExchangeAdapter]));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('normalize', () => {
+    it.each([
+      ['btcusdt', 'BTCUSDT'],
+      ['BINANCE:BTCUSDT', 'BTCUSDT'],
+      ['BINANCE:BTCUSDT.P', 'BTCUSDT'],
+      ['BTCUSDT.PERP', 'BTCUSDT'],
+      ['BTCUSDTPERP', 'BTCUSDT'],
+      [' BTC/USDT ', 'BTCUSDT'],
+      ['BTC-USDT', 'BTCUSDT'],
+    ])('turns %j into %s', (ticker, expected) => {
+      expect(registry.normalize(ticker)).toBe(expected);
+    });
+
+    it('applies an alias after stripping the prefix and suffix', () => {
+      registry.setAlias('XBTUSD', 'BTCUSDT');
+
+      expect(registry.normalize('BITMEX:XBTUSD.P')).toBe('BTCUSDT');
+    });
+
+    it('applies an alias of the full ticker before stripping the suffix', () => {
+      registry.setAlias('pepeusdt.p', '1000PEPEUSDT');
+
+      expect(registry.normalize('BINANCE:PEPEUSDT.P')).toBe('1000PEPEUSDT');
+      expect(registry.normalize('PEPEUSDT')).toBe('PEPEUSDT');
+    });
+  });
+
+  describe('resolve', () => {
+    it('resolves a ticker to the listed symbol of the market', async () => {
+      await expect(registry.resolve('BINANCE:BTCUSDT.P', 'binance', 'FUTURE')).resolves.toEqual({
+        symbol: 'BTCUSDT',
+        baseAsset: 'BTC',
+        quoteAsset: 'USDT',
+        tradingType: 'FUTURE',
+        exchange: 'binance',
+      });
+      expect(exchange.getSymbols).not.toHaveBeenCalled();
+    });
+
+    it('rejects a symbol the market does not list', async () => {
+      await expect(registry.resolve('PEPEUSDT.P', 'binance', 'FUTURE')).rejects.toThrow(
+        new InvalidSymbolError('Symbol PEPEUSDT (from PEPEUSDT.P) is not listed on binance futures')
+      );
+      await expect(registry.resolve('1000PEPEUSDT', 'binance', 'SPOT')).rejects.toThrow(
+        'Symbol 1000PEPEUSDT is not listed on binance spot'
+      );
+    });
+
+    it('rejects a symbol that is not trading', async () => {
+      await expect(registry.resolve('LUNAUSDT', 'binance', 'SPOT')).rejects.toThrow(
+        new InvalidSymbolError('Symbol LUNAUSDT is not trading on binance spot (status BREAK)')
+      );
+    });
+
+    it('keeps the listing for an hour', async () => {
+      await registry.resolve('BTCUSDT', 'binance', 'SPOT');
+      now += 3599999;
+      await registry.resolve('BTCUSDT', 'binance', 'SPOT');
+
+      expect(exchange.getSymbols).toHaveBeenCalledTimes(1);
+
+      exchange.getSymbols.mockResolvedValue([symbol('BTCUSDT', 'BTC', 'HALT')]);
+      now += 1;
+
+      await expect(registry.resolve('BTCUSDT', 'binance', 'SPOT')).rejects.toThrow(
+        'Symbol BTCUSDT is not trading on binance spot (status HALT)'
+      );
+      expect(exchange.getSymbols).toHaveBeenCalledTimes(2);
+    });
+
+    it('falls back to the previous listing when a refresh fails', async () => {
+      await registry.resolve('BTCUSDT', 'binance', 'SPOT');
+      exchange.getSymbols.mockRejectedValue(new Error('Exchange unavailable'));
+      now += 3600000;
+
+      await expect(registry.resolve('BTCUSDT', 'binance', 'SPOT')).resolves.toMatchObject({
+        symbol: 'BTCUSDT',
+      });
+      expect(exchange.getSymbols).toHaveBeenCalledTimes(2);
+    });
+
+    it('fails without a listing to fall back to', async () => {
+      exchange.getSymbols.mockRejectedValue(new Error('Exchange unavailable'));
+
+      await expect(registry.resolve('BTCUSDT', 'binance', 'SPOT')).rejects.toThrow(
+        'Exchange unavailable'
+      );
+    });
+  });
+});
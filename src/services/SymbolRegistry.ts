@@ -0,0 +1,199 @@
+import { createModuleLogger } from '../utils/logger';
+import { InvalidSymbolError } from '../utils/errors';
+import databaseService from '../database';
+import { ExchangeRegistry } from './exchange/ExchangeRegistry';
+import { ExchangeName } from './exchange/ExchangeAdapter';
+import { SymbolInfo } from './exchange/types';
+
+const logger = createModuleLogger('SymbolRegistry');
+
+const LISTING_TTL_MS = 3600000;
+
+// TradingView marks perpetual contracts with these, e.g. BTCUSDT.P or BTCUSDTPERP
+const PERPETUAL_SUFFIX = /(\.P|\.PERP|PERP)$/;
+
+export interface ResolvedSymbol {
+  symbol: string; // As listed on the venue for the market, e.g. BTCUSDT
+  baseAsset: string;
+  quoteAsset: string;
+  tradingType: 'SPOT' | 'FUTURE';
+  exchange: ExchangeName;
+}
+
+export interface SymbolAlias {
+  alias: string;
+  symbol: string;
+  created_at: string;
+}
+
+interface Listing {
+  symbols: Map<string, SymbolInfo>;
+  loadedAt: number;
+}
+
+/**
+ * Turns the tickers alerts carry into symbols the venue trades. A ticker like
+ * `BINANCE:BTCUSDT.P` loses its exchange prefix and perpetual suffix, user-defined aliases are
+ * applied (XBTUSD -> BTCUSDT), and the result is looked up in the venue's exchange info for the
+ * strategy's market, which gives its real base and quote assets. Unknown symbols and ones that
+ * aren't TRADING are rejected.
+ */
+export class SymbolRegistry {
+  private listings = new Map<string, Listing>();
+  private loading = new Map<string, Promise<Listing>>();
+
+  constructor(private exchanges: ExchangeRegistry) {}
+
+  /**
+   * Venue-style symbol for a ticker, without checking that it's listed
+   */
+  normalize(ticker: string): string {
+    let symbol = ticker.trim().toUpperCase();
+
+    // Exchange prefix - BINANCE:BTCUSDT
+    symbol = symbol.slice(symbol.lastIndexOf(':') + 1);
+
+    const alias = this.getAlias(symbol);
+    if (alias) {
+      return alias;
+    }
+
+    symbol = symbol.replace(PERPETUAL_SUFFIX, '').replace(/[/\-_]/g, '');
+
+    return this.getAlias(symbol) || symbol;
+  }
+
+  /**
+   * Resolve a ticker to a symbol that's trading on the venue's spot or futures market
+   */
+  async resolve(
+    ticker: string,
+    exchange: ExchangeName,
+    tradingType: 'SPOT' | 'FUTURE'
+  ): Promise<ResolvedSymbol> {
+    const symbol = this.normalize(ticker);
+    const listing = await this.getListing(exchange, tradingType);
+    const info = listing.symbols.get(symbol);
+    const market = `${exchange} ${tradingType === 'FUTURE' ? 'futures' : 'spot'}`;
+
+    if (!info) {
+      throw new InvalidSymbolError(
+        symbol === ticker
+          ? `Symbol ${symbol} is not listed on ${market}`
+          : `Symbol ${symbol} (from ${ticker}) is not listed on ${market}`,
+        { ticker, symbol, exchange, tradingType }
+      );
+    }
+
+    if (info.status !== 'TRADING') {
+      throw new InvalidSymbolError(
+        `Symbol ${symbol} is not trading on ${market} (status ${info.status})`,
+        {
+          ticker,
+          symbol,
+          exchange,
+          tradingType,
+          status: info.status,
+        }
+      );
+    }
+
+    return {
+      symbol: info.symbol,
+      baseAsset: info.baseAsset,
+      quoteAsset: info.quoteAsset,
+      tradingType,
+      exchange,
+    };
+  }
+
+  getAliases(): SymbolAlias[] {
+    const db = databaseService.getDatabase();
+    return db.prepare('SELECT * FROM symbol_aliases ORDER BY alias').all() as SymbolAlias[];
+  }
+
+  setAlias(alias: string, symbol: string): SymbolAlias {
+    const db = databaseService.getDatabase();
+    const key = alias.trim().toUpperCase();
+
+    db.prepare(
+      `INSERT INTO symbol_aliases (alias, symbol) VALUES (?, ?)
+       ON CONFLICT(alias) DO UPDATE SET symbol = excluded.symbol`
+    ).run(key, symbol.trim().toUpperCase());
+
+    logger.info('Symbol alias set', { alias: key, symbol });
+
+    return db.prepare('SELECT * FROM symbol_aliases WHERE alias = ?').get(key) as SymbolAlias;
+  }
+
+  deleteAlias(alias: string): boolean {
+    const db = databaseService.getDatabase();
+    const result = db
+      .prepare('DELETE FROM symbol_aliases WHERE alias = ?')
+      .run(alias.trim().toUpperCase());
+
+    return result.changes > 0;
+  }
+
+  private getAlias(symbol: string): string | null {
+    const db = databaseService.getDatabase();
+    const row = db.prepare('SELECT symbol FROM symbol_aliases WHERE alias = ?').get(symbol) as
+      { symbol: string } | undefined;
+
+    return row ? row.symbol : null;
+  }
+
+  /**
+   * The venue's symbols for a market, refreshed hourly. A failed refresh keeps serving the
+   * previous listing; concurrent callers share one request.
+   */
+  private async getListing(
+    exchange: ExchangeName,
+    tradingType: 'SPOT' | 'FUTURE'
+  ): Promise<Listing> {
+    const key = `${exchange}:${tradingType}`;
+    const cached = this.listings.get(key);
+
+    if (cached && Date.now() - cached.loadedAt < LISTING_TTL_MS) {
+      return cached;
+    }
+
+    let loading = this.loading.get(key);
+    if (!loading) {
+      loading = this.loadListing(exchange, tradingType).finally(() => this.loading.delete(key));
+      this.loading.set(key, loading);
+    }
+
+    try {
+      const listing = await loading;
+      this.listings.set(key, listing);
+      return listing;
+    } catch (error) {
+      if (cached) {
+        logger.warn('Failed to refresh symbol listing, using the previous one', {
+          exchange,
+          tradingType,
+          error,
+        });
+        return cached;
+      }
+      throw error;
+    }
+  }
+
+  private async loadListing(
+    exchange: ExchangeName,
+    tradingType: 'SPOT' | 'FUTURE'
+  ): Promise<Listing> {
+    const adapter = this.exchanges.get(exchange);
+    const symbols =
+      tradingType === 'FUTURE' ? await adapter.getFuturesSymbols() : await adapter.getSymbols();
+
+    logger.info('Symbol listing loaded', { exchange, tradingType, count: symbols.length });
+
+    return {
+      symbols: new Map(symbols.map((info) => [info.symbol, info])),
+      loadedAt: Date.now(),
+    };
+  }
+}
@@ -0,0 +1,154 @@
+import { TrailingStopService } from './TrailingStopService';
+import { OrderManager, Position } from './OrderManager';
+import { RiskManager } from './RiskManager';
+import { SignalProcessor } from './SignalProcessor';
+import { OrderNormalizer } from './OrderNormalizer';
+import { ExchangeRegistry } from './exchange/ExchangeRegistry';
+import { ExchangeAdapter, OrderExchange } from './exchange/ExchangeAdapter';
+import { insertPosition } from '../test/fixtures';
+import databaseService from '../database';
+
+describe('TrailingStopService', () => {
+  let exchange: { name: string; getPrice: jest.Mock; getFuturesPrice: jest.Mock };
+  let paperExchange: { getPrice: jest.Mock; getFuturesPrice: jest.Mock };
+  let placeStopLoss: jest.SpyInstance;
+  let service: TrailingStopService;
+
+  const db = () => databaseService.getDatabase();
+
+  // A 2% trail that has seen 100, with its stop at 98
+  const openPosition = (id: string, columns: Partial<Position> = {}) =>
+    insertPosition(id, {
+      stop_loss_price: 98,
+      trailing_stop_percent: 2,
+      trailing_extreme_price: 100,
+      ...columns,
+    });
+
+  const position = (id: string) =>
+    db()
+      .prepare('SELECT stop_loss_price, trailing_extreme_price FROM positions WHERE id = ?')
+      .get(id) as { stop_loss_price: number | null; trailing_extreme_price: number | null };
+
+  const priceAt = (price: number) => exchange.getPrice.mockResolvedValue(price);
+
+  beforeEach(() => {
+    db().exec('DELETE FROM positions; DELETE FROM orders;');
+
+    exchange = {
+      name: 'binance',
+      getPrice: jest.fn().mockResolvedValue(100),
+      getFuturesPrice: jest.fn().mockResolvedValue(100),
+    };
+    paperExchange = {
+      getPrice: jest.fn().mockResolvedValue(100),
+      getFuturesPrice: jest.fn().mockResolvedValue(100),
+    };
+
+    const orderManager = new OrderManager(
+      new ExchangeRegistry([exchange as unknown as ExchangeAdapter]),
+      {} as RiskManager,
+      {} as SignalProcessor,
+      {} as OrderNormalizer,
+      paperExchange as unknown as OrderExchange
+    );
+    // Re-placing the stop order is OrderManager's business - only whether it happens counts here
+    placeStopLoss = jest
+      .spyOn(orderManager as unknown as { placeStopLoss: () => Promise<void> }, 'placeStopLoss')
+      .mockResolvedValue(undefined);
+
+    service = new TrailingStopService(orderManager);
+  });
+
+  it('follows a new high and re-places the stop', async () => {
+    openPosition('position-1');
+    priceAt(105);
+
+    await service.checkPositions();
+
+    expect(position('position-1').trailing_extreme_price).toBe(105);
+    expect(placeStopLoss).toHaveBeenCalledWith('position-1');
+  });
+
+  it('holds the stop while the price moves against the position', async () => {
+    openPosition('position-1');
+    priceAt(99);
+
+    await service.checkPositions();
+
+    expect(position('position-1').trailing_extreme_price).toBe(100);
+    expect(placeStopLoss).not.toHaveBeenCalled();
+  });
+
+  it('leaves the stop order alone for moves under the minimum step', async () => {
+    openPosition('position-1', { stop_loss_price: 98 });
+    priceAt(100.05);
+
+    await service.checkPositions();
+
+    expect(position('position-1').trailing_extreme_price).toBe(100.05);
+    expect(placeStopLoss).not.toHaveBeenCalled();
+  });
+
+  it('starts trailing once the activation price is reached', async () => {
+    openPosition('position-1', { trailing_activation_price: 110, trailing_extreme_price: null });
+
+    priceAt(105);
+    await service.checkPositions();
+    expect(position('position-1').trailing_extreme_price).toBeNull();
+
+    priceAt(110);
+    await service.checkPositions();
+    expect(position('position-1').trailing_extreme_price).toBe(110);
+    expect(placeStopLoss).toHaveBeenCalledTimes(1);
+  });
+
+  it('trails a short a fixed amount above its low', async () => {
+    openPosition('position-1', {
+      side: 'SHORT',
+      trading_type: 'FUTURE',
+      stop_loss_price: 105,
+      trailing_stop_percent: null,
+      trailing_stop_amount: 5,
+    });
+    exchange.getFuturesPrice.mockResolvedValue(95);
+
+    await service.checkPositions();
+
+    expect(exchange.getPrice).not.toHaveBeenCalled();
+    expect(position('position-1').trailing_extreme_price).toBe(95);
+    expect(placeStopLoss).toHaveBeenCalledWith('position-1');
+  });
+
+  it('only records the level of a trail the exchange works', async () => {
+    openPosition('position-1', { trading_type: 'FUTURE', trailing_native: 1 });
+    exchange.getFuturesPrice.mockResolvedValue(110);
+
+    await service.checkPositions();
+
+    expect(position('position-1').stop_loss_price).toBeCloseTo(107.8);
+    expect(placeStopLoss).not.toHaveBeenCalled();
+  });
+
+  it('looks each market price up once and keeps going past failures', async () => {
+    openPosition('position-1');
+    openPosition('position-2');
+    openPosition('position-3', { symbol: 'ETHUSDT' });
+    openPosition('position-4', { paper: 1 });
+    openPosition('position-5', { trailing_stop_percent: null });
+    exchange.getPrice.mockImplementation(async (symbol: string) => {
+      if (symbol === 'ETHUSDT') {
+        throw new Error('Unknown symbol');
+      }
+      return 105;
+    });
+    paperExchange.getPrice.mockResolvedValue(104);
+
+    await service.checkPositions();
+
+    expect(exchange.getPrice.mock.calls).toEqual([['BTCUSDT'], ['ETHUSDT']]);
+    expect(paperExchange.getPrice).toHaveBeenCalledTimes(1);
+    expect(placeStopLoss.mock.calls).toEqual([['position-1'], ['position-2'], ['position-4']]);
+    expect(position('position-5').trailing_extreme_price).toBe(100);
+  });
+});
@@ -0,0 +1,96 @@
+import { createModuleLogger } from '../utils/logger';
+import { OrderManager, Position } from './OrderManager';
+import databaseService from '../database';
+import config from '../config';
+
+const logger = createModuleLogger('TrailingStopService');
+
+/**
+ * Works trailing stops: polls the price of every open position with a trailing stop and feeds
+ * it to OrderManager, which moves the position's stop. Spot has no trailing order of its own,
+ * and neither do paper trading and some venues, so there the bot does the trailing.
+ */
+export class TrailingStopService {
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(
+    private orderManager: OrderManager,
+    private intervalMs: number = config.trading.trailingStopIntervalMs
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    logger.info('Trailing stop service started', { intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Trailing stop service stopped');
+    }
+  }
+
+  /**
+   * Trail the stop of every open position that has a trailing stop
+   */
+  async checkPositions(): Promise<void> {
+    const db = databaseService.getDatabase();
+
+    const positions = db
+      .prepare(
+        `SELECT * FROM positions
+         WHERE status = 'OPEN'
+           AND (trailing_stop_percent IS NOT NULL OR trailing_stop_amount IS NOT NULL)`
+      )
+      .all() as Position[];
+
+    // Positions on the same market share a price lookup
+    const prices = new Map<string, number>();
+
+    for (const position of positions) {
+      try {
+        const market = `${position.paper ? 'paper' : position.exchange}:${position.trading_type}:${position.symbol}`;
+        let price = prices.get(market);
+
+        if (price === undefined) {
+          const exchange = this.orderManager.exchangeFor(position);
+          price =
+            position.trading_type === 'FUTURE'
+              ? await exchange.getFuturesPrice(position.symbol)
+              : await exchange.getPrice(position.symbol);
+          prices.set(market, price);
+        }
+
+        await this.orderManager.trailStopLoss(position.id, price);
+      } catch (error) {
+        logger.error('Failed to trail stop loss', {
+          positionId: position.id,
+          symbol: position.symbol,
+          error,
+        });
+      }
+    }
+  }
+
+  private async tick(): Promise<void> {
+    // Skip this tick if the previous check is still waiting on the exchange
+    if (this.checking) {
+      return;
+    }
+
+    this.checking = true;
+    try {
+      await this.checkPositions();
+    } catch (error) {
+      logger.error('Trailing stop check failed', { error });
+    } finally {
+      this.checking = false;
+    }
+  }
+}
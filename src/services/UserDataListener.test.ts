@@ -0,0 +1,158 @@
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { UserDataListener } from './UserDataListener';
+import { BinanceClient } from './binance/BinanceClient';
+import { OrderManager } from './OrderManager';
+import databaseService from '../database';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+  const start = Date.now();
+
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('UserDataListener', () => {
+  let server: WebSocketServer;
+  let socket: WebSocket | null;
+  let listener: UserDataListener;
+  let binanceClient: {
+    name: string;
+    testnet: boolean;
+    createListenKey: jest.Mock;
+    keepAliveListenKey: jest.Mock;
+    closeListenKey: jest.Mock;
+    getPrice: jest.Mock;
+    getFuturesPrice: jest.Mock;
+  };
+  let orderManager: {
+    applyOrderUpdate: jest.Mock;
+    recordExternalOrder: jest.Mock;
+    closePositionAt: jest.Mock;
+  };
+
+  const send = (event: unknown) => socket!.send(JSON.stringify(event));
+
+  beforeEach(async () => {
+    const db = databaseService.getDatabase();
+    db.exec('DELETE FROM positions; DELETE FROM orders;');
+
+    socket = null;
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    server.on('connection', (ws) => {
+      socket = ws;
+    });
+    await new Promise((resolve) => server.once('listening', resolve));
+
+    binanceClient = {
+      name: 'binance',
+      testnet: false,
+      createListenKey: jest.fn().mockResolvedValue('listen-key'),
+      keepAliveListenKey: jest.fn().mockResolvedValue(undefined),
+      closeListenKey: jest.fn().mockResolvedValue(undefined),
+      getPrice: jest.fn().mockResolvedValue(100),
+      getFuturesPrice: jest.fn().mockResolvedValue(50000),
+    };
+    orderManager = {
+      applyOrderUpdate: jest.fn().mockResolvedValue(undefined),
+      recordExternalOrder: jest.fn().mockReturnValue('external-order'),
+      closePositionAt: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const { port } = server.address() as AddressInfo;
+    listener = new UserDataListener(
+      binanceClient as unknown as BinanceClient,
+      orderManager as unknown as OrderManager,
+      ['FUTURE'],
+      0,
+      { wsBaseUrl: `ws://127.0.0.1:${port}` }
+    );
+    listener.start();
+    await waitFor(() => socket !== null);
+  });
+
+  afterEach(async () => {
+    listener.stop();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const openFuturesPosition = (side: 'LONG' | 'SHORT') => {
+    const db = databaseService.getDatabase();
+
+    db.prepare(
+      `INSERT INTO orders (id, symbol, side, type, quantity, status, trading_type, exchange)
+       VALUES ('entry-order', 'BTCUSDT', ?, 'MARKET', 0.01, 'FILLED', 'FUTURE', 'binance')`
+    ).run(side === 'LONG' ? 'BUY' : 'SELL');
+    db.prepare(
+      `INSERT INTO positions
+         (id, symbol, side, entry_price, quantity, entry_order_id, status, trading_type, paper,
+          exchange)
+       VALUES ('position-1', 'BTCUSDT', ?, 48000, 0.01, 'entry-order', 'OPEN', 'FUTURE', 0,
+               'binance')`
+    ).run(side);
+  };
+
+  const flatAccountUpdate = (positionSide: string) => ({
+    e: 'ACCOUNT_UPDATE',
+    E: Date.now(),
+    a: { m: 'ORDER', P: [{ s: 'BTCUSDT', pa: '0', ep: '0', ps: positionSide }] },
+  });
+
+  it('closes a futures position gone flat at the futures price', async () => {
+    openFuturesPosition('LONG');
+
+    send(flatAccountUpdate('BOTH'));
+    await waitFor(() => orderManager.closePositionAt.mock.calls.length > 0);
+
+    expect(orderManager.closePositionAt).toHaveBeenCalledWith('position-1', 50000);
+    expect(binanceClient.getFuturesPrice).toHaveBeenCalledWith('BTCUSDT');
+    expect(binanceClient.getPrice).not.toHaveBeenCalled();
+  });
+
+  it('prefers the last fill price seen for the symbol', async () => {
+    openFuturesPosition('SHORT');
+
+    send({
+      e: 'ORDER_TRADE_UPDATE',
+      E: Date.now(),
+      o: {
+        s: 'BTCUSDT',
+        i: 42,
+        c: 'manual-close',
+        S: 'BUY',
+        o: 'MARKET',
+        X: 'FILLED',
+        q: '0.01',
+        p: '0',
+        sp: '0',
+        z: '0.01',
+        ap: '49500',
+        L: '49500',
+        n: '0',
+        ps: 'BOTH',
+        R: true,
+      },
+    });
+    await waitFor(() => orderManager.applyOrderUpdate.mock.calls.length > 0);
+
+    send(flatAccountUpdate('BOTH'));
+    await waitFor(() => orderManager.closePositionAt.mock.calls.length > 0);
+
+    expect(orderManager.recordExternalOrder).toHaveBeenCalled();
+    expect(orderManager.closePositionAt).toHaveBeenCalledWith('position-1', 49500);
+    expect(binanceClient.getFuturesPrice).not.toHaveBeenCalled();
+  });
+
+  it('leaves the other side open in hedge mode', async () => {
+    openFuturesPosition('LONG');
+
+    send(flatAccountUpdate('SHORT'));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(orderManager.closePositionAt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,199 @@
+import { createModuleLogger } from '../utils/logger';
+import { BinanceClient } from './binance/BinanceClient';
+import { UserDataStream, UserDataStreamOptions } from './binance/UserDataStream';
+import {
+  AccountPositionUpdate,
+  AccountUpdate,
+  ExecutionReport,
+  UserDataStreamType,
+} from './binance/types';
+import { OrderManager, OrderUpdate, Position } from './OrderManager';
+import databaseService from '../database';
+import config from '../config';
+
+const logger = createModuleLogger('UserDataListener');
+
+// Events for orders the bot can't find yet (e.g. placed by another instance that is still
+// recording them) get this long to show up before being treated as external
+const UNKNOWN_ORDER_GRACE_MS = 3000;
+
+/**
+ * Applies Binance user-data stream events (order updates, futures position changes)
+ * to the orders and positions tables as they happen. Other venues have no stream here -
+ * their orders are followed by OrderTracker.
+ */
+export class UserDataListener {
+  private streams: UserDataStream[];
+  private pendingTimers = new Set<NodeJS.Timeout>();
+  private lastFillPrices = new Map<string, number>();
+
+  constructor(
+    private binanceClient: BinanceClient,
+    private orderManager: OrderManager,
+    streamTypes: UserDataStreamType[] = config.binance.userDataStreams,
+    private graceMs: number = UNKNOWN_ORDER_GRACE_MS,
+    streamOptions: UserDataStreamOptions = {}
+  ) {
+    const handlers = {
+      onExecutionReport: (report: ExecutionReport) => this.handleExecutionReport(report),
+      onAccountUpdate: (update: AccountUpdate) => this.handleAccountUpdate(update),
+    };
+
+    this.streams = streamTypes.map(
+      (streamType) => new UserDataStream(binanceClient, streamType, handlers, streamOptions)
+    );
+  }
+
+  start(): void {
+    if (this.streams.length === 0) {
+      return;
+    }
+
+    this.streams.forEach((stream) => stream.start());
+    logger.info('User data listener started', { streams: this.streams.length });
+  }
+
+  stop(): void {
+    this.streams.forEach((stream) => stream.stop());
+    this.pendingTimers.forEach((timer) => clearTimeout(timer));
+    this.pendingTimers.clear();
+  }
+
+  async handleExecutionReport(report: ExecutionReport): Promise<void> {
+    if (report.lastFillPrice) {
+      this.lastFillPrices.set(
+        this.priceKey(report.tradingType, report.symbol),
+        report.lastFillPrice
+      );
+    }
+
+    if (report.isLiquidation) {
+      logger.warn('Liquidation order update', {
+        symbol: report.symbol,
+        side: report.side,
+        status: report.status,
+        executedQty: report.executedQty,
+      });
+    }
+
+    const order = this.findOrder(report);
+
+    if (order) {
+      await this.orderManager.applyOrderUpdate(order.id, this.toOrderUpdate(report));
+      return;
+    }
+
+    // Liquidations are never the bot's own orders, no need to wait for them
+    if (report.isLiquidation) {
+      await this.applyExternalOrder(report);
+      return;
+    }
+
+    this.defer(async () => {
+      const recorded = this.findOrder(report);
+
+      if (recorded) {
+        await this.orderManager.applyOrderUpdate(recorded.id, this.toOrderUpdate(report));
+      } else {
+        await this.applyExternalOrder(report);
+      }
+    });
+  }
+
+  async handleAccountUpdate(update: AccountUpdate): Promise<void> {
+    // Positions that went flat are normally closed by the fill that flattened them;
+    // check again once those fills have been applied and close whatever is left
+    for (const position of update.positions) {
+      if (position.positionAmt === 0) {
+        this.defer(() => this.closeFlatPositions(position, update.reason));
+      }
+    }
+  }
+
+  private async closeFlatPositions(update: AccountPositionUpdate, reason: string): Promise<void> {
+    const db = databaseService.getDatabase();
+
+    const positions = db
+      .prepare(
+        `SELECT * FROM positions
+         WHERE symbol = ? AND trading_type = 'FUTURE' AND paper = 0 AND status = 'OPEN'
+           AND exchange = ?`
+      )
+      .all(update.symbol, this.binanceClient.name) as Position[];
+
+    for (const position of positions) {
+      if (update.positionSide !== 'BOTH' && position.side !== update.positionSide) {
+        continue;
+      }
+
+      const exitPrice =
+        this.lastFillPrices.get(this.priceKey('FUTURE', update.symbol)) ??
+        (await this.binanceClient.getFuturesPrice(update.symbol));
+
+      logger.warn('Futures position is flat on the exchange but open locally', {
+        positionId: position.id,
+        symbol: update.symbol,
+        reason,
+      });
+
+      await this.orderManager.closePositionAt(position.id, exitPrice);
+    }
+  }
+
+  private async applyExternalOrder(report: ExecutionReport): Promise<void> {
+    const orderId = this.orderManager.recordExternalOrder(report, this.binanceClient.name);
+    await this.orderManager.applyOrderUpdate(orderId, this.toOrderUpdate(report));
+  }
+
+  private findOrder(report: ExecutionReport): { id: string } | undefined {
+    const db = databaseService.getDatabase();
+
+    // The bot's own orders are recorded with their client order id before they're sent,
+    // so events that beat the REST response are still matched
+    const order = db
+      .prepare(
+        `SELECT id, binance_order_id FROM orders
+         WHERE exchange = ? AND trading_type = ?
+           AND (binance_order_id = ? OR client_order_id = ?)`
+      )
+      .get(this.binanceClient.name, report.tradingType, report.orderId, report.clientOrderId) as
+      { id: string; binance_order_id: string | null } | undefined;
+
+    if (order && !order.binance_order_id) {
+      db.prepare('UPDATE orders SET binance_order_id = ? WHERE id = ?').run(
+        report.orderId,
+        order.id
+      );
+    }
+
+    return order;
+  }
+
+  private toOrderUpdate(report: ExecutionReport): OrderUpdate {
+    return {
+      status: report.status,
+      executedQty: report.executedQty,
+      cummulativeQuoteQty: report.cummulativeQuoteQty,
+      commission: report.commission,
+      commissionAsset: report.commissionAsset,
+    };
+  }
+
+  private defer(task: () => Promise<void>): void {
+    const timer = setTimeout(async () => {
+      this.pendingTimers.delete(timer);
+
+      try {
+        await task();
+      } catch (error) {
+        logger.error('Failed to apply user data event', { error });
+      }
+    }, this.graceMs);
+
+    this.pendingTimers.add(timer);
+  }
+
+  private priceKey(tradingType: UserDataStreamType, symbol: string): string {
+    return `${tradingType}:${symbol}`;
+  }
+}
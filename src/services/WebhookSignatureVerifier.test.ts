@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import { SignedWebhook, WebhookSignatureVerifier } from './WebhookSignatureVerifier';
+import { AuthenticationError } from '../utils/errors';
+import databaseService from '../database';
+
+describe('WebhookSignatureVerifier', () => {
+  const secret = 'webhook-secret';
+  const body = '{"action":"buy","symbol":"BTCUSDT"}';
+  let verifier: WebhookSignatureVerifier;
+
+  const sign = (timestamp: string, nonce: string, rawBody: string, key = secret) =>
+    crypto.createHmac('sha256', key).update(`${timestamp}.${nonce}.${rawBody}`).digest('hex');
+
+  // A webhook signed now, over the body it carries
+  const webhook = (fields: Partial<SignedWebhook> = {}): SignedWebhook => {
+    const timestamp = fields.timestamp ?? String(Date.now());
+    const nonce = fields.nonce ?? 'nonce-0001';
+
+    return {
+      timestamp,
+      nonce,
+      signature: `sha256=${sign(timestamp, nonce, body)}`,
+      rawBody: Buffer.from(body),
+      secret,
+      strategyId: null,
+      ...fields,
+    };
+  };
+
+  const rejection = (signed: SignedWebhook) => {
+    try {
+      verifier.verify(signed);
+    } catch (error) {
+      expect(error).toBeInstanceOf(AuthenticationError);
+      return (error as Error).message;
+    }
+    throw new Error('Webhook was accepted');
+  };
+
+  beforeEach(() => {
+    databaseService.getDatabase().exec('DELETE FROM webhook_nonces;');
+    verifier = new WebhookSignatureVerifier(60000);
+  });
+
+  it('accepts a correctly signed webhook', () => {
+    expect(() => verifier.verify(webhook())).not.toThrow();
+  });
+
+  it('accepts a timestamp in epoch seconds', () => {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    expect(() => verifier.verify(webhook({ timestamp }))).not.toThrow();
+  });
+
+  it('rejects a body changed after signing', () => {
+    const tampered = webhook({ rawBody: Buffer.from(body.replace('buy', 'sell')) });
+
+    expect(rejection(tampered)).toBe('Invalid webhook signature');
+  });
+
+  it('rejects a signature made with another secret', () => {
+    const signed = webhook({ secret: 'other-secret' });
+
+    expect(rejection(signed)).toBe('Invalid webhook signature');
+  });
+
+  it.each([
+    ['stale', -61000],
+    ['future', 61000],
+  ])('rejects a %s timestamp outside the allowed skew', (_, offsetMs) => {
+    const signed = webhook({ timestamp: String(Date.now() + offsetMs) });
+
+    expect(rejection(signed)).toBe('Webhook timestamp is outside the allowed clock skew');
+  });
+
+  it('rejects a timestamp that is not epoch seconds or milliseconds', () => {
+    expect(rejection(webhook({ timestamp: '2026-01-01T00:00:00Z' }))).toBe(
+      'Invalid webhook timestamp'
+    );
+  });
+
+  it('rejects a replayed nonce', () => {
+    const signed = webhook();
+    verifier.verify(signed);
+
+    expect(rejection(signed)).toBe('Webhook nonce has already been used');
+  });
+
+  it('leaves the nonce unused when the signature is wrong', () => {
+    const signed = webhook();
+    rejection({ ...signed, signature: sign(signed.timestamp!, signed.nonce!, body, 'wrong') });
+
+    expect(() => verifier.verify(signed)).not.toThrow();
+  });
+});
@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import { createModuleLogger } from '../utils/logger';
+import { AuthenticationError } from '../utils/errors';
+import databaseService from '../database';
+import config from '../config';
+
+const logger = createModuleLogger('WebhookSignatureVerifier');
+
+// Nonces are random strings chosen by the sender; these bounds keep junk out of the table
+const MIN_NONCE_LENGTH = 8;
+const MAX_NONCE_LENGTH = 128;
+
+export interface SignedWebhook {
+  timestamp?: string; // Epoch seconds or milliseconds
+  nonce?: string;
+  signature?: string; // Hex HMAC-SHA256, optionally prefixed with "sha256="
+  rawBody: Buffer;
+  secret: string; // HMAC key
+  strategyId: string | null;
+}
+
+/**
+ * Verifies signed webhooks: an HMAC-SHA256 over "timestamp.nonce.body" keyed with the webhook
+ * secret, a timestamp within the allowed clock skew, and a nonce that hasn't been seen before.
+ * Nonces are kept in SQLite for as long as their timestamp would still be accepted.
+ */
+export class WebhookSignatureVerifier {
+  constructor(private toleranceMs: number = config.tradingView.signatureToleranceMs) {}
+
+  verify(webhook: SignedWebhook): void {
+    const { timestamp, nonce, signature, rawBody, secret, strategyId } = webhook;
+
+    if (!timestamp || !nonce || !signature) {
+      throw new AuthenticationError(
+        'Signed webhooks need x-webhook-timestamp, x-webhook-nonce and x-webhook-signature headers'
+      );
+    }
+
+    const sentAt = this.parseTimestamp(timestamp);
+    if (sentAt === null) {
+      throw new AuthenticationError('Invalid webhook timestamp');
+    }
+
+    const now = Date.now();
+    if (Math.abs(now - sentAt) > this.toleranceMs) {
+      logger.warn('Webhook timestamp outside the allowed clock skew', {
+        strategyId,
+        timestamp,
+        skewMs: now - sentAt,
+      });
+      throw new AuthenticationError('Webhook timestamp is outside the allowed clock skew');
+    }
+
+    if (nonce.length < MIN_NONCE_LENGTH || nonce.length > MAX_NONCE_LENGTH) {
+      throw new AuthenticationError(
+        `Webhook nonce must be ${MIN_NONCE_LENGTH}-${MAX_NONCE_LENGTH} characters`
+      );
+    }
+
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${nonce}.`)
+      .update(rawBody)
+      .digest();
+    const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      throw new AuthenticationError('Invalid webhook signature');
+    }
+
+    // Only a correctly signed request may use up a nonce
+    this.claimNonce(nonce, strategyId, now);
+  }
+
+  private claimNonce(nonce: string, strategyId: string | null, now: number): void {
+    const db = databaseService.getDatabase();
+
+    // Anything older can't be replayed - its timestamp would be rejected
+    db.prepare('DELETE FROM webhook_nonces WHERE received_at < ?').run(now - 2 * this.toleranceMs);
+
+    const result = db
+      .prepare(
+        'INSERT OR IGNORE INTO webhook_nonces (nonce, strategy_id, received_at) VALUES (?, ?, ?)'
+      )
+      .run(nonce, strategyId, now);
+
+    if (result.changes === 0) {
+      logger.warn('Replayed webhook rejected', { strategyId, nonce });
+      throw new AuthenticationError('Webhook nonce has already been used');
+    }
+  }
+
+  // Seconds (10 digits) or milliseconds (13 digits) since the epoch
+  private parseTimestamp(timestamp: string): number | null {
+    if (!/^\d{10}$|^\d{13}$/.test(timestamp)) {
+      return null;
+    }
+
+    const value = parseInt(timestamp, 10);
+    return timestamp.length === 10 ? value * 1000 : value;
+  }
+}
@@ -1,6 +1,7 @@
-import Binance, { OrderType } from 'binance-api-node';
+import Binance, { NewFuturesOrder, OrderType } from 'binance-api-node';
 import { createModuleLogger } from '../../utils/logger';
-import { BinanceApiError } from '../../utils/errors';
+import { BinanceApiError, OrderRejectedError } from '../../utils/errors';
+import { ExchangeAdapter } from '../exchange/ExchangeAdapter';
 import {
   BinanceConfig,
   SymbolInfo,
@@ -14,19 +15,48 @@ import {
   Stats24hr,
   FuturesMarketOrderParams,
   FuturesLimitOrderParams,
+  FuturesStopMarketParams,
+  FuturesTrailingStopParams,
   FuturesAccountInfo,
   FuturesBalance,
   FuturesPosition,
+  FuturesPositionMode,
+  FuturesPositionSide,
+  UserDataStreamType,
 } from './types';
 
 const logger = createModuleLogger('BinanceClient');
 
-export class BinanceClient {
+// "Order does not exist" - returned by order lookups for both spot and futures
+const UNKNOWN_ORDER_CODE = -2013;
+
+// Unknown error, disconnected, unexpected response, timeout, rate limits and clock skew - the
+// request may not have been processed. Any other error code is Binance's answer to it.
+const TRANSIENT_CODES = [-1000, -1001, -1003, -1006, -1007, -1015, -1021];
+
+// Errors from the client carry the code Binance answered with, if it answered
+type BinanceRequestError = Error & { code?: number };
+
+// listenKey endpoints exist on the client but are missing from its typings
+interface ListenKeyClient {
+  getDataStream(): Promise<{ listenKey: string }>;
+  keepDataStream(options: { listenKey: string }): Promise<unknown>;
+  closeDataStream(options: { listenKey: string }): Promise<unknown>;
+  futuresGetDataStream(): Promise<{ listenKey: string }>;
+  futuresKeepDataStream(options: { listenKey: string }): Promise<unknown>;
+  futuresCloseDataStream(options: { listenKey: string }): Promise<unknown>;
+}
+
+export class BinanceClient implements ExchangeAdapter {
+  readonly name = 'binance' as const;
   private client: ReturnType<typeof Binance>;
   private symbolCache: Map<string, SymbolInfo> = new Map();
   private cacheExpiry: Map<string, number> = new Map();
+  readonly testnet: boolean;
 
   constructor(config: BinanceConfig) {
+    this.testnet = config.testnet;
+
     const apiUrl = config.testnet
       ? 'https://testnet.binance.vision'
       : 'https://api.binance.com';
@@ -78,6 +108,57 @@ export class BinanceClient {
     }
   }
 
+  async getFuturesPrice(symbol: string): Promise<number> {
+    try {
+      const ticker = await this.retryWithBackoff(() => this.client.futuresPrices({ symbol }));
+      return parseFloat(ticker[symbol]);
+    } catch (error) {
+      throw this.handleBinanceError(error, 'getFuturesPrice');
+    }
+  }
+
+  async getFuturesSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    try {
+      // Futures symbols share names with spot ones but have their own filters
+      const cacheKey = `FUTURE:${symbol}`;
+      const cached = this.getCachedData<SymbolInfo>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+
+      const exchangeInfo = await this.retryWithBackoff(() => this.client.futuresExchangeInfo());
+      const symbolInfo = exchangeInfo.symbols.find((s) => s.symbol === symbol);
+
+      if (!symbolInfo) {
+        throw new Error(`Futures symbol ${symbol} not found`);
+      }
+
+      this.setCachedData(cacheKey, symbolInfo as SymbolInfo, 3600000);
+
+      return symbolInfo as SymbolInfo;
+    } catch (error) {
+      throw this.handleBinanceError(error, 'getFuturesSymbolInfo');
+    }
+  }
+
+  async getSymbols(): Promise<SymbolInfo[]> {
+    try {
+      const exchangeInfo = await this.retryWithBackoff(() => this.client.exchangeInfo());
+      return exchangeInfo.symbols as SymbolInfo[];
+    } catch (error) {
+      throw this.handleBinanceError(error, 'getSymbols');
+    }
+  }
+
+  async getFuturesSymbols(): Promise<SymbolInfo[]> {
+    try {
+      const exchangeInfo = await this.retryWithBackoff(() => this.client.futuresExchangeInfo());
+      return exchangeInfo.symbols as SymbolInfo[];
+    } catch (error) {
+      throw this.handleBinanceError(error, 'getFuturesSymbols');
+    }
+  }
+
   async get24hrStats(symbol: string): Promise<Stats24hr> {
     try {
       const stats = await this.retryWithBackoff(() => this.client.dailyStats({ symbol }));
@@ -140,12 +221,13 @@ export class BinanceClient {
     try {
       logger.info('Creating market order', params);
 
-      const order = await this.retryWithBackoff(() =>
+      const order = await this.submitOrder('SPOT', params, () =>
         this.client.order({
           symbol: params.symbol,
           side: params.side,
           type: OrderType.MARKET,
           quantity: params.quantity.toString(),
+          newClientOrderId: params.clientOrderId,
         })
       );
 
@@ -155,10 +237,10 @@ export class BinanceClient {
         status: order.status,
       });
 
-      return this.mapOrder(order);
+      return order;
     } catch (error) {
       logger.error('Failed to create market order', { params, error });
-      throw this.handleBinanceError(error, 'createMarketOrder');
+      throw this.handleOrderError(error, 'createMarketOrder');
     }
   }
 
@@ -166,7 +248,7 @@ export class BinanceClient {
     try {
       logger.info('Creating limit order', params);
 
-      const order = await this.retryWithBackoff(() =>
+      const order = await this.submitOrder('SPOT', params, () =>
         this.client.order({
           symbol: params.symbol,
           side: params.side,
@@ -174,6 +256,7 @@ export class BinanceClient {
           quantity: params.quantity.toString(),
           price: params.price.toString(),
           timeInForce: 'GTC',
+          newClientOrderId: params.clientOrderId,
         })
       );
 
@@ -183,10 +266,10 @@ export class BinanceClient {
         status: order.status,
       });
 
-      return this.mapOrder(order);
+      return order;
     } catch (error) {
       logger.error('Failed to create limit order', { params, error });
-      throw this.handleBinanceError(error, 'createLimitOrder');
+      throw this.handleOrderError(error, 'createLimitOrder');
     }
   }
 
@@ -194,15 +277,16 @@ export class BinanceClient {
     try {
       logger.info('Creating stop loss order', params);
 
-      const order = await this.retryWithBackoff(() =>
+      const order = await this.submitOrder('SPOT', params, () =>
         this.client.order({
           symbol: params.symbol,
           side: params.side,
           type: OrderType.STOP_LOSS_LIMIT,
           quantity: params.quantity.toString(),
-          price: params.stopPrice.toString(),
+          price: (params.limitPrice ?? params.stopPrice).toString(),
           stopPrice: params.stopPrice.toString(),
           timeInForce: 'GTC',
+          newClientOrderId: params.clientOrderId,
         })
       );
 
@@ -212,10 +296,10 @@ export class BinanceClient {
         status: order.status,
       });
 
-      return this.mapOrder(order);
+      return order;
     } catch (error) {
       logger.error('Failed to create stop loss order', { params, error });
-      throw this.handleBinanceError(error, 'createStopLossOrder');
+      throw this.handleOrderError(error, 'createStopLossOrder');
     }
   }
 
@@ -252,6 +336,24 @@ export class BinanceClient {
     }
   }
 
+  /**
+   * Look up an order by the client order id it was placed with, null if the exchange never got it
+   */
+  async getOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null> {
+    try {
+      const order = await this.retryWithBackoff(() =>
+        this.client.getOrder({ symbol, origClientOrderId: clientOrderId })
+      );
+
+      return this.mapOrder(order);
+    } catch (error) {
+      if ((error as BinanceRequestError).code === UNKNOWN_ORDER_CODE) {
+        return null;
+      }
+      throw this.handleBinanceError(error, 'getOrderByClientId');
+    }
+  }
+
   async getOpenOrders(symbol?: string): Promise<Order[]> {
     try {
       const orders = await this.retryWithBackoff(() =>
@@ -284,17 +386,56 @@ export class BinanceClient {
     }
   }
 
+  async getFuturesPositionMode(): Promise<FuturesPositionMode> {
+    try {
+      const result = await this.retryWithBackoff(() => this.client.futuresPositionMode());
+      return result.dualSidePosition ? 'HEDGE' : 'ONE_WAY';
+    } catch (error) {
+      throw this.handleBinanceError(error, 'getFuturesPositionMode');
+    }
+  }
+
+  /**
+   * Switch the futures account between one-way and hedge mode. The mode is account-wide and
+   * Binance only allows changing it while there are no open positions or orders.
+   */
+  async setFuturesPositionMode(mode: FuturesPositionMode): Promise<void> {
+    try {
+      const cached = this.getCachedData<FuturesPositionMode>('futuresPositionMode');
+      if (cached === mode) {
+        return;
+      }
+
+      const current = await this.getFuturesPositionMode();
+
+      if (current !== mode) {
+        logger.info('Changing futures position mode', { from: current, to: mode });
+
+        await this.client.futuresPositionModeChange({
+          dualSidePosition: mode === 'HEDGE' ? 'true' : 'false',
+          recvWindow: 5000,
+        });
+      }
+
+      this.setCachedData('futuresPositionMode', mode, 60000);
+    } catch (error) {
+      throw this.handleBinanceError(error, 'setFuturesPositionMode');
+    }
+  }
+
   async createFuturesMarketOrder(params: FuturesMarketOrderParams): Promise<Order> {
     try {
       logger.info('Creating futures market order', params);
 
-      const order = await this.retryWithBackoff(() =>
+      const order = await this.submitOrder('FUTURE', params, () =>
         this.client.futuresOrder({
           symbol: params.symbol,
           side: params.side,
           type: 'MARKET',
           quantity: params.quantity.toString(),
-          positionSide: params.positionSide,
+          ...this.futuresPositionParams(params.positionSide, params.reduceOnly),
+          newOrderRespType: 'RESULT', // Return fill details instead of a bare ACK
+          newClientOrderId: params.clientOrderId,
         })
       );
 
@@ -304,10 +445,10 @@ export class BinanceClient {
         status: order.status,
       });
 
-      return this.mapOrder(order);
+      return order;
     } catch (error) {
       logger.error('Failed to create futures market order', { params, error });
-      throw this.handleBinanceError(error, 'createFuturesMarketOrder');
+      throw this.handleOrderError(error, 'createFuturesMarketOrder');
     }
   }
 
@@ -315,7 +456,7 @@ export class BinanceClient {
     try {
       logger.info('Creating futures limit order', params);
 
-      const order = await this.retryWithBackoff(() =>
+      const order = await this.submitOrder('FUTURE', params, () =>
         this.client.futuresOrder({
           symbol: params.symbol,
           side: params.side,
@@ -323,7 +464,9 @@ export class BinanceClient {
           quantity: params.quantity.toString(),
           price: params.price.toString(),
           timeInForce: 'GTC', // Good Till Cancel
-          positionSide: params.positionSide,
+          ...this.futuresPositionParams(params.positionSide, params.reduceOnly),
+          newOrderRespType: 'RESULT',
+          newClientOrderId: params.clientOrderId,
         })
       );
 
@@ -333,10 +476,129 @@ export class BinanceClient {
         status: order.status,
       });
 
-      return this.mapOrder(order);
+      return order;
     } catch (error) {
       logger.error('Failed to create futures limit order', { params, error });
-      throw this.handleBinanceError(error, 'createFuturesLimitOrder');
+      throw this.handleOrderError(error, 'createFuturesLimitOrder');
+    }
+  }
+
+  async createFuturesStopMarketOrder(params: FuturesStopMarketParams): Promise<Order> {
+    try {
+      logger.info('Creating futures stop market order', params);
+
+      const order = await this.submitOrder('FUTURE', params, () =>
+        this.client.futuresOrder({
+          symbol: params.symbol,
+          side: params.side,
+          type: 'STOP_MARKET',
+          quantity: params.quantity.toString(),
+          stopPrice: params.stopPrice.toString(),
+          ...this.futuresPositionParams(params.positionSide, true),
+          newClientOrderId: params.clientOrderId,
+        })
+      );
+
+      logger.info('Futures stop market order created', {
+        orderId: order.orderId,
+        symbol: params.symbol,
+        status: order.status,
+      });
+
+      return order;
+    } catch (error) {
+      logger.error('Failed to create futures stop market order', { params, error });
+      throw this.handleOrderError(error, 'createFuturesStopMarketOrder');
+    }
+  }
+
+  async createFuturesTrailingStopOrder(params: FuturesTrailingStopParams): Promise<Order> {
+    try {
+      logger.info('Creating futures trailing stop order', params);
+
+      // The API requires quantity on trailing stops, the client's typings leave it out
+      const order = await this.submitOrder('FUTURE', params, () =>
+        this.client.futuresOrder({
+          symbol: params.symbol,
+          side: params.side,
+          type: 'TRAILING_STOP_MARKET',
+          quantity: params.quantity.toString(),
+          callbackRate: params.callbackRate.toString(),
+          ...this.futuresPositionParams(params.positionSide, true),
+          newClientOrderId: params.clientOrderId,
+        } as NewFuturesOrder)
+      );
+
+      logger.info('Futures trailing stop order created', {
+        orderId: order.orderId,
+        symbol: params.symbol,
+        status: order.status,
+      });
+
+      return order;
+    } catch (error) {
+      logger.error('Failed to create futures trailing stop order', { params, error });
+      throw this.handleOrderError(error, 'createFuturesTrailingStopOrder');
+    }
+  }
+
+  async cancelFuturesOrder(symbol: string, orderId: string): Promise<void> {
+    try {
+      logger.info('Cancelling futures order', { symbol, orderId });
+
+      await this.retryWithBackoff(() =>
+        this.client.futuresCancelOrder({
+          symbol,
+          orderId: parseInt(orderId, 10),
+        })
+      );
+
+      logger.info('Futures order cancelled', { symbol, orderId });
+    } catch (error) {
+      logger.error('Failed to cancel futures order', { symbol, orderId, error });
+      throw this.handleBinanceError(error, 'cancelFuturesOrder');
+    }
+  }
+
+  async getFuturesOrder(symbol: string, orderId: string): Promise<Order> {
+    try {
+      const order = await this.retryWithBackoff(() =>
+        this.client.futuresGetOrder({
+          symbol,
+          orderId: parseInt(orderId, 10),
+        })
+      );
+
+      return this.mapOrder(order);
+    } catch (error) {
+      throw this.handleBinanceError(error, 'getFuturesOrder');
+    }
+  }
+
+  async getFuturesOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null> {
+    try {
+      const order = await this.retryWithBackoff(() =>
+        this.client.futuresGetOrder({ symbol, origClientOrderId: clientOrderId })
+      );
+
+      return this.mapOrder(order);
+    } catch (error) {
+      if ((error as BinanceRequestError).code === UNKNOWN_ORDER_CODE) {
+        return null;
+      }
+      throw this.handleBinanceError(error, 'getFuturesOrderByClientId');
+    }
+  }
+
+  async getFuturesOpenOrders(symbol?: string): Promise<Order[]> {
+    try {
+      const orders = await this.retryWithBackoff(() =>
+        this.client.futuresOpenOrders(symbol ? { symbol } : {})
+      );
+
+      return orders.map((order) => this.mapOrder(order));
+    } catch (error) {
+      throw this.handleBinanceError(error, 'getFuturesOpenOrders');
     }
   }
 
@@ -419,19 +681,117 @@ export class BinanceClient {
     }
   }
 
+  // ========== User Data Stream ==========
+
+  async createListenKey(streamType: UserDataStreamType): Promise<string> {
+    try {
+      const client = this.client as unknown as ListenKeyClient;
+      const response = await this.retryWithBackoff<{ listenKey: string }>(() =>
+        streamType === 'FUTURE' ? client.futuresGetDataStream() : client.getDataStream()
+      );
+
+      return response.listenKey;
+    } catch (error) {
+      throw this.handleBinanceError(error, 'createListenKey');
+    }
+  }
+
+  async keepAliveListenKey(streamType: UserDataStreamType, listenKey: string): Promise<void> {
+    try {
+      const client = this.client as unknown as ListenKeyClient;
+      await this.retryWithBackoff(() =>
+        streamType === 'FUTURE'
+          ? client.futuresKeepDataStream({ listenKey })
+          : client.keepDataStream({ listenKey })
+      );
+    } catch (error) {
+      throw this.handleBinanceError(error, 'keepAliveListenKey');
+    }
+  }
+
+  async closeListenKey(streamType: UserDataStreamType, listenKey: string): Promise<void> {
+    try {
+      const client = this.client as unknown as ListenKeyClient;
+      await (streamType === 'FUTURE'
+        ? client.futuresCloseDataStream({ listenKey })
+        : client.closeDataStream({ listenKey }));
+    } catch (error) {
+      throw this.handleBinanceError(error, 'closeListenKey');
+    }
+  }
+
   // ========== Utility Methods ==========
 
+  /**
+   * Position side / reduce-only params for a futures order. Unset values are left out since the
+   * client would send them as "undefined", and hedge mode rejects reduceOnly - the position side
+   * already decides whether the order opens or closes.
+   */
+  private futuresPositionParams(
+    positionSide?: FuturesPositionSide,
+    reduceOnly?: boolean
+  ): { positionSide?: FuturesPositionSide; reduceOnly?: 'true' } {
+    const hedged = positionSide === 'LONG' || positionSide === 'SHORT';
+
+    return {
+      ...(positionSide ? { positionSide } : {}),
+      ...(reduceOnly && !hedged ? { reduceOnly: 'true' as const } : {}),
+    };
+  }
+
+  /**
+   * Place an order without risking duplicates on retry: a failed attempt may still have reached
+   * the exchange (e.g. a timeout), so later attempts look the client order id up before resending.
+   * Once retried, an error code no longer proves the order isn't live - it may be the resend's
+   * duplicate client order id being turned down - so the error loses its code.
+   */
+  private async submitOrder(
+    tradingType: UserDataStreamType,
+    params: { symbol: string; clientOrderId: string },
+    place: () => Promise<unknown>
+  ): Promise<Order> {
+    let attempts = 0;
+
+    try {
+      return await this.retryWithBackoff(async () => {
+        if (attempts++ > 0) {
+          const existing =
+            tradingType === 'FUTURE'
+              ? await this.getFuturesOrderByClientId(params.symbol, params.clientOrderId)
+              : await this.getOrderByClientId(params.symbol, params.clientOrderId);
+
+          if (existing) {
+            logger.warn('Order reached the exchange on an earlier attempt, not resending', {
+              clientOrderId: params.clientOrderId,
+              orderId: existing.orderId,
+            });
+            return existing;
+          }
+        }
+
+        return this.mapOrder(await place());
+      });
+    } catch (error) {
+      throw attempts > 1 ? new Error((error as Error).message) : error;
+    }
+  }
+
   private mapOrder(binanceOrder: any): Order {
     return {
       orderId: binanceOrder.orderId.toString(),
+      clientOrderId: binanceOrder.clientOrderId,
       symbol: binanceOrder.symbol,
       side: binanceOrder.side,
       type: binanceOrder.type,
       quantity: parseFloat(binanceOrder.origQty || binanceOrder.quantity),
       price: binanceOrder.price ? parseFloat(binanceOrder.price) : undefined,
+      stopPrice: binanceOrder.stopPrice ? parseFloat(binanceOrder.stopPrice) : undefined,
       status: binanceOrder.status,
       executedQty: parseFloat(binanceOrder.executedQty || '0'),
-      cummulativeQuoteQty: parseFloat(binanceOrder.cummulativeQuoteQty || '0'),
+      // Futures responses report the filled quote amount as cumQuote
+      cummulativeQuoteQty: parseFloat(
+        binanceOrder.cummulativeQuoteQty || binanceOrder.cumQuote || '0'
+      ),
       fills: binanceOrder.fills,
       transactTime: binanceOrder.transactTime,
     };
@@ -455,6 +815,16 @@ export class BinanceClient {
           throw error;
         }
 
+        // Asking again won't make an unknown order appear
+        if (error.code === UNKNOWN_ORDER_CODE) {
+          throw error;
+        }
+
+        // Binance answered the request itself - asking again gives the same answer
+        if (typeof error.code === 'number' && !TRANSIENT_CODES.includes(error.code)) {
+          throw error;
+        }
+
         // Don't retry on last attempt
         if (attempt === maxRetries) {
           break;
@@ -473,6 +843,21 @@ export class BinanceClient {
     throw lastError;
   }
 
+  /**
+   * Errors from placing an order: an error code Binance answered with is a rejection, anything
+   * else (timeouts, network failures) leaves the order's outcome unknown
+   */
+  private handleOrderError(error: unknown, method: string): never {
+    const { code, message } = error as BinanceRequestError;
+
+    if (typeof code === 'number' && !TRANSIENT_CODES.includes(code)) {
+      logger.error(`Binance rejected order in ${method}`, { error });
+      throw new OrderRejectedError(message || 'Order rejected by Binance', { method, code });
+    }
+
+    return this.handleBinanceError(error, method);
+  }
+
   private handleBinanceError(error: any, method: string): never {
     logger.error(`Binance API error in ${method}`, { error });
 
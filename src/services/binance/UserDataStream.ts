@@ -0,0 +1,366 @@
+import WebSocket from 'ws';
+import { createModuleLogger } from '../../utils/logger';
+import { BinanceClient } from './BinanceClient';
+import { AccountUpdate, ExecutionReport, UserDataStreamType } from './types';
+import { FuturesPositionSide } from '../exchange/types';
+
+const logger = createModuleLogger('UserDataStream');
+
+const STREAM_URLS: Record<UserDataStreamType, { live: string; testnet: string }> = {
+  SPOT: {
+    live: 'wss://stream.binance.com:9443/ws',
+    testnet: 'wss://testnet.binance.vision/ws',
+  },
+  FUTURE: {
+    live: 'wss://fstream.binance.com/ws',
+    testnet: 'wss://stream.binancefuture.com/ws',
+  },
+};
+
+// Stream payloads as Binance sends them - numbers arrive as strings
+interface StreamEvent {
+  e: string;
+  E: number;
+}
+
+interface SpotExecutionEvent extends StreamEvent {
+  s: string;
+  i: number;
+  c: string;
+  C?: string;
+  S: 'BUY' | 'SELL';
+  o: string;
+  X: string;
+  q: string;
+  p: string;
+  P: string;
+  z: string;
+  Z: string;
+  L: string;
+  n?: string;
+  N?: string | null;
+}
+
+interface FuturesOrderEvent extends StreamEvent {
+  o: {
+    s: string;
+    i: number;
+    c: string;
+    S: 'BUY' | 'SELL';
+    o: string;
+    X: string;
+    q: string;
+    p: string;
+    sp: string;
+    z: string;
+    ap?: string;
+    L: string;
+    n?: string;
+    N?: string;
+    ps: FuturesPositionSide;
+    R: boolean;
+  };
+}
+
+interface FuturesAccountEvent extends StreamEvent {
+  a: {
+    m: string;
+    P?: { s: string; pa: string; ep: string; ps: FuturesPositionSide }[];
+  };
+}
+
+export interface UserDataHandlers {
+  onExecutionReport(report: ExecutionReport): Promise<void>;
+  onAccountUpdate(update: AccountUpdate): Promise<void>;
+}
+
+export interface UserDataStreamOptions {
+  wsBaseUrl?: string;
+  keepAliveIntervalMs?: number;
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+/**
+ * Connection to a Binance user-data stream (spot or futures).
+ * Owns the listenKey lifecycle, keeps the key alive and reconnects with exponential backoff.
+ */
+export class UserDataStream {
+  private ws: WebSocket | null = null;
+  private listenKey: string | null = null;
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private running = false;
+
+  private readonly wsBaseUrl: string;
+  private readonly keepAliveIntervalMs: number;
+  private readonly reconnectDelayMs: number;
+  private readonly maxReconnectDelayMs: number;
+
+  constructor(
+    private binanceClient: BinanceClient,
+    private streamType: UserDataStreamType,
+    private handlers: UserDataHandlers,
+    options: UserDataStreamOptions = {}
+  ) {
+    const urls = STREAM_URLS[streamType];
+    this.wsBaseUrl = options.wsBaseUrl || (binanceClient.testnet ? urls.testnet : urls.live);
+    // listenKeys expire after 60 minutes without a keepalive
+    this.keepAliveIntervalMs = options.keepAliveIntervalMs ?? 30 * 60 * 1000;
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 60000;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    void this.connect();
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.teardown();
+    logger.info('User data stream stopped', { streamType: this.streamType });
+  }
+
+  isConnected(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  private async connect(): Promise<void> {
+    try {
+      this.listenKey = await this.binanceClient.createListenKey(this.streamType);
+    } catch (error) {
+      logger.error('Failed to create listen key', { streamType: this.streamType, error });
+      this.scheduleReconnect();
+      return;
+    }
+
+    // stop() may have been called while waiting for the listen key
+    if (!this.running) {
+      this.teardown();
+      return;
+    }
+
+    const ws = new WebSocket(`${this.wsBaseUrl}/${this.listenKey}`);
+    this.ws = ws;
+
+    ws.on('open', () => {
+      this.reconnectAttempts = 0;
+      this.startKeepAlive();
+      logger.info('User data stream connected', { streamType: this.streamType });
+    });
+
+    ws.on('message', (data) => {
+      void this.handleMessage(data.toString());
+    });
+
+    ws.on('error', (error) => {
+      logger.error('User data stream error', { streamType: this.streamType, error });
+    });
+
+    ws.on('close', (code) => {
+      // Ignore sockets that were already replaced or torn down
+      if (this.ws !== ws) {
+        return;
+      }
+
+      logger.warn('User data stream disconnected', { streamType: this.streamType, code });
+      this.teardown();
+      this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(
+      this.reconnectDelayMs * Math.pow(2, this.reconnectAttempts),
+      this.maxReconnectDelayMs
+    );
+    this.reconnectAttempts++;
+
+    logger.info('Reconnecting user data stream', {
+      streamType: this.streamType,
+      attempt: this.reconnectAttempts,
+      delay,
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.connect();
+    }, delay);
+  }
+
+  private startKeepAlive(): void {
+    this.stopKeepAlive();
+
+    this.keepAliveTimer = setInterval(async () => {
+      if (!this.listenKey) {
+        return;
+      }
+
+      try {
+        await this.binanceClient.keepAliveListenKey(this.streamType, this.listenKey);
+      } catch (error) {
+        // The key may have expired - start over with a fresh one
+        logger.error('Failed to keep listen key alive', { streamType: this.streamType, error });
+        this.reconnect();
+      }
+    }, this.keepAliveIntervalMs);
+  }
+
+  private stopKeepAlive(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+
+  private reconnect(): void {
+    this.teardown();
+    this.scheduleReconnect();
+  }
+
+  private teardown(): void {
+    this.stopKeepAlive();
+
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.removeAllListeners('message');
+      ws.on('error', () => {});
+      ws.terminate();
+    }
+
+    if (this.listenKey) {
+      const listenKey = this.listenKey;
+      this.listenKey = null;
+      this.binanceClient.closeListenKey(this.streamType, listenKey).catch((error) => {
+        logger.debug('Failed to close listen key', { streamType: this.streamType, error });
+      });
+    }
+  }
+
+  private async handleMessage(raw: string): Promise<void> {
+    let event: StreamEvent;
+
+    try {
+      event = JSON.parse(raw);
+    } catch (error) {
+      logger.warn('Invalid user data stream message', { streamType: this.streamType, raw });
+      return;
+    }
+
+    try {
+      switch (event.e) {
+        case 'executionReport':
+          await this.handlers.onExecutionReport(
+            this.parseExecutionReport(event as SpotExecutionEvent)
+          );
+          break;
+        case 'ORDER_TRADE_UPDATE':
+          await this.handlers.onExecutionReport(
+            this.parseOrderTradeUpdate(event as FuturesOrderEvent)
+          );
+          break;
+        case 'ACCOUNT_UPDATE':
+          await this.handlers.onAccountUpdate(
+            this.parseAccountUpdate(event as FuturesAccountEvent)
+          );
+          break;
+        case 'listenKeyExpired':
+          logger.warn('Listen key expired', { streamType: this.streamType });
+          this.reconnect();
+          break;
+        default:
+          // Balance and config updates are not tracked
+          break;
+      }
+    } catch (error) {
+      logger.error('Failed to handle user data event', {
+        streamType: this.streamType,
+        event: event.e,
+        error,
+      });
+    }
+  }
+
+  private parseExecutionReport(event: SpotExecutionEvent): ExecutionReport {
+    return {
+      tradingType: 'SPOT',
+      symbol: event.s,
+      orderId: String(event.i),
+      // Cancellations report the cancelled order's client id as C
+      clientOrderId: event.C || event.c,
+      side: event.S,
+      orderType: event.o,
+      status: event.X,
+      quantity: parseFloat(event.q),
+      price: parseFloat(event.p) || undefined,
+      stopPrice: parseFloat(event.P) || undefined,
+      executedQty: parseFloat(event.z),
+      cummulativeQuoteQty: parseFloat(event.Z),
+      lastFillPrice: parseFloat(event.L) || undefined,
+      commission: parseFloat(event.n || '0'),
+      commissionAsset: event.N || undefined,
+      isLiquidation: false,
+      eventTime: event.E,
+    };
+  }
+
+  private parseOrderTradeUpdate(event: FuturesOrderEvent): ExecutionReport {
+    const order = event.o;
+    const executedQty = parseFloat(order.z);
+
+    return {
+      tradingType: 'FUTURE',
+      symbol: order.s,
+      orderId: String(order.i),
+      clientOrderId: order.c,
+      side: order.S,
+      orderType: order.o,
+      status: order.X,
+      quantity: parseFloat(order.q),
+      price: parseFloat(order.p) || undefined,
+      stopPrice: parseFloat(order.sp) || undefined,
+      executedQty,
+      // Futures events carry the average price instead of the cumulative quote amount
+      cummulativeQuoteQty: executedQty * parseFloat(order.ap || '0'),
+      lastFillPrice: parseFloat(order.L) || undefined,
+      commission: parseFloat(order.n || '0'),
+      commissionAsset: order.N || undefined,
+      positionSide: order.ps,
+      reduceOnly: order.R === true,
+      isLiquidation:
+        order.o === 'LIQUIDATION' ||
+        (typeof order.c === 'string' && /^(autoclose-|adl_autoclose)/.test(order.c)),
+      eventTime: event.E,
+    };
+  }
+
+  private parseAccountUpdate(event: FuturesAccountEvent): AccountUpdate {
+    return {
+      reason: event.a.m,
+      positions: (event.a.P || []).map((position) => ({
+        symbol: position.s,
+        positionAmt: parseFloat(position.pa),
+        entryPrice: parseFloat(position.ep),
+        positionSide: position.ps,
+      })),
+      eventTime: event.E,
+    };
+  }
+}
@@ -1,138 +1,53 @@
+import { FuturesPositionSide } from '../exchange/types';
+
 export interface BinanceConfig {
   apiKey: string;
   apiSecret: string;
   testnet: boolean;
 }
 
-export interface SymbolInfo {
-  symbol: string;
-  status: string;
-  baseAsset: string;
-  quoteAsset: string;
-  filters: any[];
-}
-
-export interface Balance {
-  asset: string;
-  free: string;
-  locked: string;
-}
-
-export interface AccountInfo {
-  balances: Balance[];
-  canTrade: boolean;
-  canWithdraw: boolean;
-  canDeposit: boolean;
-}
+export * from '../exchange/types';
 
-export interface MarketOrderParams {
-  symbol: string;
-  side: 'BUY' | 'SELL';
-  quantity: number;
-}
+// User Data Stream Types
+export type UserDataStreamType = 'SPOT' | 'FUTURE';
 
-export interface LimitOrderParams {
+/**
+ * Order state pushed by executionReport (spot) or ORDER_TRADE_UPDATE (futures)
+ */
+export interface ExecutionReport {
+  tradingType: UserDataStreamType;
   symbol: string;
-  side: 'BUY' | 'SELL';
-  quantity: number;
-  price: number;
-}
-
-export interface StopLossParams {
-  symbol: string;
-  side: 'BUY' | 'SELL';
-  quantity: number;
-  stopPrice: number;
-}
-
-export interface Order {
   orderId: string;
-  symbol: string;
+  clientOrderId: string;
   side: 'BUY' | 'SELL';
-  type: string;
+  orderType: string;
+  status: string;
   quantity: number;
   price?: number;
-  status: string;
+  stopPrice?: number;
   executedQty: number;
   cummulativeQuoteQty: number;
-  fills?: OrderFill[];
-  transactTime?: number;
-}
-
-export interface OrderFill {
-  price: string;
-  qty: string;
-  commission: string;
-  commissionAsset: string;
-}
-
-export interface TickerPrice {
-  symbol: string;
-  price: string;
-}
-
-export interface Stats24hr {
-  symbol: string;
-  priceChange: string;
-  priceChangePercent: string;
-  lastPrice: string;
-  volume: string;
-  quoteVolume: string;
-  highPrice: string;
-  lowPrice: string;
-}
-
-// Futures Trading Types
-export interface FuturesMarketOrderParams {
-  symbol: string;
-  side: 'BUY' | 'SELL';
-  quantity: number;
-  positionSide?: 'LONG' | 'SHORT' | 'BOTH';
-}
-
-export interface FuturesLimitOrderParams {
-  symbol: string;
-  side: 'BUY' | 'SELL';
-  quantity: number;
-  price: number;
-  positionSide?: 'LONG' | 'SHORT' | 'BOTH';
-}
-
-export interface FuturesAccountInfo {
-  totalWalletBalance: string;
-  totalUnrealizedProfit: string;
-  totalMarginBalance: string;
-  availableBalance: string;
-  maxWithdrawAmount: string;
-  assets: FuturesAsset[];
-  positions: FuturesPosition[];
-}
-
-export interface FuturesAsset {
-  asset: string;
-  walletBalance: string;
-  unrealizedProfit: string;
-  marginBalance: string;
-  availableBalance: string;
-  crossWalletBalance: string;
-  crossUnrealizedPnL: string;
-  maxWithdrawAmount: string;
+  lastFillPrice?: number;
+  commission: number;
+  commissionAsset?: string;
+  positionSide?: FuturesPositionSide;
+  reduceOnly?: boolean;
+  isLiquidation: boolean;
+  eventTime: number;
 }
 
-export interface FuturesPosition {
+export interface AccountPositionUpdate {
   symbol: string;
-  positionAmt: string;
-  entryPrice: string;
-  markPrice: string;
-  unrealizedProfit: string;
-  liquidationPrice: string;
-  leverage: string;
-  marginType: string;
-  positionSide: 'LONG' | 'SHORT' | 'BOTH';
+  positionAmt: number;
+  entryPrice: number;
+  positionSide: FuturesPositionSide;
 }
 
-export interface FuturesBalance {
-  asset: string;
-  balance: string;
-  availableBalance: string;
+/**
+ * Futures balance/position changes pushed by ACCOUNT_UPDATE
+ */
+export interface AccountUpdate {
+  reason: string;
+  positions: AccountPositionUpdate[];
+  eventTime: number;
 }
@@ -0,0 +1,197 @@
+import path from 'path';
+import { BybitClient } from './BybitClient';
+import { RecordedBybitTransport } from './BybitTransport';
+import { BybitApiError, OrderRejectedError } from '../../utils/errors';
+
+const replay = (fixture: string) => {
+  const transport = RecordedBybitTransport.fromFile(
+    path.join(__dirname, '__fixtures__', `${fixture}.json`)
+  );
+  return { transport, client: new BybitClient(transport) };
+};
+
+describe('BybitClient', () => {
+  describe('order mapping', () => {
+    it('sends a one-way reduce-only futures order and maps the fill read back', async () => {
+      const { transport, client } = replay('orders');
+
+      const order = await client.createFuturesMarketOrder({
+        clientOrderId: 'fut-close-1',
+        symbol: 'BTCUSDT',
+        side: 'SELL',
+        quantity: 0.01,
+        reduceOnly: true,
+      });
+
+      expect(transport.requests[0]).toEqual({
+        method: 'POST',
+        path: '/v5/order/create',
+        params: {
+          category: 'linear',
+          symbol: 'BTCUSDT',
+          orderLinkId: 'fut-close-1',
+          side: 'Sell',
+          orderType: 'Market',
+          qty: '0.01',
+          positionIdx: 0,
+          reduceOnly: true,
+        },
+        signed: true,
+      });
+      expect(order).toEqual({
+        orderId: '1001',
+        clientOrderId: 'fut-close-1',
+        symbol: 'BTCUSDT',
+        side: 'SELL',
+        type: 'MARKET',
+        quantity: 0.01,
+        price: 49500,
+        stopPrice: undefined,
+        status: 'FILLED',
+        executedQty: 0.01,
+        cummulativeQuoteQty: 500.5,
+        fills: [{ price: '50050', qty: '0.01', commission: '0.275275', commissionAsset: 'USDT' }],
+        transactTime: 1760000000123,
+      });
+    });
+
+    it('places a spot stop loss as a conditional limit order', async () => {
+      const { transport, client } = replay('orders');
+
+      const order = await client.createStopLossOrder({
+        clientOrderId: 'spot-stop-1',
+        symbol: 'BTCUSDT',
+        side: 'SELL',
+        quantity: 0.01,
+        stopPrice: 48000,
+        limitPrice: 47900,
+      });
+
+      expect(transport.requests[0].params).toMatchObject({
+        category: 'spot',
+        orderType: 'Limit',
+        price: '47900',
+        triggerPrice: '48000',
+        orderFilter: 'StopOrder',
+      });
+      expect(order).toMatchObject({
+        orderId: '2001',
+        type: 'STOP_LOSS_LIMIT',
+        price: 47900,
+        stopPrice: 48000,
+        status: 'NEW',
+        executedQty: 0,
+        fills: undefined,
+      });
+    });
+
+    it('charges spot buy fees in the base asset', async () => {
+      const { client } = replay('orders');
+
+      const order = await client.getOrder('BTCUSDT', '2002');
+
+      expect(order.fills).toEqual([
+        { price: '50010', qty: '0.002', commission: '0.000002', commissionAsset: 'BTC' },
+      ]);
+    });
+  });
+
+  describe('status mapping', () => {
+    it('maps open order states', async () => {
+      const { client } = replay('statuses');
+
+      const orders = await client.getFuturesOpenOrders('BTCUSDT');
+
+      expect(orders.map(({ orderId, type, status }) => ({ orderId, type, status }))).toEqual([
+        { orderId: '3001', type: 'LIMIT', status: 'NEW' },
+        { orderId: '3002', type: 'LIMIT', status: 'PARTIALLY_FILLED' },
+        { orderId: '3003', type: 'STOP_MARKET', status: 'NEW' },
+        { orderId: '3004', type: 'STOP', status: 'NEW' },
+      ]);
+    });
+
+    it.each([
+      ['closed-canceled', 'CANCELED', 0],
+      ['closed-partial-canceled', 'CANCELED', 0.2],
+      ['closed-deactivated', 'CANCELED', 0],
+      ['closed-rejected', 'REJECTED', 0],
+    ])('maps finished order %s to %s', async (clientOrderId, status, executedQty) => {
+      const { client } = replay('statuses');
+
+      const order = await client.getFuturesOrderByClientId('ETHUSDT', clientOrderId);
+
+      expect(order).toMatchObject({ clientOrderId, status, executedQty });
+    });
+  });
+
+  describe('error mapping', () => {
+    it('turns a return code on a new order into a rejection without retrying', async () => {
+      const { transport, client } = replay('errors');
+
+      const error = await client
+        .createFuturesMarketOrder({
+          clientOrderId: 'rejected-1',
+          symbol: 'BTCUSDT',
+          side: 'BUY',
+          quantity: 1,
+        })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(OrderRejectedError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toBe('ab not enough for new order');
+      expect(error.details).toMatchObject({ code: 110007 });
+      expect(transport.requests).toHaveLength(1);
+    });
+
+    it('leaves a rate-limited order unknown after looking it up before each resend', async () => {
+      const { transport, client } = replay('errors');
+      jest
+        .spyOn(client as unknown as { sleep: () => Promise<void> }, 'sleep')
+        .mockResolvedValue(undefined);
+
+      const error = await client
+        .createFuturesMarketOrder({
+          clientOrderId: 'rate-limited-1',
+          symbol: 'BTCUSDT',
+          side: 'BUY',
+          quantity: 0.01,
+        })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(BybitApiError);
+      expect(error.statusCode).toBe(502);
+      expect(transport.requests.map((request) => request.path)).toEqual([
+        '/v5/order/create',
+        ...Array(3).fill(['/v5/order/realtime', '/v5/order/history', '/v5/order/create']).flat(),
+      ]);
+      expect(transport.requests[1].params).toMatchObject({ orderLinkId: 'rate-limited-1' });
+    });
+
+    it('reports an order Bybit does not know with its code', async () => {
+      const { client } = replay('errors');
+
+      const error = await client.getFuturesOrder('BTCUSDT', '9999').catch((e) => e);
+
+      expect(error).toBeInstanceOf(BybitApiError);
+      expect(error.details).toMatchObject({ method: 'getFuturesOrder', code: 110001 });
+    });
+
+    it('wraps other return codes as API errors', async () => {
+      const { transport, client } = replay('errors');
+
+      const error = await client.getPrice('NOPEUSDT').catch((e) => e);
+
+      expect(error).toBeInstanceOf(BybitApiError);
+      expect(error.message).toBe('params error: symbol invalid');
+      expect(error.details).toMatchObject({ method: 'getPrice', code: 10001 });
+      expect(transport.requests).toHaveLength(1);
+    });
+
+    it('accepts leverage that is already set', async () => {
+      const { client } = replay('errors');
+
+      await expect(client.setFuturesLeverage('BTCUSDT', 5)).resolves.toBeUndefined();
+    });
+  });
+});
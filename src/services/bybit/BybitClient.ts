@@ -0,0 +1,926 @@
+import { createModuleLogger } from '../../utils/logger';
+import { BybitApiError, OrderRejectedError } from '../../utils/errors';
+import { ExchangeAdapter } from '../exchange/ExchangeAdapter';
+import {
+  SymbolInfo,
+  SymbolFilter,
+  Balance,
+  AccountInfo,
+  MarketOrderParams,
+  LimitOrderParams,
+  StopLossParams,
+  Order,
+  FuturesMarketOrderParams,
+  FuturesLimitOrderParams,
+  FuturesStopMarketParams,
+  FuturesBalance,
+  FuturesPosition,
+  FuturesPositionMode,
+  FuturesPositionSide,
+} from '../exchange/types';
+import {
+  BybitCategory,
+  BybitInstrument,
+  BybitList,
+  BybitOrder,
+  BybitParams,
+  BybitPosition,
+  BybitTicker,
+  BybitTransport,
+  BybitWallet,
+} from './types';
+
+const logger = createModuleLogger('BybitClient');
+
+// Futures trade USDT-margined perpetuals, settled in USDT
+const SETTLE_COIN = 'USDT';
+
+// "Order does not exist" - futures and spot respectively
+const UNKNOWN_ORDER_CODES = [110001, 170213];
+const LEVERAGE_NOT_MODIFIED_CODE = 110043;
+const POSITION_MODE_NOT_MODIFIED_CODE = 110025;
+
+// Server timeout, rate limit and internal error are worth another attempt
+const RETRYABLE_CODES = [10000, 10006, 10016];
+
+// Errors thrown for a non-zero return code carry the code
+type BybitRequestError = Error & { code?: number };
+
+/**
+ * Bybit v5 adapter (unified trading account). Requests go through a transport so the client
+ * can run against recorded responses as well as the live API.
+ */
+export class BybitClient implements ExchangeAdapter {
+  readonly name = 'bybit' as const;
+  private cache: Map<string, unknown> = new Map();
+  private cacheExpiry: Map<string, number> = new Map();
+
+  constructor(private transport: BybitTransport) {
+    logger.info('Bybit client initialized');
+  }
+
+  // ========== Market Data ==========
+
+  async getPrice(symbol: string): Promise<number> {
+    try {
+      return await this.getTickerPrice('spot', symbol);
+    } catch (error) {
+      throw this.handleBybitError(error, 'getPrice');
+    }
+  }
+
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    try {
+      return await this.getInstrument('spot', symbol);
+    } catch (error) {
+      throw this.handleBybitError(error, 'getSymbolInfo');
+    }
+  }
+
+  async getSymbols(): Promise<SymbolInfo[]> {
+    try {
+      return await this.getInstruments('spot');
+    } catch (error) {
+      throw this.handleBybitError(error, 'getSymbols');
+    }
+  }
+
+  async getFuturesSymbols(): Promise<SymbolInfo[]> {
+    try {
+      return await this.getInstruments('linear');
+    } catch (error) {
+      throw this.handleBybitError(error, 'getFuturesSymbols');
+    }
+  }
+
+  async getFuturesPrice(symbol: string): Promise<number> {
+    try {
+      return await this.getTickerPrice('linear', symbol);
+    } catch (error) {
+      throw this.handleBybitError(error, 'getFuturesPrice');
+    }
+  }
+
+  async getFuturesSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    try {
+      return await this.getInstrument('linear', symbol);
+    } catch (error) {
+      throw this.handleBybitError(error, 'getFuturesSymbolInfo');
+    }
+  }
+
+  // ========== Account ==========
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    try {
+      const coins = await this.getWalletCoins();
+
+      return {
+        balances: coins.map((coin) => ({
+          asset: coin.coin,
+          free: this.format(parseFloat(coin.walletBalance) - parseFloat(coin.locked || '0')),
+          locked: coin.locked || '0',
+        })),
+        // The wallet endpoint doesn't report key permissions - a key that can read it can trade
+        canTrade: true,
+        canWithdraw: false,
+        canDeposit: false,
+      };
+    } catch (error) {
+      throw this.handleBybitError(error, 'getAccountInfo');
+    }
+  }
+
+  async getBalance(asset: string): Promise<Balance> {
+    try {
+      const account = await this.getAccountInfo();
+      return (
+        account.balances.find((balance) => balance.asset === asset) || {
+          asset,
+          free: '0',
+          locked: '0',
+        }
+      );
+    } catch (error) {
+      throw this.handleBybitError(error, 'getBalance');
+    }
+  }
+
+  async getFuturesBalance(asset: string = SETTLE_COIN): Promise<FuturesBalance> {
+    try {
+      // Spot and futures share the unified wallet; margin in use is what isn't available
+      const coin = (await this.getWalletCoins(asset)).find((c) => c.coin === asset);
+
+      if (!coin) {
+        return { asset, balance: '0', availableBalance: '0' };
+      }
+
+      const wallet = parseFloat(coin.walletBalance);
+      const inUse =
+        parseFloat(coin.totalPositionIM || '0') +
+        parseFloat(coin.totalOrderIM || '0') +
+        parseFloat(coin.locked || '0');
+
+      return {
+        asset,
+        balance: coin.walletBalance,
+        availableBalance: this.format(Math.max(wallet - inUse, 0)),
+      };
+    } catch (error) {
+      throw this.handleBybitError(error, 'getFuturesBalance');
+    }
+  }
+
+  async getFuturesPositions(symbol?: string): Promise<FuturesPosition[]> {
+    try {
+      const positions = await this.fetchPages<BybitPosition>('/v5/position/list', {
+        category: 'linear',
+        ...(symbol ? { symbol } : { settleCoin: SETTLE_COIN }),
+      });
+
+      return positions
+        .filter((position) => parseFloat(position.size) !== 0)
+        .map((position) => ({
+          symbol: position.symbol,
+          // Signed like Binance's positionAmt - negative for shorts
+          positionAmt: this.format(parseFloat(position.size) * (position.side === 'Sell' ? -1 : 1)),
+          entryPrice: position.avgPrice,
+          markPrice: position.markPrice,
+          unrealizedProfit: position.unrealisedPnl,
+          liquidationPrice: position.liqPrice || '0',
+          leverage: position.leverage,
+          marginType: position.tradeMode === 1 ? 'isolated' : 'cross',
+          positionSide:
+            position.positionIdx === 1 ? 'LONG' : position.positionIdx === 2 ? 'SHORT' : 'BOTH',
+        }));
+    } catch (error) {
+      throw this.handleBybitError(error, 'getFuturesPositions');
+    }
+  }
+
+  // ========== Orders ==========
+
+  async createMarketOrder(params: MarketOrderParams): Promise<Order> {
+    try {
+      logger.info('Creating market order', params);
+
+      return await this.submitOrder('spot', params, {
+        side: this.toBybitSide(params.side),
+        orderType: 'Market',
+        qty: params.quantity.toString(),
+        marketUnit: 'baseCoin', // Spot market buys are sized in the quote coin otherwise
+      });
+    } catch (error) {
+      logger.error('Failed to create market order', { params, error });
+      throw this.handleOrderError(error, 'createMarketOrder');
+    }
+  }
+
+  async createLimitOrder(params: LimitOrderParams): Promise<Order> {
+    try {
+      logger.info('Creating limit order', params);
+
+      return await this.submitOrder('spot', params, {
+        side: this.toBybitSide(params.side),
+        orderType: 'Limit',
+        qty: params.quantity.toString(),
+        price: params.price.toString(),
+        timeInForce: 'GTC',
+      });
+    } catch (error) {
+      logger.error('Failed to create limit order', { params, error });
+      throw this.handleOrderError(error, 'createLimitOrder');
+    }
+  }
+
+  async createStopLossOrder(params: StopLossParams): Promise<Order> {
+    try {
+      logger.info('Creating stop loss order', params);
+
+      // Spot conditional order: a limit order placed once the trigger price trades
+      return await this.submitOrder('spot', params, {
+        side: this.toBybitSide(params.side),
+        orderType: 'Limit',
+        qty: params.quantity.toString(),
+        price: (params.limitPrice ?? params.stopPrice).toString(),
+        triggerPrice: params.stopPrice.toString(),
+        orderFilter: 'StopOrder',
+        timeInForce: 'GTC',
+      });
+    } catch (error) {
+      logger.error('Failed to create stop loss order', { params, error });
+      throw this.handleOrderError(error, 'createStopLossOrder');
+    }
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<void> {
+    try {
+      logger.info('Cancelling order', { symbol, orderId });
+
+      try {
+        await this.call('POST', '/v5/order/cancel', { category: 'spot', symbol, orderId });
+      } catch (error) {
+        // Spot conditional orders are only found when cancelled as such
+        const { code } = error as BybitRequestError;
+        if (code === undefined || !UNKNOWN_ORDER_CODES.includes(code)) {
+          throw error;
+        }
+        await this.call('POST', '/v5/order/cancel', {
+          category: 'spot',
+          symbol,
+          orderId,
+          orderFilter: 'StopOrder',
+        });
+      }
+
+      logger.info('Order cancelled', { symbol, orderId });
+    } catch (error) {
+      logger.error('Failed to cancel order', { symbol, orderId, error });
+      throw this.handleBybitError(error, 'cancelOrder');
+    }
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<Order> {
+    try {
+      return await this.getExistingOrder('spot', symbol, { orderId });
+    } catch (error) {
+      throw this.handleBybitError(error, 'getOrder');
+    }
+  }
+
+  async getOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null> {
+    try {
+      return await this.findOrder('spot', symbol, { orderLinkId: clientOrderId });
+    } catch (error) {
+      throw this.handleBybitError(error, 'getOrderByClientId');
+    }
+  }
+
+  async getOpenOrders(symbol?: string): Promise<Order[]> {
+    try {
+      return await this.listOpenOrders('spot', symbol);
+    } catch (error) {
+      throw this.handleBybitError(error, 'getOpenOrders');
+    }
+  }
+
+  // ========== Futures Trading ==========
+
+  async setFuturesLeverage(symbol: string, leverage: number): Promise<void> {
+    try {
+      logger.info('Setting futures leverage', { symbol, leverage });
+
+      await this.call(
+        'POST',
+        '/v5/position/set-leverage',
+        {
+          category: 'linear',
+          symbol,
+          buyLeverage: leverage.toString(),
+          sellLeverage: leverage.toString(),
+        },
+        [LEVERAGE_NOT_MODIFIED_CODE]
+      );
+
+      logger.info('Futures leverage set', { symbol, leverage });
+    } catch (error) {
+      logger.error('Failed to set futures leverage', { symbol, leverage, error });
+      throw this.handleBybitError(error, 'setFuturesLeverage');
+    }
+  }
+
+  /**
+   * Switch USDT perpetuals between one-way and hedge mode. Like on Binance this only works
+   * while there are no open positions or orders.
+   */
+  async setFuturesPositionMode(mode: FuturesPositionMode): Promise<void> {
+    try {
+      if (this.getCachedData<FuturesPositionMode>('futuresPositionMode') === mode) {
+        return;
+      }
+
+      await this.call(
+        'POST',
+        '/v5/position/switch-mode',
+        { category: 'linear', coin: SETTLE_COIN, mode: mode === 'HEDGE' ? 3 : 0 },
+        [POSITION_MODE_NOT_MODIFIED_CODE]
+      );
+
+      this.setCachedData('futuresPositionMode', mode, 60000);
+    } catch (error) {
+      throw this.handleBybitError(error, 'setFuturesPositionMode');
+    }
+  }
+
+  async createFuturesMarketOrder(params: FuturesMarketOrderParams): Promise<Order> {
+    try {
+      logger.info('Creating futures market order', params);
+
+      return await this.submitOrder('linear', params, {
+        side: this.toBybitSide(params.side),
+        orderType: 'Market',
+        qty: params.quantity.toString(),
+        ...this.futuresPositionParams(params.positionSide, params.reduceOnly),
+      });
+    } catch (error) {
+      logger.error('Failed to create futures market order', { params, error });
+      throw this.handleOrderError(error, 'createFuturesMarketOrder');
+    }
+  }
+
+  async createFuturesLimitOrder(params: FuturesLimitOrderParams): Promise<Order> {
+    try {
+      logger.info('Creating futures limit order', params);
+
+      return await this.submitOrder('linear', params, {
+        side: this.toBybitSide(params.side),
+        orderType: 'Limit',
+        qty: params.quantity.toString(),
+        price: params.price.toString(),
+        timeInForce: 'GTC',
+        ...this.futuresPositionParams(params.positionSide, params.reduceOnly),
+      });
+    } catch (error) {
+      logger.error('Failed to create futures limit order', { params, error });
+      throw this.handleOrderError(error, 'createFuturesLimitOrder');
+    }
+  }
+
+  async createFuturesStopMarketOrder(params: FuturesStopMarketParams): Promise<Order> {
+    try {
+      logger.info('Creating futures stop market order', params);
+
+      return await this.submitOrder('linear', params, {
+        side: this.toBybitSide(params.side),
+        orderType: 'Market',
+        qty: params.quantity.toString(),
+        triggerPrice: params.stopPrice.toString(),
+        // Sell stops fire when the price falls to the trigger, buy stops when it rises
+        triggerDirection: params.side === 'SELL' ? 2 : 1,
+        ...this.futuresPositionParams(params.positionSide, true),
+      });
+    } catch (error) {
+      logger.error('Failed to create futures stop market order', { params, error });
+      throw this.handleOrderError(error, 'createFuturesStopMarketOrder');
+    }
+  }
+
+  async cancelFuturesOrder(symbol: string, orderId: string): Promise<void> {
+    try {
+      logger.info('Cancelling futures order', { symbol, orderId });
+
+      await this.call('POST', '/v5/order/cancel', { category: 'linear', symbol, orderId });
+
+      logger.info('Futures order cancelled', { symbol, orderId });
+    } catch (error) {
+      logger.error('Failed to cancel futures order', { symbol, orderId, error });
+      throw this.handleBybitError(error, 'cancelFuturesOrder');
+    }
+  }
+
+  async getFuturesOrder(symbol: string, orderId: string): Promise<Order> {
+    try {
+      return await this.getExistingOrder('linear', symbol, { orderId });
+    } catch (error) {
+      throw this.handleBybitError(error, 'getFuturesOrder');
+    }
+  }
+
+  async getFuturesOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null> {
+    try {
+      return await this.findOrder('linear', symbol, { orderLinkId: clientOrderId });
+    } catch (error) {
+      throw this.handleBybitError(error, 'getFuturesOrderByClientId');
+    }
+  }
+
+  async getFuturesOpenOrders(symbol?: string): Promise<Order[]> {
+    try {
+      return await this.listOpenOrders('linear', symbol);
+    } catch (error) {
+      throw this.handleBybitError(error, 'getFuturesOpenOrders');
+    }
+  }
+
+  // Health check
+  async ping(): Promise<boolean> {
+    try {
+      await this.call('GET', '/v5/market/time', {}, [], false);
+      return true;
+    } catch (error) {
+      logger.error('Bybit ping failed', { error });
+      return false;
+    }
+  }
+
+  // ========== Utility Methods ==========
+
+  private async getTickerPrice(category: BybitCategory, symbol: string): Promise<number> {
+    const result = await this.call<BybitList<BybitTicker>>(
+      'GET',
+      '/v5/market/tickers',
+      { category, symbol },
+      [],
+      false
+    );
+
+    const ticker = result.list[0];
+    if (!ticker) {
+      throw new Error(`Symbol ${symbol} not found`);
+    }
+
+    return parseFloat(ticker.lastPrice);
+  }
+
+  /**
+   * Instrument info as a Binance-style SymbolInfo, so OrderNormalizer can apply its filters
+   */
+  private async getInstrument(category: BybitCategory, symbol: string): Promise<SymbolInfo> {
+    const cacheKey = `${category}:${symbol}`;
+    const cached = this.getCachedData<SymbolInfo>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.call<BybitList<BybitInstrument>>(
+      'GET',
+      '/v5/market/instruments-info',
+      { category, symbol },
+      [],
+      false
+    );
+
+    const instrument = result.list[0];
+    if (!instrument) {
+      throw new Error(`${category === 'linear' ? 'Futures symbol' : 'Symbol'} ${symbol} not found`);
+    }
+
+    const symbolInfo = this.toSymbolInfo(category, instrument);
+
+    this.setCachedData(cacheKey, symbolInfo, 3600000);
+
+    return symbolInfo;
+  }
+
+  /**
+   * Every instrument of a category, following the result pages
+   */
+  private async getInstruments(category: BybitCategory): Promise<SymbolInfo[]> {
+    const instruments: SymbolInfo[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.call<BybitList<BybitInstrument>>(
+        'GET',
+        '/v5/market/instruments-info',
+        { category, limit: '1000', cursor },
+        [],
+        false
+      );
+
+      instruments.push(...result.list.map((instrument) => this.toSymbolInfo(category, instrument)));
+      cursor = result.nextPageCursor || undefined;
+    } while (cursor);
+
+    return instruments;
+  }
+
+  private toSymbolInfo(category: BybitCategory, instrument: BybitInstrument): SymbolInfo {
+    const lot = instrument.lotSizeFilter;
+    const stepSize = (category === 'linear' ? lot.qtyStep : lot.basePrecision) || '0';
+    const filters: SymbolFilter[] = [
+      { filterType: 'LOT_SIZE', minQty: lot.minOrderQty, maxQty: lot.maxOrderQty, stepSize },
+      {
+        filterType: 'PRICE_FILTER',
+        minPrice: instrument.priceFilter.minPrice || '0',
+        maxPrice: instrument.priceFilter.maxPrice || '0',
+        tickSize: instrument.priceFilter.tickSize,
+      },
+      {
+        filterType: 'NOTIONAL',
+        minNotional: lot.minNotionalValue || lot.minOrderAmt || '0',
+        applyMinToMarket: true,
+      },
+    ];
+
+    if (lot.maxMktOrderQty) {
+      filters.push({
+        filterType: 'MARKET_LOT_SIZE',
+        minQty: lot.minOrderQty,
+        maxQty: lot.maxMktOrderQty,
+        stepSize,
+      });
+    }
+
+    return {
+      symbol: instrument.symbol,
+      status: instrument.status === 'Trading' ? 'TRADING' : instrument.status.toUpperCase(),
+      baseAsset: instrument.baseCoin,
+      quoteAsset: instrument.quoteCoin,
+      filters,
+    };
+  }
+
+  private async getWalletCoins(coin?: string) {
+    const result = await this.call<BybitList<BybitWallet>>('GET', '/v5/account/wallet-balance', {
+      accountType: 'UNIFIED',
+      coin,
+    });
+
+    return result.list[0]?.coin || [];
+  }
+
+  /**
+   * Place an order without risking duplicates on retry, as BinanceClient does: later attempts
+   * look the order link id up before resending, and once retried an error loses its code. Bybit
+   * only acknowledges new orders, so the order is read back once to report any immediate fills.
+   */
+  private async submitOrder(
+    category: BybitCategory,
+    params: { symbol: string; clientOrderId: string },
+    body: BybitParams
+  ): Promise<Order> {
+    let attempts = 0;
+    let orderId: string;
+
+    try {
+      orderId = await this.retryWithBackoff(async () => {
+        if (attempts++ > 0) {
+          const existing = await this.findOrder(category, params.symbol, {
+            orderLinkId: params.clientOrderId,
+          });
+
+          if (existing) {
+            logger.warn('Order reached the exchange on an earlier attempt, not resending', {
+              clientOrderId: params.clientOrderId,
+              orderId: existing.orderId,
+            });
+            return existing.orderId;
+          }
+        }
+
+        const result = await this.send<{ orderId: string }>('POST', '/v5/order/create', {
+          category,
+          symbol: params.symbol,
+          orderLinkId: params.clientOrderId,
+          ...body,
+        });
+
+        return result.orderId;
+      });
+    } catch (error) {
+      throw attempts > 1 ? new Error((error as Error).message) : error;
+    }
+
+    // The order is placed whatever the read back says - the order tracker catches up with it
+    const order = await this.findOrder(category, params.symbol, { orderId }).catch((error) => {
+      logger.warn('Failed to read back new order', { orderId, error: error.message });
+      return null;
+    });
+
+    logger.info('Order created', {
+      orderId,
+      symbol: params.symbol,
+      status: order?.status ?? 'NEW',
+    });
+
+    // Not visible yet - the order tracker picks up its state later
+    return (
+      order || {
+        orderId,
+        clientOrderId: params.clientOrderId,
+        symbol: params.symbol,
+        side: body.side === 'Buy' ? 'BUY' : 'SELL',
+        type: String(body.orderType).toUpperCase(),
+        quantity: parseFloat(String(body.qty)),
+        status: 'NEW',
+        executedQty: 0,
+        cummulativeQuoteQty: 0,
+      }
+    );
+  }
+
+  private async getExistingOrder(
+    category: BybitCategory,
+    symbol: string,
+    id: { orderId: string }
+  ): Promise<Order> {
+    const order = await this.findOrder(category, symbol, id);
+
+    if (!order) {
+      throw Object.assign(new Error(`Order ${id.orderId} does not exist`), {
+        code: UNKNOWN_ORDER_CODES[category === 'linear' ? 0 : 1],
+      });
+    }
+
+    return order;
+  }
+
+  /**
+   * Look an order up among open orders, then order history - null if Bybit doesn't know it
+   */
+  private async findOrder(
+    category: BybitCategory,
+    symbol: string,
+    id: { orderId: string } | { orderLinkId: string }
+  ): Promise<Order | null> {
+    for (const path of ['/v5/order/realtime', '/v5/order/history']) {
+      const result = await this.call<BybitList<BybitOrder>>('GET', path, {
+        category,
+        symbol,
+        ...id,
+      });
+
+      if (result.list[0]) {
+        return this.mapOrder(category, result.list[0]);
+      }
+    }
+
+    return null;
+  }
+
+  private async listOpenOrders(category: BybitCategory, symbol?: string): Promise<Order[]> {
+    const orders = await this.fetchPages<BybitOrder>('/v5/order/realtime', {
+      category,
+      // Futures queries need a symbol or a settle coin
+      ...(symbol ? { symbol } : category === 'linear' ? { settleCoin: SETTLE_COIN } : {}),
+    });
+
+    return Promise.all(orders.map((order) => this.mapOrder(category, order)));
+  }
+
+  private async fetchPages<T>(path: string, params: BybitParams): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.call<BybitList<T>>('GET', path, { ...params, limit: 50, cursor });
+      items.push(...result.list);
+      cursor = result.nextPageCursor || undefined;
+    } while (cursor);
+
+    return items;
+  }
+
+  private async mapOrder(category: BybitCategory, bybitOrder: BybitOrder): Promise<Order> {
+    const executedQty = parseFloat(bybitOrder.cumExecQty || '0');
+    const conditional = parseFloat(bybitOrder.triggerPrice || '0') > 0;
+    const isLimit = bybitOrder.orderType === 'Limit';
+    const side = bybitOrder.side === 'Buy' ? 'BUY' : 'SELL';
+
+    let type: string;
+    if (conditional) {
+      type =
+        category === 'spot'
+          ? isLimit
+            ? 'STOP_LOSS_LIMIT'
+            : 'STOP_LOSS'
+          : isLimit
+            ? 'STOP'
+            : 'STOP_MARKET';
+    } else {
+      type = isLimit ? 'LIMIT' : 'MARKET';
+    }
+
+    return {
+      orderId: bybitOrder.orderId,
+      clientOrderId: bybitOrder.orderLinkId || undefined,
+      symbol: bybitOrder.symbol,
+      side,
+      type,
+      quantity: parseFloat(bybitOrder.qty),
+      price: parseFloat(bybitOrder.price || '0') || undefined,
+      stopPrice: parseFloat(bybitOrder.triggerPrice || '0') || undefined,
+      status: this.toOrderStatus(bybitOrder.orderStatus),
+      executedQty,
+      cummulativeQuoteQty: parseFloat(bybitOrder.cumExecValue || '0'),
+      // Bybit reports totals per order, not per fill
+      fills:
+        executedQty > 0
+          ? [
+              {
+                price: bybitOrder.avgPrice,
+                qty: bybitOrder.cumExecQty,
+                commission: bybitOrder.cumExecFee || '0',
+                commissionAsset: await this.getCommissionAsset(category, bybitOrder.symbol, side),
+              },
+            ]
+          : undefined,
+      transactTime: parseInt(bybitOrder.createdTime, 10) || undefined,
+    };
+  }
+
+  /**
+   * Futures fees are paid in the settle coin; spot fees in the asset received
+   */
+  private async getCommissionAsset(
+    category: BybitCategory,
+    symbol: string,
+    side: 'BUY' | 'SELL'
+  ): Promise<string> {
+    if (category === 'linear') {
+      return SETTLE_COIN;
+    }
+
+    const { baseAsset, quoteAsset } = await this.getInstrument('spot', symbol);
+    return side === 'BUY' ? baseAsset : quoteAsset;
+  }
+
+  private toOrderStatus(status: string): string {
+    switch (status) {
+      case 'New':
+      case 'Untriggered':
+      case 'Triggered':
+        return 'NEW';
+      case 'PartiallyFilled':
+        return 'PARTIALLY_FILLED';
+      case 'Filled':
+        return 'FILLED';
+      case 'Cancelled':
+      case 'PartiallyFilledCanceled':
+      case 'Deactivated':
+        return 'CANCELED';
+      case 'Rejected':
+        return 'REJECTED';
+      default:
+        return status.toUpperCase();
+    }
+  }
+
+  private toBybitSide(side: 'BUY' | 'SELL'): 'Buy' | 'Sell' {
+    return side === 'BUY' ? 'Buy' : 'Sell';
+  }
+
+  /**
+   * positionIdx and reduce-only for a futures order. As on Binance, hedge-mode orders leave
+   * reduceOnly out - the position they act on already decides whether they open or close.
+   */
+  private futuresPositionParams(
+    positionSide?: FuturesPositionSide,
+    reduceOnly?: boolean
+  ): BybitParams {
+    const positionIdx = positionSide === 'LONG' ? 1 : positionSide === 'SHORT' ? 2 : 0;
+
+    return {
+      positionIdx,
+      ...(reduceOnly && positionIdx === 0 ? { reduceOnly: true } : {}),
+    };
+  }
+
+  /**
+   * Send a request with retries, returning its result
+   */
+  private async call<T = unknown>(
+    method: 'GET' | 'POST',
+    path: string,
+    params: BybitParams,
+    acceptedCodes: number[] = [],
+    signed: boolean = true
+  ): Promise<T> {
+    return this.retryWithBackoff(() => this.send<T>(method, path, params, acceptedCodes, signed));
+  }
+
+  /**
+   * Send a request once. Non-zero return codes are thrown with the code attached, unless
+   * accepted (e.g. "leverage not modified")
+   */
+  private async send<T = unknown>(
+    method: 'GET' | 'POST',
+    path: string,
+    params: BybitParams,
+    acceptedCodes: number[] = [],
+    signed: boolean = true
+  ): Promise<T> {
+    const response = await this.transport.send({ method, path, params, signed });
+
+    if (response.retCode !== 0 && !acceptedCodes.includes(response.retCode)) {
+      throw Object.assign(new Error(response.retMsg || `Bybit error ${response.retCode}`), {
+        code: response.retCode,
+      });
+    }
+
+    return response.result as T;
+  }
+
+  private async retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    maxRetries = 3,
+    baseDelay = 1000
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        lastError = error;
+
+        // Bybit rejected the request itself - asking again gives the same answer
+        const { code, message } = error as BybitRequestError;
+        if (code !== undefined && !RETRYABLE_CODES.includes(code)) {
+          throw error;
+        }
+
+        if (attempt === maxRetries) {
+          break;
+        }
+
+        const delay = baseDelay * Math.pow(2, attempt);
+        logger.warn(`Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms`, {
+          error: message,
+        });
+
+        await this.sleep(delay);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Errors from placing an order: a return code Bybit answered with is a rejection, anything
+   * else (timeouts, network failures, server errors) leaves the order's outcome unknown
+   */
+  private handleOrderError(error: unknown, method: string): never {
+    const { code, message } = error as BybitRequestError;
+
+    if (code !== undefined && !RETRYABLE_CODES.includes(code)) {
+      logger.error(`Bybit rejected order in ${method}`, { error });
+      throw new OrderRejectedError(message || 'Order rejected by Bybit', { method, code });
+    }
+
+    return this.handleBybitError(error, method);
+  }
+
+  private handleBybitError(error: unknown, method: string): never {
+    if (error instanceof BybitApiError) {
+      throw error;
+    }
+
+    logger.error(`Bybit API error in ${method}`, { error });
+
+    const { code, message } = error as BybitRequestError;
+    throw new BybitApiError(message || 'Unknown Bybit API error', { method, code });
+  }
+
+  private getCachedData<T>(key: string): T | null {
+    const expiry = this.cacheExpiry.get(key);
+    if (expiry && Date.now() < expiry) {
+      return this.cache.get(key) as T;
+    }
+    return null;
+  }
+
+  private setCachedData<T>(key: string, data: T, ttl: number): void {
+    this.cache.set(key, data);
+    this.cacheExpiry.set(key, Date.now() + ttl);
+  }
+
+  private format(value: number): string {
+    return parseFloat(value.toFixed(8)).toString();
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { createModuleLogger } from '../../utils/logger';
+import {
+  BybitConfig,
+  BybitParams,
+  BybitRecording,
+  BybitRequest,
+  BybitResponse,
+  BybitTransport,
+} from './types';
+
+const logger = createModuleLogger('BybitTransport');
+
+const RECV_WINDOW_MS = 5000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Calls the Bybit v5 REST API, signing private requests with HMAC-SHA256 over
+ * timestamp + api key + recv window + query string (GET) or JSON body (POST)
+ */
+export class HttpBybitTransport implements BybitTransport {
+  private baseUrl: string;
+
+  constructor(private config: BybitConfig) {
+    this.baseUrl = config.testnet ? 'https://api-testnet.bybit.com' : 'https://api.bybit.com';
+  }
+
+  async send(request: BybitRequest): Promise<BybitResponse> {
+    const params = this.definedParams(request.params);
+    const query =
+      request.method === 'GET'
+        ? new URLSearchParams(
+            Object.entries(params).map(([key, value]): [string, string] => [key, String(value)])
+          ).toString()
+        : '';
+    const body = request.method === 'POST' ? JSON.stringify(params) : '';
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (request.signed) {
+      const timestamp = Date.now().toString();
+      const payload = `${timestamp}${this.config.apiKey}${RECV_WINDOW_MS}${query || body}`;
+
+      headers['X-BAPI-API-KEY'] = this.config.apiKey;
+      headers['X-BAPI-TIMESTAMP'] = timestamp;
+      headers['X-BAPI-RECV-WINDOW'] = RECV_WINDOW_MS.toString();
+      headers['X-BAPI-SIGN'] = crypto
+        .createHmac('sha256', this.config.apiSecret)
+        .update(payload)
+        .digest('hex');
+    }
+
+    const response = await fetch(`${this.baseUrl}${request.path}${query ? `?${query}` : ''}`, {
+      method: request.method,
+      headers,
+      body: body || undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Bybit responded with HTTP ${response.status} for ${request.path}`);
+    }
+
+    return (await response.json()) as BybitResponse;
+  }
+
+  // Unset params are left out - they would be sent as "undefined"
+  private definedParams(params: BybitParams): Record<string, string | number | boolean> {
+    return Object.fromEntries(
+      Object.entries(params).filter(([, value]) => value !== undefined)
+    ) as Record<string, string | number | boolean>;
+  }
+}
+
+/**
+ * Replays recorded responses instead of calling Bybit, so the adapter can be run without
+ * network access or keys. The first recording whose method and path match and whose params
+ * are all present in the request wins; requests without one fail.
+ */
+export class RecordedBybitTransport implements BybitTransport {
+  readonly requests: BybitRequest[] = []; // Everything sent, in order
+
+  constructor(private recordings: BybitRecording[]) {}
+
+  static fromFile(file: string): RecordedBybitTransport {
+    const recordings = JSON.parse(fs.readFileSync(file, 'utf-8')) as BybitRecording[];
+    logger.info('Loaded recorded Bybit responses', { file, recordings: recordings.length });
+
+    return new RecordedBybitTransport(recordings);
+  }
+
+  async send(request: BybitRequest): Promise<BybitResponse> {
+    this.requests.push(request);
+
+    const recording = this.recordings.find(
+      (candidate) =>
+        candidate.method === request.method &&
+        candidate.path === request.path &&
+        Object.entries(candidate.params || {}).every(
+          ([key, value]) => String(request.params[key]) === String(value)
+        )
+    );
+
+    if (!recording) {
+      throw new Error(`No recorded Bybit response for ${request.method} ${request.path}`);
+    }
+
+    return recording.response;
+  }
+}
+
+export function createBybitTransport(
+  config: BybitConfig & { recordedResponses: string | null }
+): BybitTransport {
+  return config.recordedResponses
+    ? RecordedBybitTransport.fromFile(config.recordedResponses)
+    : new HttpBybitTransport(config);
+}
@@ -0,0 +1,117 @@
+export interface BybitConfig {
+  apiKey: string;
+  apiSecret: string;
+  testnet: boolean;
+}
+
+// Product line a v5 request is for: spot, or USDT-margined perpetuals for futures
+export type BybitCategory = 'spot' | 'linear';
+
+export type BybitParams = Record<string, string | number | boolean | undefined>;
+
+export interface BybitRequest {
+  method: 'GET' | 'POST';
+  path: string;
+  params: BybitParams;
+  signed: boolean; // Private endpoints need the API key signature
+}
+
+export interface BybitResponse<T = unknown> {
+  retCode: number; // 0 on success
+  retMsg: string;
+  result: T;
+  time?: number;
+}
+
+/**
+ * Sends v5 requests - over HTTP, or from recorded responses when exercised without Bybit
+ */
+export interface BybitTransport {
+  send(request: BybitRequest): Promise<BybitResponse>;
+}
+
+/**
+ * A recorded response, returned for requests with this method and path whose params include
+ * all of the recorded ones
+ */
+export interface BybitRecording {
+  method: 'GET' | 'POST';
+  path: string;
+  params?: Record<string, string | number | boolean>;
+  response: BybitResponse;
+}
+
+export interface BybitList<T> {
+  category?: BybitCategory;
+  list: T[];
+  nextPageCursor?: string;
+}
+
+export interface BybitTicker {
+  symbol: string;
+  lastPrice: string;
+}
+
+export interface BybitInstrument {
+  symbol: string;
+  status: string; // Trading, PreLaunch, Settling, Closed...
+  baseCoin: string;
+  quoteCoin: string;
+  lotSizeFilter: {
+    basePrecision?: string; // Spot quantity step
+    qtyStep?: string; // Futures quantity step
+    minOrderQty: string;
+    maxOrderQty: string;
+    maxMktOrderQty?: string;
+    minOrderAmt?: string; // Spot minimum order value
+    minNotionalValue?: string; // Futures minimum order value
+  };
+  priceFilter: {
+    tickSize: string;
+    minPrice?: string;
+    maxPrice?: string;
+  };
+}
+
+export interface BybitWallet {
+  accountType: string;
+  coin: BybitWalletCoin[];
+}
+
+export interface BybitWalletCoin {
+  coin: string;
+  walletBalance: string;
+  locked: string;
+  totalOrderIM?: string;
+  totalPositionIM?: string;
+}
+
+export interface BybitOrder {
+  orderId: string;
+  orderLinkId: string;
+  symbol: string;
+  side: 'Buy' | 'Sell';
+  orderType: 'Market' | 'Limit';
+  qty: string;
+  price: string;
+  triggerPrice: string;
+  orderStatus: string;
+  cumExecQty: string;
+  cumExecValue: string;
+  cumExecFee: string;
+  avgPrice: string;
+  createdTime: string;
+}
+
+export interface BybitPosition {
+  symbol: string;
+  side: 'Buy' | 'Sell' | '';
+  size: string;
+  avgPrice: string;
+  markPrice: string;
+  unrealisedPnl: string;
+  liqPrice: string;
+  leverage: string;
+  tradeMode: number; // 0 cross margin, 1 isolated
+  positionIdx: number; // 0 one-way, 1 hedge long, 2 hedge short
+}
@@ -0,0 +1,103 @@
+import {
+  SymbolInfo,
+  Balance,
+  AccountInfo,
+  MarketOrderParams,
+  LimitOrderParams,
+  StopLossParams,
+  Order,
+  FuturesMarketOrderParams,
+  FuturesLimitOrderParams,
+  FuturesStopMarketParams,
+  FuturesTrailingStopParams,
+  FuturesBalance,
+  FuturesPosition,
+  FuturesPositionMode,
+} from './types';
+
+export type ExchangeName = 'binance' | 'bybit';
+
+export const EXCHANGE_NAMES: ExchangeName[] = ['binance', 'bybit'];
+
+// Venue for strategies, orders and positions that don't name one
+export const DEFAULT_EXCHANGE: ExchangeName = 'binance';
+
+/**
+ * Everything the bot needs from a venue: market data, balances, spot and futures orders,
+ * positions and leverage. Adapters report orders, statuses and symbol filters in Binance's
+ * shape so the services on top don't care where an order went.
+ */
+export interface ExchangeAdapter {
+  readonly name: ExchangeName;
+
+  ping(): Promise<boolean>;
+
+  // Market data
+  getPrice(symbol: string): Promise<number>;
+  getSymbolInfo(symbol: string): Promise<SymbolInfo>;
+  getFuturesPrice(symbol: string): Promise<number>;
+  getFuturesSymbolInfo(symbol: string): Promise<SymbolInfo>;
+  getSymbols(): Promise<SymbolInfo[]>; // Every listed symbol, whatever its status
+  getFuturesSymbols(): Promise<SymbolInfo[]>;
+
+  // Account
+  getAccountInfo(): Promise<AccountInfo>;
+  getBalance(asset: string): Promise<Balance>;
+  getFuturesBalance(asset?: string): Promise<FuturesBalance>;
+  getFuturesPositions(symbol?: string): Promise<FuturesPosition[]>;
+
+  // Spot orders
+  createMarketOrder(params: MarketOrderParams): Promise<Order>;
+  createLimitOrder(params: LimitOrderParams): Promise<Order>;
+  createStopLossOrder(params: StopLossParams): Promise<Order>;
+  cancelOrder(symbol: string, orderId: string): Promise<void>;
+  getOrder(symbol: string, orderId: string): Promise<Order>;
+  getOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null>;
+  getOpenOrders(symbol?: string): Promise<Order[]>;
+
+  // Futures orders and settings
+  setFuturesLeverage(symbol: string, leverage: number): Promise<void>;
+  setFuturesPositionMode(mode: FuturesPositionMode): Promise<void>;
+  createFuturesMarketOrder(params: FuturesMarketOrderParams): Promise<Order>;
+  createFuturesLimitOrder(params: FuturesLimitOrderParams): Promise<Order>;
+  createFuturesStopMarketOrder(params: FuturesStopMarketParams): Promise<Order>;
+  // Venues without a native trailing stop leave this out; the bot trails the stop itself
+  createFuturesTrailingStopOrder?(params: FuturesTrailingStopParams): Promise<Order>;
+  cancelFuturesOrder(symbol: string, orderId: string): Promise<void>;
+  getFuturesOrder(symbol: string, orderId: string): Promise<Order>;
+  getFuturesOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null>;
+  getFuturesOpenOrders(symbol?: string): Promise<Order[]>;
+}
+
+/**
+ * The part of an exchange orders are placed and followed through - also offered by the
+ * paper exchange
+ */
+export type OrderExchange = Pick<
+  ExchangeAdapter,
+  | 'getPrice'
+  | 'getFuturesPrice'
+  | 'getBalance'
+  | 'getFuturesBalance'
+  | 'createMarketOrder'
+  | 'createLimitOrder'
+  | 'createStopLossOrder'
+  | 'cancelOrder'
+  | 'getOrder'
+  | 'getOrderByClientId'
+  | 'getOpenOrders'
+  | 'setFuturesLeverage'
+  | 'setFuturesPositionMode'
+  | 'createFuturesMarketOrder'
+  | 'createFuturesLimitOrder'
+  | 'createFuturesStopMarketOrder'
+  | 'createFuturesTrailingStopOrder'
+  | 'cancelFuturesOrder'
+  | 'getFuturesOrder'
+  | 'getFuturesOrderByClientId'
+  | 'getFuturesOpenOrders'
+>;
+
+export function isExchangeName(value: unknown): value is ExchangeName {
+  return EXCHANGE_NAMES.includes(value as ExchangeName);
+}
@@ -0,0 +1,38 @@
+import { InvalidOrderError } from '../../utils/errors';
+import { DEFAULT_EXCHANGE, ExchangeAdapter, ExchangeName } from './ExchangeAdapter';
+
+/**
+ * The exchanges the bot has credentials for, looked up by the venue a strategy,
+ * order or position is on
+ */
+export class ExchangeRegistry {
+  private adapters = new Map<ExchangeName, ExchangeAdapter>();
+
+  constructor(adapters: ExchangeAdapter[]) {
+    for (const adapter of adapters) {
+      this.adapters.set(adapter.name, adapter);
+    }
+  }
+
+  /**
+   * Adapter for a venue, the default exchange when none is given. Throws for venues that
+   * aren't configured.
+   */
+  get(name?: string | null): ExchangeAdapter {
+    const adapter = this.adapters.get((name || DEFAULT_EXCHANGE) as ExchangeName);
+
+    if (!adapter) {
+      throw new InvalidOrderError(`Exchange ${name} is not configured`, { exchange: name });
+    }
+
+    return adapter;
+  }
+
+  has(name: string): boolean {
+    return this.adapters.has(name as ExchangeName);
+  }
+
+  all(): ExchangeAdapter[] {
+    return [...this.adapters.values()];
+  }
+}
@@ -0,0 +1,181 @@
+// Shapes shared by every exchange adapter - Binance's, which other venues are mapped onto
+
+export interface SymbolInfo {
+  symbol: string;
+  status: string;
+  baseAsset: string;
+  quoteAsset: string;
+  filters: SymbolFilter[];
+}
+
+// Trading rule of a symbol - which fields are set depends on the filter type
+export interface SymbolFilter {
+  filterType: string;
+  minQty?: string;
+  maxQty?: string;
+  stepSize?: string;
+  minPrice?: string;
+  maxPrice?: string;
+  tickSize?: string;
+  minNotional?: string;
+  notional?: string; // Futures MIN_NOTIONAL
+  applyToMarket?: boolean;
+  applyMinToMarket?: boolean;
+}
+
+export interface Balance {
+  asset: string;
+  free: string;
+  locked: string;
+}
+
+export interface AccountInfo {
+  balances: Balance[];
+  canTrade: boolean;
+  canWithdraw: boolean;
+  canDeposit: boolean;
+}
+
+export interface MarketOrderParams {
+  clientOrderId: string; // Sent as newClientOrderId so retries can find the order
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+}
+
+export interface LimitOrderParams {
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+}
+
+export interface StopLossParams {
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  stopPrice: number;
+  limitPrice?: number; // Defaults to stopPrice
+}
+
+export interface Order {
+  orderId: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+  status: string;
+  executedQty: number;
+  cummulativeQuoteQty: number;
+  fills?: OrderFill[];
+  transactTime?: number;
+}
+
+export interface OrderFill {
+  price: string;
+  qty: string;
+  commission: string;
+  commissionAsset: string;
+}
+
+export interface TickerPrice {
+  symbol: string;
+  price: string;
+}
+
+export interface Stats24hr {
+  symbol: string;
+  priceChange: string;
+  priceChangePercent: string;
+  lastPrice: string;
+  volume: string;
+  quoteVolume: string;
+  highPrice: string;
+  lowPrice: string;
+}
+
+// Futures Trading Types
+export type FuturesPositionSide = 'LONG' | 'SHORT' | 'BOTH';
+
+export type FuturesPositionMode = 'ONE_WAY' | 'HEDGE';
+
+export interface FuturesMarketOrderParams {
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  positionSide?: FuturesPositionSide;
+  reduceOnly?: boolean; // One-way mode only - hedge mode closes via positionSide
+}
+
+export interface FuturesLimitOrderParams {
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  positionSide?: FuturesPositionSide;
+  reduceOnly?: boolean;
+}
+
+export interface FuturesStopMarketParams {
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  stopPrice: number;
+  positionSide?: FuturesPositionSide;
+}
+
+export interface FuturesTrailingStopParams {
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  callbackRate: number; // Percent the price may retrace from its best level before the stop fires
+  positionSide?: FuturesPositionSide;
+}
+
+export interface FuturesAccountInfo {
+  totalWalletBalance: string;
+  totalUnrealizedProfit: string;
+  totalMarginBalance: string;
+  availableBalance: string;
+  maxWithdrawAmount: string;
+  assets: FuturesAsset[];
+  positions: FuturesPosition[];
+}
+
+export interface FuturesAsset {
+  asset: string;
+  walletBalance: string;
+  unrealizedProfit: string;
+  marginBalance: string;
+  availableBalance: string;
+  crossWalletBalance: string;
+  crossUnrealizedPnL: string;
+  maxWithdrawAmount: string;
+}
+
+export interface FuturesPosition {
+  symbol: string;
+  positionAmt: string;
+  entryPrice: string;
+  markPrice: string;
+  unrealizedProfit: string;
+  liquidationPrice: string;
+  leverage: string;
+  marginType: string;
+  positionSide: 'LONG' | 'SHORT' | 'BOTH';
+}
+
+export interface FuturesBalance {
+  asset: string;
+  balance: string;
+  availableBalance: string;
+}
@@ -0,0 +1,201 @@
+import { PaperExchange } from './PaperExchange';
+import { PriceFeed } from './PriceFeed';
+import { ExchangeAdapter } from '../exchange/ExchangeAdapter';
+import { InsufficientBalanceError, InvalidOrderError } from '../../utils/errors';
+import databaseService from '../../database';
+
+class FakePriceFeed implements PriceFeed {
+  price = 100;
+  advance = jest.fn();
+
+  async getPrice(): Promise<number> {
+    return this.price;
+  }
+}
+
+describe('PaperExchange', () => {
+  let feed: FakePriceFeed;
+  let exchange: PaperExchange;
+
+  const balance = (account: 'SPOT' | 'FUTURE', asset: string) =>
+    exchange.getBalances().find((row) => row.account === account && row.asset === asset);
+
+  beforeEach(() => {
+    const db = databaseService.getDatabase();
+    db.exec(
+      'DELETE FROM paper_orders; DELETE FROM paper_balances; DELETE FROM paper_futures_positions;'
+    );
+
+    const symbolInfo = { symbol: 'BTCUSDT', baseAsset: 'BTC', quoteAsset: 'USDT', filters: [] };
+    const marketData = {
+      name: 'binance',
+      getSymbolInfo: jest.fn().mockResolvedValue(symbolInfo),
+      getFuturesSymbolInfo: jest.fn().mockResolvedValue(symbolInfo),
+    } as unknown as ExchangeAdapter;
+
+    feed = new FakePriceFeed();
+    exchange = new PaperExchange(marketData, feed, { slippagePercent: 1, feePercent: 0.1 });
+  });
+
+  describe('spot', () => {
+    it('fills market orders right away with slippage and fees', async () => {
+      const order = await exchange.createMarketOrder({
+        clientOrderId: 'market-1',
+        symbol: 'BTCUSDT',
+        side: 'BUY',
+        quantity: 10,
+      });
+
+      expect(order.status).toBe('FILLED');
+      expect(order.executedQty).toBe(10);
+      expect(parseFloat(order.fills![0].price)).toBeCloseTo(101);
+      expect(parseFloat(order.fills![0].commission)).toBeCloseTo(1.01);
+      expect(balance('SPOT', 'USDT')!.free).toBeCloseTo(10000 - 1010 - 1.01);
+      expect(balance('SPOT', 'USDT')!.locked).toBeCloseTo(0);
+      expect(balance('SPOT', 'BTC')!.free).toBeCloseTo(10);
+    });
+
+    it('returns the existing order for a repeated client order id', async () => {
+      const params = { clientOrderId: 'market-1', symbol: 'BTCUSDT', side: 'BUY' as const };
+      const first = await exchange.createMarketOrder({ ...params, quantity: 1 });
+      const second = await exchange.createMarketOrder({ ...params, quantity: 1 });
+
+      expect(second.orderId).toBe(first.orderId);
+      expect(balance('SPOT', 'BTC')!.free).toBeCloseTo(1);
+    });
+
+    it('rejects orders the balance cannot cover', async () => {
+      const error = await exchange
+        .createMarketOrder({
+          clientOrderId: 'big-1',
+          symbol: 'BTCUSDT',
+          side: 'BUY',
+          quantity: 1000,
+        })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(InsufficientBalanceError);
+      expect(await exchange.getOpenOrders()).toEqual([]);
+      expect(balance('SPOT', 'USDT')!.free).toBe(10000);
+    });
+
+    it('rests a limit order and fills it at its price once the market crosses it', async () => {
+      const order = await exchange.createLimitOrder({
+        clientOrderId: 'limit-1',
+        symbol: 'BTCUSDT',
+        side: 'BUY',
+        quantity: 10,
+        price: 95,
+      });
+
+      expect(order.status).toBe('NEW');
+      expect(balance('SPOT', 'USDT')!.locked).toBeCloseTo(950 * 1.001);
+
+      feed.price = 94;
+      await exchange.matchOrders();
+
+      const filled = await exchange.getOrder('BTCUSDT', order.orderId);
+      expect(feed.advance).toHaveBeenCalledTimes(1);
+      expect(filled.status).toBe('FILLED');
+      expect(parseFloat(filled.fills![0].price)).toBeCloseTo(95);
+      expect(balance('SPOT', 'USDT')!.free).toBeCloseTo(10000 - 950 - 0.95);
+      expect(balance('SPOT', 'USDT')!.locked).toBeCloseTo(0);
+    });
+
+    it('releases the reserved balance when an order is cancelled', async () => {
+      const order = await exchange.createLimitOrder({
+        clientOrderId: 'limit-1',
+        symbol: 'BTCUSDT',
+        side: 'BUY',
+        quantity: 10,
+        price: 95,
+      });
+
+      await exchange.cancelOrder('BTCUSDT', order.orderId);
+
+      expect((await exchange.getOrder('BTCUSDT', order.orderId)).status).toBe('CANCELED');
+      expect(balance('SPOT', 'USDT')!.free).toBeCloseTo(10000);
+      expect(balance('SPOT', 'USDT')!.locked).toBeCloseTo(0);
+      await expect(exchange.cancelOrder('BTCUSDT', order.orderId)).rejects.toThrow(
+        InvalidOrderError
+      );
+    });
+
+    it('triggers a stop loss once the price reaches it and fills no worse than its limit', async () => {
+      exchange.setBalance('SPOT', 'BTC', 1);
+      const order = await exchange.createStopLossOrder({
+        clientOrderId: 'stop-1',
+        symbol: 'BTCUSDT',
+        side: 'SELL',
+        quantity: 1,
+        stopPrice: 90,
+        limitPrice: 89,
+      });
+
+      feed.price = 95;
+      await exchange.matchOrders();
+      expect((await exchange.getOrder('BTCUSDT', order.orderId)).status).toBe('NEW');
+
+      feed.price = 89.5;
+      await exchange.matchOrders();
+
+      const filled = await exchange.getOrder('BTCUSDT', order.orderId);
+      expect(filled.status).toBe('FILLED');
+      expect(parseFloat(filled.fills![0].price)).toBeCloseTo(89);
+      expect(balance('SPOT', 'BTC')!.free).toBeCloseTo(0);
+      expect(balance('SPOT', 'USDT')!.free).toBeCloseTo(10000 + 89 - 0.089);
+    });
+
+    it('rejects a stop the current price has already reached', async () => {
+      exchange.setBalance('SPOT', 'BTC', 1);
+
+      await expect(
+        exchange.createStopLossOrder({
+          clientOrderId: 'stop-1',
+          symbol: 'BTCUSDT',
+          side: 'SELL',
+          quantity: 1,
+          stopPrice: 100,
+        })
+      ).rejects.toThrow('Stop price 100 would trigger immediately at the current price 100');
+    });
+  });
+
+  describe('futures', () => {
+    it('moves the wallet by realised PnL and fees when a position closes', async () => {
+      await exchange.createFuturesMarketOrder({
+        clientOrderId: 'open-1',
+        symbol: 'BTCUSDT',
+        side: 'BUY',
+        quantity: 1,
+      });
+
+      feed.price = 110;
+      const close = await exchange.createFuturesMarketOrder({
+        clientOrderId: 'close-1',
+        symbol: 'BTCUSDT',
+        side: 'SELL',
+        quantity: 2,
+        reduceOnly: true,
+      });
+
+      // Reduce-only is capped at the position size
+      expect(close.executedQty).toBe(1);
+      expect(balance('FUTURE', 'USDT')!.free).toBeCloseTo(10000 - 0.101 + (108.9 - 101) - 0.1089);
+    });
+
+    it('expires a reduce-only order when there is no position', async () => {
+      const order = await exchange.createFuturesMarketOrder({
+        clientOrderId: 'close-1',
+        symbol: 'BTCUSDT',
+        side: 'SELL',
+        quantity: 1,
+        reduceOnly: true,
+      });
+
+      expect(order.status).toBe('EXPIRED');
+      expect(order.executedQty).toBe(0);
+      expect(balance('FUTURE', 'USDT')!.free).toBe(10000);
+    });
+  });
+});
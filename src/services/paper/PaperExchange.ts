@@ -0,0 +1,755 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createModuleLogger } from '../../utils/logger';
+import { InsufficientBalanceError, InvalidOrderError } from '../../utils/errors';
+import { ExchangeAdapter, OrderExchange } from '../exchange/ExchangeAdapter';
+import {
+  Balance,
+  FuturesBalance,
+  FuturesLimitOrderParams,
+  FuturesMarketOrderParams,
+  FuturesPositionMode,
+  FuturesPositionSide,
+  FuturesStopMarketParams,
+  LimitOrderParams,
+  MarketOrderParams,
+  Order,
+  StopLossParams,
+} from '../exchange/types';
+import { PriceFeed } from './PriceFeed';
+import databaseService from '../../database';
+import config from '../../config';
+
+const logger = createModuleLogger('PaperExchange');
+
+// Balances and quantities this close to zero are rounding noise
+const EPSILON = 1e-9;
+
+type Account = 'SPOT' | 'FUTURE';
+
+export interface PaperBalance {
+  account: Account;
+  asset: string;
+  free: number;
+  locked: number;
+  updated_at: string;
+}
+
+interface PaperOrder {
+  id: string;
+  client_order_id: string;
+  trading_type: Account;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: 'MARKET' | 'LIMIT' | 'STOP_LOSS_LIMIT' | 'STOP_MARKET';
+  quantity: number;
+  price: number | null;
+  stop_price: number | null;
+  position_side: FuturesPositionSide | null;
+  reduce_only: number;
+  status: 'NEW' | 'FILLED' | 'CANCELED' | 'EXPIRED';
+  triggered: number;
+  executed_qty: number;
+  cummulative_quote_qty: number;
+  commission: number;
+  commission_asset: string | null;
+  locked_asset: string | null;
+  locked_amount: number;
+  created_at: string;
+}
+
+interface NewPaperOrder {
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: PaperOrder['type'];
+  quantity: number;
+  price?: number; // Limit price
+  stopPrice?: number;
+  positionSide?: FuturesPositionSide;
+  reduceOnly?: boolean;
+}
+
+export interface PaperExchangeOptions {
+  slippagePercent?: number;
+  feePercent?: number;
+  intervalMs?: number;
+}
+
+/**
+ * Simulated exchange for paper trading. Offers the order surface OrderManager uses from
+ * real exchanges, keeps virtual balances in SQLite and fills orders against a price feed:
+ * market orders right away with slippage, limit and stop orders once the price crosses them.
+ * Futures margin isn't modelled - the futures wallet only moves by realised PnL and fees.
+ * Symbol info (assets, filters) comes from the real exchange passed in.
+ */
+export class PaperExchange implements OrderExchange {
+  private timer: NodeJS.Timeout | null = null;
+  private matching = false;
+
+  private readonly slippageRate: number;
+  private readonly feeRate: number;
+  private readonly intervalMs: number;
+
+  constructor(
+    private marketData: ExchangeAdapter,
+    private priceFeed: PriceFeed,
+    options: PaperExchangeOptions = {}
+  ) {
+    this.slippageRate = (options.slippagePercent ?? config.paperTrading.slippagePercent) / 100;
+    this.feeRate = (options.feePercent ?? config.paperTrading.feePercent) / 100;
+    this.intervalMs = options.intervalMs ?? config.paperTrading.matchingIntervalMs;
+
+    this.seedBalances();
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    logger.info('Paper exchange started', { intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Paper exchange stopped');
+    }
+  }
+
+  // ========== Market Data ==========
+
+  getPrice(symbol: string): Promise<number> {
+    return this.priceFeed.getPrice(symbol, 'SPOT');
+  }
+
+  getFuturesPrice(symbol: string): Promise<number> {
+    return this.priceFeed.getPrice(symbol, 'FUTURE');
+  }
+
+  // ========== Account ==========
+
+  async getBalance(asset: string): Promise<Balance> {
+    const balance = this.getBalanceRow('SPOT', asset);
+
+    return { asset, free: balance.free.toString(), locked: balance.locked.toString() };
+  }
+
+  async getFuturesBalance(asset: string = 'USDT'): Promise<FuturesBalance> {
+    const balance = this.getBalanceRow('FUTURE', asset);
+
+    return {
+      asset,
+      balance: balance.free.toString(),
+      availableBalance: balance.free.toString(),
+    };
+  }
+
+  getBalances(): PaperBalance[] {
+    const db = databaseService.getDatabase();
+
+    return db
+      .prepare('SELECT * FROM paper_balances ORDER BY account, asset')
+      .all() as PaperBalance[];
+  }
+
+  /**
+   * Fund or reset a virtual balance. Amounts reserved by open orders stay reserved.
+   */
+  setBalance(account: Account, asset: string, amount: number): PaperBalance {
+    const db = databaseService.getDatabase();
+
+    db.prepare(
+      `INSERT INTO paper_balances (account, asset, free) VALUES (?, ?, ?)
+       ON CONFLICT(account, asset) DO UPDATE SET free = excluded.free,
+         updated_at = CURRENT_TIMESTAMP`
+    ).run(account, asset, amount);
+
+    logger.info('Paper balance set', { account, asset, amount });
+
+    return this.getBalanceRow(account, asset);
+  }
+
+  // ========== Orders ==========
+
+  createMarketOrder(params: MarketOrderParams): Promise<Order> {
+    return this.placeOrder('SPOT', { ...params, type: 'MARKET' });
+  }
+
+  createLimitOrder(params: LimitOrderParams): Promise<Order> {
+    return this.placeOrder('SPOT', { ...params, type: 'LIMIT' });
+  }
+
+  createStopLossOrder(params: StopLossParams): Promise<Order> {
+    return this.placeOrder('SPOT', {
+      clientOrderId: params.clientOrderId,
+      symbol: params.symbol,
+      side: params.side,
+      type: 'STOP_LOSS_LIMIT',
+      quantity: params.quantity,
+      price: params.limitPrice ?? params.stopPrice,
+      stopPrice: params.stopPrice,
+    });
+  }
+
+  async cancelOrder(_symbol: string, orderId: string): Promise<void> {
+    this.cancel('SPOT', orderId);
+  }
+
+  async getOrder(_symbol: string, orderId: string): Promise<Order> {
+    return this.toOrder(this.getOrderRow('SPOT', orderId));
+  }
+
+  async getOrderByClientId(_symbol: string, clientOrderId: string): Promise<Order | null> {
+    const order = this.findByClientId('SPOT', clientOrderId);
+    return order ? this.toOrder(order) : null;
+  }
+
+  async getOpenOrders(symbol?: string): Promise<Order[]> {
+    return this.getOpenOrderRows('SPOT', symbol).map((order) => this.toOrder(order));
+  }
+
+  // ========== Futures Trading ==========
+
+  // Leverage and position mode only matter for margin, which isn't simulated
+  async setFuturesLeverage(symbol: string, leverage: number): Promise<void> {
+    logger.debug('Paper futures leverage set', { symbol, leverage });
+  }
+
+  async setFuturesPositionMode(mode: FuturesPositionMode): Promise<void> {
+    logger.debug('Paper futures position mode set', { mode });
+  }
+
+  createFuturesMarketOrder(params: FuturesMarketOrderParams): Promise<Order> {
+    return this.placeOrder('FUTURE', { ...params, type: 'MARKET' });
+  }
+
+  createFuturesLimitOrder(params: FuturesLimitOrderParams): Promise<Order> {
+    return this.placeOrder('FUTURE', { ...params, type: 'LIMIT' });
+  }
+
+  createFuturesStopMarketOrder(params: FuturesStopMarketParams): Promise<Order> {
+    const hedged = params.positionSide === 'LONG' || params.positionSide === 'SHORT';
+
+    return this.placeOrder('FUTURE', { ...params, type: 'STOP_MARKET', reduceOnly: !hedged });
+  }
+
+  async cancelFuturesOrder(_symbol: string, orderId: string): Promise<void> {
+    this.cancel('FUTURE', orderId);
+  }
+
+  async getFuturesOrder(_symbol: string, orderId: string): Promise<Order> {
+    return this.toOrder(this.getOrderRow('FUTURE', orderId));
+  }
+
+  async getFuturesOrderByClientId(_symbol: string, clientOrderId: string): Promise<Order | null> {
+    const order = this.findByClientId('FUTURE', clientOrderId);
+    return order ? this.toOrder(order) : null;
+  }
+
+  async getFuturesOpenOrders(symbol?: string): Promise<Order[]> {
+    return this.getOpenOrderRows('FUTURE', symbol).map((order) => this.toOrder(order));
+  }
+
+  // ========== Matching ==========
+
+  /**
+   * Move the price feed forward and fill every resting order the new prices cross
+   */
+  async matchOrders(): Promise<void> {
+    const db = databaseService.getDatabase();
+
+    this.priceFeed.advance();
+
+    const openOrders = db
+      .prepare("SELECT * FROM paper_orders WHERE status = 'NEW' ORDER BY created_at, rowid")
+      .all() as PaperOrder[];
+    const prices = new Map<string, number>();
+
+    for (const order of openOrders) {
+      try {
+        const key = `${order.trading_type}:${order.symbol}`;
+        let price = prices.get(key);
+
+        if (price === undefined) {
+          price = await this.priceFeed.getPrice(order.symbol, order.trading_type);
+          prices.set(key, price);
+        }
+
+        await this.processOrder(order, price, false);
+      } catch (error) {
+        logger.error('Failed to match paper order', {
+          orderId: order.id,
+          symbol: order.symbol,
+          error,
+        });
+      }
+    }
+  }
+
+  private async placeOrder(account: Account, params: NewPaperOrder): Promise<Order> {
+    const db = databaseService.getDatabase();
+
+    // Same client order id means the same order, as on Binance
+    const existing = this.findByClientId(account, params.clientOrderId);
+    if (existing) {
+      return this.toOrder(existing);
+    }
+
+    const price = await this.priceFeed.getPrice(params.symbol, account);
+
+    if (params.stopPrice !== undefined && this.stopReached(params.side, params.stopPrice, price)) {
+      throw new InvalidOrderError(
+        `Stop price ${params.stopPrice} would trigger immediately at the current price ${price}`,
+        { symbol: params.symbol, stopPrice: params.stopPrice, price }
+      );
+    }
+
+    const id = `paper-${uuidv4()}`;
+    const lock = account === 'SPOT' ? await this.getSpotReservation(params, price) : null;
+
+    db.transaction(() => {
+      if (lock) {
+        this.reserve(lock.asset, lock.amount);
+      }
+
+      db.prepare(
+        `INSERT INTO paper_orders (
+          id, client_order_id, trading_type, symbol, side, type, quantity, price, stop_price,
+          position_side, reduce_only, status, locked_asset, locked_amount
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'NEW', ?, ?)`
+      ).run(
+        id,
+        params.clientOrderId,
+        account,
+        params.symbol,
+        params.side,
+        params.type,
+        params.quantity,
+        params.price ?? null,
+        params.stopPrice ?? null,
+        params.positionSide ?? null,
+        params.reduceOnly ? 1 : 0,
+        lock?.asset ?? null,
+        lock?.amount ?? 0
+      );
+    }).immediate();
+
+    logger.info('Paper order placed', {
+      orderId: id,
+      symbol: params.symbol,
+      side: params.side,
+      type: params.type,
+      quantity: params.quantity,
+      price: params.price,
+      stopPrice: params.stopPrice,
+    });
+
+    await this.processOrder(this.getOrderRow(account, id), price, true);
+
+    return this.toOrder(this.getOrderRow(account, id));
+  }
+
+  /**
+   * Fill an order if it executes at this price. Orders filling as they are placed or triggered
+   * take liquidity and pay slippage; resting limit orders fill at their own price.
+   */
+  private async processOrder(
+    order: PaperOrder,
+    price: number,
+    onPlacement: boolean
+  ): Promise<void> {
+    const db = databaseService.getDatabase();
+    let taker = onPlacement;
+
+    if (order.type === 'STOP_LOSS_LIMIT' && !order.triggered) {
+      if (!this.stopReached(order.side, order.stop_price!, price)) {
+        return;
+      }
+
+      db.prepare("UPDATE paper_orders SET triggered = 1 WHERE id = ? AND status = 'NEW'").run(
+        order.id
+      );
+      logger.info('Paper stop triggered', {
+        orderId: order.id,
+        stopPrice: order.stop_price,
+        price,
+      });
+      taker = true;
+    }
+
+    const fillPrice = this.getFillPrice(order, price, taker);
+    if (fillPrice === null) {
+      return;
+    }
+
+    const symbolInfo =
+      order.trading_type === 'FUTURE'
+        ? await this.marketData.getFuturesSymbolInfo(order.symbol)
+        : await this.marketData.getSymbolInfo(order.symbol);
+
+    // Re-read inside the transaction - another process may have filled or cancelled it meanwhile
+    db.transaction(() => {
+      const current = this.getOrderRow(order.trading_type, order.id);
+      if (current.status !== 'NEW') {
+        return;
+      }
+
+      if (current.trading_type === 'FUTURE') {
+        this.settleFuturesFill(current, fillPrice, symbolInfo.quoteAsset);
+      } else {
+        this.settleSpotFill(current, fillPrice, symbolInfo.baseAsset, symbolInfo.quoteAsset);
+      }
+    }).immediate();
+  }
+
+  private getFillPrice(order: PaperOrder, price: number, taker: boolean): number | null {
+    const buy = order.side === 'BUY';
+    const slipped = buy ? price * (1 + this.slippageRate) : price * (1 - this.slippageRate);
+
+    if (order.type === 'MARKET') {
+      return slipped;
+    }
+
+    if (order.type === 'STOP_MARKET') {
+      return this.stopReached(order.side, order.stop_price!, price) ? slipped : null;
+    }
+
+    // Limit orders and triggered stop-limits
+    const limit = order.price!;
+    if (buy ? price > limit : price < limit) {
+      return null;
+    }
+
+    if (!taker) {
+      return limit;
+    }
+
+    return buy ? Math.min(slipped, limit) : Math.max(slipped, limit);
+  }
+
+  private settleSpotFill(
+    order: PaperOrder,
+    fillPrice: number,
+    baseAsset: string,
+    quoteAsset: string
+  ): void {
+    const notional = order.quantity * fillPrice;
+    const fee = notional * this.feeRate;
+
+    this.releaseReservation(order);
+
+    if (order.side === 'BUY') {
+      this.adjustBalance('SPOT', quoteAsset, -(notional + fee));
+      this.adjustBalance('SPOT', baseAsset, order.quantity);
+    } else {
+      this.adjustBalance('SPOT', baseAsset, -order.quantity);
+      this.adjustBalance('SPOT', quoteAsset, notional - fee);
+    }
+
+    this.completeFill(order.id, order.quantity, notional, fee, quoteAsset);
+
+    logger.info('Paper order filled', {
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      fillPrice,
+      fee,
+    });
+  }
+
+  /**
+   * Futures fills net against the position on their side. Orders that may only reduce it are
+   * capped at its size and expire when there is nothing to reduce, like on Binance.
+   */
+  private settleFuturesFill(order: PaperOrder, fillPrice: number, quoteAsset: string): void {
+    const db = databaseService.getDatabase();
+    const positionSide = order.position_side || 'BOTH';
+    const direction = order.side === 'BUY' ? 1 : -1;
+
+    const position = (db
+      .prepare('SELECT * FROM paper_futures_positions WHERE symbol = ? AND position_side = ?')
+      .get(order.symbol, positionSide) as { amount: number; entry_price: number } | undefined) || {
+      amount: 0,
+      entry_price: 0,
+    };
+
+    const reducible =
+      Math.abs(position.amount) > EPSILON && Math.sign(position.amount) !== direction
+        ? Math.abs(position.amount)
+        : 0;
+    const closesOnly =
+      Boolean(order.reduce_only) ||
+      (positionSide === 'LONG' && order.side === 'SELL') ||
+      (positionSide === 'SHORT' && order.side === 'BUY');
+
+    if (closesOnly && reducible === 0) {
+      db.prepare("UPDATE paper_orders SET status = 'EXPIRED' WHERE id = ?").run(order.id);
+      logger.warn('Paper reduce-only order expired, no position to reduce', {
+        orderId: order.id,
+        symbol: order.symbol,
+      });
+      return;
+    }
+
+    const quantity = closesOnly ? Math.min(order.quantity, reducible) : order.quantity;
+    const closing = Math.min(quantity, reducible);
+    const opening = quantity - closing;
+    const realizedPnL = closing * (fillPrice - position.entry_price) * Math.sign(position.amount);
+
+    const amount = position.amount + direction * quantity;
+    let entryPrice = position.entry_price;
+    if (Math.abs(amount) <= EPSILON) {
+      entryPrice = 0;
+    } else if (opening > 0 && closing > 0) {
+      entryPrice = fillPrice; // Flipped to the other side
+    } else if (opening > 0) {
+      const held = Math.abs(position.amount);
+      entryPrice = (held * position.entry_price + opening * fillPrice) / (held + opening);
+    }
+
+    db.prepare(
+      `INSERT INTO paper_futures_positions (symbol, position_side, amount, entry_price)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(symbol, position_side) DO UPDATE SET
+         amount = excluded.amount, entry_price = excluded.entry_price`
+    ).run(order.symbol, positionSide, Math.abs(amount) <= EPSILON ? 0 : amount, entryPrice);
+
+    const notional = quantity * fillPrice;
+    const fee = notional * this.feeRate;
+
+    this.adjustBalance('FUTURE', quoteAsset, realizedPnL - fee);
+    this.completeFill(order.id, quantity, notional, fee, quoteAsset);
+
+    logger.info('Paper futures order filled', {
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      positionSide,
+      quantity,
+      fillPrice,
+      realizedPnL,
+      fee,
+    });
+  }
+
+  private completeFill(
+    orderId: string,
+    quantity: number,
+    notional: number,
+    fee: number,
+    feeAsset: string
+  ): void {
+    const db = databaseService.getDatabase();
+
+    db.prepare(
+      `UPDATE paper_orders
+       SET status = 'FILLED', executed_qty = ?, cummulative_quote_qty = ?, commission = ?,
+           commission_asset = ?, locked_amount = 0
+       WHERE id = ?`
+    ).run(quantity, notional, fee, feeAsset, orderId);
+  }
+
+  private cancel(account: Account, orderId: string): void {
+    const db = databaseService.getDatabase();
+
+    db.transaction(() => {
+      const order = this.getOrderRow(account, orderId);
+
+      if (order.status !== 'NEW') {
+        throw new InvalidOrderError(`Paper order ${orderId} is already ${order.status}`, {
+          orderId,
+          status: order.status,
+        });
+      }
+
+      this.releaseReservation(order);
+      db.prepare("UPDATE paper_orders SET status = 'CANCELED', locked_amount = 0 WHERE id = ?").run(
+        orderId
+      );
+    }).immediate();
+
+    logger.info('Paper order cancelled', { orderId });
+  }
+
+  // ========== Balances ==========
+
+  /**
+   * Balance a spot order holds while it is open: the base asset for sells, the worst-case
+   * cost including fees for buys
+   */
+  private async getSpotReservation(
+    params: NewPaperOrder,
+    price: number
+  ): Promise<{ asset: string; amount: number }> {
+    const { baseAsset, quoteAsset } = await this.marketData.getSymbolInfo(params.symbol);
+
+    if (params.side === 'SELL') {
+      return { asset: baseAsset, amount: params.quantity };
+    }
+
+    const worstPrice = params.type === 'MARKET' ? price * (1 + this.slippageRate) : params.price!;
+    return { asset: quoteAsset, amount: params.quantity * worstPrice * (1 + this.feeRate) };
+  }
+
+  private reserve(asset: string, amount: number): void {
+    const db = databaseService.getDatabase();
+    const balance = this.getBalanceRow('SPOT', asset);
+
+    if (balance.free + EPSILON < amount) {
+      throw new InsufficientBalanceError(
+        `Insufficient paper ${asset} balance: ${amount} needed, ${balance.free} available`,
+        { asset, needed: amount, available: balance.free }
+      );
+    }
+
+    db.prepare(
+      `UPDATE paper_balances SET free = free - ?, locked = locked + ?, updated_at = CURRENT_TIMESTAMP
+       WHERE account = 'SPOT' AND asset = ?`
+    ).run(amount, amount, asset);
+  }
+
+  private releaseReservation(order: PaperOrder): void {
+    if (!order.locked_asset || order.locked_amount <= 0) {
+      return;
+    }
+
+    const db = databaseService.getDatabase();
+    db.prepare(
+      `UPDATE paper_balances SET free = free + ?, locked = MAX(locked - ?, 0),
+         updated_at = CURRENT_TIMESTAMP
+       WHERE account = ? AND asset = ?`
+    ).run(order.locked_amount, order.locked_amount, order.trading_type, order.locked_asset);
+  }
+
+  private adjustBalance(account: Account, asset: string, delta: number): void {
+    const db = databaseService.getDatabase();
+
+    db.prepare(
+      `INSERT INTO paper_balances (account, asset, free) VALUES (?, ?, ?)
+       ON CONFLICT(account, asset) DO UPDATE SET free = free + excluded.free,
+         updated_at = CURRENT_TIMESTAMP`
+    ).run(account, asset, delta);
+  }
+
+  private getBalanceRow(account: Account, asset: string): PaperBalance {
+    const db = databaseService.getDatabase();
+
+    return (
+      (db
+        .prepare('SELECT * FROM paper_balances WHERE account = ? AND asset = ?')
+        .get(account, asset) as PaperBalance | undefined) || {
+        account,
+        asset,
+        free: 0,
+        locked: 0,
+        updated_at: new Date().toISOString(),
+      }
+    );
+  }
+
+  /**
+   * Give each paper account its configured starting balances the first time it is used
+   */
+  private seedBalances(): void {
+    const db = databaseService.getDatabase();
+    const insert = db.prepare(
+      'INSERT OR IGNORE INTO paper_balances (account, asset, free) VALUES (?, ?, ?)'
+    );
+
+    for (const account of ['SPOT', 'FUTURE'] as const) {
+      for (const [asset, amount] of Object.entries(config.paperTrading.initialBalances)) {
+        insert.run(account, asset, amount);
+      }
+    }
+  }
+
+  // ========== Lookups ==========
+
+  private getOrderRow(account: Account, orderId: string): PaperOrder {
+    const db = databaseService.getDatabase();
+
+    const order = db
+      .prepare('SELECT * FROM paper_orders WHERE id = ? AND trading_type = ?')
+      .get(orderId, account) as PaperOrder | undefined;
+
+    if (!order) {
+      throw new InvalidOrderError(`Unknown paper order ${orderId}`, { orderId });
+    }
+
+    return order;
+  }
+
+  private findByClientId(account: Account, clientOrderId: string): PaperOrder | null {
+    const db = databaseService.getDatabase();
+
+    return (
+      (db
+        .prepare('SELECT * FROM paper_orders WHERE client_order_id = ? AND trading_type = ?')
+        .get(clientOrderId, account) as PaperOrder | undefined) || null
+    );
+  }
+
+  private getOpenOrderRows(account: Account, symbol?: string): PaperOrder[] {
+    const db = databaseService.getDatabase();
+
+    return db
+      .prepare(
+        `SELECT * FROM paper_orders
+         WHERE trading_type = ? AND status = 'NEW' ${symbol ? 'AND symbol = ?' : ''}
+         ORDER BY created_at, rowid`
+      )
+      .all(account, ...(symbol ? [symbol] : [])) as PaperOrder[];
+  }
+
+  private stopReached(side: 'BUY' | 'SELL', stopPrice: number, price: number): boolean {
+    return side === 'SELL' ? price <= stopPrice : price >= stopPrice;
+  }
+
+  private toOrder(order: PaperOrder): Order {
+    return {
+      orderId: order.id,
+      clientOrderId: order.client_order_id,
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      quantity: order.quantity,
+      price: order.price ?? undefined,
+      stopPrice: order.stop_price ?? undefined,
+      status: order.status,
+      executedQty: order.executed_qty,
+      cummulativeQuoteQty: order.cummulative_quote_qty,
+      fills:
+        order.executed_qty > 0
+          ? [
+              {
+                price: (order.cummulative_quote_qty / order.executed_qty).toString(),
+                qty: order.executed_qty.toString(),
+                commission: order.commission.toString(),
+                commissionAsset: order.commission_asset || '',
+              },
+            ]
+          : [],
+      transactTime: Date.parse(`${order.created_at.replace(' ', 'T')}Z`),
+    };
+  }
+
+  private async tick(): Promise<void> {
+    // Skip this round if the previous one is still waiting on prices
+    if (this.matching) {
+      return;
+    }
+
+    this.matching = true;
+    try {
+      await this.matchOrders();
+    } catch (error) {
+      logger.error('Paper order matching failed', { error });
+    } finally {
+      this.matching = false;
+    }
+  }
+}
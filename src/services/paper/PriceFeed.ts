@@ -0,0 +1,92 @@
+import fs from 'fs';
+import { createModuleLogger } from '../../utils/logger';
+import { ExchangeAdapter } from '../exchange/ExchangeAdapter';
+import config from '../../config';
+
+const logger = createModuleLogger('PriceFeed');
+
+/**
+ * Prices the paper exchange fills orders against
+ */
+export interface PriceFeed {
+  getPrice(symbol: string, tradingType: 'SPOT' | 'FUTURE'): Promise<number>;
+  advance(): void; // Called once per matching round
+}
+
+/**
+ * Live prices from an exchange's market data - no account access needed
+ */
+export class MarketPriceFeed implements PriceFeed {
+  constructor(private exchange: ExchangeAdapter) {}
+
+  getPrice(symbol: string, tradingType: 'SPOT' | 'FUTURE'): Promise<number> {
+    return tradingType === 'FUTURE'
+      ? this.exchange.getFuturesPrice(symbol)
+      : this.exchange.getPrice(symbol);
+  }
+
+  advance(): void {}
+}
+
+/**
+ * Replays recorded prices from a CSV file of `timestamp,symbol,price` rows, moving one
+ * timestamp forward per matching round. A symbol keeps its last price until it changes.
+ */
+export class CsvPriceFeed implements PriceFeed {
+  private rows: { timestamp: number; symbol: string; price: number }[];
+  private cursor = 0;
+  private prices = new Map<string, number>();
+
+  constructor(private file: string) {
+    this.rows = fs
+      .readFileSync(file, 'utf-8')
+      .split(/\r?\n/)
+      .map((line) => line.split(',').map((part) => part.trim()))
+      // Skips the header and blank lines along with anything else that isn't a price row
+      .filter(([, symbol, price]) => symbol && !isNaN(parseFloat(price)))
+      .map(([timestamp, symbol, price]) => ({
+        timestamp: isNaN(Number(timestamp)) ? Date.parse(timestamp) : Number(timestamp),
+        symbol: symbol.toUpperCase(),
+        price: parseFloat(price),
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    logger.info('Loaded recorded prices', { file, rows: this.rows.length });
+
+    this.advance();
+  }
+
+  async getPrice(symbol: string): Promise<number> {
+    const price = this.prices.get(symbol);
+
+    if (price === undefined) {
+      throw new Error(`No recorded price for ${symbol} in ${this.file}`);
+    }
+
+    return price;
+  }
+
+  advance(): void {
+    if (this.cursor >= this.rows.length) {
+      return;
+    }
+
+    const timestamp = this.rows[this.cursor].timestamp;
+    while (this.cursor < this.rows.length && this.rows[this.cursor].timestamp === timestamp) {
+      const row = this.rows[this.cursor++];
+      this.prices.set(row.symbol, row.price);
+    }
+
+    if (this.cursor === this.rows.length) {
+      logger.info('Reached the end of the recorded prices, holding the last ones', {
+        file: this.file,
+      });
+    }
+  }
+}
+
+export function createPriceFeed(exchange: ExchangeAdapter): PriceFeed {
+  return config.paperTrading.priceFeed === 'csv'
+    ? new CsvPriceFeed(config.paperTrading.priceFile)
+    : new MarketPriceFeed(exchange);
+}
@@ -0,0 +1,43 @@
+import { Position } from '../services/OrderManager';
+import databaseService from '../database';
+
+/**
+ * Insert a position with its filled entry order `entry-<id>`. Unset columns default to an open
+ * 1 BTCUSDT spot long at 100 on Binance. The entry order was last touched an hour ago, so its
+ * symbol doesn't count as recently traded.
+ */
+export const insertPosition = (id: string, columns: Partial<Position> = {}): void => {
+  const db = databaseService.getDatabase();
+  const position: Partial<Position> = {
+    symbol: 'BTCUSDT',
+    side: 'LONG',
+    entry_price: 100,
+    quantity: 1,
+    status: 'OPEN',
+    trading_type: 'SPOT',
+    paper: 0,
+    exchange: 'binance',
+    ...columns,
+    id,
+    entry_order_id: `entry-${id}`,
+  };
+
+  db.prepare(
+    `INSERT INTO orders (id, symbol, side, type, quantity, status, trading_type, paper, exchange,
+       updated_at)
+     VALUES (?, ?, ?, 'MARKET', ?, 'FILLED', ?, ?, ?, datetime('now', '-1 hour'))`
+  ).run(
+    position.entry_order_id,
+    position.symbol,
+    position.side === 'LONG' ? 'BUY' : 'SELL',
+    position.quantity,
+    position.trading_type,
+    position.paper,
+    position.exchange
+  );
+
+  const keys = Object.keys(position);
+  db.prepare(
+    `INSERT INTO positions (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`
+  ).run(...Object.values(position));
+};
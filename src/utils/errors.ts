@@ -1,14 +1,18 @@
 export enum ErrorType {
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   BINANCE_API_ERROR = 'BINANCE_API_ERROR',
+  BYBIT_API_ERROR = 'BYBIT_API_ERROR',
   INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
   RISK_LIMIT_EXCEEDED = 'RISK_LIMIT_EXCEEDED',
   NETWORK_ERROR = 'NETWORK_ERROR',
   DATABASE_ERROR = 'DATABASE_ERROR',
   AUTHENTICATION_ERROR = 'AUTHENTICATION_ERROR',
   DUPLICATE_SIGNAL = 'DUPLICATE_SIGNAL',
+  STALE_SIGNAL = 'STALE_SIGNAL',
   INVALID_SYMBOL = 'INVALID_SYMBOL',
   ORDER_FAILED = 'ORDER_FAILED',
+  INVALID_ORDER = 'INVALID_ORDER',
+  ORDER_REJECTED = 'ORDER_REJECTED',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
 
@@ -49,6 +53,13 @@ export class BinanceApiError extends TradingError {
   }
 }
 
+export class BybitApiError extends TradingError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(ErrorType.BYBIT_API_ERROR, message, details, 502);
+    this.name = 'BybitApiError';
+  }
+}
+
 export class InsufficientBalanceError extends TradingError {
   constructor(message: string, details?: any) {
     super(ErrorType.INSUFFICIENT_BALANCE, message, details, 400);
@@ -76,3 +87,32 @@ export class DuplicateSignalError extends TradingError {
     this.name = 'DuplicateSignalError';
   }
 }
+
+export class InvalidSymbolError extends TradingError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(ErrorType.INVALID_SYMBOL, message, details, 400);
+    this.name = 'InvalidSymbolError';
+  }
+}
+
+export class StaleSignalError extends TradingError {
+  constructor(message: string = 'Signal is too old') {
+    super(ErrorType.STALE_SIGNAL, message, undefined, 422);
+    this.name = 'StaleSignalError';
+  }
+}
+
+export class InvalidOrderError extends TradingError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(ErrorType.INVALID_ORDER, message, details, 400);
+    this.name = 'InvalidOrderError';
+  }
+}
+
+// The exchange answered an order with a rejection, so it is not live
+export class OrderRejectedError extends TradingError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(ErrorType.ORDER_REJECTED, message, details, 400);
+    this.name = 'OrderRejectedError';
+  }
+}
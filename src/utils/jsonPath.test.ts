@@ -0,0 +1,66 @@
+import { getJsonPath, parseJsonPath } from './jsonPath';
+
+describe('parseJsonPath', () => {
+  it('splits a path into keys and indexes', () => {
+    expect(parseJsonPath(`$.data.orders[0]['signal-type']["it's"][-1]`)).toEqual([
+      'data',
+      'orders',
+      0,
+      'signal-type',
+      "it's",
+      -1,
+    ]);
+  });
+
+  it('unescapes quoted keys', () => {
+    expect(parseJsonPath(`$['it\\'s']`)).toEqual(["it's"]);
+  });
+
+  it('parses the root on its own', () => {
+    expect(parseJsonPath('$')).toEqual([]);
+  });
+
+  it('rejects a path without the root', () => {
+    expect(() => parseJsonPath('data.side')).toThrow('JSONPath "data.side" must start with $');
+  });
+
+  it.each([
+    ['$.orders[*]', 'JSONPath "$.orders[*]" is invalid at position 8: "[*]"'],
+    ['$..side', 'JSONPath "$..side" is invalid at position 1: "..side"'],
+    ['$.1st', 'JSONPath "$.1st" is invalid at position 1: ".1st"'],
+  ])('rejects %s', (path, message) => {
+    expect(() => parseJsonPath(path)).toThrow(message);
+  });
+});
+
+describe('getJsonPath', () => {
+  const payload = {
+    data: { orders: [{ side: 'long' }, { side: 'short' }], 'signal-type': 'entry' },
+    price: null,
+  };
+
+  it('looks up keys and array indexes', () => {
+    expect(getJsonPath(payload, '$.data.orders[1].side')).toBe('short');
+    expect(getJsonPath(payload, `$.data['signal-type']`)).toBe('entry');
+  });
+
+  it('counts negative indexes from the end', () => {
+    expect(getJsonPath(payload, '$.data.orders[-2].side')).toBe('long');
+  });
+
+  it('returns the whole payload for the root', () => {
+    expect(getJsonPath(payload, '$')).toBe(payload);
+  });
+
+  it.each([
+    '$.missing',
+    '$.data.orders[2].side',
+    '$.data.orders[-3]',
+    '$.price.value',
+    '$.data.orders.side',
+    '$.data[0]',
+    '$.data.orders[0].side.length',
+  ])('returns undefined for %s', (path) => {
+    expect(getJsonPath(payload, path)).toBeUndefined();
+  });
+});
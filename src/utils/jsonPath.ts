@@ -0,0 +1,63 @@
+/**
+ * Minimal JSONPath-style lookups for mapping external payloads: `$` followed by `.key`,
+ * `['key']` / `["key"]` and `[index]` segments (negative indexes count from the end), e.g.
+ * `$.data.orders[0].side` or `$['signal-type']`. Wildcards and filters aren't supported.
+ */
+export type JsonPathSegment = string | number;
+
+const SEGMENT =
+  /^(?:\.([A-Za-z_$][\w$-]*)|\[(-?\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\])/;
+
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  if (!path.startsWith('$')) {
+    throw new Error(`JSONPath "${path}" must start with $`);
+  }
+
+  const segments: JsonPathSegment[] = [];
+  let rest = path.slice(1);
+
+  while (rest) {
+    const match = SEGMENT.exec(rest);
+
+    if (!match) {
+      const position = path.length - rest.length;
+      throw new Error(`JSONPath "${path}" is invalid at position ${position}: "${rest}"`);
+    }
+
+    const [whole, name, index, singleQuoted, doubleQuoted] = match;
+    if (index !== undefined) {
+      segments.push(parseInt(index, 10));
+    } else {
+      segments.push((name ?? singleQuoted ?? doubleQuoted).replace(/\\(.)/g, '$1'));
+    }
+
+    rest = rest.slice(whole.length);
+  }
+
+  return segments;
+}
+
+/**
+ * Value at the path, undefined when any step along it is missing
+ */
+export function getJsonPath(data: unknown, path: string | JsonPathSegment[]): unknown {
+  const segments = typeof path === 'string' ? parseJsonPath(path) : path;
+  let current: unknown = data;
+
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+
+    if (typeof segment === 'number') {
+      if (!Array.isArray(current)) {
+        return undefined;
+      }
+      current = current[segment < 0 ? current.length + segment : segment];
+    } else {
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+
+  return current;
+}
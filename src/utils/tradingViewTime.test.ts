@@ -0,0 +1,35 @@
+import { intervalToMs, parseSignalTime } from './tradingViewTime';
+
+describe('parseSignalTime', () => {
+  it('parses an ISO 8601 time', () => {
+    expect(parseSignalTime('2026-03-01T12:30:00Z')).toEqual(new Date('2026-03-01T12:30:00Z'));
+  });
+
+  it('parses epoch milliseconds and seconds', () => {
+    const time = new Date('2026-03-01T12:30:00Z');
+
+    expect(parseSignalTime(time.getTime())).toEqual(time);
+    expect(parseSignalTime(String(time.getTime() / 1000))).toEqual(time);
+  });
+
+  it.each(['', 'yesterday', '12:30', '-1700000000'])('returns null for %j', (value) => {
+    expect(parseSignalTime(value)).toBeNull();
+  });
+});
+
+describe('intervalToMs', () => {
+  it.each([
+    ['1S', 1000],
+    ['15', 15 * 60 * 1000],
+    ['240', 4 * 60 * 60 * 1000],
+    ['1D', 24 * 60 * 60 * 1000],
+    ['d', 24 * 60 * 60 * 1000],
+    ['W', 7 * 24 * 60 * 60 * 1000],
+  ])('gives the length of a %s bar', (interval, ms) => {
+    expect(intervalToMs(interval)).toBe(ms);
+  });
+
+  it.each(['', '0', '1H', '15m5', 'D1'])('returns null for %j', (interval) => {
+    expect(intervalToMs(interval)).toBeNull();
+  });
+});
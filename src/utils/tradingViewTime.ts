@@ -0,0 +1,45 @@
+/**
+ * Helpers for the time placeholders TradingView fills into alert messages: {{time}} (bar open
+ * time) and {{timenow}} (when the alert fired) are ISO 8601 UTC strings, {{interval}} is the
+ * chart resolution, e.g. "1S", "15" (minutes), "240", "1D", "W".
+ */
+
+const INTERVAL = /^(\d*)([SDWM]?)$/;
+
+const UNIT_MS: Record<string, number> = {
+  S: 1000,
+  '': 60 * 1000,
+  D: 24 * 60 * 60 * 1000,
+  W: 7 * 24 * 60 * 60 * 1000,
+  M: 30 * 24 * 60 * 60 * 1000, // Close enough for a month-long bar
+};
+
+/**
+ * Date for an ISO 8601 string or an epoch time in seconds or milliseconds, null if unparseable
+ */
+export function parseSignalTime(value: string | number): Date | null {
+  const text = String(value).trim();
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const epoch = Number(text);
+    // Anything below 1e12 ms (2001) is taken to be seconds
+    return new Date(epoch < 1e12 ? epoch * 1000 : epoch);
+  }
+
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+/**
+ * Length of a bar at the given TradingView resolution, null if it isn't one
+ */
+export function intervalToMs(interval: string): number | null {
+  const match = INTERVAL.exec(interval.trim().toUpperCase());
+
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  const count = match[1] ? parseInt(match[1], 10) : 1;
+  return count > 0 ? count * UNIT_MS[match[2]] : null;
+}